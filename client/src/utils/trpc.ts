@@ -2,9 +2,19 @@ import { createTRPCClient, httpBatchLink, loggerLink } from '@trpc/client';
 import type { AppRouter } from '../../../server/src';
 import superjson from 'superjson';
 
+// Key under which the access token from auth.login is kept
+export const AUTH_TOKEN_STORAGE_KEY = 'authToken';
+
 export const trpc = createTRPCClient<AppRouter>({
   links: [
-    httpBatchLink({ url: '/api', transformer: superjson }),
+    httpBatchLink({
+      url: '/api',
+      transformer: superjson,
+      headers() {
+        const token = localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+        return token ? { authorization: `Bearer ${token}` } : {};
+      },
+    }),
     loggerLink({
           enabled: (opts) =>
             (typeof window !== 'undefined') ||
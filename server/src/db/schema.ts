@@ -1,15 +1,25 @@
-import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, date, foreignKey } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { serial, text, pgTable, timestamp, numeric, integer, boolean, pgEnum, date, foreignKey, jsonb, index, uniqueIndex, type AnyPgColumn } from 'drizzle-orm/pg-core';
+import { relations, sql } from 'drizzle-orm';
 
 // Enums
-export const userRoleEnum = pgEnum('user_role', ['admin', 'doctor', 'cashier']);
+export const userRoleEnum = pgEnum('user_role', ['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist']);
 export const genderEnum = pgEnum('gender', ['male', 'female', 'other']);
 export const paymentMethodEnum = pgEnum('payment_method', ['cash', 'card', 'insurance']);
 export const prescriptionStatusEnum = pgEnum('prescription_status', ['pending', 'filled', 'partially_filled']);
+export const lockoutScopeEnum = pgEnum('lockout_scope', ['email', 'ip']);
+export const auditActionEnum = pgEnum('audit_action', ['create', 'read', 'update', 'delete']);
 export const medicineCategoryEnum = pgEnum('medicine_category', [
   'pain_relievers', 'antibiotics', 'antiviral', 'antifungal', 'cardiovascular',
   'respiratory', 'gastrointestinal', 'diabetes', 'vitamins', 'other'
 ]);
+export const allergenTypeEnum = pgEnum('allergen_type', ['medicine', 'category', 'substance']);
+export const allergySeverityEnum = pgEnum('allergy_severity', ['mild', 'moderate', 'severe', 'life_threatening']);
+export const allergyStatusEnum = pgEnum('allergy_status', ['candidate', 'active']);
+export const encounterStatusEnum = pgEnum('encounter_status', ['open', 'closed', 'cancelled']);
+export const interactionSeverityEnum = pgEnum('interaction_severity', ['minor', 'moderate', 'major', 'contraindicated']);
+export const conditionStatusEnum = pgEnum('condition_status', ['active', 'resolved']);
+export const policyPriorityEnum = pgEnum('policy_priority', ['primary', 'secondary']);
+export const documentCategoryEnum = pgEnum('document_category', ['referral', 'id_card', 'lab_result', 'other']);
 
 // Users table
 export const usersTable = pgTable('users', {
@@ -25,7 +35,230 @@ export const usersTable = pgTable('users', {
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// Sessions table: one row per login, holding the current refresh token hash
+export const sessionsTable = pgTable('sessions', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  refresh_token_hash: text('refresh_token_hash').notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  last_used_at: timestamp('last_used_at').defaultNow().notNull(),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'sessions_user_fk'
+  }).onDelete('cascade')
+}));
+
+// Password history table: hashes of recently used passwords, for reuse checks
+export const passwordHistoryTable = pgTable('password_history', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  password_hash: text('password_hash').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'password_history_user_fk'
+  }).onDelete('cascade')
+}));
+
+// Password reset tokens table: single-use, time-limited, stored hashed
+export const passwordResetTokensTable = pgTable('password_reset_tokens', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'password_reset_tokens_user_fk'
+  }).onDelete('cascade')
+}));
+
+// Invitations table: staff accounts are created by accepting an admin's invitation
+export const invitationsTable = pgTable('invitations', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  role: userRoleEnum('role').notNull(),
+  first_name: text('first_name').notNull(),
+  last_name: text('last_name').notNull(),
+  phone: text('phone'),
+  token_hash: text('token_hash').notNull().unique(),
+  expires_at: timestamp('expires_at').notNull(),
+  invited_by: integer('invited_by'),
+  accepted_at: timestamp('accepted_at'),
+  accepted_user_id: integer('accepted_user_id'),
+  revoked_at: timestamp('revoked_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  invitedByFk: foreignKey({
+    columns: [table.invited_by],
+    foreignColumns: [usersTable.id],
+    name: 'invitations_invited_by_fk'
+  }),
+  acceptedUserFk: foreignKey({
+    columns: [table.accepted_user_id],
+    foreignColumns: [usersTable.id],
+    name: 'invitations_accepted_user_fk'
+  })
+}));
+
+// Two-factor enrollment table: one TOTP secret per user, enabled once confirmed
+export const userTwoFactorTable = pgTable('user_two_factor', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull().unique(),
+  secret: text('secret').notNull(),
+  enabled_at: timestamp('enabled_at'),
+  last_used_step: integer('last_used_step'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'user_two_factor_user_fk'
+  }).onDelete('cascade')
+}));
+
+// Two-factor recovery codes table: single-use backup codes, stored hashed
+export const twoFactorRecoveryCodesTable = pgTable('two_factor_recovery_codes', {
+  id: serial('id').primaryKey(),
+  user_id: integer('user_id').notNull(),
+  code_hash: text('code_hash').notNull(),
+  used_at: timestamp('used_at'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'two_factor_recovery_codes_user_fk'
+  }).onDelete('cascade')
+}));
+
+// Two-factor policies table: whether each role must use a second factor
+export const twoFactorPoliciesTable = pgTable('two_factor_policies', {
+  role: userRoleEnum('role').primaryKey(),
+  required: boolean('required').notNull().default(false),
+  updated_by: integer('updated_by'),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  updatedByFk: foreignKey({
+    columns: [table.updated_by],
+    foreignColumns: [usersTable.id],
+    name: 'two_factor_policies_updated_by_fk'
+  })
+}));
+
+// Permission matrix table: which roles hold each permission. Permissions
+// without a row use the built-in defaults.
+export const permissionRolesTable = pgTable('permission_roles', {
+  permission: text('permission').primaryKey(),
+  roles: userRoleEnum('roles').array().notNull(),
+  updated_by: integer('updated_by'),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  updatedByFk: foreignKey({
+    columns: [table.updated_by],
+    foreignColumns: [usersTable.id],
+    name: 'permission_roles_updated_by_fk'
+  })
+}));
+
+// API keys table: machine-to-machine credentials with named scopes. Only a
+// hash of each key is stored; `prefix` identifies the key in listings.
+export const apiKeysTable = pgTable('api_keys', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  prefix: text('prefix').notNull(),
+  key_hash: text('key_hash').notNull().unique(),
+  scopes: text('scopes').array().notNull(),
+  expires_at: timestamp('expires_at'),
+  last_used_at: timestamp('last_used_at'),
+  last_used_ip: text('last_used_ip'),
+  revoked_at: timestamp('revoked_at'),
+  created_by: integer('created_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  createdByFk: foreignKey({
+    columns: [table.created_by],
+    foreignColumns: [usersTable.id],
+    name: 'api_keys_created_by_fk'
+  })
+}));
+
+// Audit log table: append-only record of who read or changed what. The
+// application only ever inserts into it.
+export const auditLogTable = pgTable('audit_log', {
+  id: serial('id').primaryKey(),
+  actor_id: integer('actor_id'),
+  actor_role: userRoleEnum('actor_role'),
+  api_key_id: integer('api_key_id'),
+  action: auditActionEnum('action').notNull(),
+  procedure: text('procedure').notNull(), // tRPC path, e.g. patients.update
+  entity_type: text('entity_type').notNull(),
+  entity_id: integer('entity_id'),
+  changes: jsonb('changes').$type<Record<string, { before: unknown; after: unknown }>>(),
+  ip_address: text('ip_address'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  actorFk: foreignKey({
+    columns: [table.actor_id],
+    foreignColumns: [usersTable.id],
+    name: 'audit_log_actor_fk'
+  }),
+  apiKeyFk: foreignKey({
+    columns: [table.api_key_id],
+    foreignColumns: [apiKeysTable.id],
+    name: 'audit_log_api_key_fk'
+  }),
+  entityIdx: index('audit_log_entity_idx').on(table.entity_type, table.entity_id),
+  createdAtIdx: index('audit_log_created_at_idx').on(table.created_at)
+}));
+
+// Login attempts table: every password check, used for throttling
+export const loginAttemptsTable = pgTable('login_attempts', {
+  id: serial('id').primaryKey(),
+  email: text('email').notNull(),
+  ip_address: text('ip_address'),
+  succeeded: boolean('succeeded').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+});
+
+// Login lockouts table: one row per lockout event, closed by expiry or admin unlock
+export const loginLockoutsTable = pgTable('login_lockouts', {
+  id: serial('id').primaryKey(),
+  scope: lockoutScopeEnum('scope').notNull(),
+  identifier: text('identifier').notNull(),
+  failed_attempts: integer('failed_attempts').notNull(),
+  locked_until: timestamp('locked_until').notNull(),
+  unlocked_at: timestamp('unlocked_at'),
+  unlocked_by: integer('unlocked_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  unlockedByFk: foreignKey({
+    columns: [table.unlocked_by],
+    foreignColumns: [usersTable.id],
+    name: 'login_lockouts_unlocked_by_fk'
+  })
+}));
+
 // Patients table
+// Patient search expressions. The trigram indexes on patients are built on
+// exactly these, so searches must use them to hit the indexes. The pg_trgm
+// extension has to be installed before the schema is pushed.
+export const patientNameSearchSql = (columns: { first_name: AnyPgColumn; last_name: AnyPgColumn }) =>
+  sql`lower(${columns.first_name} || ' ' || ${columns.last_name})`;
+export const patientEmailSearchSql = (columns: { email: AnyPgColumn }) =>
+  sql`lower(${columns.email})`;
+export const patientPhoneSearchSql = (columns: { phone: AnyPgColumn }) =>
+  sql`regexp_replace(${columns.phone}, '[^0-9]', '', 'g')`;
+
 export const patientsTable = pgTable('patients', {
   id: serial('id').primaryKey(),
   first_name: text('first_name').notNull(),
@@ -38,9 +271,83 @@ export const patientsTable = pgTable('patients', {
   allergies: text('allergies'),
   chronic_conditions: text('chronic_conditions'),
   medical_history: text('medical_history'),
+  // Restricted (e.g. VIP or sensitive) records need the patients.restricted
+  // permission or a break-glass grant
+  is_restricted: boolean('is_restricted').notNull().default(false),
+  // Set when the record was merged into another; the row is kept so its id
+  // still resolves to the surviving patient
+  merged_into_id: integer('merged_into_id'),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
-});
+}, (table) => ({
+  mergedIntoFk: foreignKey({
+    columns: [table.merged_into_id],
+    foreignColumns: [table.id],
+    name: 'patients_merged_into_fk'
+  }),
+  birthdateIdx: index('patients_birthdate_idx').on(table.birthdate),
+  nameSearchIdx: index('patients_name_search_idx').using('gin', sql`${patientNameSearchSql(table)} gin_trgm_ops`),
+  emailSearchIdx: index('patients_email_search_idx').using('gin', sql`${patientEmailSearchSql(table)} gin_trgm_ops`),
+  phoneSearchIdx: index('patients_phone_search_idx').using('gin', sql`${patientPhoneSearchSql(table)} gin_trgm_ops`)
+}));
+
+// Record of each merge of a duplicate patient into a surviving one
+export const patientMergesTable = pgTable('patient_merges', {
+  id: serial('id').primaryKey(),
+  survivor_id: integer('survivor_id').notNull(),
+  duplicate_id: integer('duplicate_id').notNull(),
+  prescriptions_moved: integer('prescriptions_moved').notNull(),
+  payments_moved: integer('payments_moved').notNull(),
+  merged_by: integer('merged_by').notNull(),
+  merged_at: timestamp('merged_at').defaultNow().notNull(),
+}, (table) => ({
+  survivorFk: foreignKey({
+    columns: [table.survivor_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_merges_survivor_fk'
+  }),
+  duplicateFk: foreignKey({
+    columns: [table.duplicate_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_merges_duplicate_fk'
+  }),
+  mergedByFk: foreignKey({
+    columns: [table.merged_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_merges_merged_by_fk'
+  })
+}));
+
+// Break-glass access: a time-boxed emergency grant to one restricted patient,
+// with the user's stated reason, queued for admin review
+export const breakGlassAccessTable = pgTable('break_glass_access', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  user_id: integer('user_id').notNull(),
+  reason: text('reason').notNull(),
+  granted_at: timestamp('granted_at').defaultNow().notNull(),
+  expires_at: timestamp('expires_at').notNull(),
+  reviewed_at: timestamp('reviewed_at'),
+  reviewed_by: integer('reviewed_by'),
+  review_notes: text('review_notes'),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'break_glass_access_patient_fk'
+  }),
+  userFk: foreignKey({
+    columns: [table.user_id],
+    foreignColumns: [usersTable.id],
+    name: 'break_glass_access_user_fk'
+  }),
+  reviewedByFk: foreignKey({
+    columns: [table.reviewed_by],
+    foreignColumns: [usersTable.id],
+    name: 'break_glass_access_reviewed_by_fk'
+  }),
+  userPatientIdx: index('break_glass_access_user_patient_idx').on(table.user_id, table.patient_id)
+}));
 
 // Medicines table
 export const medicinesTable = pgTable('medicines', {
@@ -53,10 +360,236 @@ export const medicinesTable = pgTable('medicines', {
   batch_number: text('batch_number'),
   expiry_date: date('expiry_date'),
   storage_conditions: text('storage_conditions'),
+  max_daily_dose_mg_per_kg: numeric('max_daily_dose_mg_per_kg', { precision: 8, scale: 3 }),
+  max_daily_dose_mg: numeric('max_daily_dose_mg', { precision: 10, scale: 2 }),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Patient allergies. The allergen is a medicine, a medicine category or a
+// free-text substance, per allergen_type. Candidates were parsed from the
+// legacy free-text allergies field and wait for staff to confirm them.
+// substance, reaction and source_text are encrypted like other clinical text.
+export const patientAllergiesTable = pgTable('patient_allergies', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  allergen_type: allergenTypeEnum('allergen_type').notNull(),
+  medicine_id: integer('medicine_id'),
+  medicine_category: medicineCategoryEnum('medicine_category'),
+  substance: text('substance'),
+  reaction: text('reaction'),
+  severity: allergySeverityEnum('severity'),
+  status: allergyStatusEnum('status').notNull().default('active'),
+  source_text: text('source_text'),
+  verified_by: integer('verified_by'),
+  verified_at: timestamp('verified_at'),
+  created_by: integer('created_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_allergies_patient_fk'
+  }),
+  medicineFk: foreignKey({
+    columns: [table.medicine_id],
+    foreignColumns: [medicinesTable.id],
+    name: 'patient_allergies_medicine_fk'
+  }),
+  verifiedByFk: foreignKey({
+    columns: [table.verified_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_allergies_verified_by_fk'
+  }),
+  createdByFk: foreignKey({
+    columns: [table.created_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_allergies_created_by_fk'
+  }),
+  patientIdx: index('patient_allergies_patient_idx').on(table.patient_id)
+}));
+
+// Drug-drug interactions between two ingredients, matched as whole words
+// against medicine names. Each pair is stored once, with ingredient_a sorting
+// before ingredient_b, both lower-cased.
+export const drugInteractionsTable = pgTable('drug_interactions', {
+  id: serial('id').primaryKey(),
+  ingredient_a: text('ingredient_a').notNull(),
+  ingredient_b: text('ingredient_b').notNull(),
+  severity: interactionSeverityEnum('severity').notNull(),
+  description: text('description').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  pairIdx: uniqueIndex('drug_interactions_pair_idx').on(table.ingredient_a, table.ingredient_b)
+}));
+
+// ICD-10 diagnosis codes, imported from CSV. Codes are stored upper-case with
+// the dot, e.g. E11.9.
+export const icd10CodesTable = pgTable('icd10_codes', {
+  code: text('code').primaryKey(),
+  description: text('description').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+});
+
+// Encounters: one patient visit, from check-in to check-out. Prescriptions
+// and payments may link to the visit they came from. diagnosis_notes is
+// encrypted like other clinical text.
+export const encountersTable = pgTable('encounters', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  doctor_id: integer('doctor_id'),
+  status: encounterStatusEnum('status').notNull().default('open'),
+  reason: text('reason'),
+  diagnosis_notes: text('diagnosis_notes'),
+  check_in_at: timestamp('check_in_at').defaultNow().notNull(),
+  check_out_at: timestamp('check_out_at'),
+  created_by: integer('created_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'encounters_patient_fk'
+  }),
+  doctorFk: foreignKey({
+    columns: [table.doctor_id],
+    foreignColumns: [usersTable.id],
+    name: 'encounters_doctor_fk'
+  }),
+  createdByFk: foreignKey({
+    columns: [table.created_by],
+    foreignColumns: [usersTable.id],
+    name: 'encounters_created_by_fk'
+  }),
+  patientIdx: index('encounters_patient_idx').on(table.patient_id),
+  checkInIdx: index('encounters_check_in_idx').on(table.check_in_at)
+}));
+
+// Vital signs, one row per set of readings taken together. Units are fixed:
+// mmHg, bpm, °C, %, kg and cm. bmi is computed from weight and height; notes
+// are encrypted like other clinical text.
+export const vitalsTable = pgTable('vitals', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  encounter_id: integer('encounter_id'),
+  systolic_bp: integer('systolic_bp'),
+  diastolic_bp: integer('diastolic_bp'),
+  pulse: integer('pulse'),
+  temperature_c: numeric('temperature_c', { precision: 4, scale: 1 }),
+  spo2: integer('spo2'),
+  weight_kg: numeric('weight_kg', { precision: 6, scale: 2 }),
+  height_cm: numeric('height_cm', { precision: 5, scale: 1 }),
+  bmi: numeric('bmi', { precision: 4, scale: 1 }),
+  abnormal_flags: text('abnormal_flags').array().notNull().default(sql`'{}'::text[]`),
+  notes: text('notes'),
+  recorded_by: integer('recorded_by').notNull(),
+  recorded_at: timestamp('recorded_at').defaultNow().notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'vitals_patient_fk'
+  }),
+  encounterFk: foreignKey({
+    columns: [table.encounter_id],
+    foreignColumns: [encountersTable.id],
+    name: 'vitals_encounter_fk'
+  }),
+  recordedByFk: foreignKey({
+    columns: [table.recorded_by],
+    foreignColumns: [usersTable.id],
+    name: 'vitals_recorded_by_fk'
+  }),
+  patientRecordedIdx: index('vitals_patient_recorded_idx').on(table.patient_id, table.recorded_at)
+}));
+
+// Coded diagnoses on the patient's problem list, e.g. type 2 diabetes. Notes
+// are encrypted like other clinical text.
+export const patientConditionsTable = pgTable('patient_conditions', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  icd10_code: text('icd10_code').notNull(),
+  status: conditionStatusEnum('status').notNull().default('active'),
+  onset_date: date('onset_date'),
+  resolved_date: date('resolved_date'),
+  notes: text('notes'),
+  noted_by: integer('noted_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_conditions_patient_fk'
+  }),
+  codeFk: foreignKey({
+    columns: [table.icd10_code],
+    foreignColumns: [icd10CodesTable.code],
+    name: 'patient_conditions_code_fk'
+  }),
+  notedByFk: foreignKey({
+    columns: [table.noted_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_conditions_noted_by_fk'
+  }),
+  patientIdx: index('patient_conditions_patient_idx').on(table.patient_id),
+  codeIdx: index('patient_conditions_code_idx').on(table.icd10_code)
+}));
+
+// Insurers (payers) the clinic bills
+export const insurersTable = pgTable('insurers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull().unique(),
+  payer_code: text('payer_code').unique(),
+  phone: text('phone'),
+  is_active: boolean('is_active').notNull().default(true),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 });
 
+// A patient's insurance policy. The patient pays `copay_amount` per claim and
+// the insurer covers `coverage_percent` of the rest; a secondary policy covers
+// part of what the primary leaves. A policy is valid from `valid_from` to
+// `valid_to` inclusive, unless cancelled.
+export const patientInsurancePoliciesTable = pgTable('patient_insurance_policies', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  insurer_id: integer('insurer_id').notNull(),
+  member_id: text('member_id').notNull(),
+  group_number: text('group_number'),
+  priority: policyPriorityEnum('priority').notNull().default('primary'),
+  valid_from: date('valid_from').notNull(),
+  valid_to: date('valid_to'),
+  coverage_percent: numeric('coverage_percent', { precision: 5, scale: 2 }).notNull(),
+  copay_amount: numeric('copay_amount', { precision: 10, scale: 2 }).notNull().default('0'),
+  cancelled_at: timestamp('cancelled_at'),
+  created_by: integer('created_by').notNull(),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+  updated_at: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_insurance_policies_patient_fk'
+  }),
+  insurerFk: foreignKey({
+    columns: [table.insurer_id],
+    foreignColumns: [insurersTable.id],
+    name: 'patient_insurance_policies_insurer_fk'
+  }),
+  createdByFk: foreignKey({
+    columns: [table.created_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_insurance_policies_created_by_fk'
+  }),
+  patientIdx: index('patient_insurance_policies_patient_idx').on(table.patient_id)
+}));
+
 // Prescriptions table
 export const prescriptionsTable = pgTable('prescriptions', {
   id: serial('id').primaryKey(),
@@ -64,6 +597,10 @@ export const prescriptionsTable = pgTable('prescriptions', {
   doctor_id: integer('doctor_id').notNull(),
   status: prescriptionStatusEnum('status').notNull().default('pending'),
   notes: text('notes'),
+  override_reason: text('override_reason'),
+  encounter_id: integer('encounter_id'),
+  // ICD-10 codes the prescription treats, checked against icd10_codes
+  diagnosis_codes: text('diagnosis_codes').array().notNull().default(sql`'{}'::text[]`),
   created_at: timestamp('created_at').defaultNow().notNull(),
   updated_at: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -72,6 +609,11 @@ export const prescriptionsTable = pgTable('prescriptions', {
     foreignColumns: [patientsTable.id],
     name: 'prescriptions_patient_fk'
   }),
+  encounterFk: foreignKey({
+    columns: [table.encounter_id],
+    foreignColumns: [encountersTable.id],
+    name: 'prescriptions_encounter_fk'
+  }),
   doctorFk: foreignKey({
     columns: [table.doctor_id],
     foreignColumns: [usersTable.id],
@@ -87,6 +629,8 @@ export const prescriptionItemsTable = pgTable('prescription_items', {
   quantity_prescribed: integer('quantity_prescribed').notNull(),
   quantity_filled: integer('quantity_filled').notNull().default(0),
   dosage_instructions: text('dosage_instructions'),
+  dose_mg: numeric('dose_mg', { precision: 10, scale: 3 }),
+  doses_per_day: integer('doses_per_day'),
   created_at: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   prescriptionFk: foreignKey({
@@ -101,11 +645,36 @@ export const prescriptionItemsTable = pgTable('prescription_items', {
   })
 }));
 
+// One row per dispensing of a prescription item, so the history of partial
+// fills is kept alongside the running quantity_filled total
+export const prescriptionFillsTable = pgTable('prescription_fills', {
+  id: serial('id').primaryKey(),
+  prescription_item_id: integer('prescription_item_id').notNull(),
+  quantity: integer('quantity').notNull(),
+  filled_by: integer('filled_by'),
+  filled_at: timestamp('filled_at').defaultNow().notNull(),
+}, (table) => ({
+  prescriptionItemFk: foreignKey({
+    columns: [table.prescription_item_id],
+    foreignColumns: [prescriptionItemsTable.id],
+    name: 'prescription_fills_prescription_item_fk'
+  }),
+  filledByFk: foreignKey({
+    columns: [table.filled_by],
+    foreignColumns: [usersTable.id],
+    name: 'prescription_fills_filled_by_fk'
+  }),
+  prescriptionItemIdx: index('prescription_fills_prescription_item_idx').on(table.prescription_item_id)
+}));
+
 // Payments table
 export const paymentsTable = pgTable('payments', {
   id: serial('id').primaryKey(),
   patient_id: integer('patient_id').notNull(),
   prescription_id: integer('prescription_id'),
+  encounter_id: integer('encounter_id'),
+  // The policy billed, for insurance payments
+  insurance_policy_id: integer('insurance_policy_id'),
   amount: numeric('amount', { precision: 10, scale: 2 }).notNull(),
   payment_method: paymentMethodEnum('payment_method').notNull(),
   payment_date: timestamp('payment_date').defaultNow().notNull(),
@@ -123,6 +692,16 @@ export const paymentsTable = pgTable('payments', {
     foreignColumns: [prescriptionsTable.id],
     name: 'payments_prescription_fk'
   }),
+  encounterFk: foreignKey({
+    columns: [table.encounter_id],
+    foreignColumns: [encountersTable.id],
+    name: 'payments_encounter_fk'
+  }),
+  insurancePolicyFk: foreignKey({
+    columns: [table.insurance_policy_id],
+    foreignColumns: [patientInsurancePoliciesTable.id],
+    name: 'payments_insurance_policy_fk'
+  }),
   createdByFk: foreignKey({
     columns: [table.created_by],
     foreignColumns: [usersTable.id],
@@ -130,15 +709,86 @@ export const paymentsTable = pgTable('payments', {
   })
 }));
 
+// Scanned or uploaded files attached to a patient, optionally also to one of
+// their prescriptions or encounters. The content lives in document storage
+// under storage_key; checksum is the SHA-256 of the content. Deleting sets
+// deleted_at and keeps both the row and the file.
+export const patientDocumentsTable = pgTable('patient_documents', {
+  id: serial('id').primaryKey(),
+  patient_id: integer('patient_id').notNull(),
+  prescription_id: integer('prescription_id'),
+  encounter_id: integer('encounter_id'),
+  category: documentCategoryEnum('category').notNull(),
+  filename: text('filename').notNull(),
+  content_type: text('content_type').notNull(),
+  size_bytes: integer('size_bytes').notNull(),
+  checksum: text('checksum').notNull(),
+  storage_key: text('storage_key').notNull().unique(),
+  description: text('description'),
+  uploaded_by: integer('uploaded_by').notNull(),
+  deleted_at: timestamp('deleted_at'),
+  deleted_by: integer('deleted_by'),
+  created_at: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  patientFk: foreignKey({
+    columns: [table.patient_id],
+    foreignColumns: [patientsTable.id],
+    name: 'patient_documents_patient_fk'
+  }),
+  prescriptionFk: foreignKey({
+    columns: [table.prescription_id],
+    foreignColumns: [prescriptionsTable.id],
+    name: 'patient_documents_prescription_fk'
+  }),
+  encounterFk: foreignKey({
+    columns: [table.encounter_id],
+    foreignColumns: [encountersTable.id],
+    name: 'patient_documents_encounter_fk'
+  }),
+  uploadedByFk: foreignKey({
+    columns: [table.uploaded_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_documents_uploaded_by_fk'
+  }),
+  deletedByFk: foreignKey({
+    columns: [table.deleted_by],
+    foreignColumns: [usersTable.id],
+    name: 'patient_documents_deleted_by_fk'
+  }),
+  patientIdx: index('patient_documents_patient_idx').on(table.patient_id)
+}));
+
 // Relations
 export const usersRelations = relations(usersTable, ({ many }) => ({
   prescriptions: many(prescriptionsTable),
   payments: many(paymentsTable),
+  sessions: many(sessionsTable),
+}));
+
+export const sessionsRelations = relations(sessionsTable, ({ one }) => ({
+  user: one(usersTable, {
+    fields: [sessionsTable.user_id],
+    references: [usersTable.id],
+  }),
 }));
 
 export const patientsRelations = relations(patientsTable, ({ many }) => ({
   prescriptions: many(prescriptionsTable),
   payments: many(paymentsTable),
+  encounters: many(encountersTable),
+}));
+
+export const encountersRelations = relations(encountersTable, ({ one, many }) => ({
+  patient: one(patientsTable, {
+    fields: [encountersTable.patient_id],
+    references: [patientsTable.id],
+  }),
+  doctor: one(usersTable, {
+    fields: [encountersTable.doctor_id],
+    references: [usersTable.id],
+  }),
+  prescriptions: many(prescriptionsTable),
+  payments: many(paymentsTable),
 }));
 
 export const medicinesRelations = relations(medicinesTable, ({ many }) => ({
@@ -154,6 +804,10 @@ export const prescriptionsRelations = relations(prescriptionsTable, ({ one, many
     fields: [prescriptionsTable.doctor_id],
     references: [usersTable.id],
   }),
+  encounter: one(encountersTable, {
+    fields: [prescriptionsTable.encounter_id],
+    references: [encountersTable.id],
+  }),
   items: many(prescriptionItemsTable),
   payments: many(paymentsTable),
 }));
@@ -178,6 +832,14 @@ export const paymentsRelations = relations(paymentsTable, ({ one }) => ({
     fields: [paymentsTable.prescription_id],
     references: [prescriptionsTable.id],
   }),
+  encounter: one(encountersTable, {
+    fields: [paymentsTable.encounter_id],
+    references: [encountersTable.id],
+  }),
+  insurancePolicy: one(patientInsurancePoliciesTable, {
+    fields: [paymentsTable.insurance_policy_id],
+    references: [patientInsurancePoliciesTable.id],
+  }),
   createdBy: one(usersTable, {
     fields: [paymentsTable.created_by],
     references: [usersTable.id],
@@ -187,23 +849,95 @@ export const paymentsRelations = relations(paymentsTable, ({ one }) => ({
 // Export all tables for relation queries
 export const tables = {
   users: usersTable,
+  sessions: sessionsTable,
+  passwordHistory: passwordHistoryTable,
+  passwordResetTokens: passwordResetTokensTable,
+  invitations: invitationsTable,
+  userTwoFactor: userTwoFactorTable,
+  twoFactorRecoveryCodes: twoFactorRecoveryCodesTable,
+  twoFactorPolicies: twoFactorPoliciesTable,
+  permissionRoles: permissionRolesTable,
+  apiKeys: apiKeysTable,
+  auditLog: auditLogTable,
+  loginAttempts: loginAttemptsTable,
+  loginLockouts: loginLockoutsTable,
   patients: patientsTable,
+  patientMerges: patientMergesTable,
+  breakGlassAccess: breakGlassAccessTable,
   medicines: medicinesTable,
+  patientAllergies: patientAllergiesTable,
+  drugInteractions: drugInteractionsTable,
+  icd10Codes: icd10CodesTable,
+  encounters: encountersTable,
+  vitals: vitalsTable,
+  patientConditions: patientConditionsTable,
+  insurers: insurersTable,
+  patientInsurancePolicies: patientInsurancePoliciesTable,
   prescriptions: prescriptionsTable,
   prescriptionItems: prescriptionItemsTable,
+  prescriptionFills: prescriptionFillsTable,
   payments: paymentsTable,
+  patientDocuments: patientDocumentsTable,
 };
 
 // TypeScript types for the table schemas
 export type User = typeof usersTable.$inferSelect;
 export type NewUser = typeof usersTable.$inferInsert;
+export type Session = typeof sessionsTable.$inferSelect;
+export type NewSession = typeof sessionsTable.$inferInsert;
+export type PasswordHistory = typeof passwordHistoryTable.$inferSelect;
+export type NewPasswordHistory = typeof passwordHistoryTable.$inferInsert;
+export type PasswordResetToken = typeof passwordResetTokensTable.$inferSelect;
+export type NewPasswordResetToken = typeof passwordResetTokensTable.$inferInsert;
+export type Invitation = typeof invitationsTable.$inferSelect;
+export type NewInvitation = typeof invitationsTable.$inferInsert;
+export type UserTwoFactor = typeof userTwoFactorTable.$inferSelect;
+export type NewUserTwoFactor = typeof userTwoFactorTable.$inferInsert;
+export type TwoFactorRecoveryCode = typeof twoFactorRecoveryCodesTable.$inferSelect;
+export type NewTwoFactorRecoveryCode = typeof twoFactorRecoveryCodesTable.$inferInsert;
+export type TwoFactorPolicy = typeof twoFactorPoliciesTable.$inferSelect;
+export type NewTwoFactorPolicy = typeof twoFactorPoliciesTable.$inferInsert;
+export type PermissionRoles = typeof permissionRolesTable.$inferSelect;
+export type NewPermissionRoles = typeof permissionRolesTable.$inferInsert;
+export type ApiKey = typeof apiKeysTable.$inferSelect;
+export type NewApiKey = typeof apiKeysTable.$inferInsert;
+export type AuditLogEntry = typeof auditLogTable.$inferSelect;
+export type NewAuditLogEntry = typeof auditLogTable.$inferInsert;
+export type LoginAttempt = typeof loginAttemptsTable.$inferSelect;
+export type NewLoginAttempt = typeof loginAttemptsTable.$inferInsert;
+export type LoginLockout = typeof loginLockoutsTable.$inferSelect;
+export type NewLoginLockout = typeof loginLockoutsTable.$inferInsert;
 export type Patient = typeof patientsTable.$inferSelect;
 export type NewPatient = typeof patientsTable.$inferInsert;
+export type PatientMerge = typeof patientMergesTable.$inferSelect;
+export type NewPatientMerge = typeof patientMergesTable.$inferInsert;
+export type BreakGlassAccess = typeof breakGlassAccessTable.$inferSelect;
+export type NewBreakGlassAccess = typeof breakGlassAccessTable.$inferInsert;
 export type Medicine = typeof medicinesTable.$inferSelect;
 export type NewMedicine = typeof medicinesTable.$inferInsert;
+export type PatientAllergy = typeof patientAllergiesTable.$inferSelect;
+export type NewPatientAllergy = typeof patientAllergiesTable.$inferInsert;
+export type DrugInteraction = typeof drugInteractionsTable.$inferSelect;
+export type NewDrugInteraction = typeof drugInteractionsTable.$inferInsert;
+export type Icd10Code = typeof icd10CodesTable.$inferSelect;
+export type NewIcd10Code = typeof icd10CodesTable.$inferInsert;
+export type Encounter = typeof encountersTable.$inferSelect;
+export type NewEncounter = typeof encountersTable.$inferInsert;
+export type Vitals = typeof vitalsTable.$inferSelect;
+export type NewVitals = typeof vitalsTable.$inferInsert;
+export type PatientCondition = typeof patientConditionsTable.$inferSelect;
+export type NewPatientCondition = typeof patientConditionsTable.$inferInsert;
+export type Insurer = typeof insurersTable.$inferSelect;
+export type NewInsurer = typeof insurersTable.$inferInsert;
+export type PatientInsurancePolicy = typeof patientInsurancePoliciesTable.$inferSelect;
+export type NewPatientInsurancePolicy = typeof patientInsurancePoliciesTable.$inferInsert;
 export type Prescription = typeof prescriptionsTable.$inferSelect;
 export type NewPrescription = typeof prescriptionsTable.$inferInsert;
 export type PrescriptionItem = typeof prescriptionItemsTable.$inferSelect;
 export type NewPrescriptionItem = typeof prescriptionItemsTable.$inferInsert;
+export type PrescriptionFill = typeof prescriptionFillsTable.$inferSelect;
+export type NewPrescriptionFill = typeof prescriptionFillsTable.$inferInsert;
 export type Payment = typeof paymentsTable.$inferSelect;
-export type NewPayment = typeof paymentsTable.$inferInsert;
\ No newline at end of file
+export type NewPayment = typeof paymentsTable.$inferInsert;
+export type PatientDocument = typeof patientDocumentsTable.$inferSelect;
+export type NewPatientDocument = typeof patientDocumentsTable.$inferInsert;
\ No newline at end of file
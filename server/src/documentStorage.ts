@@ -0,0 +1,77 @@
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import * as path from 'path';
+
+// Where patient document content is kept. Keys are generated by the
+// documents handler and never come from user input. Production deployments
+// can plug in object storage with setDocumentStorage().
+export interface DocumentStorage {
+  put(key: string, content: Buffer): Promise<void>;
+  get(key: string): Promise<Buffer>;
+}
+
+// Stores each document as a file under the given directory
+export class LocalDocumentStorage implements DocumentStorage {
+  constructor(private readonly directory: string) {}
+
+  private resolve(key: string): string {
+    const root = path.resolve(this.directory);
+    const file = path.resolve(root, key);
+    if (!file.startsWith(root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return file;
+  }
+
+  async put(key: string, content: Buffer): Promise<void> {
+    const file = this.resolve(key);
+    await mkdir(path.dirname(file), { recursive: true });
+    // Never overwrite: a key is written once
+    await writeFile(file, content, { flag: 'wx' });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    return readFile(this.resolve(key));
+  }
+}
+
+// Outcome of scanning an upload; `threat` names what was found
+export type ScanResult = { clean: true } | { clean: false; threat: string };
+
+// Hook for an antivirus engine (e.g. a clamd client), called before an
+// upload is stored. Install one with setVirusScanner().
+export interface VirusScanner {
+  scan(content: Buffer, filename: string): Promise<ScanResult>;
+}
+
+// Default when no engine is configured: accepts everything
+export class NoopVirusScanner implements VirusScanner {
+  async scan(): Promise<ScanResult> {
+    return { clean: true };
+  }
+}
+
+let storage: DocumentStorage | null = null;
+let scanner: VirusScanner | null = null;
+
+// DOCUMENT_STORAGE_DIR sets the directory (default ./documents)
+export function getDocumentStorage(): DocumentStorage {
+  if (!storage) {
+    storage = new LocalDocumentStorage(process.env['DOCUMENT_STORAGE_DIR'] || 'documents');
+  }
+  return storage;
+}
+
+export function setDocumentStorage(replacement: DocumentStorage | null): void {
+  storage = replacement;
+}
+
+export function getVirusScanner(): VirusScanner {
+  if (!scanner) {
+    scanner = new NoopVirusScanner();
+  }
+  return scanner;
+}
+
+export function setVirusScanner(replacement: VirusScanner | null): void {
+  scanner = replacement;
+}
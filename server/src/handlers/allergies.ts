@@ -0,0 +1,440 @@
+import { db } from '../db';
+import { medicinesTable, patientAllergiesTable, patientsTable } from '../db/schema';
+import {
+  medicineCategorySchema,
+  type AllergenType,
+  type AllergySeverity,
+  type CreatePatientAllergyInput,
+  type ListPatientAllergiesInput,
+  type MedicineCategory,
+  type MigrateAllergyTextInput,
+  type PatientAllergy,
+  type PatientAllergyIdInput,
+  type UpdatePatientAllergyInput
+} from '../schema';
+import { decryptField, encryptField } from './fieldEncryption';
+import { resolvePatientId } from './patients';
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, type SQL } from 'drizzle-orm';
+
+const MIGRATION_BATCH_SIZE = 200;
+
+type AllergyRow = typeof patientAllergiesTable.$inferSelect;
+
+// An allergy parsed from free text, before it is stored as a candidate
+export interface ParsedAllergy {
+  allergen_type: AllergenType;
+  medicine_id: number | null;
+  medicine_category: MedicineCategory | null;
+  substance: string | null;
+  reaction: string | null;
+  severity: AllergySeverity | null;
+  source_text: string;
+}
+
+const toPatientAllergy = (row: AllergyRow): PatientAllergy => ({
+  ...row,
+  substance: decryptField(row.substance),
+  reaction: decryptField(row.reaction),
+  source_text: decryptField(row.source_text)
+});
+
+// Entries meaning "no allergies", which produce no candidates
+const NO_ALLERGIES_PATTERN = /^(none|nil|nkda|nka|n\/a|no known (drug )?allergies)$/i;
+
+// Checked in order, so the most severe wording wins
+const SEVERITY_KEYWORDS: [RegExp, AllergySeverity][] = [
+  [/anaphyla|life[- ]threatening/i, 'life_threatening'],
+  [/severe/i, 'severe'],
+  [/moderate/i, 'moderate'],
+  [/mild/i, 'mild']
+];
+
+// Extra wordings for categories beyond their own names
+const CATEGORY_SYNONYMS: Partial<Record<MedicineCategory, string[]>> = {
+  pain_relievers: ['painkiller', 'nsaid', 'analgesic'],
+  diabetes: ['diabetes medication', 'insulin'],
+  vitamins: ['vitamin', 'supplement']
+};
+
+const normalizeAllergen = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const singular = (value: string): string =>
+  value.endsWith('s') ? value.slice(0, -1) : value;
+
+function matchCategory(allergen: string): MedicineCategory | null {
+  const normalized = singular(normalizeAllergen(allergen));
+
+  for (const category of medicineCategorySchema.options) {
+    const wordings = [category.replace(/_/g, ' '), ...(CATEGORY_SYNONYMS[category] ?? [])];
+    if (wordings.some(wording => singular(wording) === normalized)) {
+      return category;
+    }
+  }
+
+  return null;
+}
+
+function matchMedicine(allergen: string, medicines: { id: number; name: string }[]): number | null {
+  const normalized = normalizeAllergen(allergen);
+  if (normalized.length === 0) {
+    return null;
+  }
+
+  // Exact name first, then a medicine whose name starts with the allergen
+  // (e.g. "amoxicillin" for "Amoxicillin 500mg")
+  const exact = medicines.find(medicine => normalizeAllergen(medicine.name) === normalized);
+  const prefix = medicines.find(medicine => normalizeAllergen(medicine.name).startsWith(`${normalized} `));
+  return (exact ?? prefix)?.id ?? null;
+}
+
+// Split on commas, semicolons, slashes, new lines and "and", except inside
+// parentheses, so "Penicillin (rash, hives)" stays one entry
+function splitAllergyText(text: string): string[] {
+  const entries: string[] = [];
+  let current = '';
+  let depth = 0;
+
+  for (const char of text) {
+    if (char === '(') depth++;
+    if (char === ')') depth = Math.max(0, depth - 1);
+
+    if (depth === 0 && /[,;\/\n]/.test(char)) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  entries.push(current);
+
+  return entries
+    .flatMap(entry => entry.split(/\s+and\s+(?![^(]*\))/i))
+    .map(entry => entry.trim())
+    .filter(entry => entry.length > 0);
+}
+
+// Turn a legacy free-text allergies field into structured candidates, e.g.
+// "Penicillin (hives), severe peanut allergy - anaphylaxis, NSAIDs"
+export function parseAllergyText(text: string, medicines: { id: number; name: string }[]): ParsedAllergy[] {
+  const parsed: ParsedAllergy[] = [];
+
+  for (const entry of splitAllergyText(text)) {
+    if (NO_ALLERGIES_PATTERN.test(entry)) {
+      continue;
+    }
+
+    let allergen = entry;
+    let reaction: string | null = null;
+
+    const parenthesized = allergen.match(/^(.*?)\s*\((.*)\)\s*$/);
+    const separated = allergen.match(/^(.*?)\s+[-–:]\s+(.*)$/) ?? allergen.match(/^(.*?):\s*(.*)$/);
+    if (parenthesized) {
+      [, allergen, reaction] = parenthesized;
+    } else if (separated) {
+      [, allergen, reaction] = separated;
+    }
+
+    const severity = SEVERITY_KEYWORDS.find(([pattern]) => pattern.test(entry))?.[1] ?? null;
+
+    allergen = allergen
+      .replace(/\b(allergic to|allergy to|allergies|allergy|intolerance)\b/gi, '')
+      .replace(/\b(severe|moderate|mild|life[- ]threatening)\b/gi, '')
+      .replace(/\s+/g, ' ')
+      .trim();
+
+    if (allergen.length === 0) {
+      continue;
+    }
+
+    const medicineId = matchMedicine(allergen, medicines);
+    const category = medicineId === null ? matchCategory(allergen) : null;
+
+    parsed.push({
+      allergen_type: medicineId !== null ? 'medicine' : category !== null ? 'category' : 'substance',
+      medicine_id: medicineId,
+      medicine_category: category,
+      substance: medicineId === null && category === null ? allergen : null,
+      reaction: reaction?.trim() || null,
+      severity,
+      source_text: entry
+    });
+  }
+
+  return parsed;
+}
+
+async function assertMedicineExists(medicineId: number | null | undefined): Promise<void> {
+  if (medicineId === null || medicineId === undefined) {
+    return;
+  }
+
+  const medicines = await db.select({ id: medicinesTable.id })
+    .from(medicinesTable)
+    .where(eq(medicinesTable.id, medicineId))
+    .execute();
+
+  if (medicines.length === 0) {
+    throw new Error(`Medicine with ID ${medicineId} not found`);
+  }
+}
+
+// The patient an allergy record belongs to, for access checks
+export async function getAllergyPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: patientAllergiesTable.patient_id })
+    .from(patientAllergiesTable)
+    .where(eq(patientAllergiesTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// Get a patient allergy by ID
+export async function getPatientAllergyById(id: number): Promise<PatientAllergy | null> {
+  try {
+    const rows = await db.select()
+      .from(patientAllergiesTable)
+      .where(eq(patientAllergiesTable.id, id))
+      .execute();
+
+    return rows.length > 0 ? toPatientAllergy(rows[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch patient allergy by ID:', error);
+    throw error;
+  }
+}
+
+// Record an allergy for a patient
+export async function createPatientAllergy(input: CreatePatientAllergyInput, userId: number): Promise<PatientAllergy> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    await assertMedicineExists(input.medicine_id);
+
+    const result = await db.insert(patientAllergiesTable)
+      .values({
+        patient_id: patientId,
+        allergen_type: input.allergen_type,
+        medicine_id: input.medicine_id ?? null,
+        medicine_category: input.medicine_category ?? null,
+        substance: encryptField(input.substance ?? null),
+        reaction: encryptField(input.reaction || null),
+        severity: input.severity ?? null,
+        status: 'active',
+        verified_by: input.verified ? userId : null,
+        verified_at: input.verified ? new Date() : null,
+        created_by: userId
+      })
+      .returning()
+      .execute();
+
+    return toPatientAllergy(result[0]);
+  } catch (error) {
+    console.error('Patient allergy creation failed:', error);
+    throw error;
+  }
+}
+
+// A patient's allergies, confirmed ones first
+export async function listPatientAllergies(input: ListPatientAllergiesInput): Promise<PatientAllergy[]> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id) ?? input.patient_id;
+
+    const conditions: SQL<unknown>[] = [eq(patientAllergiesTable.patient_id, patientId)];
+    if (input.status !== undefined) {
+      conditions.push(eq(patientAllergiesTable.status, input.status));
+    }
+
+    const rows = await db.select()
+      .from(patientAllergiesTable)
+      .where(and(...conditions))
+      // Enum order is candidate, active
+      .orderBy(desc(patientAllergiesTable.status), asc(patientAllergiesTable.id))
+      .execute();
+
+    return rows.map(toPatientAllergy);
+  } catch (error) {
+    console.error('Failed to fetch patient allergies:', error);
+    throw error;
+  }
+}
+
+// Update an allergy. Changing allergen_type clears the other allergen fields.
+export async function updatePatientAllergy(input: UpdatePatientAllergyInput, userId: number): Promise<PatientAllergy> {
+  try {
+    const existing = await db.select()
+      .from(patientAllergiesTable)
+      .where(eq(patientAllergiesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Patient allergy with ID ${input.id} not found`);
+    }
+
+    const allergenType = input.allergen_type ?? existing[0].allergen_type;
+    if (input.allergen_type === undefined) {
+      const otherFieldSet = (allergenType !== 'medicine' && input.medicine_id != null)
+        || (allergenType !== 'category' && input.medicine_category != null)
+        || (allergenType !== 'substance' && input.substance != null);
+      if (otherFieldSet) {
+        throw new Error(`Allergen does not match allergen_type ${allergenType}`);
+      }
+    }
+
+    await assertMedicineExists(input.medicine_id);
+
+    const updateData: Partial<typeof patientAllergiesTable.$inferInsert> = { updated_at: new Date() };
+
+    if (input.allergen_type !== undefined) {
+      updateData.allergen_type = input.allergen_type;
+      updateData.medicine_id = input.medicine_id ?? null;
+      updateData.medicine_category = input.medicine_category ?? null;
+      updateData.substance = encryptField(input.substance ?? null);
+    } else {
+      if (input.medicine_id != null) updateData.medicine_id = input.medicine_id;
+      if (input.medicine_category != null) updateData.medicine_category = input.medicine_category;
+      if (input.substance != null) updateData.substance = encryptField(input.substance);
+    }
+
+    if (input.reaction !== undefined) updateData.reaction = encryptField(input.reaction || null);
+    if (input.severity !== undefined) updateData.severity = input.severity;
+    if (input.verified !== undefined) {
+      updateData.verified_by = input.verified ? userId : null;
+      updateData.verified_at = input.verified ? new Date() : null;
+    }
+
+    const result = await db.update(patientAllergiesTable)
+      .set(updateData)
+      .where(eq(patientAllergiesTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPatientAllergy(result[0]);
+  } catch (error) {
+    console.error('Patient allergy update failed:', error);
+    throw error;
+  }
+}
+
+// Accept a parsed candidate as a real allergy, verified by the current user
+export async function confirmPatientAllergy(input: PatientAllergyIdInput, userId: number): Promise<PatientAllergy> {
+  try {
+    const now = new Date();
+    const result = await db.update(patientAllergiesTable)
+      .set({ status: 'active', verified_by: userId, verified_at: now, updated_at: now })
+      .where(and(
+        eq(patientAllergiesTable.id, input.id),
+        eq(patientAllergiesTable.status, 'candidate')
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Candidate allergy with ID ${input.id} not found`);
+    }
+
+    return toPatientAllergy(result[0]);
+  } catch (error) {
+    console.error('Patient allergy confirmation failed:', error);
+    throw error;
+  }
+}
+
+// Delete an allergy record, e.g. a wrongly parsed candidate
+export async function deletePatientAllergy(input: PatientAllergyIdInput): Promise<PatientAllergy> {
+  try {
+    const result = await db.delete(patientAllergiesTable)
+      .where(eq(patientAllergiesTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Patient allergy with ID ${input.id} not found`);
+    }
+
+    return toPatientAllergy(result[0]);
+  } catch (error) {
+    console.error('Patient allergy deletion failed:', error);
+    throw error;
+  }
+}
+
+// Parse the legacy free-text allergies of patients into candidate records.
+// Patients that already have allergy records are skipped, so it is safe to
+// run again.
+export async function migrateAllergyText(input: MigrateAllergyTextInput, userId: number): Promise<{ patients_processed: number; candidates_created: number }> {
+  try {
+    const medicines = await db.select({ id: medicinesTable.id, name: medicinesTable.name })
+      .from(medicinesTable)
+      .execute();
+
+    let patientsProcessed = 0;
+    let candidatesCreated = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const conditions: SQL<unknown>[] = [
+        gt(patientsTable.id, lastId),
+        isNotNull(patientsTable.allergies),
+        isNull(patientsTable.merged_into_id)
+      ];
+      if (input.patient_id !== undefined) {
+        conditions.push(eq(patientsTable.id, input.patient_id));
+      }
+
+      const patients = await db.select({ id: patientsTable.id, allergies: patientsTable.allergies })
+        .from(patientsTable)
+        .where(and(...conditions))
+        .orderBy(asc(patientsTable.id))
+        .limit(MIGRATION_BATCH_SIZE)
+        .execute();
+
+      if (patients.length === 0) {
+        break;
+      }
+      lastId = patients[patients.length - 1].id;
+
+      const existing = await db.select({ patient_id: patientAllergiesTable.patient_id })
+        .from(patientAllergiesTable)
+        .where(inArray(patientAllergiesTable.patient_id, patients.map(patient => patient.id)))
+        .execute();
+      const alreadyRecorded = new Set(existing.map(row => row.patient_id));
+
+      for (const patient of patients) {
+        if (alreadyRecorded.has(patient.id)) {
+          continue;
+        }
+
+        const candidates = parseAllergyText(decryptField(patient.allergies) ?? '', medicines);
+        patientsProcessed++;
+        if (candidates.length === 0) {
+          continue;
+        }
+
+        await db.insert(patientAllergiesTable)
+          .values(candidates.map(candidate => ({
+            patient_id: patient.id,
+            allergen_type: candidate.allergen_type,
+            medicine_id: candidate.medicine_id,
+            medicine_category: candidate.medicine_category,
+            substance: encryptField(candidate.substance),
+            reaction: encryptField(candidate.reaction),
+            severity: candidate.severity,
+            status: 'candidate' as const,
+            source_text: encryptField(candidate.source_text),
+            created_by: userId
+          })))
+          .execute();
+        candidatesCreated += candidates.length;
+      }
+    }
+
+    return { patients_processed: patientsProcessed, candidates_created: candidatesCreated };
+  } catch (error) {
+    console.error('Allergy text migration failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,138 @@
+import { db } from '../db';
+import { apiKeysTable } from '../db/schema';
+import {
+  apiKeyScopeSchema,
+  type ApiKey,
+  type ApiKeyScope,
+  type CreateApiKeyInput,
+  type RevokeApiKeyInput
+} from '../schema';
+import { and, desc, eq, gt, isNull, or } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// API keys look like `cpk_<prefix>_<secret>`. The fixed `cpk_` marker lets the
+// request context tell them apart from JWT access tokens; the prefix is kept
+// in clear so admins can recognise a key, and only a hash of the whole key is
+// stored.
+export const API_KEY_MARKER = 'cpk_';
+
+// What a request authenticated with an API key is allowed to do
+export interface ApiKeyPrincipal {
+  id: number;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+type ApiKeyRow = typeof apiKeysTable.$inferSelect;
+
+// Keep only scopes this version knows about, in case a key outlives a scope
+const parseScopes = (scopes: string[]): ApiKeyScope[] =>
+  scopes.filter((scope): scope is ApiKeyScope => apiKeyScopeSchema.safeParse(scope).success);
+
+const toApiKey = ({ key_hash, scopes, ...row }: ApiKeyRow): ApiKey => ({
+  ...row,
+  scopes: parseScopes(scopes)
+});
+
+function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKey(token: string): boolean {
+  return token.startsWith(API_KEY_MARKER);
+}
+
+// Create a key. The plaintext key is only returned here, never again.
+export async function createApiKey(input: CreateApiKeyInput, adminId: number): Promise<{ apiKey: ApiKey; key: string }> {
+  try {
+    if (input.expires_at && input.expires_at <= new Date()) {
+      throw new Error('Expiry must be in the future');
+    }
+
+    const prefix = crypto.randomBytes(6).toString('hex');
+    const key = `${API_KEY_MARKER}${prefix}_${crypto.randomBytes(32).toString('base64url')}`;
+
+    const result = await db.insert(apiKeysTable)
+      .values({
+        name: input.name,
+        prefix,
+        key_hash: hashApiKey(key),
+        scopes: [...new Set(input.scopes)],
+        expires_at: input.expires_at || null,
+        created_by: adminId
+      })
+      .returning()
+      .execute();
+
+    return { apiKey: toApiKey(result[0]), key };
+  } catch (error) {
+    console.error('API key creation failed:', error);
+    throw error;
+  }
+}
+
+// List all keys, newest first
+export async function listApiKeys(): Promise<ApiKey[]> {
+  try {
+    const rows = await db.select()
+      .from(apiKeysTable)
+      .orderBy(desc(apiKeysTable.created_at), desc(apiKeysTable.id))
+      .execute();
+
+    return rows.map(toApiKey);
+  } catch (error) {
+    console.error('Failed to fetch API keys:', error);
+    throw error;
+  }
+}
+
+// Revoke a key; requests using it fail from then on
+export async function revokeApiKey(input: RevokeApiKeyInput): Promise<ApiKey> {
+  try {
+    const result = await db.update(apiKeysTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(apiKeysTable.id, input.id),
+        isNull(apiKeysTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Active API key with ID ${input.id} not found`);
+    }
+
+    return toApiKey(result[0]);
+  } catch (error) {
+    console.error('API key revocation failed:', error);
+    throw error;
+  }
+}
+
+// Resolve a presented key into its scopes and record the use. Returns null
+// for unknown, revoked or expired keys.
+export async function authenticateApiKey(key: string, ipAddress: string | null): Promise<ApiKeyPrincipal | null> {
+  try {
+    const now = new Date();
+
+    const result = await db.update(apiKeysTable)
+      .set({ last_used_at: now, last_used_ip: ipAddress })
+      .where(and(
+        eq(apiKeysTable.key_hash, hashApiKey(key)),
+        isNull(apiKeysTable.revoked_at),
+        or(isNull(apiKeysTable.expires_at), gt(apiKeysTable.expires_at, now))
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      return null;
+    }
+
+    const apiKey = result[0];
+    return { id: apiKey.id, name: apiKey.name, scopes: parseScopes(apiKey.scopes) };
+  } catch (error) {
+    console.error('API key authentication failed:', error);
+    return null;
+  }
+}
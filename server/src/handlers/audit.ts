@@ -0,0 +1,150 @@
+import { db } from '../db';
+import { auditLogTable } from '../db/schema';
+import { type AuditAction, type AuditLogEntry, type QueryAuditLogInput, type UserRole } from '../schema';
+import { and, count, desc, eq, gte, lte, type SQL } from 'drizzle-orm';
+
+export type AuditChanges = Record<string, { before: unknown; after: unknown }>;
+
+export interface AuditEvent {
+  actorId: number | null;
+  actorRole: UserRole | null;
+  apiKeyId?: number | null;
+  action: AuditAction;
+  procedure: string;
+  entityType: string;
+  entityId: number | null;
+  changes?: AuditChanges | null;
+  ipAddress: string | null;
+}
+
+// Bookkeeping columns that change on every write and say nothing about the edit
+const IGNORED_FIELDS = new Set(['created_at', 'updated_at']);
+
+// Stands in for the values of sensitive fields, so the log shows that they
+// changed without keeping a plain-text copy
+export const REDACTED_VALUE = '[redacted]';
+
+// JSON-safe form of a field value, so dates and nested rows compare by content
+function normalizeValue(value: unknown): unknown {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value === undefined) {
+    return null;
+  }
+  return JSON.parse(JSON.stringify(value));
+}
+
+// Fields whose values differ between two snapshots of the same entity, with
+// the values of `redactedFields` masked. Returns null when nothing changed.
+export function diffSnapshots(before: object | null, after: object | null, redactedFields: readonly string[] = []): AuditChanges | null {
+  const beforeRecord = (before ?? {}) as Record<string, unknown>;
+  const afterRecord = (after ?? {}) as Record<string, unknown>;
+  const fields = new Set([...Object.keys(beforeRecord), ...Object.keys(afterRecord)]);
+  const changes: AuditChanges = {};
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+
+    const oldValue = normalizeValue(beforeRecord[field]);
+    const newValue = normalizeValue(afterRecord[field]);
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes[field] = redactedFields.includes(field)
+        ? { before: REDACTED_VALUE, after: REDACTED_VALUE }
+        : { before: oldValue, after: newValue };
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
+
+// Append an event to the audit log
+export async function recordAuditEvent(event: AuditEvent): Promise<AuditLogEntry> {
+  try {
+    const result = await db.insert(auditLogTable)
+      .values({
+        actor_id: event.actorId,
+        actor_role: event.actorRole,
+        api_key_id: event.apiKeyId ?? null,
+        action: event.action,
+        procedure: event.procedure,
+        entity_type: event.entityType,
+        entity_id: event.entityId,
+        changes: event.changes ?? null,
+        ip_address: event.ipAddress
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Audit logging failed:', error);
+    throw error;
+  }
+}
+
+// Search the audit log, newest first
+export async function queryAuditLog(input: QueryAuditLogInput): Promise<{ entries: AuditLogEntry[]; total: number; page: number; page_size: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.actor_id !== undefined) {
+      conditions.push(eq(auditLogTable.actor_id, input.actor_id));
+    }
+
+    if (input.api_key_id !== undefined) {
+      conditions.push(eq(auditLogTable.api_key_id, input.api_key_id));
+    }
+
+    if (input.action !== undefined) {
+      conditions.push(eq(auditLogTable.action, input.action));
+    }
+
+    if (input.entity_type !== undefined) {
+      conditions.push(eq(auditLogTable.entity_type, input.entity_type));
+    }
+
+    if (input.entity_id !== undefined) {
+      conditions.push(eq(auditLogTable.entity_id, input.entity_id));
+    }
+
+    if (input.procedure !== undefined) {
+      conditions.push(eq(auditLogTable.procedure, input.procedure));
+    }
+
+    if (input.from !== undefined) {
+      conditions.push(gte(auditLogTable.created_at, input.from));
+    }
+
+    if (input.to !== undefined) {
+      conditions.push(lte(auditLogTable.created_at, input.to));
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [total] = await db.select({ count: count() })
+      .from(auditLogTable)
+      .where(where)
+      .execute();
+
+    const entries = await db.select()
+      .from(auditLogTable)
+      .where(where)
+      .orderBy(desc(auditLogTable.created_at), desc(auditLogTable.id))
+      .limit(input.page_size)
+      .offset((input.page - 1) * input.page_size)
+      .execute();
+
+    return {
+      entries,
+      total: total.count,
+      page: input.page,
+      page_size: input.page_size
+    };
+  } catch (error) {
+    console.error('Failed to query audit log:', error);
+    throw error;
+  }
+}
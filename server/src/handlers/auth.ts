@@ -1,51 +1,199 @@
 import { db } from '../db';
 import { usersTable } from '../db/schema';
-import { type CreateUserInput, type LoginInput, type User } from '../schema';
-import { eq } from 'drizzle-orm';
+import { userRoleSchema, type CreateUserInput, type BootstrapAdminInput, type PublicUser, type LoginInput, type RefreshTokenInput, type VerifyTwoFactorLoginInput, type User, type UserRole } from '../schema';
+import { createSession, getActiveSession, revokeSession, rotateSession } from './sessions';
+import { assertLoginAllowed, recordFailedLogin, recordSuccessfulLogin } from './lockouts';
+import { hashPassword, verifyPassword, needsRehash, assertPasswordMeetsPolicy, recordPasswordHistory } from './passwords';
+import { toPublicUser } from './users';
+import { isTwoFactorEnabled, isTwoFactorEnrollmentRequired, verifyTwoFactorCode } from './twoFactor';
+
+export { hashPassword, verifyPassword, needsRehash } from './passwords';
+import { count, eq, sql } from 'drizzle-orm';
 import * as crypto from 'crypto';
 
-// Simple JWT implementation for demonstration
-function generateToken(userId: number): string {
-  const payload = {
-    userId,
-    exp: Date.now() + (24 * 60 * 60 * 1000) // 24 hours
-  };
-  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64');
-  return `jwt.${encoded}.signature`;
+// Access tokens are HS256-signed JWTs. Signing keys come from the environment:
+// JWT_SIGNING_KEYS holds a comma-separated list of `kid:secret` pairs where the
+// first entry signs new tokens and the rest are only accepted for verification,
+// so keys can be rotated without logging everyone out. JWT_SECRET is accepted
+// as a single-key shorthand.
+// Access tokens are short-lived and tied to a session (`sid`); clients renew
+// them with the session's refresh token.
+const TOKEN_TTL_SECONDS = 15 * 60; // 15 minutes
+
+// Users with two-factor enabled get a challenge token after the password
+// step, which is only good for submitting the second factor.
+const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60; // 5 minutes
+const TWO_FACTOR_PURPOSE = 'two_factor';
+
+export interface ChallengeTokenPayload {
+  sub: string;
+  purpose: typeof TWO_FACTOR_PURPOSE;
+  iat: number;
+  exp: number;
+  jti: string;
+}
+
+export interface TokenPayload {
+  sub: string;
+  role: UserRole;
+  iat: number;
+  exp: number;
+  jti: string;
+  sid: number;
+}
+
+interface SigningKey {
+  kid: string;
+  secret: string;
+}
+
+// Fallback used when no key is configured, so tokens stop working on restart
+let ephemeralKey: SigningKey | null = null;
+
+function getSigningKeys(): SigningKey[] {
+  const keyList = process.env['JWT_SIGNING_KEYS'];
+  if (keyList) {
+    const keys = keyList.split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error('JWT_SIGNING_KEYS entries must look like kid:secret');
+        }
+        return { kid: entry.slice(0, separator), secret: entry.slice(separator + 1) };
+      });
+
+    if (keys.length > 0) {
+      return keys;
+    }
+  }
+
+  const secret = process.env['JWT_SECRET'];
+  if (secret) {
+    return [{ kid: 'default', secret }];
+  }
+
+  if (!ephemeralKey) {
+    console.warn('No JWT_SIGNING_KEYS or JWT_SECRET configured, using an ephemeral signing key');
+    ephemeralKey = { kid: 'ephemeral', secret: crypto.randomBytes(32).toString('hex') };
+  }
+  return [ephemeralKey];
+}
+
+function base64UrlEncode(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function signJwt(payload: object): string {
+  const [key] = getSigningKeys();
+  const header = { alg: 'HS256', typ: 'JWT', kid: key.kid };
+
+  const signingInput = `${base64UrlEncode(JSON.stringify(header))}.${base64UrlEncode(JSON.stringify(payload))}`;
+  return `${signingInput}.${sign(signingInput, key.secret)}`;
 }
 
-function verifyToken(token: string): { userId: number; exp: number } | null {
+// Check the signature and expiry of a JWT and return its raw payload
+function decodeVerifiedJwt(token: string): Record<string, unknown> | null {
   try {
     const parts = token.split('.');
-    if (parts.length !== 3 || parts[0] !== 'jwt') {
+    if (parts.length !== 3) {
       return null;
     }
-    
-    const payload = JSON.parse(Buffer.from(parts[1], 'base64').toString());
-    
-    if (!payload.userId || !payload.exp) {
+
+    const [encodedHeader, encodedPayload, signature] = parts;
+    const header = JSON.parse(Buffer.from(encodedHeader, 'base64url').toString());
+
+    if (!header || header.alg !== 'HS256' || typeof header.kid !== 'string') {
       return null;
     }
-    
-    if (Date.now() > payload.exp) {
+
+    const key = getSigningKeys().find(candidate => candidate.kid === header.kid);
+    if (!key) {
+      return null;
+    }
+
+    // Compare signatures in constant time before trusting anything in the payload
+    const expected = Buffer.from(sign(`${encodedHeader}.${encodedPayload}`, key.secret));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString());
+
+    if (!payload || typeof payload !== 'object' || typeof payload.exp !== 'number') {
+      return null;
+    }
+
+    if (Math.floor(Date.now() / 1000) >= payload.exp) {
       return null; // Token expired
     }
-    
+
     return payload;
   } catch {
     return null;
   }
 }
 
-function hashPassword(password: string): string {
-  return crypto.createHash('sha256').update(password).digest('hex');
+export function generateToken(user: Pick<User, 'id' | 'role'>, sessionId: number, ttlSeconds: number = TOKEN_TTL_SECONDS): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload: TokenPayload = {
+    sub: user.id.toString(),
+    role: user.role,
+    iat: now,
+    exp: now + ttlSeconds,
+    jti: crypto.randomUUID(),
+    sid: sessionId
+  };
+
+  return signJwt(payload);
+}
+
+export function verifyToken(token: string): TokenPayload | null {
+  const payload = decodeVerifiedJwt(token);
+
+  if (!payload || payload['purpose'] !== undefined || typeof payload['sub'] !== 'string' ||
+      typeof payload['iat'] !== 'number' || typeof payload['jti'] !== 'string' || typeof payload['sid'] !== 'number' ||
+      !userRoleSchema.safeParse(payload['role']).success) {
+    return null;
+  }
+
+  return payload as unknown as TokenPayload;
 }
 
-function verifyPassword(password: string, hash: string): boolean {
-  return hashPassword(password) === hash;
+export function generateChallengeToken(user: Pick<User, 'id'>, ttlSeconds: number = CHALLENGE_TOKEN_TTL_SECONDS): string {
+  const now = Math.floor(Date.now() / 1000);
+
+  const payload: ChallengeTokenPayload = {
+    sub: user.id.toString(),
+    purpose: TWO_FACTOR_PURPOSE,
+    iat: now,
+    exp: now + ttlSeconds,
+    jti: crypto.randomUUID()
+  };
+
+  return signJwt(payload);
+}
+
+export function verifyChallengeToken(token: string): ChallengeTokenPayload | null {
+  const payload = decodeVerifiedJwt(token);
+
+  if (!payload || payload['purpose'] !== TWO_FACTOR_PURPOSE || typeof payload['sub'] !== 'string' ||
+      typeof payload['iat'] !== 'number' || typeof payload['jti'] !== 'string') {
+    return null;
+  }
+
+  return payload as unknown as ChallengeTokenPayload;
 }
 
-// Register a new user
+// Create a user account. Not exposed as a route: accounts come from
+// accepted invitations, apart from the bootstrap admin.
 export async function registerUser(input: CreateUserInput): Promise<User> {
   try {
     // Check if user already exists
@@ -58,8 +206,9 @@ export async function registerUser(input: CreateUserInput): Promise<User> {
       throw new Error('User with this email already exists');
     }
 
-    // Hash the password
-    const passwordHash = hashPassword(input.password);
+    // Check the password against the policy and hash it
+    await assertPasswordMeetsPolicy(input.password);
+    const passwordHash = await hashPassword(input.password);
 
     // Insert the new user
     const result = await db.insert(usersTable)
@@ -75,6 +224,8 @@ export async function registerUser(input: CreateUserInput): Promise<User> {
       .returning()
       .execute();
 
+    await recordPasswordHistory(result[0].id, passwordHash);
+
     return result[0];
   } catch (error) {
     console.error('User registration failed:', error);
@@ -82,9 +233,115 @@ export async function registerUser(input: CreateUserInput): Promise<User> {
   }
 }
 
-// Login user
-export async function loginUser(input: LoginInput): Promise<{ user: User; token: string }> {
+// True until the first user exists; the setup screen is only offered then
+export async function isBootstrapRequired(): Promise<boolean> {
+  try {
+    const [users] = await db.select({ count: count() })
+      .from(usersTable)
+      .execute();
+
+    return users.count === 0;
+  } catch (error) {
+    console.error('Bootstrap check failed:', error);
+    throw error;
+  }
+}
+
+// Create the very first admin on a fresh install. Once any user exists this
+// is refused and new staff have to be invited.
+export async function bootstrapAdmin(input: BootstrapAdminInput): Promise<PublicUser> {
   try {
+    await assertPasswordMeetsPolicy(input.password);
+    const passwordHash = await hashPassword(input.password);
+
+    // Lock the table so two concurrent setups cannot both see it empty
+    const admin = await db.transaction(async (tx) => {
+      await tx.execute(sql`LOCK TABLE ${usersTable} IN SHARE ROW EXCLUSIVE MODE`);
+
+      const [users] = await tx.select({ count: count() })
+        .from(usersTable)
+        .execute();
+
+      if (users.count > 0) {
+        throw new Error('Initial setup has already been completed');
+      }
+
+      const result = await tx.insert(usersTable)
+        .values({
+          email: input.email,
+          password_hash: passwordHash,
+          role: 'admin',
+          first_name: input.first_name,
+          last_name: input.last_name,
+          phone: input.phone || null,
+          is_active: true
+        })
+        .returning()
+        .execute();
+
+      return result[0];
+    });
+
+    await recordPasswordHistory(admin.id, passwordHash);
+
+    const { password_hash, ...user } = admin;
+    return user;
+  } catch (error) {
+    console.error('Admin bootstrap failed:', error);
+    throw error;
+  }
+}
+
+export interface AuthenticatedLogin {
+  twoFactorRequired: false;
+  user: PublicUser;
+  token: string;
+  refreshToken: string;
+  // The role requires two-factor and the user still has to enroll; until
+  // they do, only the enrollment routes accept their token
+  twoFactorEnrollmentRequired: boolean;
+}
+
+export interface TwoFactorChallenge {
+  twoFactorRequired: true;
+  challengeToken: string;
+}
+
+export type LoginResult = AuthenticatedLogin | TwoFactorChallenge;
+
+// Checked against when the email is unknown, so that answer takes as long as
+// a wrong password. Hashed on first use.
+let dummyPasswordHash: Promise<string> | null = null;
+
+function getDummyPasswordHash(): Promise<string> {
+  if (!dummyPasswordHash) {
+    dummyPasswordHash = hashPassword(crypto.randomBytes(16).toString('hex'));
+  }
+  return dummyPasswordHash;
+}
+
+// Record the successful login and start a session with its first access token
+async function completeLogin(user: User, ipAddress: string | null): Promise<AuthenticatedLogin> {
+  await recordSuccessfulLogin(user.email, ipAddress);
+
+  const { session, refreshToken } = await createSession(user.id);
+  const token = generateToken(user, session.id);
+
+  return {
+    twoFactorRequired: false,
+    user: toPublicUser(user),
+    token,
+    refreshToken,
+    twoFactorEnrollmentRequired: await isTwoFactorEnrollmentRequired(user)
+  };
+}
+
+// Login user. Attempts are throttled per email and per client IP. Users with
+// two-factor enabled get a challenge to finish with verifyTwoFactorLogin.
+export async function loginUser(input: LoginInput, ipAddress: string | null = null): Promise<LoginResult> {
+  try {
+    await assertLoginAllowed(input.email, ipAddress);
+
     // Find user by email
     const users = await db.select()
       .from(usersTable)
@@ -92,36 +349,115 @@ export async function loginUser(input: LoginInput): Promise<{ user: User; token:
       .execute();
 
     if (users.length === 0) {
+      await verifyPassword(input.password, await getDummyPasswordHash());
+      await recordFailedLogin(input.email, ipAddress);
       throw new Error('Invalid email or password');
     }
 
-    const user = users[0];
+    let user = users[0];
 
-    // Check if user is active
-    if (!user.is_active) {
-      throw new Error('Account is inactive');
+    // Deactivated accounts get the same answer as a wrong password, after
+    // the same work, so they cannot be told apart or tried without limit
+    const passwordMatches = await verifyPassword(input.password, user.password_hash);
+    if (!passwordMatches || !user.is_active) {
+      await recordFailedLogin(input.email, ipAddress);
+      throw new Error('Invalid email or password');
     }
 
-    // Verify password
-    if (!verifyPassword(input.password, user.password_hash)) {
-      throw new Error('Invalid email or password');
+    // Upgrade legacy or outdated hashes now that we know the plaintext
+    if (needsRehash(user.password_hash)) {
+      const upgraded = await db.update(usersTable)
+        .set({
+          password_hash: await hashPassword(input.password),
+          updated_at: new Date()
+        })
+        .where(eq(usersTable.id, user.id))
+        .returning()
+        .execute();
+
+      user = upgraded[0];
     }
 
-    // Generate JWT token
-    const token = generateToken(user.id);
+    // The login only counts as successful (and resets the failure count)
+    // once the second factor has been checked too
+    if (await isTwoFactorEnabled(user.id)) {
+      return {
+        twoFactorRequired: true,
+        challengeToken: generateChallengeToken(user)
+      };
+    }
+
+    return await completeLogin(user, ipAddress);
+  } catch (error) {
+    console.error('User login failed:', error);
+    throw error;
+  }
+}
+
+// Second login step: exchange a challenge token and an authenticator or
+// recovery code for a session. Wrong codes count as failed logins.
+export async function verifyTwoFactorLogin(input: VerifyTwoFactorLoginInput, ipAddress: string | null = null, atMs: number = Date.now()): Promise<AuthenticatedLogin> {
+  try {
+    const payload = verifyChallengeToken(input.challenge_token);
+    if (!payload) {
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, parseInt(payload.sub, 10)))
+      .execute();
+
+    // Deactivated accounts get the same answer as an unknown user
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Two-factor challenge is invalid or has expired');
+    }
+
+    const user = users[0];
+
+    await assertLoginAllowed(user.email, ipAddress);
+
+    if (!(await verifyTwoFactorCode(user.id, input.code, atMs))) {
+      await recordFailedLogin(user.email, ipAddress);
+      throw new Error('Invalid two-factor code');
+    }
+
+    return await completeLogin(user, ipAddress);
+  } catch (error) {
+    console.error('Two-factor login failed:', error);
+    throw error;
+  }
+}
+
+// Exchange a refresh token for a new access token and refresh token
+export async function refreshAccessToken(input: RefreshTokenInput): Promise<{ token: string; refreshToken: string }> {
+  try {
+    const { session, refreshToken } = await rotateSession(input.refresh_token);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, session.user_id))
+      .execute();
+
+    // Same answer as a bad token, so the account's state is not revealed
+    if (users.length === 0 || !users[0].is_active) {
+      await revokeSession(session.id);
+      throw new Error('Invalid refresh token');
+    }
 
     return {
-      user,
-      token
+      token: generateToken(users[0], session.id),
+      refreshToken
     };
   } catch (error) {
-    console.error('User login failed:', error);
+    console.error('Token refresh failed:', error);
     throw error;
   }
 }
 
-// Get current user by token
-export async function getCurrentUser(token: string): Promise<User | null> {
+// Resolve an access token into its user and session. Returns null unless the
+// token is valid, its session is still open and the user is active.
+export async function authenticateToken(token: string): Promise<{ user: User; sessionId: number; twoFactorEnrollmentRequired: boolean } | null> {
   try {
     // Verify and decode token
     const payload = verifyToken(token);
@@ -129,10 +465,21 @@ export async function getCurrentUser(token: string): Promise<User | null> {
       return null;
     }
 
+    const userId = parseInt(payload.sub, 10);
+    if (isNaN(userId)) {
+      return null;
+    }
+
+    // Revoked or expired sessions invalidate their access tokens immediately
+    const session = await getActiveSession(payload.sid, userId);
+    if (!session) {
+      return null;
+    }
+
     // Find user by ID
     const users = await db.select()
       .from(usersTable)
-      .where(eq(usersTable.id, payload.userId))
+      .where(eq(usersTable.id, userId))
       .execute();
 
     if (users.length === 0) {
@@ -146,9 +493,19 @@ export async function getCurrentUser(token: string): Promise<User | null> {
       return null;
     }
 
-    return user;
+    return {
+      user,
+      sessionId: session.id,
+      twoFactorEnrollmentRequired: await isTwoFactorEnrollmentRequired(user)
+    };
   } catch (error) {
-    console.error('Get current user failed:', error);
+    console.error('Token authentication failed:', error);
     return null;
   }
-}
\ No newline at end of file
+}
+
+// Get current user by token, without credentials
+export async function getCurrentUser(token: string): Promise<PublicUser | null> {
+  const result = await authenticateToken(token);
+  return result ? toPublicUser(result.user) : null;
+}
@@ -0,0 +1,212 @@
+import { db } from '../db';
+import { auditLogTable, breakGlassAccessTable, patientsTable, usersTable } from '../db/schema';
+import {
+  type BreakGlassAccess,
+  type BreakGlassInput,
+  type BreakGlassReviewEntry,
+  type ListBreakGlassReviewsInput,
+  type ReviewBreakGlassInput,
+  type User
+} from '../schema';
+import { roleHasPermission } from './permissions';
+import { and, asc, desc, eq, gt, inArray, isNotNull, isNull, sql } from 'drizzle-orm';
+
+// Restricted patients are open to roles holding patients.restricted. Anyone
+// else with patients.read can declare an emergency and get a time-boxed grant
+// to one patient; every grant lands in the admin review queue. A grant only
+// lifts the restriction: which fields are shown still follows the role. API
+// keys act without a user and never open restricted records.
+
+// The restriction flag of the record a patient id currently resolves to,
+// following merges. Null for unknown ids.
+async function findPatientRecord(patientId: number): Promise<{ id: number; is_restricted: boolean } | null> {
+  const patients = await db.select({
+    id: patientsTable.id,
+    is_restricted: patientsTable.is_restricted,
+    merged_into_id: patientsTable.merged_into_id
+  })
+    .from(patientsTable)
+    .where(eq(patientsTable.id, patientId))
+    .execute();
+
+  if (patients.length === 0) {
+    return null;
+  }
+
+  const [patient] = patients;
+  return patient.merged_into_id === null ? patient : findPatientRecord(patient.merged_into_id);
+}
+
+// Patients the user currently holds a break-glass grant for
+export async function getActiveBreakGlassPatientIds(userId: number): Promise<Set<number>> {
+  const grants = await db.select({ patient_id: breakGlassAccessTable.patient_id })
+    .from(breakGlassAccessTable)
+    .where(and(
+      eq(breakGlassAccessTable.user_id, userId),
+      gt(breakGlassAccessTable.expires_at, new Date())
+    ))
+    .execute();
+
+  return new Set(grants.map(grant => grant.patient_id));
+}
+
+// Whether the user (null for API keys) may open the patient's record.
+// Unknown patients are let through so the caller can report them as not found.
+export async function canAccessPatient(user: Pick<User, 'id' | 'role'> | null, patientId: number): Promise<boolean> {
+  const patient = await findPatientRecord(patientId);
+  if (!patient || !patient.is_restricted) {
+    return true;
+  }
+
+  if (!user) {
+    return false;
+  }
+
+  if (await roleHasPermission(user.role, 'patients.restricted')) {
+    return true;
+  }
+
+  return (await getActiveBreakGlassPatientIds(user.id)).has(patient.id);
+}
+
+// The rows of a listing whose patient the user (null for API keys) may open;
+// rows of other restricted patients are left out
+export async function filterAccessibleRows<T>(user: Pick<User, 'id' | 'role'> | null, rows: T[], patientIdOf: (row: T) => number): Promise<T[]> {
+  const patientIds = [...new Set(rows.map(patientIdOf))];
+  if (patientIds.length === 0 || (user && await roleHasPermission(user.role, 'patients.restricted'))) {
+    return rows;
+  }
+
+  const restricted = await db.select({ id: patientsTable.id })
+    .from(patientsTable)
+    .where(and(inArray(patientsTable.id, patientIds), eq(patientsTable.is_restricted, true)))
+    .execute();
+
+  if (restricted.length === 0) {
+    return rows;
+  }
+
+  const granted = user ? await getActiveBreakGlassPatientIds(user.id) : new Set<number>();
+  const hidden = new Set(restricted.map(patient => patient.id).filter(id => !granted.has(id)));
+  return rows.filter(row => !hidden.has(patientIdOf(row)));
+}
+
+// Grant emergency access to a restricted patient
+export async function breakGlass(input: BreakGlassInput, user: Pick<User, 'id' | 'role'>): Promise<BreakGlassAccess> {
+  try {
+    const patient = await findPatientRecord(input.patient_id);
+
+    if (!patient) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    if (!patient.is_restricted) {
+      throw new Error('Patient record is not restricted');
+    }
+
+    if (await roleHasPermission(user.role, 'patients.restricted')) {
+      throw new Error('Your role already has access to restricted records');
+    }
+
+    const grantedAt = new Date();
+    const result = await db.insert(breakGlassAccessTable)
+      .values({
+        patient_id: patient.id,
+        user_id: user.id,
+        reason: input.reason,
+        granted_at: grantedAt,
+        expires_at: new Date(grantedAt.getTime() + input.duration_minutes * 60 * 1000)
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Break-glass access failed:', error);
+    throw error;
+  }
+}
+
+// The admin review queue, unreviewed grants first
+export async function listBreakGlassReviews(input: ListBreakGlassReviewsInput): Promise<BreakGlassReviewEntry[]> {
+  try {
+    const conditions = [];
+    if (input.status === 'pending') {
+      conditions.push(isNull(breakGlassAccessTable.reviewed_at));
+    }
+    if (input.status === 'reviewed') {
+      conditions.push(isNotNull(breakGlassAccessTable.reviewed_at));
+    }
+
+    const rows = await db.select({
+      access: breakGlassAccessTable,
+      patient_first_name: patientsTable.first_name,
+      patient_last_name: patientsTable.last_name,
+      user_first_name: usersTable.first_name,
+      user_last_name: usersTable.last_name,
+      user_email: usersTable.email,
+      user_role: usersTable.role,
+      reads_during_access: sql<number>`(
+        select count(*) from ${auditLogTable}
+        where ${auditLogTable.actor_id} = ${breakGlassAccessTable.user_id}
+          and ${auditLogTable.entity_type} = 'patient'
+          and ${auditLogTable.entity_id} = ${breakGlassAccessTable.patient_id}
+          and ${auditLogTable.action} = 'read'
+          and ${auditLogTable.created_at} >= ${breakGlassAccessTable.granted_at}
+          and ${auditLogTable.created_at} <= ${breakGlassAccessTable.expires_at}
+      )`.mapWith(Number)
+    })
+      .from(breakGlassAccessTable)
+      .innerJoin(patientsTable, eq(breakGlassAccessTable.patient_id, patientsTable.id))
+      .innerJoin(usersTable, eq(breakGlassAccessTable.user_id, usersTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(
+        sql`${breakGlassAccessTable.reviewed_at} is not null`,
+        desc(breakGlassAccessTable.granted_at),
+        asc(breakGlassAccessTable.id)
+      )
+      .execute();
+
+    const now = new Date();
+    return rows.map(row => ({
+      ...row.access,
+      patient_name: `${row.patient_first_name} ${row.patient_last_name}`,
+      user_name: `${row.user_first_name} ${row.user_last_name}`,
+      user_email: row.user_email,
+      user_role: row.user_role,
+      duration_minutes: Math.round((row.access.expires_at.getTime() - row.access.granted_at.getTime()) / 60000),
+      is_active: row.access.expires_at > now,
+      reads_during_access: row.reads_during_access
+    }));
+  } catch (error) {
+    console.error('Failed to fetch break-glass reviews:', error);
+    throw error;
+  }
+}
+
+// Mark a grant as reviewed
+export async function reviewBreakGlass(input: ReviewBreakGlassInput, adminId: number): Promise<BreakGlassAccess> {
+  try {
+    const result = await db.update(breakGlassAccessTable)
+      .set({
+        reviewed_at: new Date(),
+        reviewed_by: adminId,
+        review_notes: input.notes || null
+      })
+      .where(and(
+        eq(breakGlassAccessTable.id, input.id),
+        isNull(breakGlassAccessTable.reviewed_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Unreviewed break-glass access with ID ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Break-glass review failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,196 @@
+import { db } from '../db';
+import { icd10CodesTable, patientConditionsTable } from '../db/schema';
+import {
+  type CreatePatientConditionInput,
+  type ListPatientConditionsInput,
+  type PatientCondition,
+  type PatientConditionIdInput,
+  type UpdatePatientConditionInput
+} from '../schema';
+import { decryptField, encryptField } from './fieldEncryption';
+import { assertIcd10Codes } from './icd10';
+import { resolvePatientId } from './patients';
+import { and, asc, desc, eq, type SQL } from 'drizzle-orm';
+
+type ConditionRow = typeof patientConditionsTable.$inferSelect;
+
+const toDateString = (value: Date | null | undefined): string | null =>
+  value ? value.toISOString().split('T')[0] : null;
+
+const toPatientCondition = (row: ConditionRow, description: string): PatientCondition => ({
+  ...row,
+  icd10_description: description,
+  onset_date: row.onset_date === null ? null : new Date(row.onset_date),
+  resolved_date: row.resolved_date === null ? null : new Date(row.resolved_date),
+  notes: decryptField(row.notes)
+});
+
+// Conditions with their code descriptions
+async function selectConditions(where: SQL<unknown> | undefined): Promise<PatientCondition[]> {
+  const rows = await db.select({ condition: patientConditionsTable, description: icd10CodesTable.description })
+    .from(patientConditionsTable)
+    .innerJoin(icd10CodesTable, eq(patientConditionsTable.icd10_code, icd10CodesTable.code))
+    .where(where)
+    .orderBy(asc(patientConditionsTable.status), desc(patientConditionsTable.onset_date), asc(patientConditionsTable.id))
+    .execute();
+
+  return rows.map(row => toPatientCondition(row.condition, row.description));
+}
+
+// The patient a condition belongs to, for access checks
+export async function getConditionPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: patientConditionsTable.patient_id })
+    .from(patientConditionsTable)
+    .where(eq(patientConditionsTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// Descriptions of the patient's active conditions, for safety checks
+export async function getActiveConditionDescriptions(patientId: number): Promise<string[]> {
+  const rows = await db.select({ description: icd10CodesTable.description })
+    .from(patientConditionsTable)
+    .innerJoin(icd10CodesTable, eq(patientConditionsTable.icd10_code, icd10CodesTable.code))
+    .where(and(eq(patientConditionsTable.patient_id, patientId), eq(patientConditionsTable.status, 'active')))
+    .execute();
+
+  return rows.map(row => row.description);
+}
+
+// Get a patient condition by ID
+export async function getPatientConditionById(id: number): Promise<PatientCondition | null> {
+  try {
+    const conditions = await selectConditions(eq(patientConditionsTable.id, id));
+    return conditions[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch patient condition by ID:', error);
+    throw error;
+  }
+}
+
+// List a patient's conditions, active ones first
+export async function listPatientConditions(input: ListPatientConditionsInput): Promise<PatientCondition[]> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(patientConditionsTable.patient_id, await resolvePatientId(input.patient_id) ?? input.patient_id)];
+    if (input.status !== undefined) {
+      conditions.push(eq(patientConditionsTable.status, input.status));
+    }
+
+    return await selectConditions(and(...conditions));
+  } catch (error) {
+    console.error('Failed to fetch patient conditions:', error);
+    throw error;
+  }
+}
+
+// Add a coded condition to the patient's problem list
+export async function createPatientCondition(input: CreatePatientConditionInput, userId: number): Promise<PatientCondition> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    const [code] = await assertIcd10Codes([input.icd10_code]);
+
+    const existing = await db.select({ id: patientConditionsTable.id })
+      .from(patientConditionsTable)
+      .where(and(
+        eq(patientConditionsTable.patient_id, patientId),
+        eq(patientConditionsTable.icd10_code, code),
+        eq(patientConditionsTable.status, 'active')
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`Patient already has an active condition with code ${code} (ID ${existing[0].id})`);
+    }
+
+    const [row] = await db.insert(patientConditionsTable)
+      .values({
+        patient_id: patientId,
+        icd10_code: code,
+        status: 'active',
+        onset_date: toDateString(input.onset_date),
+        notes: encryptField(input.notes || null),
+        noted_by: userId
+      })
+      .returning()
+      .execute();
+
+    const [condition] = await selectConditions(eq(patientConditionsTable.id, row.id));
+    return condition;
+  } catch (error) {
+    console.error('Patient condition creation failed:', error);
+    throw error;
+  }
+}
+
+// Update a condition, e.g. correct the code or mark it resolved
+export async function updatePatientCondition(input: UpdatePatientConditionInput): Promise<PatientCondition> {
+  try {
+    const existing = await db.select()
+      .from(patientConditionsTable)
+      .where(eq(patientConditionsTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Patient condition with ID ${input.id} not found`);
+    }
+
+    const updateData: Partial<typeof patientConditionsTable.$inferInsert> = { updated_at: new Date() };
+    if (input.icd10_code !== undefined) {
+      [updateData.icd10_code] = await assertIcd10Codes([input.icd10_code]);
+    }
+    if (input.onset_date !== undefined) updateData.onset_date = toDateString(input.onset_date);
+    if (input.notes !== undefined) updateData.notes = encryptField(input.notes || null);
+
+    const status = input.status ?? existing[0].status;
+    if (input.status !== undefined) updateData.status = input.status;
+    if (status === 'active') {
+      updateData.resolved_date = null;
+    } else if (input.resolved_date !== undefined) {
+      updateData.resolved_date = toDateString(input.resolved_date ?? new Date());
+    } else if (existing[0].resolved_date === null) {
+      updateData.resolved_date = toDateString(new Date());
+    }
+
+    const onsetDate = updateData.onset_date !== undefined ? updateData.onset_date : existing[0].onset_date;
+    const resolvedDate = updateData.resolved_date !== undefined ? updateData.resolved_date : existing[0].resolved_date;
+    if (onsetDate !== null && resolvedDate !== null && resolvedDate < onsetDate) {
+      throw new Error('A condition cannot be resolved before its onset');
+    }
+
+    await db.update(patientConditionsTable)
+      .set(updateData)
+      .where(eq(patientConditionsTable.id, input.id))
+      .execute();
+
+    const [condition] = await selectConditions(eq(patientConditionsTable.id, input.id));
+    return condition;
+  } catch (error) {
+    console.error('Patient condition update failed:', error);
+    throw error;
+  }
+}
+
+// Remove a condition recorded in error; resolved conditions should be
+// updated instead so the history is kept
+export async function deletePatientCondition(input: PatientConditionIdInput): Promise<PatientCondition> {
+  try {
+    const condition = await getPatientConditionById(input.id);
+    if (condition === null) {
+      throw new Error(`Patient condition with ID ${input.id} not found`);
+    }
+
+    await db.delete(patientConditionsTable)
+      .where(eq(patientConditionsTable.id, input.id))
+      .execute();
+
+    return condition;
+  } catch (error) {
+    console.error('Patient condition deletion failed:', error);
+    throw error;
+  }
+}
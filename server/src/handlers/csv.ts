@@ -0,0 +1,87 @@
+// Minimal RFC 4180 CSV reading for admin imports: comma-separated, fields
+// optionally double-quoted, "" for a literal quote, CRLF or LF line endings.
+
+export interface CsvRecord {
+  // 1-based line number of the record in the file, for error reports
+  line: number;
+  values: Record<string, string>;
+}
+
+// Split CSV text into rows of fields, skipping blank lines
+export function parseCsv(text: string): { line: number; fields: string[] }[] {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  let line = 1;
+  let rowLine = 1;
+
+  const endRow = () => {
+    fields.push(field);
+    if (fields.length > 1 || fields[0].trim().length > 0) {
+      rows.push({ line: rowLine, fields });
+    }
+    fields = [];
+    field = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`Unterminated quoted field starting on line ${rowLine}`);
+  }
+  if (field.length > 0 || fields.length > 0) {
+    endRow();
+  }
+
+  return rows;
+}
+
+// Parse CSV with a header row into records keyed by lower-cased column name.
+// Throws when a required column is missing.
+export function readCsvRecords(text: string, requiredColumns: string[]): CsvRecord[] {
+  const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    throw new Error('CSV is empty');
+  }
+
+  const columns = header.fields.map(column => column.trim().toLowerCase());
+  const missing = requiredColumns.filter(column => !columns.includes(column));
+  if (missing.length > 0) {
+    throw new Error(`CSV is missing columns: ${missing.join(', ')}`);
+  }
+
+  return rows.map(row => ({
+    line: row.line,
+    values: Object.fromEntries(columns.map((column, index) => [column, (row.fields[index] ?? '').trim()]))
+  }));
+}
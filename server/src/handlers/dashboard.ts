@@ -5,9 +5,10 @@ import {
     medicinesTable, 
     prescriptionsTable, 
     prescriptionItemsTable, 
-    paymentsTable 
+    paymentsTable,
+    encountersTable
 } from '../db/schema';
-import { count, eq, gte, and, desc, sql, SQL } from 'drizzle-orm';
+import { asc, count, countDistinct, eq, gte, and, desc, inArray, isNull, max, ne, sql, SQL } from 'drizzle-orm';
 
 // Dashboard data structures for different user roles
 export interface AdminDashboardData {
@@ -17,6 +18,8 @@ export interface AdminDashboardData {
     totalPrescriptions: number;
     todaySales: number;
     todayPatients: number;
+    // Encounters checked in today, cancelled ones excluded
+    todayVisits: number;
     lowStockCount: number;
     pendingPrescriptions: number;
     recentActivities: Array<{
@@ -30,6 +33,7 @@ export interface AdminDashboardData {
 export interface DoctorDashboardData {
     myPrescriptionsToday: number;
     myPatientsToday: number;
+    myOpenEncounters: number;
     myTotalPrescriptions: number;
     pendingPrescriptions: number;
     recentPatients: Array<{
@@ -44,6 +48,34 @@ export interface DoctorDashboardData {
     };
 }
 
+export interface PharmacistDashboardData {
+    pendingPrescriptions: number;
+    partiallyFilledPrescriptions: number;
+    filledToday: number;
+    lowStockCount: number;
+    outOfStockCount: number;
+    // Oldest unfilled prescriptions first
+    dispensingQueue: Array<{
+        id: number;
+        patientName: string;
+        status: 'pending' | 'partially_filled';
+        createdAt: Date;
+    }>;
+}
+
+export interface ReceptionDashboardData {
+    totalPatients: number;
+    todayPatients: number;
+    todayVisits: number;
+    // Patients checked in and not yet checked out
+    openEncounters: number;
+    recentPatients: Array<{
+        id: number;
+        name: string;
+        registeredAt: Date;
+    }>;
+}
+
 export interface CashierDashboardData {
     todaySales: number;
     todayTransactions: number;
@@ -63,6 +95,20 @@ export interface CashierDashboardData {
     };
 }
 
+// Visits checked in since the given time, cancelled ones excluded
+async function countVisitsSince(since: Date): Promise<number> {
+    const [visits] = await db
+        .select({ count: count() })
+        .from(encountersTable)
+        .where(and(
+            gte(encountersTable.check_in_at, since),
+            ne(encountersTable.status, 'cancelled')
+        ))
+        .execute();
+
+    return visits.count;
+}
+
 // Get admin dashboard data
 export async function getAdminDashboard(): Promise<AdminDashboardData> {
     try {
@@ -73,6 +119,7 @@ export async function getAdminDashboard(): Promise<AdminDashboardData> {
         const [totalPatients] = await db
             .select({ count: count() })
             .from(patientsTable)
+            .where(isNull(patientsTable.merged_into_id))
             .execute();
 
         const [totalDoctors] = await db
@@ -107,9 +154,14 @@ export async function getAdminDashboard(): Promise<AdminDashboardData> {
         const [todayPatients] = await db
             .select({ count: count() })
             .from(patientsTable)
-            .where(gte(patientsTable.created_at, today))
+            .where(and(
+                gte(patientsTable.created_at, today),
+                isNull(patientsTable.merged_into_id)
+            ))
             .execute();
 
+        const todayVisits = await countVisitsSince(today);
+
         // Get low stock count (medicines with stock < 10)
         const [lowStockCount] = await db
             .select({ count: count() })
@@ -144,6 +196,7 @@ export async function getAdminDashboard(): Promise<AdminDashboardData> {
             totalPrescriptions: totalPrescriptions.count,
             todaySales,
             todayPatients: todayPatients.count,
+            todayVisits,
             lowStockCount: lowStockCount.count,
             pendingPrescriptions: pendingPrescriptions.count,
             recentActivities: recentActivities.map(activity => ({
@@ -182,12 +235,23 @@ export async function getDoctorDashboard(doctorId: number): Promise<DoctorDashbo
             .execute();
 
         // Get unique patients seen today
-        const myPatientsToday = await db
-            .select({ patient_id: prescriptionsTable.patient_id })
-            .from(prescriptionsTable)
+        const [myPatientsToday] = await db
+            .select({ count: countDistinct(encountersTable.patient_id) })
+            .from(encountersTable)
             .where(and(
-                eq(prescriptionsTable.doctor_id, doctorId),
-                gte(prescriptionsTable.created_at, today)
+                eq(encountersTable.doctor_id, doctorId),
+                gte(encountersTable.check_in_at, today),
+                ne(encountersTable.status, 'cancelled')
+            ))
+            .execute();
+
+        // Get encounters still open with this doctor
+        const [myOpenEncounters] = await db
+            .select({ count: count() })
+            .from(encountersTable)
+            .where(and(
+                eq(encountersTable.doctor_id, doctorId),
+                eq(encountersTable.status, 'open')
             ))
             .execute();
 
@@ -208,25 +272,30 @@ export async function getDoctorDashboard(doctorId: number): Promise<DoctorDashbo
             ))
             .execute();
 
-        // Get recent patients (latest 5)
+        // Get recently seen patients (latest 5), by their last visit
+        const lastVisit = max(encountersTable.check_in_at);
         const recentPatientsData = await db
             .select({
                 id: patientsTable.id,
                 first_name: patientsTable.first_name,
                 last_name: patientsTable.last_name,
-                lastVisit: prescriptionsTable.created_at
+                lastVisit
             })
-            .from(prescriptionsTable)
-            .innerJoin(patientsTable, eq(prescriptionsTable.patient_id, patientsTable.id))
-            .where(eq(prescriptionsTable.doctor_id, doctorId))
-            .orderBy(desc(prescriptionsTable.created_at))
+            .from(encountersTable)
+            .innerJoin(patientsTable, eq(encountersTable.patient_id, patientsTable.id))
+            .where(and(
+                eq(encountersTable.doctor_id, doctorId),
+                ne(encountersTable.status, 'cancelled')
+            ))
+            .groupBy(patientsTable.id, patientsTable.first_name, patientsTable.last_name)
+            .orderBy(desc(lastVisit), desc(patientsTable.id))
             .limit(5)
             .execute();
 
         const recentPatients = recentPatientsData.map(patient => ({
             id: patient.id,
             name: `${patient.first_name} ${patient.last_name}`,
-            lastVisit: patient.lastVisit
+            lastVisit: patient.lastVisit as Date
         }));
 
         // Get weekly prescriptions
@@ -268,7 +337,8 @@ export async function getDoctorDashboard(doctorId: number): Promise<DoctorDashbo
 
         return {
             myPrescriptionsToday: myPrescriptionsToday.count,
-            myPatientsToday: myPatientsToday.length,
+            myPatientsToday: myPatientsToday.count,
+            myOpenEncounters: myOpenEncounters.count,
             myTotalPrescriptions: myTotalPrescriptions.count,
             pendingPrescriptions: pendingPrescriptions.count,
             recentPatients,
@@ -284,6 +354,144 @@ export async function getDoctorDashboard(doctorId: number): Promise<DoctorDashbo
     }
 }
 
+// Get pharmacist dashboard data
+export async function getPharmacistDashboard(): Promise<PharmacistDashboardData> {
+    try {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        // Get unfilled prescription counts
+        const [pendingPrescriptions] = await db
+            .select({ count: count() })
+            .from(prescriptionsTable)
+            .where(eq(prescriptionsTable.status, 'pending'))
+            .execute();
+
+        const [partiallyFilledPrescriptions] = await db
+            .select({ count: count() })
+            .from(prescriptionsTable)
+            .where(eq(prescriptionsTable.status, 'partially_filled'))
+            .execute();
+
+        // Get prescriptions completed today
+        const [filledToday] = await db
+            .select({ count: count() })
+            .from(prescriptionsTable)
+            .where(and(
+                eq(prescriptionsTable.status, 'filled'),
+                gte(prescriptionsTable.updated_at, today)
+            ))
+            .execute();
+
+        // Get stock alerts (medicines with stock < 10, and none left)
+        const [lowStockCount] = await db
+            .select({ count: count() })
+            .from(medicinesTable)
+            .where(sql`${medicinesTable.stock_quantity} < 10`)
+            .execute();
+
+        const [outOfStockCount] = await db
+            .select({ count: count() })
+            .from(medicinesTable)
+            .where(eq(medicinesTable.stock_quantity, 0))
+            .execute();
+
+        // Get the dispensing queue (oldest 10 unfilled prescriptions)
+        const queueData = await db
+            .select({
+                id: prescriptionsTable.id,
+                first_name: patientsTable.first_name,
+                last_name: patientsTable.last_name,
+                status: prescriptionsTable.status,
+                created_at: prescriptionsTable.created_at
+            })
+            .from(prescriptionsTable)
+            .innerJoin(patientsTable, eq(prescriptionsTable.patient_id, patientsTable.id))
+            .where(inArray(prescriptionsTable.status, ['pending', 'partially_filled']))
+            .orderBy(asc(prescriptionsTable.created_at), asc(prescriptionsTable.id))
+            .limit(10)
+            .execute();
+
+        return {
+            pendingPrescriptions: pendingPrescriptions.count,
+            partiallyFilledPrescriptions: partiallyFilledPrescriptions.count,
+            filledToday: filledToday.count,
+            lowStockCount: lowStockCount.count,
+            outOfStockCount: outOfStockCount.count,
+            dispensingQueue: queueData.map(prescription => ({
+                id: prescription.id,
+                patientName: `${prescription.first_name} ${prescription.last_name}`,
+                status: prescription.status as 'pending' | 'partially_filled',
+                createdAt: prescription.created_at
+            }))
+        };
+    } catch (error) {
+        console.error('Pharmacist dashboard fetch failed:', error);
+        throw error;
+    }
+}
+
+// Get reception dashboard data (receptionists and nurses)
+export async function getReceptionDashboard(): Promise<ReceptionDashboardData> {
+    try {
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
+
+        const [totalPatients] = await db
+            .select({ count: count() })
+            .from(patientsTable)
+            .where(isNull(patientsTable.merged_into_id))
+            .execute();
+
+        // Get today's new registrations
+        const [todayPatients] = await db
+            .select({ count: count() })
+            .from(patientsTable)
+            .where(and(
+                gte(patientsTable.created_at, today),
+                isNull(patientsTable.merged_into_id)
+            ))
+            .execute();
+
+        const todayVisits = await countVisitsSince(today);
+
+        const [openEncounters] = await db
+            .select({ count: count() })
+            .from(encountersTable)
+            .where(eq(encountersTable.status, 'open'))
+            .execute();
+
+        // Get recently registered patients (latest 5)
+        const recentPatientsData = await db
+            .select({
+                id: patientsTable.id,
+                first_name: patientsTable.first_name,
+                last_name: patientsTable.last_name,
+                created_at: patientsTable.created_at
+            })
+            .from(patientsTable)
+            .where(isNull(patientsTable.merged_into_id))
+            .orderBy(desc(patientsTable.created_at), desc(patientsTable.id))
+            .limit(5)
+            .execute();
+
+        return {
+            totalPatients: totalPatients.count,
+            todayPatients: todayPatients.count,
+            todayVisits,
+            openEncounters: openEncounters.count,
+            recentPatients: recentPatientsData.map(patient => ({
+                id: patient.id,
+                name: `${patient.first_name} ${patient.last_name}`,
+                registeredAt: patient.created_at
+            }))
+        };
+    } catch (error) {
+        console.error('Reception dashboard fetch failed:', error);
+        throw error;
+    }
+}
+
 // Get cashier dashboard data
 export async function getCashierDashboard(): Promise<CashierDashboardData> {
     try {
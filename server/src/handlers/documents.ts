@@ -0,0 +1,248 @@
+import * as crypto from 'crypto';
+import { db } from '../db';
+import { patientDocumentsTable, prescriptionsTable } from '../db/schema';
+import {
+  type ListPatientDocumentsInput,
+  type PatientDocument,
+  type PatientDocumentContent,
+  type PatientDocumentIdInput,
+  type UploadPatientDocumentInput
+} from '../schema';
+import { getDocumentStorage, getVirusScanner } from '../documentStorage';
+import { assertEncounterForPatient } from './encounters';
+import { decryptField, encryptField } from './fieldEncryption';
+import { resolvePatientId } from './patients';
+import { and, desc, eq, isNull, type SQL } from 'drizzle-orm';
+
+// Accepted content types and the leading bytes their files must start with,
+// so a renamed executable cannot be uploaded as a PDF
+const CONTENT_SIGNATURES: Record<string, Buffer[]> = {
+  'application/pdf': [Buffer.from('%PDF-')],
+  'image/jpeg': [Buffer.from([0xff, 0xd8, 0xff])],
+  'image/png': [Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  'image/tiff': [Buffer.from([0x49, 0x49, 0x2a, 0x00]), Buffer.from([0x4d, 0x4d, 0x00, 0x2a])]
+};
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]*={0,2}$/;
+
+// Largest accepted document. DOCUMENT_MAX_BYTES overrides the 10 MB default.
+export function getMaxDocumentBytes(): number {
+  const raw = process.env['DOCUMENT_MAX_BYTES'];
+  if (raw === undefined || raw === '') {
+    return 10 * 1024 * 1024;
+  }
+  const value = parseInt(raw, 10);
+  if (isNaN(value) || value <= 0) {
+    throw new Error('DOCUMENT_MAX_BYTES must be a positive integer');
+  }
+  return value;
+}
+
+const sha256 = (content: Buffer): string =>
+  crypto.createHash('sha256').update(content).digest('hex');
+
+const toPatientDocument = (row: typeof patientDocumentsTable.$inferSelect): PatientDocument => {
+  const { storage_key, ...document } = row;
+  return { ...document, description: decryptField(row.description) };
+};
+
+function decodeContent(contentBase64: string): Buffer {
+  const compact = contentBase64.replace(/\s+/g, '');
+  if (compact.length % 4 !== 0 || !BASE64_PATTERN.test(compact)) {
+    throw new Error('Document content is not valid base64');
+  }
+  return Buffer.from(compact, 'base64');
+}
+
+function assertContentType(contentType: string, content: Buffer): void {
+  const signatures = CONTENT_SIGNATURES[contentType];
+  if (!signatures) {
+    throw new Error(`Unsupported document type: ${contentType}`);
+  }
+  if (!signatures.some(signature => content.subarray(0, signature.length).equals(signature))) {
+    throw new Error(`Document content does not match its type ${contentType}`);
+  }
+}
+
+async function assertPrescriptionForPatient(prescriptionId: number, patientId: number): Promise<void> {
+  const prescriptions = await db.select({ patient_id: prescriptionsTable.patient_id })
+    .from(prescriptionsTable)
+    .where(eq(prescriptionsTable.id, prescriptionId))
+    .execute();
+
+  if (prescriptions.length === 0) {
+    throw new Error(`Prescription with ID ${prescriptionId} not found`);
+  }
+  if (prescriptions[0].patient_id !== patientId) {
+    throw new Error(`Prescription with ID ${prescriptionId} belongs to another patient`);
+  }
+}
+
+async function getActiveDocumentRow(id: number) {
+  const rows = await db.select()
+    .from(patientDocumentsTable)
+    .where(and(eq(patientDocumentsTable.id, id), isNull(patientDocumentsTable.deleted_at)))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(`Document with ID ${id} not found`);
+  }
+  return rows[0];
+}
+
+// The patient a document belongs to, for access checks
+export async function getDocumentPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: patientDocumentsTable.patient_id })
+    .from(patientDocumentsTable)
+    .where(eq(patientDocumentsTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// List a patient's documents, newest first
+export async function listPatientDocuments(input: ListPatientDocumentsInput): Promise<PatientDocument[]> {
+  try {
+    const conditions: SQL<unknown>[] = [eq(patientDocumentsTable.patient_id, await resolvePatientId(input.patient_id) ?? input.patient_id)];
+    if (input.prescription_id !== undefined) {
+      conditions.push(eq(patientDocumentsTable.prescription_id, input.prescription_id));
+    }
+    if (input.encounter_id !== undefined) {
+      conditions.push(eq(patientDocumentsTable.encounter_id, input.encounter_id));
+    }
+    if (input.category !== undefined) {
+      conditions.push(eq(patientDocumentsTable.category, input.category));
+    }
+    if (!input.include_deleted) {
+      conditions.push(isNull(patientDocumentsTable.deleted_at));
+    }
+
+    const rows = await db.select()
+      .from(patientDocumentsTable)
+      .where(and(...conditions))
+      .orderBy(desc(patientDocumentsTable.created_at), desc(patientDocumentsTable.id))
+      .execute();
+
+    return rows.map(toPatientDocument);
+  } catch (error) {
+    console.error('Failed to fetch patient documents:', error);
+    throw error;
+  }
+}
+
+// Check, scan and store an uploaded file, then record it against the patient
+export async function uploadPatientDocument(input: UploadPatientDocumentInput, userId: number): Promise<PatientDocument> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    if (input.prescription_id) {
+      await assertPrescriptionForPatient(input.prescription_id, patientId);
+    }
+    if (input.encounter_id) {
+      await assertEncounterForPatient(input.encounter_id, patientId);
+    }
+
+    // Keep only the last path segment of names sent by browsers on Windows
+    const filename = input.filename.split(/[\\/]/).pop()?.trim();
+    if (!filename) {
+      throw new Error('Document filename is required');
+    }
+
+    const content = decodeContent(input.content_base64);
+    if (content.length === 0) {
+      throw new Error('Document is empty');
+    }
+    const maxBytes = getMaxDocumentBytes();
+    if (content.length > maxBytes) {
+      throw new Error(`Document is larger than the ${maxBytes} byte limit`);
+    }
+    assertContentType(input.content_type, content);
+
+    const checksum = sha256(content);
+    const existing = await db.select({ id: patientDocumentsTable.id })
+      .from(patientDocumentsTable)
+      .where(and(
+        eq(patientDocumentsTable.patient_id, patientId),
+        eq(patientDocumentsTable.checksum, checksum),
+        isNull(patientDocumentsTable.deleted_at)
+      ))
+      .execute();
+
+    if (existing.length > 0) {
+      throw new Error(`This file is already attached to the patient (document ID ${existing[0].id})`);
+    }
+
+    const scan = await getVirusScanner().scan(content, filename);
+    if (!scan.clean) {
+      throw new Error(`Document rejected by virus scan: ${scan.threat}`);
+    }
+
+    const id = crypto.randomUUID();
+    const storageKey = `${id.slice(0, 2)}/${id}`;
+    await getDocumentStorage().put(storageKey, content);
+
+    const [row] = await db.insert(patientDocumentsTable)
+      .values({
+        patient_id: patientId,
+        prescription_id: input.prescription_id ?? null,
+        encounter_id: input.encounter_id ?? null,
+        category: input.category,
+        filename,
+        content_type: input.content_type,
+        size_bytes: content.length,
+        checksum,
+        storage_key: storageKey,
+        description: encryptField(input.description || null),
+        uploaded_by: userId
+      })
+      .returning()
+      .execute();
+
+    return toPatientDocument(row);
+  } catch (error) {
+    console.error('Patient document upload failed:', error);
+    throw error;
+  }
+}
+
+// Fetch a document's content, checking it against the stored checksum
+export async function downloadPatientDocument(input: PatientDocumentIdInput): Promise<PatientDocumentContent> {
+  try {
+    const row = await getActiveDocumentRow(input.id);
+    const content = await getDocumentStorage().get(row.storage_key);
+
+    if (sha256(content) !== row.checksum) {
+      throw new Error(`Document with ID ${input.id} failed its integrity check`);
+    }
+
+    return {
+      document: toPatientDocument(row),
+      content_base64: content.toString('base64')
+    };
+  } catch (error) {
+    console.error('Patient document download failed:', error);
+    throw error;
+  }
+}
+
+// Hide a document uploaded in error. The row and the stored file are kept
+// for the record.
+export async function deletePatientDocument(input: PatientDocumentIdInput, userId: number): Promise<PatientDocument> {
+  try {
+    await getActiveDocumentRow(input.id);
+
+    const [row] = await db.update(patientDocumentsTable)
+      .set({ deleted_at: new Date(), deleted_by: userId })
+      .where(eq(patientDocumentsTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPatientDocument(row);
+  } catch (error) {
+    console.error('Patient document deletion failed:', error);
+    throw error;
+  }
+}
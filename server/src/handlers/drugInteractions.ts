@@ -0,0 +1,222 @@
+import { db } from '../db';
+import { drugInteractionsTable, medicinesTable, prescriptionItemsTable, prescriptionsTable } from '../db/schema';
+import {
+  interactionSeveritySchema,
+  type CheckInteractionsInput,
+  type CsvImportResult,
+  type DrugInteraction,
+  type ImportDrugInteractionsInput,
+  type InteractionSeverity,
+  type InteractionWarning
+} from '../schema';
+import { readCsvRecords } from './csv';
+import { resolvePatientId } from './patients';
+import { and, asc, eq, gte, inArray, ne, or, sql } from 'drizzle-orm';
+
+// Prescriptions count as active while not fully filled, or for this many days
+// after they were written
+const ACTIVE_PRESCRIPTION_DAYS = 30;
+
+const IMPORT_BATCH_SIZE = 500;
+
+// Longest ingredient name, in words, looked up from a medicine name
+const MAX_INGREDIENT_WORDS = 3;
+
+const SEVERITY_RANK: Record<InteractionSeverity, number> = { minor: 0, moderate: 1, major: 2, contraindicated: 3 };
+
+interface InteractingMedicine {
+  id: number;
+  name: string;
+  prescription_id: number | null;
+}
+
+export const normalizeIngredient = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// Every run of up to MAX_INGREDIENT_WORDS words in a medicine name, i.e. the
+// ingredient names the medicine could be mentioning
+function ingredientTerms(medicineName: string): string[] {
+  const words = normalizeIngredient(medicineName).split(' ').filter(word => word.length > 0);
+  const terms: string[] = [];
+
+  for (let start = 0; start < words.length; start++) {
+    for (let length = 1; length <= MAX_INGREDIENT_WORDS && start + length <= words.length; length++) {
+      terms.push(words.slice(start, start + length).join(' '));
+    }
+  }
+
+  return terms;
+}
+
+// Whether the ingredient appears as whole words in the medicine name
+export function mentionsIngredient(medicineName: string, ingredient: string): boolean {
+  return ` ${normalizeIngredient(medicineName)} `.includes(` ${normalizeIngredient(ingredient)} `);
+}
+
+// List all known interactions
+export async function getDrugInteractions(): Promise<DrugInteraction[]> {
+  try {
+    return await db.select()
+      .from(drugInteractionsTable)
+      .orderBy(asc(drugInteractionsTable.ingredient_a), asc(drugInteractionsTable.ingredient_b))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch drug interactions:', error);
+    throw error;
+  }
+}
+
+// Import interactions from CSV. A pair already on file, in either order, is
+// updated; invalid rows are reported and skipped.
+export async function importDrugInteractions(input: ImportDrugInteractionsInput): Promise<CsvImportResult> {
+  try {
+    const records = readCsvRecords(input.csv, ['ingredient_a', 'ingredient_b', 'severity', 'description']);
+    const errors: CsvImportResult['errors'] = [];
+    const rows = new Map<string, typeof drugInteractionsTable.$inferInsert>();
+
+    for (const record of records) {
+      const first = normalizeIngredient(record.values['ingredient_a'] ?? '');
+      const second = normalizeIngredient(record.values['ingredient_b'] ?? '');
+      const severity = interactionSeveritySchema.safeParse((record.values['severity'] ?? '').toLowerCase());
+      const description = record.values['description'] ?? '';
+
+      if (first.length === 0 || second.length === 0) {
+        errors.push({ line: record.line, message: 'Both ingredients are required' });
+      } else if (first === second) {
+        errors.push({ line: record.line, message: 'An ingredient cannot interact with itself' });
+      } else if (!severity.success) {
+        errors.push({ line: record.line, message: `Severity must be one of ${interactionSeveritySchema.options.join(', ')}` });
+      } else if (description.length === 0) {
+        errors.push({ line: record.line, message: 'Description is required' });
+      } else {
+        const [ingredient_a, ingredient_b] = [first, second].sort();
+        // A later row for the same pair wins
+        rows.set(`${ingredient_a}\n${ingredient_b}`, { ingredient_a, ingredient_b, severity: severity.data, description });
+      }
+    }
+
+    const existing = await db.select({ ingredient_a: drugInteractionsTable.ingredient_a, ingredient_b: drugInteractionsTable.ingredient_b })
+      .from(drugInteractionsTable)
+      .execute();
+    const existingPairs = new Set(existing.map(pair => `${pair.ingredient_a}\n${pair.ingredient_b}`));
+
+    const values = [...rows.values()];
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(drugInteractionsTable)
+          .values(values.slice(i, i + IMPORT_BATCH_SIZE))
+          .onConflictDoUpdate({
+            target: [drugInteractionsTable.ingredient_a, drugInteractionsTable.ingredient_b],
+            set: {
+              severity: sql`excluded.severity`,
+              description: sql`excluded.description`,
+              updated_at: new Date()
+            }
+          })
+          .execute();
+      }
+    });
+
+    const updated = [...rows.keys()].filter(key => existingPairs.has(key)).length;
+    return { inserted: rows.size - updated, updated, errors };
+  } catch (error) {
+    console.error('Drug interaction import failed:', error);
+    throw error;
+  }
+}
+
+// Medicines on the patient's active prescriptions
+async function getActiveMedicines(patientId: number): Promise<InteractingMedicine[]> {
+  const cutoff = new Date(Date.now() - ACTIVE_PRESCRIPTION_DAYS * 24 * 60 * 60 * 1000);
+
+  return db.selectDistinct({
+    id: medicinesTable.id,
+    name: medicinesTable.name,
+    prescription_id: prescriptionsTable.id
+  })
+    .from(prescriptionItemsTable)
+    .innerJoin(prescriptionsTable, eq(prescriptionItemsTable.prescription_id, prescriptionsTable.id))
+    .innerJoin(medicinesTable, eq(prescriptionItemsTable.medicine_id, medicinesTable.id))
+    .where(and(
+      eq(prescriptionsTable.patient_id, patientId),
+      or(ne(prescriptionsTable.status, 'filled'), gte(prescriptionsTable.created_at, cutoff))
+    ))
+    .orderBy(asc(prescriptionsTable.id), asc(medicinesTable.id))
+    .execute();
+}
+
+// Check proposed prescription items against each other and against the
+// patient's active prescriptions, most severe interactions first
+export async function checkInteractions(input: CheckInteractionsInput): Promise<InteractionWarning[]> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with id ${input.patient_id} does not exist`);
+    }
+
+    const medicineIds = [...new Set(input.items.map(item => item.medicine_id))];
+    if (medicineIds.length === 0) {
+      return [];
+    }
+
+    const proposed = await db.select({ id: medicinesTable.id, name: medicinesTable.name })
+      .from(medicinesTable)
+      .where(inArray(medicinesTable.id, medicineIds))
+      .orderBy(asc(medicinesTable.id))
+      .execute();
+    const active = await getActiveMedicines(patientId);
+
+    const terms = [...new Set([...proposed, ...active].flatMap(medicine => ingredientTerms(medicine.name)))];
+    if (terms.length === 0) {
+      return [];
+    }
+
+    const interactions = await db.select()
+      .from(drugInteractionsTable)
+      .where(and(
+        inArray(drugInteractionsTable.ingredient_a, terms),
+        inArray(drugInteractionsTable.ingredient_b, terms)
+      ))
+      .execute();
+
+    const pairs: [{ id: number; name: string }, InteractingMedicine][] = [];
+    proposed.forEach((medicine, index) => {
+      for (const other of proposed.slice(index + 1)) {
+        pairs.push([medicine, { ...other, prescription_id: null }]);
+      }
+      for (const other of active) {
+        if (other.id !== medicine.id) {
+          pairs.push([medicine, other]);
+        }
+      }
+    });
+
+    const warnings: InteractionWarning[] = [];
+    for (const [medicine, other] of pairs) {
+      for (const interaction of interactions) {
+        const matches = (mentionsIngredient(medicine.name, interaction.ingredient_a) && mentionsIngredient(other.name, interaction.ingredient_b))
+          || (mentionsIngredient(medicine.name, interaction.ingredient_b) && mentionsIngredient(other.name, interaction.ingredient_a));
+        if (!matches) {
+          continue;
+        }
+
+        warnings.push({
+          interaction_id: interaction.id,
+          severity: interaction.severity,
+          description: interaction.description,
+          medicine_id: medicine.id,
+          medicine_name: medicine.name,
+          interacting_medicine_id: other.id,
+          interacting_medicine_name: other.name,
+          source: other.prescription_id === null ? 'same_prescription' : 'active_prescription',
+          prescription_id: other.prescription_id
+        });
+      }
+    }
+
+    return warnings.sort((a, b) => SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]);
+  } catch (error) {
+    console.error('Drug interaction check failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,245 @@
+import { db } from '../db';
+import { encountersTable, patientsTable, usersTable } from '../db/schema';
+import {
+  type CloseEncounterInput,
+  type Encounter,
+  type ListEncountersInput,
+  type OpenEncounterInput,
+  type UpdateEncounterInput,
+  type User
+} from '../schema';
+import { getActiveBreakGlassPatientIds } from './breakGlass';
+import { decryptField, encryptField } from './fieldEncryption';
+import { resolvePatientId } from './patients';
+import { roleHasPermission } from './permissions';
+import { and, desc, eq, type SQL } from 'drizzle-orm';
+
+// An encounter in listings, with the patient's name for the front desk
+export type EncounterListEntry = Encounter & {
+  patient_name: string;
+  patient_is_restricted: boolean;
+};
+
+const toEncounter = (row: typeof encountersTable.$inferSelect): Encounter => ({
+  ...row,
+  diagnosis_notes: decryptField(row.diagnosis_notes)
+});
+
+// How encounters should be presented to a user: diagnosis notes are clinical
+// and follow the same rules as the patient's clinical fields
+export async function encounterViewForUser(user: Pick<User, 'id' | 'role'>) {
+  const canViewClinical = await roleHasPermission(user.role, 'patients.clinical');
+  const canViewRestricted = await roleHasPermission(user.role, 'patients.restricted');
+  const breakGlassPatientIds = await getActiveBreakGlassPatientIds(user.id);
+
+  return <T extends Encounter>(encounter: T, isRestricted = false): T | Omit<T, 'diagnosis_notes'> => {
+    const canOpen = !isRestricted || canViewRestricted || breakGlassPatientIds.has(encounter.patient_id);
+    if (canViewClinical && canOpen) {
+      return encounter;
+    }
+
+    const { diagnosis_notes, ...rest } = encounter;
+    return rest;
+  };
+}
+
+async function assertDoctor(doctorId: number | null | undefined): Promise<void> {
+  if (doctorId === null || doctorId === undefined) {
+    return;
+  }
+
+  const doctors = await db.select({ id: usersTable.id })
+    .from(usersTable)
+    .where(and(eq(usersTable.id, doctorId), eq(usersTable.role, 'doctor'), eq(usersTable.is_active, true)))
+    .execute();
+
+  if (doctors.length === 0) {
+    throw new Error(`Doctor with id ${doctorId} does not exist`);
+  }
+}
+
+// Check that a prescription or payment may be linked to the encounter
+export async function assertEncounterForPatient(encounterId: number, patientId: number): Promise<void> {
+  const encounters = await db.select({ patient_id: encountersTable.patient_id, status: encountersTable.status })
+    .from(encountersTable)
+    .where(eq(encountersTable.id, encounterId))
+    .execute();
+
+  if (encounters.length === 0) {
+    throw new Error(`Encounter with ID ${encounterId} not found`);
+  }
+  if (encounters[0].patient_id !== patientId) {
+    throw new Error(`Encounter with ID ${encounterId} belongs to another patient`);
+  }
+  if (encounters[0].status === 'cancelled') {
+    throw new Error(`Encounter with ID ${encounterId} was cancelled`);
+  }
+}
+
+// The patient an encounter belongs to, for access checks
+export async function getEncounterPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: encountersTable.patient_id })
+    .from(encountersTable)
+    .where(eq(encountersTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// Check a patient in, opening a new encounter
+export async function openEncounter(input: OpenEncounterInput, userId: number): Promise<Encounter> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    await assertDoctor(input.doctor_id);
+
+    const open = await db.select({ id: encountersTable.id })
+      .from(encountersTable)
+      .where(and(eq(encountersTable.patient_id, patientId), eq(encountersTable.status, 'open')))
+      .execute();
+
+    if (open.length > 0) {
+      throw new Error(`Patient already has an open encounter (ID ${open[0].id})`);
+    }
+
+    const result = await db.insert(encountersTable)
+      .values({
+        patient_id: patientId,
+        doctor_id: input.doctor_id ?? null,
+        reason: input.reason || null,
+        status: 'open',
+        created_by: userId
+      })
+      .returning()
+      .execute();
+
+    return toEncounter(result[0]);
+  } catch (error) {
+    console.error('Encounter creation failed:', error);
+    throw error;
+  }
+}
+
+// Get an encounter by ID
+export async function getEncounterById(id: number): Promise<Encounter | null> {
+  try {
+    const rows = await db.select()
+      .from(encountersTable)
+      .where(eq(encountersTable.id, id))
+      .execute();
+
+    return rows.length > 0 ? toEncounter(rows[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch encounter by ID:', error);
+    throw error;
+  }
+}
+
+// List encounters, latest check-in first
+export async function listEncounters(input: ListEncountersInput): Promise<EncounterListEntry[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+    if (input.patient_id !== undefined) {
+      conditions.push(eq(encountersTable.patient_id, await resolvePatientId(input.patient_id) ?? input.patient_id));
+    }
+    if (input.doctor_id !== undefined) {
+      conditions.push(eq(encountersTable.doctor_id, input.doctor_id));
+    }
+    if (input.status !== undefined) {
+      conditions.push(eq(encountersTable.status, input.status));
+    }
+
+    const rows = await db.select({
+      encounter: encountersTable,
+      first_name: patientsTable.first_name,
+      last_name: patientsTable.last_name,
+      is_restricted: patientsTable.is_restricted
+    })
+      .from(encountersTable)
+      .innerJoin(patientsTable, eq(encountersTable.patient_id, patientsTable.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(encountersTable.check_in_at), desc(encountersTable.id))
+      .limit(input.limit)
+      .execute();
+
+    return rows.map(row => ({
+      ...toEncounter(row.encounter),
+      patient_name: `${row.first_name} ${row.last_name}`,
+      patient_is_restricted: row.is_restricted
+    }));
+  } catch (error) {
+    console.error('Failed to fetch encounters:', error);
+    throw error;
+  }
+}
+
+async function findOpenEncounter(id: number) {
+  const rows = await db.select({ status: encountersTable.status })
+    .from(encountersTable)
+    .where(eq(encountersTable.id, id))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(`Encounter with ID ${id} not found`);
+  }
+  if (rows[0].status !== 'open') {
+    throw new Error(`Encounter with ID ${id} is already ${rows[0].status}`);
+  }
+}
+
+// Update an open encounter, e.g. assign the doctor or record the diagnosis
+export async function updateEncounter(input: UpdateEncounterInput): Promise<Encounter> {
+  try {
+    await findOpenEncounter(input.id);
+    await assertDoctor(input.doctor_id);
+
+    const updateData: Partial<typeof encountersTable.$inferInsert> = { updated_at: new Date() };
+    if (input.doctor_id !== undefined) updateData.doctor_id = input.doctor_id;
+    if (input.reason !== undefined) updateData.reason = input.reason || null;
+    if (input.diagnosis_notes !== undefined) updateData.diagnosis_notes = encryptField(input.diagnosis_notes || null);
+
+    const result = await db.update(encountersTable)
+      .set(updateData)
+      .where(eq(encountersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toEncounter(result[0]);
+  } catch (error) {
+    console.error('Encounter update failed:', error);
+    throw error;
+  }
+}
+
+// Check the patient out, closing or cancelling the encounter
+export async function closeEncounter(input: CloseEncounterInput): Promise<Encounter> {
+  try {
+    await findOpenEncounter(input.id);
+
+    const now = new Date();
+    const updateData: Partial<typeof encountersTable.$inferInsert> = {
+      status: input.status,
+      check_out_at: now,
+      updated_at: now
+    };
+    if (input.diagnosis_notes !== undefined) updateData.diagnosis_notes = encryptField(input.diagnosis_notes || null);
+
+    const result = await db.update(encountersTable)
+      .set(updateData)
+      .where(and(eq(encountersTable.id, input.id), eq(encountersTable.status, 'open')))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Encounter with ID ${input.id} is no longer open`);
+    }
+
+    return toEncounter(result[0]);
+  } catch (error) {
+    console.error('Encounter close failed:', error);
+    throw error;
+  }
+}
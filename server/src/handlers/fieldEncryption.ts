@@ -0,0 +1,130 @@
+import * as crypto from 'crypto';
+
+// Sensitive columns are encrypted with AES-256-GCM before they are written.
+// PATIENT_DATA_KEYS holds a comma-separated list of `kid:key` pairs, each key
+// being 32 bytes in base64; the first entry encrypts and all of them decrypt,
+// so keys can be rotated by prepending a new one and re-encrypting.
+// PATIENT_DATA_KEY is accepted as a single-key shorthand.
+// Stored values look like `enc:<kid>:<iv>:<tag>:<ciphertext>`. Values without
+// the `enc:` marker were written before encryption was enabled and are read
+// back as they are.
+const ENCRYPTED_MARKER = 'enc';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+interface DataKey {
+  kid: string;
+  key: Buffer;
+}
+
+// Fallback used when no key is configured, so data written with it cannot be
+// read after a restart
+let ephemeralKey: DataKey | null = null;
+
+function parseKey(kid: string, encoded: string): DataKey {
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Patient data key "${kid}" must be ${KEY_BYTES} bytes, base64-encoded`);
+  }
+  return { kid, key };
+}
+
+function getDataKeys(): DataKey[] {
+  const keyList = process.env['PATIENT_DATA_KEYS'];
+  if (keyList) {
+    const keys = keyList.split(',')
+      .map(entry => entry.trim())
+      .filter(entry => entry.length > 0)
+      .map(entry => {
+        const separator = entry.indexOf(':');
+        if (separator <= 0 || separator === entry.length - 1) {
+          throw new Error('PATIENT_DATA_KEYS entries must look like kid:key');
+        }
+        return parseKey(entry.slice(0, separator), entry.slice(separator + 1));
+      });
+
+    if (keys.length > 0) {
+      return keys;
+    }
+  }
+
+  const singleKey = process.env['PATIENT_DATA_KEY'];
+  if (singleKey) {
+    return [parseKey('default', singleKey)];
+  }
+
+  if (!ephemeralKey) {
+    console.warn('No PATIENT_DATA_KEYS or PATIENT_DATA_KEY configured, using an ephemeral encryption key');
+    ephemeralKey = { kid: 'ephemeral', key: crypto.randomBytes(KEY_BYTES) };
+  }
+  return [ephemeralKey];
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(`${ENCRYPTED_MARKER}:`);
+}
+
+// Encrypt a field value with the current key. Nulls stay null so "no value"
+// remains visible to queries.
+export function encryptField(value: string): string;
+export function encryptField(value: string | null): string | null;
+export function encryptField(value: string | null): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  const [dataKey] = getDataKeys();
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv('aes-256-gcm', dataKey.key, iv);
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+
+  return [
+    ENCRYPTED_MARKER,
+    dataKey.kid,
+    iv.toString('base64url'),
+    cipher.getAuthTag().toString('base64url'),
+    ciphertext.toString('base64url')
+  ].join(':');
+}
+
+// Decrypt a stored field value. Throws if the key is unknown or the value
+// has been tampered with.
+export function decryptField(value: string): string;
+export function decryptField(value: string | null): string | null;
+export function decryptField(value: string | null): string | null {
+  if (value === null || !isEncrypted(value)) {
+    return value;
+  }
+
+  const parts = value.split(':');
+  if (parts.length !== 5) {
+    throw new Error('Malformed encrypted field');
+  }
+
+  const [, kid, iv, tag, ciphertext] = parts;
+  const dataKey = getDataKeys().find(candidate => candidate.kid === kid);
+  if (!dataKey) {
+    throw new Error(`Field was encrypted with unknown key "${kid}"`);
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-gcm', dataKey.key, Buffer.from(iv, 'base64url'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64url'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(ciphertext, 'base64url')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+// True for stored values that are still plain text or were encrypted with an
+// older key
+export function needsReencryption(value: string | null): boolean {
+  if (value === null) {
+    return false;
+  }
+  if (!isEncrypted(value)) {
+    return true;
+  }
+
+  const [currentKey] = getDataKeys();
+  return value.split(':')[1] !== currentKey.kid;
+}
@@ -0,0 +1,154 @@
+import { db } from '../db';
+import { icd10CodesTable } from '../db/schema';
+import {
+  type CsvImportResult,
+  type Icd10Code,
+  type ImportIcd10CodesInput,
+  type SearchIcd10CodesInput
+} from '../schema';
+import { readCsvRecords } from './csv';
+import { and, asc, ilike, inArray, like, or, sql, type SQL } from 'drizzle-orm';
+
+const IMPORT_BATCH_SIZE = 1000;
+
+// A letter, two characters for the category, then up to four after the dot
+const CODE_PATTERN = /^[A-Z][0-9][0-9A-Z]([0-9A-Z]{1,4})?$/;
+
+// Letter and digit at the start of a query mean it is (part of) a code
+const CODE_PREFIX_PATTERN = /^[A-Z][0-9][0-9A-Z]{0,5}$/;
+
+const compactCode = (value: string): string => value.toUpperCase().replace(/[\s.]/g, '');
+
+const withDot = (compact: string): string =>
+  compact.length > 3 ? `${compact.slice(0, 3)}.${compact.slice(3)}` : compact;
+
+// Canonical form of a code: upper-case with the dot after the category, so
+// "e119" and "E11.9" are the same code. Returns null for malformed codes.
+export function normalizeIcd10Code(value: string): string | null {
+  const compact = compactCode(value);
+  return CODE_PATTERN.test(compact) ? withDot(compact) : null;
+}
+
+// Normalize the codes and check they are all on file, keeping the given order
+export async function assertIcd10Codes(codes: string[]): Promise<string[]> {
+  const normalized: string[] = [];
+  for (const code of codes) {
+    const value = normalizeIcd10Code(code);
+    if (value === null) {
+      throw new Error(`Invalid ICD-10 code: ${code}`);
+    }
+    if (!normalized.includes(value)) {
+      normalized.push(value);
+    }
+  }
+
+  if (normalized.length === 0) {
+    return [];
+  }
+
+  const known = await db.select({ code: icd10CodesTable.code })
+    .from(icd10CodesTable)
+    .where(inArray(icd10CodesTable.code, normalized))
+    .execute();
+  const knownCodes = new Set(known.map(row => row.code));
+
+  const unknown = normalized.filter(code => !knownCodes.has(code));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown ICD-10 code: ${unknown.join(', ')}`);
+  }
+
+  return normalized;
+}
+
+// Import codes from CSV. Codes already on file get the new description;
+// invalid rows are reported and skipped.
+export async function importIcd10Codes(input: ImportIcd10CodesInput): Promise<CsvImportResult> {
+  try {
+    const records = readCsvRecords(input.csv, ['code', 'description']);
+    const errors: CsvImportResult['errors'] = [];
+    const rows = new Map<string, typeof icd10CodesTable.$inferInsert>();
+
+    for (const record of records) {
+      const rawCode = record.values['code'] ?? '';
+      const code = normalizeIcd10Code(rawCode);
+      const description = (record.values['description'] ?? '').trim();
+
+      if (code === null) {
+        errors.push({ line: record.line, message: `Invalid ICD-10 code: ${rawCode}` });
+      } else if (description.length === 0) {
+        errors.push({ line: record.line, message: 'Description is required' });
+      } else {
+        // A later row for the same code wins
+        rows.set(code, { code, description });
+      }
+    }
+
+    const existing = await db.select({ code: icd10CodesTable.code })
+      .from(icd10CodesTable)
+      .execute();
+    const existingCodes = new Set(existing.map(row => row.code));
+
+    const values = [...rows.values()];
+    await db.transaction(async (tx) => {
+      for (let i = 0; i < values.length; i += IMPORT_BATCH_SIZE) {
+        await tx.insert(icd10CodesTable)
+          .values(values.slice(i, i + IMPORT_BATCH_SIZE))
+          .onConflictDoUpdate({
+            target: icd10CodesTable.code,
+            set: {
+              description: sql`excluded.description`,
+              updated_at: new Date()
+            }
+          })
+          .execute();
+      }
+    });
+
+    const updated = [...rows.keys()].filter(code => existingCodes.has(code)).length;
+    return { inserted: rows.size - updated, updated, errors };
+  } catch (error) {
+    console.error('ICD-10 import failed:', error);
+    throw error;
+  }
+}
+
+// Look up codes by code prefix ("E11", "e11.6") or by keywords in the
+// description ("type 2 diabetes"). Code matches come first.
+export async function searchIcd10Codes(input: SearchIcd10CodesInput): Promise<Icd10Code[]> {
+  try {
+    const matches: SQL<unknown>[] = [];
+
+    const compact = compactCode(input.query);
+    const codePrefix = CODE_PREFIX_PATTERN.test(compact) ? withDot(compact) : null;
+    if (codePrefix !== null) {
+      matches.push(like(icd10CodesTable.code, `${codePrefix}%`));
+    }
+
+    const keywords = input.query.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0);
+    if (keywords.length > 0) {
+      const keywordMatch = and(...keywords.map(word => ilike(icd10CodesTable.description, `%${word}%`)));
+      if (keywordMatch) {
+        matches.push(keywordMatch);
+      }
+    }
+
+    if (matches.length === 0) {
+      return [];
+    }
+
+    const ordering: SQL<unknown>[] = [asc(icd10CodesTable.code)];
+    if (codePrefix !== null) {
+      ordering.unshift(sql`CASE WHEN ${icd10CodesTable.code} LIKE ${`${codePrefix}%`} THEN 0 ELSE 1 END`);
+    }
+
+    return await db.select()
+      .from(icd10CodesTable)
+      .where(or(...matches))
+      .orderBy(...ordering)
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('ICD-10 search failed:', error);
+    throw error;
+  }
+}
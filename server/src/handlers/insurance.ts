@@ -0,0 +1,374 @@
+import { db } from '../db';
+import { insurersTable, patientInsurancePoliciesTable } from '../db/schema';
+import {
+  policyPrioritySchema,
+  type CheckInsuranceEligibilityInput,
+  type CreateInsurancePolicyInput,
+  type CreateInsurerInput,
+  type InsuranceEligibility,
+  type InsurancePolicyIdInput,
+  type Insurer,
+  type ListInsurancePoliciesInput,
+  type PatientInsurancePolicy,
+  type PolicyPriority,
+  type UpdateInsurancePolicyInput,
+  type UpdateInsurerInput
+} from '../schema';
+import { resolvePatientId } from './patients';
+import { and, asc, eq, gte, isNull, lte, ne, or, type SQL } from 'drizzle-orm';
+
+type PolicyRow = typeof patientInsurancePoliciesTable.$inferSelect;
+
+const toDateString = (value: Date): string => value.toISOString().split('T')[0];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toPolicy = (row: PolicyRow, insurerName: string): PatientInsurancePolicy => ({
+  ...row,
+  insurer_name: insurerName,
+  valid_from: new Date(row.valid_from),
+  valid_to: row.valid_to === null ? null : new Date(row.valid_to),
+  coverage_percent: parseFloat(row.coverage_percent),
+  copay_amount: parseFloat(row.copay_amount)
+});
+
+// Policies with their insurer names, primary first
+async function selectPolicies(where: SQL<unknown> | undefined): Promise<PatientInsurancePolicy[]> {
+  const rows = await db.select({ policy: patientInsurancePoliciesTable, insurer_name: insurersTable.name })
+    .from(patientInsurancePoliciesTable)
+    .innerJoin(insurersTable, eq(patientInsurancePoliciesTable.insurer_id, insurersTable.id))
+    .where(where)
+    .orderBy(asc(patientInsurancePoliciesTable.priority), asc(patientInsurancePoliciesTable.valid_from), asc(patientInsurancePoliciesTable.id))
+    .execute();
+
+  return rows.map(row => toPolicy(row.policy, row.insurer_name));
+}
+
+// Conditions for policies that are not cancelled and cover the date
+const validOn = (date: string): SQL<unknown> => and(
+  isNull(patientInsurancePoliciesTable.cancelled_at),
+  lte(patientInsurancePoliciesTable.valid_from, date),
+  or(isNull(patientInsurancePoliciesTable.valid_to), gte(patientInsurancePoliciesTable.valid_to, date))
+) as SQL<unknown>;
+
+// Create an insurer
+export async function createInsurer(input: CreateInsurerInput): Promise<Insurer> {
+  try {
+    const result = await db.insert(insurersTable)
+      .values({
+        name: input.name,
+        payer_code: input.payer_code ?? null,
+        phone: input.phone || null
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Insurer creation failed:', error);
+    throw error;
+  }
+}
+
+// List insurers by name
+export async function getInsurers(): Promise<Insurer[]> {
+  try {
+    return await db.select()
+      .from(insurersTable)
+      .orderBy(asc(insurersTable.name))
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch insurers:', error);
+    throw error;
+  }
+}
+
+// Get insurer by ID
+export async function getInsurerById(id: number): Promise<Insurer | null> {
+  try {
+    const insurers = await db.select()
+      .from(insurersTable)
+      .where(eq(insurersTable.id, id))
+      .execute();
+
+    return insurers[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch insurer by ID:', error);
+    throw error;
+  }
+}
+
+// Update an insurer; deactivated insurers no longer accept new policies or claims
+export async function updateInsurer(input: UpdateInsurerInput): Promise<Insurer> {
+  try {
+    const updateData: Partial<typeof insurersTable.$inferInsert> = { updated_at: new Date() };
+    if (input.name !== undefined) updateData.name = input.name;
+    if (input.payer_code !== undefined) updateData.payer_code = input.payer_code;
+    if (input.phone !== undefined) updateData.phone = input.phone || null;
+    if (input.is_active !== undefined) updateData.is_active = input.is_active;
+
+    const result = await db.update(insurersTable)
+      .set(updateData)
+      .where(eq(insurersTable.id, input.id))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Insurer with ID ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Insurer update failed:', error);
+    throw error;
+  }
+}
+
+async function assertActiveInsurer(insurerId: number): Promise<void> {
+  const insurers = await db.select({ is_active: insurersTable.is_active })
+    .from(insurersTable)
+    .where(eq(insurersTable.id, insurerId))
+    .execute();
+
+  if (insurers.length === 0) {
+    throw new Error(`Insurer with ID ${insurerId} not found`);
+  }
+  if (!insurers[0].is_active) {
+    throw new Error(`Insurer with ID ${insurerId} is not active`);
+  }
+}
+
+// A patient has at most one policy of each priority covering any given day
+async function assertNoOverlap(patientId: number, priority: PolicyPriority, validFrom: string, validTo: string | null, excludeId?: number): Promise<void> {
+  const conditions: SQL<unknown>[] = [
+    eq(patientInsurancePoliciesTable.patient_id, patientId),
+    eq(patientInsurancePoliciesTable.priority, priority),
+    isNull(patientInsurancePoliciesTable.cancelled_at),
+    or(isNull(patientInsurancePoliciesTable.valid_to), gte(patientInsurancePoliciesTable.valid_to, validFrom)) as SQL<unknown>
+  ];
+  if (validTo !== null) {
+    conditions.push(lte(patientInsurancePoliciesTable.valid_from, validTo));
+  }
+  if (excludeId !== undefined) {
+    conditions.push(ne(patientInsurancePoliciesTable.id, excludeId));
+  }
+
+  const overlapping = await db.select({ id: patientInsurancePoliciesTable.id })
+    .from(patientInsurancePoliciesTable)
+    .where(and(...conditions))
+    .execute();
+
+  if (overlapping.length > 0) {
+    throw new Error(`Patient already has a ${priority} policy for these dates (ID ${overlapping[0].id})`);
+  }
+}
+
+// The patient a policy belongs to, for access checks
+export async function getPolicyPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: patientInsurancePoliciesTable.patient_id })
+    .from(patientInsurancePoliciesTable)
+    .where(eq(patientInsurancePoliciesTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// Check that an insurance payment may be billed to the policy on the date
+export async function assertPolicyForPayment(policyId: number, patientId: number, date: Date): Promise<void> {
+  const rows = await db.select({ policy: patientInsurancePoliciesTable, insurer_active: insurersTable.is_active })
+    .from(patientInsurancePoliciesTable)
+    .innerJoin(insurersTable, eq(patientInsurancePoliciesTable.insurer_id, insurersTable.id))
+    .where(eq(patientInsurancePoliciesTable.id, policyId))
+    .execute();
+
+  if (rows.length === 0) {
+    throw new Error(`Insurance policy with ID ${policyId} not found`);
+  }
+
+  const { policy, insurer_active } = rows[0];
+  const day = toDateString(date);
+  if (policy.patient_id !== patientId) {
+    throw new Error(`Insurance policy with ID ${policyId} belongs to another patient`);
+  }
+  if (policy.cancelled_at !== null) {
+    throw new Error(`Insurance policy with ID ${policyId} was cancelled`);
+  }
+  if (policy.valid_from > day || (policy.valid_to !== null && policy.valid_to < day)) {
+    throw new Error(`Insurance policy with ID ${policyId} is not valid on ${day}`);
+  }
+  if (!insurer_active) {
+    throw new Error(`Insurer with ID ${policy.insurer_id} is not active`);
+  }
+}
+
+// Get an insurance policy by ID
+export async function getInsurancePolicyById(id: number): Promise<PatientInsurancePolicy | null> {
+  try {
+    const policies = await selectPolicies(eq(patientInsurancePoliciesTable.id, id));
+    return policies[0] ?? null;
+  } catch (error) {
+    console.error('Failed to fetch insurance policy by ID:', error);
+    throw error;
+  }
+}
+
+// List a patient's policies, by default only those valid today
+export async function listInsurancePolicies(input: ListInsurancePoliciesInput): Promise<PatientInsurancePolicy[]> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id) ?? input.patient_id;
+    const conditions: SQL<unknown>[] = [eq(patientInsurancePoliciesTable.patient_id, patientId)];
+    if (!input.include_inactive) {
+      conditions.push(validOn(toDateString(new Date())));
+    }
+
+    return await selectPolicies(and(...conditions));
+  } catch (error) {
+    console.error('Failed to fetch insurance policies:', error);
+    throw error;
+  }
+}
+
+// Add an insurance policy to a patient
+export async function createInsurancePolicy(input: CreateInsurancePolicyInput, userId: number): Promise<PatientInsurancePolicy> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    await assertActiveInsurer(input.insurer_id);
+
+    const validFrom = toDateString(input.valid_from);
+    const validTo = input.valid_to ? toDateString(input.valid_to) : null;
+    await assertNoOverlap(patientId, input.priority, validFrom, validTo);
+
+    const [row] = await db.insert(patientInsurancePoliciesTable)
+      .values({
+        patient_id: patientId,
+        insurer_id: input.insurer_id,
+        member_id: input.member_id,
+        group_number: input.group_number ?? null,
+        priority: input.priority,
+        valid_from: validFrom,
+        valid_to: validTo,
+        coverage_percent: input.coverage_percent.toString(),
+        copay_amount: input.copay_amount.toString(),
+        created_by: userId
+      })
+      .returning()
+      .execute();
+
+    const [policy] = await selectPolicies(eq(patientInsurancePoliciesTable.id, row.id));
+    return policy;
+  } catch (error) {
+    console.error('Insurance policy creation failed:', error);
+    throw error;
+  }
+}
+
+// Update a policy that has not been cancelled
+export async function updateInsurancePolicy(input: UpdateInsurancePolicyInput): Promise<PatientInsurancePolicy> {
+  try {
+    const existing = await db.select()
+      .from(patientInsurancePoliciesTable)
+      .where(eq(patientInsurancePoliciesTable.id, input.id))
+      .execute();
+
+    if (existing.length === 0) {
+      throw new Error(`Insurance policy with ID ${input.id} not found`);
+    }
+    if (existing[0].cancelled_at !== null) {
+      throw new Error(`Insurance policy with ID ${input.id} was cancelled`);
+    }
+
+    const updateData: Partial<typeof patientInsurancePoliciesTable.$inferInsert> = { updated_at: new Date() };
+    if (input.member_id !== undefined) updateData.member_id = input.member_id;
+    if (input.group_number !== undefined) updateData.group_number = input.group_number;
+    if (input.priority !== undefined) updateData.priority = input.priority;
+    if (input.valid_from !== undefined) updateData.valid_from = toDateString(input.valid_from);
+    if (input.valid_to !== undefined) updateData.valid_to = input.valid_to ? toDateString(input.valid_to) : null;
+    if (input.coverage_percent !== undefined) updateData.coverage_percent = input.coverage_percent.toString();
+    if (input.copay_amount !== undefined) updateData.copay_amount = input.copay_amount.toString();
+
+    const priority = updateData.priority ?? existing[0].priority;
+    const validFrom = updateData.valid_from ?? existing[0].valid_from;
+    const validTo = updateData.valid_to !== undefined ? updateData.valid_to : existing[0].valid_to;
+    if (validTo !== null && validTo < validFrom) {
+      throw new Error('valid_to must not be before valid_from');
+    }
+    await assertNoOverlap(existing[0].patient_id, priority, validFrom, validTo, input.id);
+
+    await db.update(patientInsurancePoliciesTable)
+      .set(updateData)
+      .where(eq(patientInsurancePoliciesTable.id, input.id))
+      .execute();
+
+    const [policy] = await selectPolicies(eq(patientInsurancePoliciesTable.id, input.id));
+    return policy;
+  } catch (error) {
+    console.error('Insurance policy update failed:', error);
+    throw error;
+  }
+}
+
+// Cancel a policy. It stays on file for the payments already billed to it.
+export async function cancelInsurancePolicy(input: InsurancePolicyIdInput): Promise<PatientInsurancePolicy> {
+  try {
+    const result = await db.update(patientInsurancePoliciesTable)
+      .set({ cancelled_at: new Date(), updated_at: new Date() })
+      .where(and(eq(patientInsurancePoliciesTable.id, input.id), isNull(patientInsurancePoliciesTable.cancelled_at)))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Active insurance policy with ID ${input.id} not found`);
+    }
+
+    const [policy] = await selectPolicies(eq(patientInsurancePoliciesTable.id, input.id));
+    return policy;
+  } catch (error) {
+    console.error('Insurance policy cancellation failed:', error);
+    throw error;
+  }
+}
+
+// The patient's policies valid on the date, primary first, and optionally how
+// a charge splits: the primary covers its percentage after the copay, the
+// secondary its percentage of what is left, and the patient pays the rest
+export async function checkInsuranceEligibility(input: CheckInsuranceEligibilityInput): Promise<InsuranceEligibility> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    const date = input.date ?? new Date();
+    const policies = await selectPolicies(and(
+      eq(patientInsurancePoliciesTable.patient_id, patientId),
+      eq(insurersTable.is_active, true),
+      validOn(toDateString(date))
+    ));
+
+    let estimate: InsuranceEligibility['estimate'] = null;
+    if (input.amount !== undefined) {
+      const [primary, secondary] = policyPrioritySchema.options.map(priority => policies.find(policy => policy.priority === priority));
+      const amount = input.amount;
+      const copay = primary ? round(Math.min(primary.copay_amount, amount)) : 0;
+      const primaryCovered = primary ? round((amount - copay) * primary.coverage_percent / 100) : 0;
+      const secondaryCovered = secondary ? round((amount - primaryCovered) * secondary.coverage_percent / 100) : 0;
+
+      estimate = {
+        amount,
+        copay,
+        primary_covered: primaryCovered,
+        secondary_covered: secondaryCovered,
+        patient_responsibility: round(amount - primaryCovered - secondaryCovered)
+      };
+    }
+
+    return { patient_id: patientId, date, policies, estimate };
+  } catch (error) {
+    console.error('Insurance eligibility check failed:', error);
+    throw error;
+  }
+}
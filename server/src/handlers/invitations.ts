@@ -0,0 +1,241 @@
+import { db } from '../db';
+import { usersTable, invitationsTable } from '../db/schema';
+import {
+  type CreateInvitationInput,
+  type ListInvitationsInput,
+  type RevokeInvitationInput,
+  type InvitationTokenInput,
+  type AcceptInvitationInput,
+  type Invitation,
+  type InvitationStatus,
+  type PublicUser
+} from '../schema';
+import { registerUser } from './auth';
+import { assertPasswordMeetsPolicy } from './passwords';
+import { getNotifier, getAppBaseUrl } from '../notifier';
+import { and, desc, eq, gt, isNotNull, isNull, lte, type SQL } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Staff accounts are invite-only. An admin picks the role up front; the
+// invitee gets a one-time link (only its hash is stored) to set a password.
+
+type InvitationRow = typeof invitationsTable.$inferSelect;
+
+function getInvitationStatus(row: InvitationRow, now: Date = new Date()): InvitationStatus {
+  if (row.accepted_at) {
+    return 'accepted';
+  }
+  if (row.revoked_at) {
+    return 'revoked';
+  }
+  if (row.expires_at <= now) {
+    return 'expired';
+  }
+  return 'pending';
+}
+
+const toInvitation = ({ token_hash, ...row }: InvitationRow): Invitation => ({
+  ...row,
+  status: getInvitationStatus({ token_hash, ...row })
+});
+
+function hashInvitationToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Conditions matching invitations that can still be accepted
+const pendingConditions = (): SQL<unknown>[] => [
+  isNull(invitationsTable.accepted_at),
+  isNull(invitationsTable.revoked_at),
+  gt(invitationsTable.expires_at, new Date())
+];
+
+async function findPendingInvitation(token: string): Promise<InvitationRow> {
+  const invitations = await db.select()
+    .from(invitationsTable)
+    .where(and(
+      eq(invitationsTable.token_hash, hashInvitationToken(token)),
+      ...pendingConditions()
+    ))
+    .execute();
+
+  if (invitations.length === 0) {
+    throw new Error('Invalid or expired invitation');
+  }
+
+  return invitations[0];
+}
+
+// Invite a new staff member and send them the sign-up link. Any earlier
+// pending invitation for the same email stops working.
+export async function createInvitation(input: CreateInvitationInput, adminId: number): Promise<Invitation> {
+  try {
+    const existingUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, input.email))
+      .execute();
+
+    if (existingUser.length > 0) {
+      throw new Error('User with this email already exists');
+    }
+
+    const now = new Date();
+
+    await db.update(invitationsTable)
+      .set({ revoked_at: now })
+      .where(and(
+        eq(invitationsTable.email, input.email),
+        ...pendingConditions()
+      ))
+      .execute();
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + input.expires_in_hours * 60 * 60 * 1000);
+
+    const result = await db.insert(invitationsTable)
+      .values({
+        email: input.email,
+        role: input.role,
+        first_name: input.first_name,
+        last_name: input.last_name,
+        phone: input.phone || null,
+        token_hash: hashInvitationToken(token),
+        expires_at: expiresAt,
+        invited_by: adminId
+      })
+      .returning()
+      .execute();
+
+    await getNotifier().send({
+      to: input.email,
+      subject: 'You have been invited to the clinic pharmacy system',
+      body: `Hello ${input.first_name},\n\n` +
+        `You have been invited to join as ${input.role}. ` +
+        `Use this link to set your password: ${getAppBaseUrl()}/accept-invitation?token=${token}\n` +
+        `The link expires at ${expiresAt.toISOString()} and can be used once.`
+    });
+
+    return toInvitation(result[0]);
+  } catch (error) {
+    console.error('Invitation creation failed:', error);
+    throw error;
+  }
+}
+
+// List invitations, newest first, optionally by status
+export async function listInvitations(input: ListInvitationsInput): Promise<Invitation[]> {
+  try {
+    const now = new Date();
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.status === 'pending') {
+      conditions.push(...pendingConditions());
+    } else if (input.status === 'accepted') {
+      conditions.push(isNotNull(invitationsTable.accepted_at));
+    } else if (input.status === 'revoked') {
+      conditions.push(isNotNull(invitationsTable.revoked_at));
+    } else if (input.status === 'expired') {
+      conditions.push(isNull(invitationsTable.accepted_at));
+      conditions.push(isNull(invitationsTable.revoked_at));
+      conditions.push(lte(invitationsTable.expires_at, now));
+    }
+
+    const rows = await db.select()
+      .from(invitationsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(invitationsTable.created_at), desc(invitationsTable.id))
+      .execute();
+
+    return rows.map(toInvitation);
+  } catch (error) {
+    console.error('Failed to fetch invitations:', error);
+    throw error;
+  }
+}
+
+// Withdraw a pending invitation so its link no longer works
+export async function revokeInvitation(input: RevokeInvitationInput): Promise<Invitation> {
+  try {
+    const result = await db.update(invitationsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(invitationsTable.id, input.id),
+        isNull(invitationsTable.accepted_at),
+        isNull(invitationsTable.revoked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Pending invitation with ID ${input.id} not found`);
+    }
+
+    return toInvitation(result[0]);
+  } catch (error) {
+    console.error('Invitation revocation failed:', error);
+    throw error;
+  }
+}
+
+// Look up an invitation by its link so the sign-up page can show who it is for
+export async function getInvitationByToken(input: InvitationTokenInput): Promise<Invitation> {
+  try {
+    return toInvitation(await findPendingInvitation(input.token));
+  } catch (error) {
+    console.error('Failed to fetch invitation:', error);
+    throw error;
+  }
+}
+
+// Create the invited account with the password the invitee chose. The link
+// works once; the role and name come from the invitation, not the request.
+export async function acceptInvitation(input: AcceptInvitationInput): Promise<PublicUser> {
+  try {
+    const invitation = await findPendingInvitation(input.token);
+
+    // Check the password before spending the invitation so the invitee can retry
+    await assertPasswordMeetsPolicy(input.password);
+
+    const existingUser = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, invitation.email))
+      .execute();
+
+    if (existingUser.length > 0) {
+      throw new Error('User with this email already exists');
+    }
+
+    // Claim the invitation; a concurrent request that got here first wins
+    const claimed = await db.update(invitationsTable)
+      .set({ accepted_at: new Date() })
+      .where(and(
+        eq(invitationsTable.id, invitation.id),
+        ...pendingConditions()
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired invitation');
+    }
+
+    const { password_hash, ...user } = await registerUser({
+      email: invitation.email,
+      password: input.password,
+      role: invitation.role,
+      first_name: invitation.first_name,
+      last_name: invitation.last_name,
+      phone: invitation.phone
+    });
+
+    await db.update(invitationsTable)
+      .set({ accepted_user_id: user.id })
+      .where(eq(invitationsTable.id, invitation.id))
+      .execute();
+
+    return user;
+  } catch (error) {
+    console.error('Invitation acceptance failed:', error);
+    throw error;
+  }
+}
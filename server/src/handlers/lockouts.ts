@@ -0,0 +1,309 @@
+import { db } from '../db';
+import { loginAttemptsTable, loginLockoutsTable } from '../db/schema';
+import {
+  type GetLockoutsInput,
+  type UnlockLockoutInput,
+  type FailedLoginSummaryInput,
+  type LoginLockout,
+  type LockoutScope
+} from '../schema';
+import { and, count, desc, eq, gt, gte, isNull, max, type SQL } from 'drizzle-orm';
+
+// Brute-force protection limits. Every value can be overridden from the
+// environment so a small clinic and a busy one can tune them separately.
+export interface LoginProtectionConfig {
+  maxFailuresPerEmail: number;
+  maxFailuresPerIp: number;
+  failureWindowMinutes: number;
+  lockoutMinutes: number;
+  delayAfterFailures: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+const DEFAULT_CONFIG: LoginProtectionConfig = {
+  maxFailuresPerEmail: 5,
+  maxFailuresPerIp: 20,
+  failureWindowMinutes: 15,
+  lockoutMinutes: 15,
+  delayAfterFailures: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000
+};
+
+const CONFIG_ENV_VARS: Record<keyof LoginProtectionConfig, string> = {
+  maxFailuresPerEmail: 'LOGIN_MAX_FAILURES_PER_EMAIL',
+  maxFailuresPerIp: 'LOGIN_MAX_FAILURES_PER_IP',
+  failureWindowMinutes: 'LOGIN_FAILURE_WINDOW_MINUTES',
+  lockoutMinutes: 'LOGIN_LOCKOUT_MINUTES',
+  delayAfterFailures: 'LOGIN_DELAY_AFTER_FAILURES',
+  baseDelayMs: 'LOGIN_BASE_DELAY_MS',
+  maxDelayMs: 'LOGIN_MAX_DELAY_MS'
+};
+
+export function getLoginProtectionConfig(): LoginProtectionConfig {
+  const config = { ...DEFAULT_CONFIG };
+
+  for (const key of Object.keys(CONFIG_ENV_VARS) as (keyof LoginProtectionConfig)[]) {
+    const raw = process.env[CONFIG_ENV_VARS[key]];
+    if (raw === undefined || raw === '') {
+      continue;
+    }
+
+    const value = parseInt(raw, 10);
+    if (isNaN(value) || value < 0) {
+      throw new Error(`${CONFIG_ENV_VARS[key]} must be a non-negative integer`);
+    }
+    config[key] = value;
+  }
+
+  return config;
+}
+
+const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+// Failed attempts for one email or IP that still count towards a lockout:
+// inside the window and after the last lockout (and, for emails, the last
+// successful login).
+async function getRecentFailures(scope: LockoutScope, identifier: string, config: LoginProtectionConfig): Promise<{ count: number; lastFailureAt: Date | null }> {
+  const identifierColumn = scope === 'email' ? loginAttemptsTable.email : loginAttemptsTable.ip_address;
+  let since = new Date(Date.now() - config.failureWindowMinutes * 60 * 1000);
+
+  const [lastLockout] = await db.select({ at: max(loginLockoutsTable.created_at) })
+    .from(loginLockoutsTable)
+    .where(and(
+      eq(loginLockoutsTable.scope, scope),
+      eq(loginLockoutsTable.identifier, identifier)
+    ))
+    .execute();
+
+  if (lastLockout.at && lastLockout.at > since) {
+    since = lastLockout.at;
+  }
+
+  if (scope === 'email') {
+    const [lastSuccess] = await db.select({ at: max(loginAttemptsTable.created_at) })
+      .from(loginAttemptsTable)
+      .where(and(
+        eq(loginAttemptsTable.email, identifier),
+        eq(loginAttemptsTable.succeeded, true)
+      ))
+      .execute();
+
+    if (lastSuccess.at && lastSuccess.at > since) {
+      since = lastSuccess.at;
+    }
+  }
+
+  const [failures] = await db.select({ count: count(), lastFailureAt: max(loginAttemptsTable.created_at) })
+    .from(loginAttemptsTable)
+    .where(and(
+      eq(identifierColumn, identifier),
+      eq(loginAttemptsTable.succeeded, false),
+      gt(loginAttemptsTable.created_at, since)
+    ))
+    .execute();
+
+  return { count: failures.count, lastFailureAt: failures.lastFailureAt };
+}
+
+async function getActiveLockout(scope: LockoutScope, identifier: string): Promise<LoginLockout | null> {
+  const lockouts = await db.select()
+    .from(loginLockoutsTable)
+    .where(and(
+      eq(loginLockoutsTable.scope, scope),
+      eq(loginLockoutsTable.identifier, identifier),
+      isNull(loginLockoutsTable.unlocked_at),
+      gt(loginLockoutsTable.locked_until, new Date())
+    ))
+    .orderBy(desc(loginLockoutsTable.locked_until))
+    .limit(1)
+    .execute();
+
+  return lockouts.length > 0 ? lockouts[0] : null;
+}
+
+// Milliseconds to wait after the given number of failures before trying again
+export function getProgressiveDelayMs(failures: number, config: LoginProtectionConfig): number {
+  if (failures < config.delayAfterFailures || config.baseDelayMs === 0) {
+    return 0;
+  }
+
+  const delay = config.baseDelayMs * Math.pow(2, failures - config.delayAfterFailures);
+  return Math.min(delay, config.maxDelayMs);
+}
+
+// Throw if a login for this email or IP must not be attempted right now,
+// either because it is locked out or because the progressive delay since the
+// last failure has not passed yet.
+export async function assertLoginAllowed(email: string, ipAddress: string | null): Promise<void> {
+  const config = getLoginProtectionConfig();
+  const identifiers: [LockoutScope, string][] = [['email', normalizeEmail(email)]];
+  if (ipAddress) {
+    identifiers.push(['ip', ipAddress]);
+  }
+
+  for (const [scope, identifier] of identifiers) {
+    const lockout = await getActiveLockout(scope, identifier);
+    if (lockout) {
+      throw new Error(`Too many failed login attempts, try again after ${lockout.locked_until.toISOString()}`);
+    }
+
+    const failures = await getRecentFailures(scope, identifier, config);
+    const delayMs = getProgressiveDelayMs(failures.count, config);
+    if (delayMs > 0 && failures.lastFailureAt) {
+      const retryAt = failures.lastFailureAt.getTime() + delayMs;
+      if (retryAt > Date.now()) {
+        throw new Error(`Too many failed login attempts, try again in ${Math.ceil((retryAt - Date.now()) / 1000)} seconds`);
+      }
+    }
+  }
+}
+
+// Record a failed login and lock the email and/or IP once it crosses its limit
+export async function recordFailedLogin(email: string, ipAddress: string | null): Promise<void> {
+  try {
+    const config = getLoginProtectionConfig();
+    const normalizedEmail = normalizeEmail(email);
+
+    await db.insert(loginAttemptsTable)
+      .values({
+        email: normalizedEmail,
+        ip_address: ipAddress,
+        succeeded: false,
+        created_at: new Date()
+      })
+      .execute();
+
+    const checks: [LockoutScope, string | null, number][] = [
+      ['email', normalizedEmail, config.maxFailuresPerEmail],
+      ['ip', ipAddress, config.maxFailuresPerIp]
+    ];
+
+    for (const [scope, identifier, limit] of checks) {
+      if (!identifier || limit === 0) {
+        continue;
+      }
+
+      const failures = await getRecentFailures(scope, identifier, config);
+      if (failures.count >= limit) {
+        const lockedAt = new Date();
+        await db.insert(loginLockoutsTable)
+          .values({
+            scope,
+            identifier,
+            failed_attempts: failures.count,
+            locked_until: new Date(lockedAt.getTime() + config.lockoutMinutes * 60 * 1000),
+            created_at: lockedAt
+          })
+          .execute();
+        console.warn(`Login locked for ${scope} ${identifier} after ${failures.count} failed attempts`);
+      }
+    }
+  } catch (error) {
+    console.error('Recording failed login failed:', error);
+    throw error;
+  }
+}
+
+// Record a successful login, which resets the failure count for the email
+export async function recordSuccessfulLogin(email: string, ipAddress: string | null): Promise<void> {
+  try {
+    await db.insert(loginAttemptsTable)
+      .values({
+        email: normalizeEmail(email),
+        ip_address: ipAddress,
+        succeeded: true,
+        created_at: new Date()
+      })
+      .execute();
+  } catch (error) {
+    console.error('Recording successful login failed:', error);
+    throw error;
+  }
+}
+
+// List lockout events, newest first
+export async function getLockouts(input: GetLockoutsInput): Promise<LoginLockout[]> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.active_only) {
+      conditions.push(isNull(loginLockoutsTable.unlocked_at));
+      conditions.push(gt(loginLockoutsTable.locked_until, new Date()));
+    }
+
+    return await db.select()
+      .from(loginLockoutsTable)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(loginLockoutsTable.created_at))
+      .limit(input.limit)
+      .execute();
+  } catch (error) {
+    console.error('Failed to fetch lockouts:', error);
+    throw error;
+  }
+}
+
+// Lift a lockout early, recording which admin did it
+export async function unlockLockout(input: UnlockLockoutInput, adminId: number): Promise<LoginLockout> {
+  try {
+    const result = await db.update(loginLockoutsTable)
+      .set({
+        unlocked_at: new Date(),
+        unlocked_by: adminId
+      })
+      .where(and(
+        eq(loginLockoutsTable.id, input.id),
+        isNull(loginLockoutsTable.unlocked_at)
+      ))
+      .returning()
+      .execute();
+
+    if (result.length === 0) {
+      throw new Error(`Active lockout with ID ${input.id} not found`);
+    }
+
+    return result[0];
+  } catch (error) {
+    console.error('Lockout unlock failed:', error);
+    throw error;
+  }
+}
+
+// Failed login counts per email and per IP since a point in time, most targeted first
+export async function getFailedLoginSummary(input: FailedLoginSummaryInput): Promise<{
+  byEmail: Array<{ email: string; failures: number }>;
+  byIp: Array<{ ipAddress: string; failures: number }>;
+}> {
+  try {
+    const conditions = [
+      eq(loginAttemptsTable.succeeded, false),
+      gte(loginAttemptsTable.created_at, input.since)
+    ];
+
+    const byEmail = await db.select({ email: loginAttemptsTable.email, failures: count() })
+      .from(loginAttemptsTable)
+      .where(and(...conditions))
+      .groupBy(loginAttemptsTable.email)
+      .orderBy(desc(count()))
+      .execute();
+
+    const byIp = await db.select({ ipAddress: loginAttemptsTable.ip_address, failures: count() })
+      .from(loginAttemptsTable)
+      .where(and(...conditions))
+      .groupBy(loginAttemptsTable.ip_address)
+      .orderBy(desc(count()))
+      .execute();
+
+    return {
+      byEmail,
+      byIp: byIp
+        .filter(row => row.ipAddress !== null)
+        .map(row => ({ ipAddress: row.ipAddress!, failures: row.failures }))
+    };
+  } catch (error) {
+    console.error('Failed to fetch failed login summary:', error);
+    throw error;
+  }
+}
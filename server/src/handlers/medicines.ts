@@ -7,6 +7,8 @@ import { eq, lte, or, ilike, sql, like } from 'drizzle-orm';
 const convertToMedicine = (row: any): Medicine => ({
   ...row,
   price_per_unit: parseFloat(row.price_per_unit), // Convert string to number
+  max_daily_dose_mg_per_kg: row.max_daily_dose_mg_per_kg === null ? null : parseFloat(row.max_daily_dose_mg_per_kg),
+  max_daily_dose_mg: row.max_daily_dose_mg === null ? null : parseFloat(row.max_daily_dose_mg),
   expiry_date: row.expiry_date ? new Date(row.expiry_date) : null, // Convert string to Date
   created_at: new Date(row.created_at), // Ensure Date type
   updated_at: new Date(row.updated_at) // Ensure Date type
@@ -24,7 +26,9 @@ export async function createMedicine(input: CreateMedicineInput): Promise<Medici
         supplier_info: input.supplier_info || null,
         batch_number: input.batch_number || null,
         expiry_date: input.expiry_date ? input.expiry_date.toISOString().split('T')[0] : null, // Convert Date to string
-        storage_conditions: input.storage_conditions || null
+        storage_conditions: input.storage_conditions || null,
+        max_daily_dose_mg_per_kg: input.max_daily_dose_mg_per_kg?.toString() ?? null,
+        max_daily_dose_mg: input.max_daily_dose_mg?.toString() ?? null
       })
       .returning()
       .execute();
@@ -83,6 +87,8 @@ export async function updateMedicine(input: UpdateMedicineInput): Promise<Medici
     if (input.batch_number !== undefined) updateData.batch_number = input.batch_number;
     if (input.expiry_date !== undefined) updateData.expiry_date = input.expiry_date ? input.expiry_date.toISOString().split('T')[0] : null;
     if (input.storage_conditions !== undefined) updateData.storage_conditions = input.storage_conditions;
+    if (input.max_daily_dose_mg_per_kg !== undefined) updateData.max_daily_dose_mg_per_kg = input.max_daily_dose_mg_per_kg?.toString() ?? null;
+    if (input.max_daily_dose_mg !== undefined) updateData.max_daily_dose_mg = input.max_daily_dose_mg?.toString() ?? null;
 
     // Always update the updated_at timestamp
     updateData.updated_at = new Date();
@@ -0,0 +1,325 @@
+import { db } from '../db';
+import { usersTable, passwordHistoryTable, passwordResetTokensTable } from '../db/schema';
+import {
+  type ChangePasswordInput,
+  type RequestPasswordResetInput,
+  type ResetPasswordInput,
+  type User
+} from '../schema';
+import { getNotifier, getAppBaseUrl } from '../notifier';
+import { revokeUserSessions } from './sessions';
+import { and, desc, eq, gt, inArray, isNull } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Passwords are hashed with scrypt. The stored string carries its own
+// parameters (`scrypt$N$r$p$salt$hash`) so they can be raised later without
+// invalidating existing hashes.
+const SCRYPT_PARAMS = { N: 16384, r: 8, p: 1 };
+const SCRYPT_KEY_LENGTH = 64;
+const SCRYPT_SALT_BYTES = 16;
+
+// Hashes written before scrypt were a bare, unsalted SHA-256 hex digest
+const LEGACY_SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+function scrypt(password: string, salt: Buffer, keyLength: number, params: { N: number; r: number; p: number }): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    crypto.scrypt(password, salt, keyLength, { ...params, maxmem: 256 * params.N * params.r }, (error, derivedKey) => {
+      if (error) {
+        reject(error);
+      } else {
+        resolve(derivedKey);
+      }
+    });
+  });
+}
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(SCRYPT_SALT_BYTES);
+  const derivedKey = await scrypt(password, salt, SCRYPT_KEY_LENGTH, SCRYPT_PARAMS);
+  const { N, r, p } = SCRYPT_PARAMS;
+
+  return `scrypt$${N}$${r}$${p}$${salt.toString('base64')}$${derivedKey.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, hash: string): Promise<boolean> {
+  if (LEGACY_SHA256_PATTERN.test(hash)) {
+    const legacy = Buffer.from(crypto.createHash('sha256').update(password).digest('hex'));
+    return crypto.timingSafeEqual(legacy, Buffer.from(hash));
+  }
+
+  const parts = hash.split('$');
+  if (parts.length !== 6 || parts[0] !== 'scrypt') {
+    return false;
+  }
+
+  const [N, r, p] = parts.slice(1, 4).map(value => parseInt(value, 10));
+  if ([N, r, p].some(value => isNaN(value) || value <= 0)) {
+    return false;
+  }
+
+  const salt = Buffer.from(parts[4], 'base64');
+  const expected = Buffer.from(parts[5], 'base64');
+  if (salt.length === 0 || expected.length === 0) {
+    return false;
+  }
+
+  const derivedKey = await scrypt(password, salt, expected.length, { N, r, p });
+
+  return crypto.timingSafeEqual(derivedKey, expected);
+}
+
+// True when a stored hash is legacy or uses weaker parameters than the current ones
+export function needsRehash(hash: string): boolean {
+  const { N, r, p } = SCRYPT_PARAMS;
+  return !hash.startsWith(`scrypt$${N}$${r}$${p}$`);
+}
+
+// Password policy. PASSWORD_MIN_LENGTH and PASSWORD_HISTORY_SIZE override
+// the defaults; a history size of 0 disables the reuse check.
+export interface PasswordPolicy {
+  minLength: number;
+  historySize: number;
+}
+
+export function getPasswordPolicy(): PasswordPolicy {
+  const readInt = (name: string, fallback: number): number => {
+    const raw = process.env[name];
+    if (raw === undefined || raw === '') {
+      return fallback;
+    }
+    const value = parseInt(raw, 10);
+    if (isNaN(value) || value < 0) {
+      throw new Error(`${name} must be a non-negative integer`);
+    }
+    return value;
+  };
+
+  return {
+    minLength: readInt('PASSWORD_MIN_LENGTH', 10),
+    historySize: readInt('PASSWORD_HISTORY_SIZE', 5)
+  };
+}
+
+const RESET_TOKEN_TTL_MINUTES = 60;
+
+function hashResetToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+// Throw if a new password is too short or matches one of the user's recent passwords
+export async function assertPasswordMeetsPolicy(password: string, userId?: number): Promise<void> {
+  const policy = getPasswordPolicy();
+
+  if (password.length < policy.minLength) {
+    throw new Error(`Password must be at least ${policy.minLength} characters long`);
+  }
+
+  if (userId === undefined || policy.historySize === 0) {
+    return;
+  }
+
+  const recent = await db.select({ password_hash: passwordHistoryTable.password_hash })
+    .from(passwordHistoryTable)
+    .where(eq(passwordHistoryTable.user_id, userId))
+    .orderBy(desc(passwordHistoryTable.created_at), desc(passwordHistoryTable.id))
+    .limit(policy.historySize)
+    .execute();
+
+  const users = await db.select({ password_hash: usersTable.password_hash })
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  const hashes = [...users.map(user => user.password_hash), ...recent.map(entry => entry.password_hash)];
+  for (const hash of hashes) {
+    if (await verifyPassword(password, hash)) {
+      throw new Error(`Password must not match any of the last ${policy.historySize} passwords`);
+    }
+  }
+}
+
+// Remember a password hash and drop entries beyond the history size
+export async function recordPasswordHistory(userId: number, passwordHash: string): Promise<void> {
+  const policy = getPasswordPolicy();
+
+  await db.insert(passwordHistoryTable)
+    .values({
+      user_id: userId,
+      password_hash: passwordHash,
+      created_at: new Date()
+    })
+    .execute();
+
+  const entries = await db.select({ id: passwordHistoryTable.id })
+    .from(passwordHistoryTable)
+    .where(eq(passwordHistoryTable.user_id, userId))
+    .orderBy(desc(passwordHistoryTable.created_at), desc(passwordHistoryTable.id))
+    .execute();
+
+  const stale = entries.slice(Math.max(policy.historySize, 1)).map(entry => entry.id);
+  if (stale.length > 0) {
+    await db.delete(passwordHistoryTable)
+      .where(inArray(passwordHistoryTable.id, stale))
+      .execute();
+  }
+}
+
+// Apply the policy, then store the new password for a user
+export async function setUserPassword(userId: number, newPassword: string): Promise<User> {
+  await assertPasswordMeetsPolicy(newPassword, userId);
+
+  const passwordHash = await hashPassword(newPassword);
+  const result = await db.update(usersTable)
+    .set({
+      password_hash: passwordHash,
+      updated_at: new Date()
+    })
+    .where(eq(usersTable.id, userId))
+    .returning()
+    .execute();
+
+  if (result.length === 0) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  await recordPasswordHistory(userId, passwordHash);
+
+  return result[0];
+}
+
+// Change the caller's own password. Other sessions are signed out; the
+// session making the change stays logged in.
+export async function changePassword(input: ChangePasswordInput, userId: number, currentSessionId: number): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, userId))
+      .execute();
+
+    if (users.length === 0) {
+      throw new Error(`User with ID ${userId} not found`);
+    }
+
+    if (!(await verifyPassword(input.current_password, users[0].password_hash))) {
+      throw new Error('Current password is incorrect');
+    }
+
+    await setUserPassword(userId, input.new_password);
+    await revokeUserSessions(userId, currentSessionId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password change failed:', error);
+    throw error;
+  }
+}
+
+// Issue a single-use reset token and send it through the notifier. The
+// response is the same whether or not the email belongs to an active user,
+// so it cannot be used to discover accounts.
+export async function requestPasswordReset(input: RequestPasswordResetInput): Promise<{ success: boolean }> {
+  try {
+    const users = await db.select()
+      .from(usersTable)
+      .where(and(
+        eq(usersTable.email, input.email),
+        eq(usersTable.is_active, true)
+      ))
+      .execute();
+
+    if (users.length === 0) {
+      return { success: true };
+    }
+
+    const user = users[0];
+    const now = new Date();
+
+    // Only the newest link works
+    await db.update(passwordResetTokensTable)
+      .set({ used_at: now })
+      .where(and(
+        eq(passwordResetTokensTable.user_id, user.id),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .execute();
+
+    const token = crypto.randomBytes(32).toString('base64url');
+    const expiresAt = new Date(now.getTime() + RESET_TOKEN_TTL_MINUTES * 60 * 1000);
+
+    await db.insert(passwordResetTokensTable)
+      .values({
+        user_id: user.id,
+        token_hash: hashResetToken(token),
+        expires_at: expiresAt
+      })
+      .execute();
+
+    await getNotifier().send({
+      to: user.email,
+      subject: 'Password reset',
+      body: `Hello ${user.first_name},\n\n` +
+        `Use this link to choose a new password: ${getAppBaseUrl()}/reset-password?token=${token}\n` +
+        `The link expires at ${expiresAt.toISOString()} and can be used once.\n\n` +
+        'If you did not ask for a reset, you can ignore this message.'
+    });
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset request failed:', error);
+    throw error;
+  }
+}
+
+// Consume a reset token and set the new password, signing out every session
+export async function resetPassword(input: ResetPasswordInput): Promise<{ success: boolean }> {
+  try {
+    const tokens = await db.select()
+      .from(passwordResetTokensTable)
+      .where(and(
+        eq(passwordResetTokensTable.token_hash, hashResetToken(input.token)),
+        isNull(passwordResetTokensTable.used_at),
+        gt(passwordResetTokensTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (tokens.length === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    const resetToken = tokens[0];
+
+    // Check the policy before spending the token so the user can retry
+    await assertPasswordMeetsPolicy(input.new_password, resetToken.user_id);
+
+    // Claim the token; a concurrent request that got here first wins
+    const claimed = await db.update(passwordResetTokensTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(passwordResetTokensTable.id, resetToken.id),
+        isNull(passwordResetTokensTable.used_at)
+      ))
+      .returning()
+      .execute();
+
+    if (claimed.length === 0) {
+      throw new Error('Invalid or expired reset token');
+    }
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, resetToken.user_id))
+      .execute();
+
+    if (users.length === 0 || !users[0].is_active) {
+      throw new Error('Account is inactive');
+    }
+
+    await setUserPassword(resetToken.user_id, input.new_password);
+    await revokeUserSessions(resetToken.user_id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,167 @@
+import { type DuplicateMatchField } from '../schema';
+
+// Fuzzy comparison of patient identities, used to catch duplicates such as
+// "Jon Smith" vs "John Smith" born on the same day. Scores run from 0 to 1.
+
+export interface PatientIdentity {
+  first_name: string;
+  last_name: string;
+  birthdate: Date | string;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface DuplicateScore {
+  score: number;
+  matched_on: DuplicateMatchField[];
+}
+
+// Candidates scoring at least this much are reported as possible duplicates
+export const DUPLICATE_SCORE_THRESHOLD = 0.7;
+
+// How much each part of the identity contributes to the score
+const WEIGHTS = { name: 0.45, birthdate: 0.35, phone: 0.1, email: 0.1 };
+
+// Names at least this similar count as a name match in `matched_on`
+const NAME_MATCH_SIMILARITY = 0.85;
+
+// Lower-case, strip accents and everything but letters
+export function normalizeName(name: string): string {
+  return name.normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z]/g, '');
+}
+
+// Digits only, keeping the last 9 so country prefixes don't matter
+export function normalizePhone(phone: string | null | undefined): string | null {
+  const digits = (phone ?? '').replace(/\D/g, '');
+  return digits.length >= 7 ? digits.slice(-9) : null;
+}
+
+export function normalizeEmail(email: string | null | undefined): string | null {
+  const trimmed = (email ?? '').trim().toLowerCase();
+  return trimmed.length > 0 ? trimmed : null;
+}
+
+// Jaro-Winkler similarity: 1 for identical strings, favouring shared prefixes
+export function jaroWinkler(a: string, b: string): number {
+  if (a === b) {
+    return a.length > 0 ? 1 : 0;
+  }
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+
+  const window = Math.max(0, Math.floor(Math.max(a.length, b.length) / 2) - 1);
+  const aMatched = new Array<boolean>(a.length).fill(false);
+  const bMatched = new Array<boolean>(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(b.length - 1, i + window);
+    for (let j = start; j <= end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+
+  if (matches === 0) {
+    return 0;
+  }
+
+  let transpositions = 0;
+  let j = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) {
+      continue;
+    }
+    while (!bMatched[j]) {
+      j++;
+    }
+    if (a[i] !== b[j]) {
+      transpositions++;
+    }
+    j++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < 4 && prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+const toDateString = (date: Date | string): string =>
+  typeof date === 'string' ? date : date.toISOString().split('T')[0];
+
+// 1 for the same date; 0.5 for a likely typo (day and month swapped, or only
+// one of year, month or day different); 0 otherwise
+function birthdateSimilarity(a: Date | string, b: Date | string): number {
+  const [aYear, aMonth, aDay] = toDateString(a).split('-');
+  const [bYear, bMonth, bDay] = toDateString(b).split('-');
+
+  if (aYear === bYear && aMonth === bMonth && aDay === bDay) {
+    return 1;
+  }
+  if (aYear === bYear && aMonth === bDay && aDay === bMonth) {
+    return 0.5;
+  }
+
+  const sameParts = [aYear === bYear, aMonth === bMonth, aDay === bDay].filter(Boolean).length;
+  return sameParts === 2 ? 0.5 : 0;
+}
+
+// Similarity of full names, also trying first and last name swapped
+function nameSimilarity(a: PatientIdentity, b: PatientIdentity): number {
+  const aFirst = normalizeName(a.first_name);
+  const aLast = normalizeName(a.last_name);
+  const bFirst = normalizeName(b.first_name);
+  const bLast = normalizeName(b.last_name);
+
+  const direct = (jaroWinkler(aFirst, bFirst) + jaroWinkler(aLast, bLast)) / 2;
+  const swapped = (jaroWinkler(aFirst, bLast) + jaroWinkler(aLast, bFirst)) / 2 * 0.95;
+  return Math.max(direct, swapped);
+}
+
+// Score how likely two identities belong to the same person
+export function scoreDuplicate(a: PatientIdentity, b: PatientIdentity): DuplicateScore {
+  const matched_on: DuplicateMatchField[] = [];
+
+  const name = nameSimilarity(a, b);
+  if (name >= NAME_MATCH_SIMILARITY) {
+    matched_on.push('name');
+  }
+
+  const birthdate = birthdateSimilarity(a.birthdate, b.birthdate);
+  if (birthdate === 1) {
+    matched_on.push('birthdate');
+  }
+
+  const aPhone = normalizePhone(a.phone);
+  const phone = aPhone !== null && aPhone === normalizePhone(b.phone) ? 1 : 0;
+  if (phone) {
+    matched_on.push('phone');
+  }
+
+  const aEmail = normalizeEmail(a.email);
+  const email = aEmail !== null && aEmail === normalizeEmail(b.email) ? 1 : 0;
+  if (email) {
+    matched_on.push('email');
+  }
+
+  const score = WEIGHTS.name * name
+    + WEIGHTS.birthdate * birthdate
+    + WEIGHTS.phone * phone
+    + WEIGHTS.email * email;
+
+  return { score: Math.round(score * 1000) / 1000, matched_on };
+}
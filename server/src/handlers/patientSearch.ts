@@ -0,0 +1,120 @@
+import { jaroWinkler } from './patientMatching';
+
+// Parsing and highlighting for patient search (see searchPatients). Words
+// search names and emails, digits search phone numbers and ISO dates search
+// birthdates.
+
+export interface ParsedPatientQuery {
+  // Lower-cased words, joined by single spaces
+  text: string | null;
+  phoneDigits: string | null;
+  birthdates: string[];
+}
+
+export interface HighlightRange {
+  start: number;
+  end: number;
+}
+
+// Fewer digits than this are searched as text, since they would match
+// almost every phone number
+const MIN_PHONE_DIGITS = 3;
+
+// A word of the value this similar to a search word is highlighted as a typo
+const TYPO_SIMILARITY = 0.8;
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const PHONE_TOKEN_PATTERN = /^\+?[\d().-]*\d[\d().-]*$/;
+
+function isValidIsoDate(token: string): boolean {
+  if (!ISO_DATE_PATTERN.test(token)) {
+    return false;
+  }
+  const date = new Date(token);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(token);
+}
+
+// Split a query into name/email text, phone digits and birthdates. Phone
+// numbers typed with spaces ("555 0100") are joined back together.
+export function parsePatientQuery(query: string): ParsedPatientQuery {
+  const words: string[] = [];
+  const phoneTokens: string[] = [];
+  const birthdates: string[] = [];
+
+  for (const token of query.trim().toLowerCase().split(/\s+/).filter(Boolean)) {
+    if (isValidIsoDate(token)) {
+      birthdates.push(token);
+    } else if (PHONE_TOKEN_PATTERN.test(token)) {
+      phoneTokens.push(token);
+    } else {
+      words.push(token);
+    }
+  }
+
+  let phoneDigits: string | null = phoneTokens.join('').replace(/\D/g, '');
+  if (phoneDigits.length < MIN_PHONE_DIGITS) {
+    words.push(...phoneTokens);
+    phoneDigits = null;
+  }
+
+  return { text: words.length > 0 ? words.join(' ') : null, phoneDigits, birthdates };
+}
+
+function mergeRanges(ranges: HighlightRange[]): HighlightRange[] {
+  const merged: HighlightRange[] = [];
+  for (const range of [...ranges].sort((a, b) => a.start - b.start)) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+  return merged;
+}
+
+// Ranges of `value` matching the search words: where a word occurs in it,
+// or else the word of `value` closest to it when that looks like a typo
+export function highlightWords(value: string, words: string[]): HighlightRange[] {
+  const lower = value.toLowerCase();
+  const valueWords = [...lower.matchAll(/[\p{L}\p{N}]+/gu)];
+  const ranges: HighlightRange[] = [];
+
+  for (const word of words) {
+    const index = lower.indexOf(word);
+    if (index >= 0) {
+      ranges.push({ start: index, end: index + word.length });
+      continue;
+    }
+
+    let best: { similarity: number; range: HighlightRange } | null = null;
+    for (const match of valueWords) {
+      const similarity = jaroWinkler(word, match[0]);
+      if (similarity >= TYPO_SIMILARITY && (!best || similarity > best.similarity)) {
+        best = { similarity, range: { start: match.index, end: match.index + match[0].length } };
+      }
+    }
+    if (best) {
+      ranges.push(best.range);
+    }
+  }
+
+  return mergeRanges(ranges);
+}
+
+// The range of a formatted phone number ("+1 (555) 010-0100") covering the
+// searched digits
+export function highlightDigits(value: string, digits: string): HighlightRange[] {
+  const positions: number[] = [];
+  for (let i = 0; i < value.length; i++) {
+    if (/\d/.test(value[i])) {
+      positions.push(i);
+    }
+  }
+
+  const index = positions.map(position => value[position]).join('').indexOf(digits);
+  if (index < 0) {
+    return [];
+  }
+  return [{ start: positions[index], end: positions[index + digits.length - 1] + 1 }];
+}
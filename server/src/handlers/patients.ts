@@ -1,11 +1,183 @@
 import { db } from '../db';
-import { patientsTable } from '../db/schema';
-import { type CreatePatientInput, type UpdatePatientInput, type Patient } from '../schema';
-import { eq, or, ilike } from 'drizzle-orm';
+import {
+  breakGlassAccessTable,
+  encountersTable,
+  vitalsTable,
+  patientConditionsTable,
+  patientInsurancePoliciesTable,
+  patientDocumentsTable,
+  patientsTable,
+  patientMergesTable,
+  patientAllergiesTable,
+  paymentsTable,
+  prescriptionsTable,
+  patientEmailSearchSql,
+  patientNameSearchSql,
+  patientPhoneSearchSql
+} from '../db/schema';
+import {
+  type CreatePatientInput,
+  type UpdatePatientInput,
+  type SetPatientRestrictedInput,
+  type FindDuplicatePatientsInput,
+  type MergePatientsInput,
+  type DuplicateCandidate,
+  type Patient,
+  type PatientDemographics,
+  type PatientMerge,
+  type PatientSearchHighlight,
+  type PatientSearchResults,
+  type SearchPatientsInput,
+  type User
+} from '../schema';
+import { decryptField, encryptField, needsReencryption } from './fieldEncryption';
+import { roleHasPermission } from './permissions';
+import { reencryptTwoFactorSecrets } from './twoFactor';
+import { getActiveBreakGlassPatientIds } from './breakGlass';
+import { DUPLICATE_SCORE_THRESHOLD, normalizeEmail, normalizeName, normalizePhone, scoreDuplicate } from './patientMatching';
+import { highlightDigits, highlightWords, parsePatientQuery } from './patientSearch';
+import { TRPCError } from '@trpc/server';
+import { and, asc, count, desc, eq, gt, inArray, isNull, ne, or, sql, type SQL } from 'drizzle-orm';
 
-// Create a new patient
+// Clinical fields are encrypted at rest and only shown to roles holding the
+// patients.clinical permission. Names stay in clear so they can be searched.
+export const CLINICAL_PATIENT_FIELDS = ['allergies', 'chronic_conditions', 'medical_history'] as const;
+
+const REENCRYPT_BATCH_SIZE = 500;
+
+// Most rows a duplicate check scores, and most candidates it reports
+const DUPLICATE_PREFILTER_LIMIT = 500;
+const MAX_DUPLICATE_CANDIDATES = 10;
+
+// Cause of the CONFLICT error createPatient raises, carrying the matches for
+// the user to review. The API error formatter passes them on to clients.
+export class DuplicatePatientError extends Error {
+  constructor(readonly candidates: DuplicateCandidate[]) {
+    super(`Possible duplicate of patient with ID ${candidates.map(candidate => candidate.patient.id).join(', ')}`);
+    this.name = 'DuplicatePatientError';
+  }
+}
+
+// Search text at least this long is also matched by trigram similarity, so
+// typos still find the patient; shorter text only matches as a substring
+const MIN_FUZZY_SEARCH_LENGTH = 3;
+
+// pg_trgm word similarity a fuzzy name or email match needs
+const SEARCH_SIMILARITY_THRESHOLD = 0.3;
+
+type PatientRow = typeof patientsTable.$inferSelect;
+
+// Convert a stored row into a patient, decrypting the clinical fields
+const toPatient = ({ merged_into_id, ...patient }: PatientRow): Patient => ({
+  ...patient,
+  birthdate: new Date(patient.birthdate),
+  allergies: decryptField(patient.allergies),
+  chronic_conditions: decryptField(patient.chronic_conditions),
+  medical_history: decryptField(patient.medical_history)
+});
+
+export function withoutClinicalFields({ allergies, chronic_conditions, medical_history, ...demographics }: Patient): PatientDemographics {
+  return demographics;
+}
+
+// How patients should be presented to a user: in full, or demographics only.
+// Restricted patients are reduced to demographics unless the user may open
+// them, so they can still be found and break-glass access requested.
+export async function patientViewForUser(user: Pick<User, 'id' | 'role'>): Promise<(patient: Patient) => Patient | PatientDemographics> {
+  const canViewClinical = await roleHasPermission(user.role, 'patients.clinical');
+  const canViewRestricted = await roleHasPermission(user.role, 'patients.restricted');
+  const breakGlassPatientIds = await getActiveBreakGlassPatientIds(user.id);
+
+  return (patient: Patient) => {
+    const canOpen = !patient.is_restricted || canViewRestricted || breakGlassPatientIds.has(patient.id);
+    return canViewClinical && canOpen ? patient : withoutClinicalFields(patient);
+  };
+}
+
+// The id a patient is currently filed under: its own, or the surviving
+// record's if it was merged. Null for unknown ids.
+export async function resolvePatientId(id: number): Promise<number | null> {
+  const patients = await db.select({ id: patientsTable.id, merged_into_id: patientsTable.merged_into_id })
+    .from(patientsTable)
+    .where(eq(patientsTable.id, id))
+    .execute();
+
+  if (patients.length === 0) {
+    return null;
+  }
+
+  return patients[0].merged_into_id ?? patients[0].id;
+}
+
+// Existing patients that look like the same person, best match first. Rows
+// sharing a birthdate, email, phone or initials are scored; those reaching
+// DUPLICATE_SCORE_THRESHOLD are returned, with demographics only.
+export async function findDuplicatePatients(input: FindDuplicatePatientsInput): Promise<DuplicateCandidate[]> {
+  try {
+    const firstName = normalizeName(input.first_name);
+    const lastName = normalizeName(input.last_name);
+    const email = normalizeEmail(input.email);
+    const phone = normalizePhone(input.phone);
+
+    const sameIdentity: SQL<unknown>[] = [
+      eq(patientsTable.birthdate, input.birthdate.toISOString().split('T')[0])
+    ];
+
+    if (email !== null) {
+      sameIdentity.push(sql`lower(${patientsTable.email}) = ${email}`);
+    }
+
+    if (phone !== null) {
+      sameIdentity.push(sql`right(regexp_replace(${patientsTable.phone}, '[^0-9]', '', 'g'), 9) = ${phone}`);
+    }
+
+    if (firstName.length > 0 && lastName.length > 0) {
+      const initials = (first: string, last: string) => and(
+        sql`lower(left(${patientsTable.first_name}, 1)) = ${first[0]}`,
+        sql`lower(left(${patientsTable.last_name}, 1)) = ${last[0]}`
+      )!;
+      sameIdentity.push(initials(firstName, lastName), initials(lastName, firstName));
+    }
+
+    const conditions: SQL<unknown>[] = [isNull(patientsTable.merged_into_id), or(...sameIdentity)!];
+    if (input.exclude_id !== undefined) {
+      conditions.push(ne(patientsTable.id, input.exclude_id));
+    }
+
+    const rows = await db.select()
+      .from(patientsTable)
+      .where(and(...conditions))
+      .limit(DUPLICATE_PREFILTER_LIMIT)
+      .execute();
+
+    return rows
+      .map(row => ({ row, ...scoreDuplicate(input, row) }))
+      .filter(candidate => candidate.score >= DUPLICATE_SCORE_THRESHOLD)
+      .sort((a, b) => b.score - a.score || a.row.id - b.row.id)
+      .slice(0, MAX_DUPLICATE_CANDIDATES)
+      .map(({ row, score, matched_on }) => ({
+        patient: withoutClinicalFields(toPatient(row)),
+        score,
+        matched_on
+      }));
+  } catch (error) {
+    console.error('Duplicate patient check failed:', error);
+    throw error;
+  }
+}
+
+// Create a new patient. Refused when likely duplicates exist, unless the
+// caller has checked them and sets ignore_duplicates.
 export async function createPatient(input: CreatePatientInput): Promise<Patient> {
   try {
+    if (!input.ignore_duplicates) {
+      const candidates = await findDuplicatePatients(input);
+      if (candidates.length > 0) {
+        const cause = new DuplicatePatientError(candidates);
+        throw new TRPCError({ code: 'CONFLICT', message: `${cause.message}; review the matches or set ignore_duplicates`, cause });
+      }
+    }
+
     const result = await db.insert(patientsTable)
       .values({
         first_name: input.first_name,
@@ -15,19 +187,14 @@ export async function createPatient(input: CreatePatientInput): Promise<Patient>
         address: input.address || null,
         gender: input.gender,
         birthdate: input.birthdate.toISOString().split('T')[0], // Convert Date to string
-        allergies: input.allergies || null,
-        chronic_conditions: input.chronic_conditions || null,
-        medical_history: input.medical_history || null
+        allergies: encryptField(input.allergies || null),
+        chronic_conditions: encryptField(input.chronic_conditions || null),
+        medical_history: encryptField(input.medical_history || null)
       })
       .returning()
       .execute();
 
-    // Convert string dates back to Date objects
-    const patient = result[0];
-    return {
-      ...patient,
-      birthdate: new Date(patient.birthdate)
-    };
+    return toPatient(result[0]);
   } catch (error) {
     console.error('Patient creation failed:', error);
     throw error;
@@ -39,37 +206,34 @@ export async function getPatients(): Promise<Patient[]> {
   try {
     const patients = await db.select()
       .from(patientsTable)
+      .where(isNull(patientsTable.merged_into_id))
       .execute();
 
-    // Convert string dates back to Date objects
-    return patients.map(patient => ({
-      ...patient,
-      birthdate: new Date(patient.birthdate)
-    }));
+    return patients.map(toPatient);
   } catch (error) {
     console.error('Failed to fetch patients:', error);
     throw error;
   }
 }
 
-// Get patient by ID
+// Get patient by ID. Ids of merged patients return the surviving record.
 export async function getPatientById(id: number): Promise<Patient | null> {
   try {
+    const patientId = await resolvePatientId(id);
+    if (patientId === null) {
+      return null;
+    }
+
     const patients = await db.select()
       .from(patientsTable)
-      .where(eq(patientsTable.id, id))
+      .where(eq(patientsTable.id, patientId))
       .execute();
 
     if (patients.length === 0) {
       return null;
     }
 
-    // Convert string dates back to Date objects
-    const patient = patients[0];
-    return {
-      ...patient,
-      birthdate: new Date(patient.birthdate)
-    };
+    return toPatient(patients[0]);
   } catch (error) {
     console.error('Failed to fetch patient by ID:', error);
     throw error;
@@ -89,16 +253,16 @@ export async function updatePatient(input: UpdatePatientInput): Promise<Patient>
     if (input.address !== undefined) updateData['address'] = input.address;
     if (input.gender !== undefined) updateData['gender'] = input.gender;
     if (input.birthdate !== undefined) updateData['birthdate'] = input.birthdate.toISOString().split('T')[0];
-    if (input.allergies !== undefined) updateData['allergies'] = input.allergies;
-    if (input.chronic_conditions !== undefined) updateData['chronic_conditions'] = input.chronic_conditions;
-    if (input.medical_history !== undefined) updateData['medical_history'] = input.medical_history;
+    if (input.allergies !== undefined) updateData['allergies'] = encryptField(input.allergies);
+    if (input.chronic_conditions !== undefined) updateData['chronic_conditions'] = encryptField(input.chronic_conditions);
+    if (input.medical_history !== undefined) updateData['medical_history'] = encryptField(input.medical_history);
     
     // Always update the updated_at timestamp
     updateData['updated_at'] = new Date();
 
     const result = await db.update(patientsTable)
       .set(updateData)
-      .where(eq(patientsTable.id, input.id))
+      .where(eq(patientsTable.id, await resolvePatientId(input.id) ?? input.id))
       .returning()
       .execute();
 
@@ -106,40 +270,365 @@ export async function updatePatient(input: UpdatePatientInput): Promise<Patient>
       throw new Error(`Patient with ID ${input.id} not found`);
     }
 
-    // Convert string dates back to Date objects
-    const patient = result[0];
-    return {
-      ...patient,
-      birthdate: new Date(patient.birthdate)
-    };
+    return toPatient(result[0]);
   } catch (error) {
     console.error('Patient update failed:', error);
     throw error;
   }
 }
 
-// Search patients by name
-export async function searchPatients(query: string): Promise<Patient[]> {
+// Flag or unflag a patient record as restricted
+export async function setPatientRestricted(input: SetPatientRestrictedInput): Promise<Patient> {
   try {
-    const searchPattern = `%${query}%`;
-    
-    const patients = await db.select()
-      .from(patientsTable)
-      .where(
-        or(
-          ilike(patientsTable.first_name, searchPattern),
-          ilike(patientsTable.last_name, searchPattern)
-        )
-      )
+    const result = await db.update(patientsTable)
+      .set({ is_restricted: input.is_restricted, updated_at: new Date() })
+      .where(eq(patientsTable.id, await resolvePatientId(input.id) ?? input.id))
+      .returning()
       .execute();
 
-    // Convert string dates back to Date objects
-    return patients.map(patient => ({
-      ...patient,
-      birthdate: new Date(patient.birthdate)
-    }));
+    if (result.length === 0) {
+      throw new Error(`Patient with ID ${input.id} not found`);
+    }
+
+    return toPatient(result[0]);
+  } catch (error) {
+    console.error('Patient restriction update failed:', error);
+    throw error;
+  }
+}
+
+const escapeLike = (value: string): string => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+// Ranked search across name, email, phone and birthdate, best match first.
+// Words match the full name or the email as a substring or by similarity;
+// digits match anywhere in the phone number; ISO dates match the birthdate.
+// Every kind of term given must match. The name, email and phone conditions
+// are served by the trigram indexes on patients.
+export async function searchPatients(input: SearchPatientsInput): Promise<PatientSearchResults> {
+  try {
+    const query = parsePatientQuery(input.query);
+    const name = patientNameSearchSql(patientsTable);
+    const email = patientEmailSearchSql(patientsTable);
+    const phone = patientPhoneSearchSql(patientsTable);
+
+    const conditions: SQL<unknown>[] = [isNull(patientsTable.merged_into_id)];
+    const scores: SQL<unknown>[] = [];
+    let nameMatch: SQL<unknown> = sql`false`;
+    let emailMatch: SQL<unknown> = sql`false`;
+
+    if (query.text !== null) {
+      const pattern = `%${escapeLike(query.text)}%`;
+      const fuzzy = query.text.length >= MIN_FUZZY_SEARCH_LENGTH;
+
+      nameMatch = fuzzy
+        ? sql`(${name} like ${pattern} or ${query.text} <% ${name})`
+        : sql`${name} like ${pattern}`;
+      let textScore = sql`word_similarity(${query.text}, ${name})`;
+
+      // An email address is a single word. Emails are matched exactly, since
+      // addresses sharing a domain look alike to a fuzzy match.
+      if (!query.text.includes(' ')) {
+        emailMatch = sql`${email} like ${pattern}`;
+        textScore = sql`greatest(${textScore}, coalesce(word_similarity(${query.text}, ${email}), 0))`;
+      }
+
+      conditions.push(sql`(${nameMatch} or ${emailMatch})`);
+      scores.push(textScore);
+    }
+
+    if (query.phoneDigits !== null) {
+      conditions.push(sql`${phone} like ${`%${query.phoneDigits}%`}`);
+      // A number typed without its country prefix is still a full match
+      scores.push(sql`case when ${phone} like ${`%${query.phoneDigits}`} then 1 else 0.8 end`);
+    }
+
+    if (query.birthdates.length > 0) {
+      conditions.push(inArray(patientsTable.birthdate, query.birthdates));
+      scores.push(sql`1`);
+    }
+
+    const where = and(...conditions);
+    const score = sql<number>`((${sql.join(scores, sql` + `)}) / ${sql.raw(String(scores.length))})::float8`;
+
+    return await db.transaction(async (tx) => {
+      // Scoped to this transaction, so other queries keep the default
+      await tx.execute(sql`select set_config('pg_trgm.word_similarity_threshold', ${String(SEARCH_SIMILARITY_THRESHOLD)}, true)`);
+
+      const [total] = await tx.select({ count: count() })
+        .from(patientsTable)
+        .where(where)
+        .execute();
+
+      const rows = await tx.select({
+        patient: patientsTable,
+        score,
+        name_matched: sql<boolean>`coalesce(${nameMatch}, false)`,
+        email_matched: sql<boolean>`coalesce(${emailMatch}, false)`
+      })
+        .from(patientsTable)
+        .where(where)
+        .orderBy(desc(score), asc(patientsTable.last_name), asc(patientsTable.first_name), asc(patientsTable.id))
+        .limit(input.page_size)
+        .offset((input.page - 1) * input.page_size)
+        .execute();
+
+      const words = query.text?.split(' ') ?? [];
+      const results = rows.map(row => {
+        const patient = toPatient(row.patient);
+        const highlights: PatientSearchHighlight[] = [];
+
+        if (row.name_matched) {
+          const value = `${patient.first_name} ${patient.last_name}`;
+          highlights.push({ field: 'name', value, ranges: highlightWords(value, words) });
+        }
+        if (row.email_matched && patient.email !== null) {
+          highlights.push({ field: 'email', value: patient.email, ranges: highlightWords(patient.email, words) });
+        }
+        if (query.phoneDigits !== null && patient.phone !== null) {
+          highlights.push({ field: 'phone', value: patient.phone, ranges: highlightDigits(patient.phone, query.phoneDigits) });
+        }
+        if (query.birthdates.length > 0) {
+          const value = row.patient.birthdate;
+          highlights.push({ field: 'birthdate', value, ranges: [{ start: 0, end: value.length }] });
+        }
+
+        return {
+          patient,
+          score: Math.round(row.score * 1000) / 1000,
+          matched_on: highlights.map(highlight => highlight.field),
+          highlights
+        };
+      });
+
+      return { results, total: total.count, page: input.page, page_size: input.page_size };
+    });
   } catch (error) {
     console.error('Patient search failed:', error);
     throw error;
   }
-}
\ No newline at end of file
+}
+
+// Encrypt clinical fields that are still in plain text or under an older key,
+// e.g. after enabling encryption or rotating PATIENT_DATA_KEYS. Two-factor
+// secrets share those keys, so they are re-encrypted too.
+export async function reencryptPatientData(): Promise<{ updated: number; two_factor_secrets_updated: number }> {
+  try {
+    let updated = 0;
+    let lastId = 0;
+
+    for (;;) {
+      const rows = await db.select({
+        id: patientsTable.id,
+        allergies: patientsTable.allergies,
+        chronic_conditions: patientsTable.chronic_conditions,
+        medical_history: patientsTable.medical_history
+      })
+        .from(patientsTable)
+        .where(gt(patientsTable.id, lastId))
+        .orderBy(asc(patientsTable.id))
+        .limit(REENCRYPT_BATCH_SIZE)
+        .execute();
+
+      if (rows.length === 0) {
+        break;
+      }
+
+      for (const row of rows) {
+        if (!CLINICAL_PATIENT_FIELDS.some(field => needsReencryption(row[field]))) {
+          continue;
+        }
+
+        await db.update(patientsTable)
+          .set({
+            allergies: encryptField(decryptField(row.allergies)),
+            chronic_conditions: encryptField(decryptField(row.chronic_conditions)),
+            medical_history: encryptField(decryptField(row.medical_history))
+          })
+          .where(eq(patientsTable.id, row.id))
+          .execute();
+        updated++;
+      }
+
+      lastId = rows[rows.length - 1].id;
+    }
+
+    return { updated, two_factor_secrets_updated: await reencryptTwoFactorSecrets() };
+  } catch (error) {
+    console.error('Patient data re-encryption failed:', error);
+    throw error;
+  }
+}
+
+// A survivor's record and the patients merged into it, for the audit diff of
+// a merge
+export async function getPatientMergeSnapshot(id: number): Promise<(Patient & { merged_patient_ids: number[] }) | null> {
+  const patient = await getPatientById(id);
+  if (!patient) {
+    return null;
+  }
+
+  const merged = await db.select({ id: patientsTable.id })
+    .from(patientsTable)
+    .where(eq(patientsTable.merged_into_id, patient.id))
+    .orderBy(asc(patientsTable.id))
+    .execute();
+
+  return { ...patient, merged_patient_ids: merged.map(row => row.id) };
+}
+
+// Merge a duplicate patient into the surviving record. Prescriptions,
+// payments, allergy records, encounters, vitals, coded conditions, insurance
+// policies and documents move to the survivor, which also takes any contact
+// or clinical details it is missing; the duplicate row stays behind pointing
+// at it.
+export async function mergePatients(input: MergePatientsInput, adminId: number): Promise<{ survivor: Patient; merge: PatientMerge }> {
+  try {
+    if (input.survivor_id === input.duplicate_id) {
+      throw new Error('Cannot merge a patient into itself');
+    }
+
+    return await db.transaction(async (tx) => {
+      const rows = await tx.select()
+        .from(patientsTable)
+        .where(inArray(patientsTable.id, [input.survivor_id, input.duplicate_id]))
+        .for('update')
+        .execute();
+
+      const survivor = rows.find(row => row.id === input.survivor_id);
+      const duplicate = rows.find(row => row.id === input.duplicate_id);
+
+      if (!survivor) {
+        throw new Error(`Patient with ID ${input.survivor_id} not found`);
+      }
+      if (!duplicate) {
+        throw new Error(`Patient with ID ${input.duplicate_id} not found`);
+      }
+      for (const row of [survivor, duplicate]) {
+        if (row.merged_into_id !== null) {
+          throw new Error(`Patient with ID ${row.id} was already merged into patient ${row.merged_into_id}`);
+        }
+      }
+
+      // The survivor must still have at most one open encounter and one
+      // policy of each priority on any day, so clashes are left to staff
+      const openEncounters = await tx.select({ id: encountersTable.id })
+        .from(encountersTable)
+        .where(and(
+          inArray(encountersTable.patient_id, [survivor.id, duplicate.id]),
+          eq(encountersTable.status, 'open')
+        ))
+        .orderBy(asc(encountersTable.id))
+        .execute();
+      if (openEncounters.length > 1) {
+        throw new Error(`Both patients have an open encounter (IDs ${openEncounters.map(encounter => encounter.id).join(', ')}); close one before merging`);
+      }
+
+      const policies = await tx.select()
+        .from(patientInsurancePoliciesTable)
+        .where(and(
+          inArray(patientInsurancePoliciesTable.patient_id, [survivor.id, duplicate.id]),
+          isNull(patientInsurancePoliciesTable.cancelled_at)
+        ))
+        .execute();
+      for (const moving of policies.filter(policy => policy.patient_id === duplicate.id)) {
+        const clash = policies.find(kept =>
+          kept.patient_id === survivor.id &&
+          kept.priority === moving.priority &&
+          (kept.valid_to === null || kept.valid_to >= moving.valid_from) &&
+          (moving.valid_to === null || moving.valid_to >= kept.valid_from)
+        );
+        if (clash) {
+          throw new Error(`Both patients have a ${moving.priority} policy for the same dates (IDs ${clash.id}, ${moving.id}); cancel one before merging`);
+        }
+      }
+
+      const prescriptions = await tx.update(prescriptionsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(prescriptionsTable.patient_id, duplicate.id))
+        .returning({ id: prescriptionsTable.id })
+        .execute();
+
+      const payments = await tx.update(paymentsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(paymentsTable.patient_id, duplicate.id))
+        .returning({ id: paymentsTable.id })
+        .execute();
+
+      await tx.update(patientAllergiesTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(patientAllergiesTable.patient_id, duplicate.id))
+        .execute();
+
+      await tx.update(encountersTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(encountersTable.patient_id, duplicate.id))
+        .execute();
+
+      await tx.update(vitalsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(vitalsTable.patient_id, duplicate.id))
+        .execute();
+
+      await tx.update(patientConditionsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(patientConditionsTable.patient_id, duplicate.id))
+        .execute();
+
+      await tx.update(patientInsurancePoliciesTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(patientInsurancePoliciesTable.patient_id, duplicate.id))
+        .execute();
+
+      await tx.update(patientDocumentsTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(patientDocumentsTable.patient_id, duplicate.id))
+        .execute();
+
+      // Grants to open the duplicate now open the record it lives on in
+      await tx.update(breakGlassAccessTable)
+        .set({ patient_id: survivor.id })
+        .where(eq(breakGlassAccessTable.patient_id, duplicate.id))
+        .execute();
+
+      const merged = await tx.update(patientsTable)
+        .set({
+          email: survivor.email ?? duplicate.email,
+          phone: survivor.phone ?? duplicate.phone,
+          address: survivor.address ?? duplicate.address,
+          allergies: survivor.allergies ?? duplicate.allergies,
+          chronic_conditions: survivor.chronic_conditions ?? duplicate.chronic_conditions,
+          medical_history: survivor.medical_history ?? duplicate.medical_history,
+          is_restricted: survivor.is_restricted || duplicate.is_restricted,
+          updated_at: new Date()
+        })
+        .where(eq(patientsTable.id, survivor.id))
+        .returning()
+        .execute();
+
+      // Earlier merges into the duplicate now resolve straight to the survivor
+      await tx.update(patientsTable)
+        .set({ merged_into_id: survivor.id, updated_at: new Date() })
+        .where(or(
+          eq(patientsTable.id, duplicate.id),
+          eq(patientsTable.merged_into_id, duplicate.id)
+        ))
+        .execute();
+
+      const merge = await tx.insert(patientMergesTable)
+        .values({
+          survivor_id: survivor.id,
+          duplicate_id: duplicate.id,
+          prescriptions_moved: prescriptions.length,
+          payments_moved: payments.length,
+          merged_by: adminId
+        })
+        .returning()
+        .execute();
+
+      return { survivor: toPatient(merged[0]), merge: merge[0] };
+    });
+  } catch (error) {
+    console.error('Patient merge failed:', error);
+    throw error;
+  }
+}
@@ -1,20 +1,19 @@
 import { db } from '../db';
-import { paymentsTable, patientsTable, prescriptionsTable, usersTable } from '../db/schema';
+import { paymentsTable, prescriptionsTable, usersTable } from '../db/schema';
 import { type CreatePaymentInput, type Payment } from '../schema';
+import { resolvePatientId } from './patients';
+import { assertEncounterForPatient } from './encounters';
+import { assertPolicyForPayment } from './insurance';
 import { eq, and, gte, lte, between, sql } from 'drizzle-orm';
 import { type SQL } from 'drizzle-orm';
 
 // Create a new payment
 export async function createPayment(input: CreatePaymentInput): Promise<Payment> {
   try {
-    // Verify patient exists
-    const patient = await db.select()
-      .from(patientsTable)
-      .where(eq(patientsTable.id, input.patient_id))
-      .limit(1)
-      .execute();
+    // Verify patient exists, filing under the surviving record if it was merged
+    const patientId = await resolvePatientId(input.patient_id);
 
-    if (patient.length === 0) {
+    if (patientId === null) {
       throw new Error(`Patient with ID ${input.patient_id} not found`);
     }
 
@@ -31,6 +30,21 @@ export async function createPayment(input: CreatePaymentInput): Promise<Payment>
       }
     }
 
+    // Verify the encounter belongs to this patient if provided
+    if (input.encounter_id) {
+      await assertEncounterForPatient(input.encounter_id, patientId);
+    }
+
+    // Insurance payments are billed to one of the patient's valid policies
+    if (input.payment_method === 'insurance') {
+      if (!input.insurance_policy_id) {
+        throw new Error('Insurance payments require an insurance policy');
+      }
+      await assertPolicyForPayment(input.insurance_policy_id, patientId, new Date());
+    } else if (input.insurance_policy_id) {
+      throw new Error('Only insurance payments can be linked to an insurance policy');
+    }
+
     // Verify created_by user exists
     const user = await db.select()
       .from(usersTable)
@@ -45,8 +59,10 @@ export async function createPayment(input: CreatePaymentInput): Promise<Payment>
     // Insert payment record
     const result = await db.insert(paymentsTable)
       .values({
-        patient_id: input.patient_id,
+        patient_id: patientId,
         prescription_id: input.prescription_id || null,
+        encounter_id: input.encounter_id || null,
+        insurance_policy_id: input.insurance_policy_id || null,
         amount: input.amount.toString(), // Convert number to string for numeric column
         payment_method: input.payment_method,
         notes: input.notes || null,
@@ -85,6 +101,16 @@ export async function getPayments(): Promise<Payment[]> {
   }
 }
 
+// The patient a payment belongs to, for access checks
+export async function getPaymentPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: paymentsTable.patient_id })
+    .from(paymentsTable)
+    .where(eq(paymentsTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
 // Get payment by ID
 export async function getPaymentById(id: number): Promise<Payment | null> {
   try {
@@ -114,7 +140,7 @@ export async function getPaymentsByPatientId(patientId: number): Promise<Payment
   try {
     const results = await db.select()
       .from(paymentsTable)
-      .where(eq(paymentsTable.patient_id, patientId))
+      .where(eq(paymentsTable.patient_id, await resolvePatientId(patientId) ?? patientId))
       .execute();
 
     return results.map(payment => ({
@@ -0,0 +1,157 @@
+import { db } from '../db';
+import { permissionRolesTable } from '../db/schema';
+import {
+  permissionSchema,
+  userRoleSchema,
+  type Permission,
+  type PermissionInput,
+  type PermissionRoles,
+  type SetPermissionRolesInput,
+  type UserRole
+} from '../schema';
+import { eq } from 'drizzle-orm';
+
+// Built-in matrix used for every permission an admin has not edited
+export const DEFAULT_PERMISSION_ROLES: Record<Permission, UserRole[]> = {
+  'patients.read': ['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist'],
+  'patients.write': ['admin', 'doctor', 'cashier', 'nurse', 'receptionist'],
+  'patients.clinical': ['admin', 'doctor', 'pharmacist', 'nurse'],
+  'patients.restricted': ['admin'],
+  'medicines.read': ['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist'],
+  'medicines.write': ['admin', 'pharmacist'],
+  'prescriptions.read': ['admin', 'doctor', 'cashier', 'pharmacist', 'nurse'],
+  'prescriptions.create': ['doctor'],
+  'prescriptions.updateStatus': ['admin', 'doctor', 'pharmacist'],
+  'prescriptions.fill': ['admin', 'pharmacist'],
+  'encounters.read': ['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist'],
+  'encounters.write': ['admin', 'doctor', 'nurse', 'receptionist'],
+  'insurance.read': ['admin', 'cashier', 'receptionist'],
+  'insurance.write': ['admin', 'cashier', 'receptionist'],
+  'documents.read': ['admin', 'doctor', 'pharmacist', 'nurse', 'receptionist'],
+  'documents.write': ['admin', 'doctor', 'nurse', 'receptionist'],
+  'payments.read': ['admin', 'cashier'],
+  'payments.create': ['cashier'],
+  'reports.read': ['admin'],
+  'dashboard.admin': ['admin'],
+  'dashboard.doctor': ['admin', 'doctor'],
+  'dashboard.pharmacist': ['admin', 'pharmacist'],
+  'dashboard.cashier': ['admin', 'cashier'],
+  'dashboard.reception': ['admin', 'nurse', 'receptionist']
+};
+
+// Keep roles in the enum's order so the matrix reads the same everywhere
+const sortRoles = (roles: UserRole[]): UserRole[] =>
+  userRoleSchema.options.filter(role => roles.includes(role));
+
+// The full permission → roles matrix, with admin edits applied over the defaults
+export async function getPermissionMatrix(): Promise<PermissionRoles[]> {
+  try {
+    const rows = await db.select()
+      .from(permissionRolesTable)
+      .execute();
+
+    return permissionSchema.options.map(permission => {
+      const row = rows.find(candidate => candidate.permission === permission);
+      if (!row) {
+        return {
+          permission,
+          roles: DEFAULT_PERMISSION_ROLES[permission],
+          is_default: true,
+          updated_by: null,
+          updated_at: null
+        };
+      }
+
+      return {
+        permission,
+        roles: sortRoles(row.roles),
+        is_default: false,
+        updated_by: row.updated_by,
+        updated_at: row.updated_at
+      };
+    });
+  } catch (error) {
+    console.error('Failed to fetch permission matrix:', error);
+    throw error;
+  }
+}
+
+// Roles currently holding a permission
+export async function getRolesWithPermission(permission: Permission): Promise<UserRole[]> {
+  const rows = await db.select()
+    .from(permissionRolesTable)
+    .where(eq(permissionRolesTable.permission, permission))
+    .execute();
+
+  return rows.length > 0 ? rows[0].roles : DEFAULT_PERMISSION_ROLES[permission];
+}
+
+export async function roleHasPermission(role: UserRole, permission: Permission): Promise<boolean> {
+  return (await getRolesWithPermission(permission)).includes(role);
+}
+
+// Everything a role may do, e.g. for the client to pick dashboards and menus
+export async function getPermissionsForRole(role: UserRole): Promise<Permission[]> {
+  try {
+    const matrix = await getPermissionMatrix();
+    return matrix
+      .filter(entry => entry.roles.includes(role))
+      .map(entry => entry.permission);
+  } catch (error) {
+    console.error('Failed to fetch role permissions:', error);
+    throw error;
+  }
+}
+
+// Replace the roles holding a permission
+export async function setPermissionRoles(input: SetPermissionRolesInput, adminId: number): Promise<PermissionRoles> {
+  try {
+    const roles = sortRoles(input.roles);
+    const updatedAt = new Date();
+
+    const result = await db.insert(permissionRolesTable)
+      .values({
+        permission: input.permission,
+        roles,
+        updated_by: adminId,
+        updated_at: updatedAt
+      })
+      .onConflictDoUpdate({
+        target: permissionRolesTable.permission,
+        set: { roles, updated_by: adminId, updated_at: updatedAt }
+      })
+      .returning()
+      .execute();
+
+    return {
+      permission: input.permission,
+      roles: sortRoles(result[0].roles),
+      is_default: false,
+      updated_by: result[0].updated_by,
+      updated_at: result[0].updated_at
+    };
+  } catch (error) {
+    console.error('Permission update failed:', error);
+    throw error;
+  }
+}
+
+// Drop an admin edit so the permission falls back to its default roles
+export async function resetPermissionRoles(input: PermissionInput): Promise<PermissionRoles> {
+  try {
+    await db.delete(permissionRolesTable)
+      .where(eq(permissionRolesTable.permission, input.permission))
+      .execute();
+
+    return {
+      permission: input.permission,
+      roles: DEFAULT_PERMISSION_ROLES[input.permission],
+      is_default: true,
+      updated_by: null,
+      updated_at: null
+    };
+  } catch (error) {
+    console.error('Permission reset failed:', error);
+    throw error;
+  }
+}
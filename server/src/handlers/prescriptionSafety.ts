@@ -0,0 +1,323 @@
+import { db } from '../db';
+import { medicinesTable, patientAllergiesTable, patientsTable } from '../db/schema';
+import {
+  type AllergySeverity,
+  type CheckPrescriptionSafetyInput,
+  type MedicineCategory,
+  type SafetyWarning,
+  type SafetyWarningSeverity
+} from '../schema';
+import { parseAllergyText } from './allergies';
+import { getActiveConditionDescriptions } from './conditions';
+import { decryptField } from './fieldEncryption';
+import { resolvePatientId } from './patients';
+import { getLatestWeight } from './vitals';
+import { eq, inArray } from 'drizzle-orm';
+
+// Checks prescribed medicines against the patient's allergy records and
+// chronic conditions, and structured doses against the medicine's daily
+// limits. Medicines only carry a category, so contraindications are matched
+// per category against the free-text chronic conditions and the descriptions
+// of the patient's active coded conditions.
+
+interface PrescribedMedicine {
+  id: number;
+  name: string;
+  category: MedicineCategory;
+}
+
+// Weights recorded longer ago than this are too stale for dosing
+const WEIGHT_MAX_AGE_DAYS = 180;
+
+// Allergy details needed for matching, whether recorded or parsed from text
+interface KnownAllergy {
+  id: number | null;
+  medicine_id: number | null;
+  medicine_name: string | null;
+  medicine_category: MedicineCategory | null;
+  substance: string | null;
+  reaction: string | null;
+  severity: AllergySeverity | null;
+  confirmed: boolean;
+}
+
+// Built-in contraindications between medicine categories and chronic
+// conditions. Patterns match whole words, so "renal" does not match "adrenal".
+const CONTRAINDICATIONS: { category: MedicineCategory; condition: RegExp; label: string; severity: SafetyWarningSeverity }[] = [
+  { category: 'pain_relievers', condition: /\b(kidney|renal)\b/i, label: 'kidney disease', severity: 'hard_stop' },
+  { category: 'pain_relievers', condition: /\b(ulcers?|gi bleed\w*|gastrointestinal bleed\w*)\b/i, label: 'peptic ulcer or GI bleeding', severity: 'hard_stop' },
+  { category: 'pain_relievers', condition: /\basthma\b/i, label: 'asthma', severity: 'warning' },
+  { category: 'pain_relievers', condition: /\bheart failure\b/i, label: 'heart failure', severity: 'warning' },
+  { category: 'respiratory', condition: /\b(hypertension|high blood pressure)\b/i, label: 'hypertension', severity: 'warning' },
+  { category: 'antifungal', condition: /\b(liver|hepatic|cirrhosis)\b/i, label: 'liver disease', severity: 'warning' },
+  { category: 'diabetes', condition: /\b(kidney|renal)\b/i, label: 'kidney disease', severity: 'warning' },
+  { category: 'cardiovascular', condition: /\bpregnan(t|cy)\b/i, label: 'pregnancy', severity: 'hard_stop' }
+];
+
+// A negation word only covers the few words after it ("no history of
+// asthma", "not pregnant"), and a linking word ends its reach, so "never
+// smoker with chronic kidney disease" still names kidney disease
+const NEGATION_WINDOW = 3;
+const NEGATION_WORDS = new Set(['no', 'not', 'denies', 'denied', 'without', 'never', 'negative', 'free']);
+const NEGATION_BREAKERS = new Set(['with', 'and', 'or', 'has', 'have', 'plus', 'but']);
+const NEGATION_AFTER = /^\W*(ruled out|excluded|negative|denied|resolved)\b/i;
+
+// Conditions text is split into clauses so a negation only covers its own
+// clause: "no asthma; renal failure" still names renal failure
+const CLAUSE_SEPARATOR = /[\n.;,]+|\b(?:but|however)\b/i;
+
+function isNegated(before: string, after: string): boolean {
+  if (NEGATION_AFTER.test(after)) {
+    return true;
+  }
+  const words = before.toLowerCase().match(/[a-z]+/g) ?? [];
+  for (const word of words.slice(-NEGATION_WINDOW).reverse()) {
+    if (NEGATION_BREAKERS.has(word)) {
+      return false;
+    }
+    if (NEGATION_WORDS.has(word)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// How the conditions text mentions a condition: affirmed anywhere, only in
+// what reads like a negation, or not at all
+function conditionMention(conditions: string, pattern: RegExp): 'affirmed' | 'negated' | null {
+  let mention: 'negated' | null = null;
+  for (const clause of conditions.split(CLAUSE_SEPARATOR)) {
+    for (const match of clause.matchAll(new RegExp(pattern.source, 'gi'))) {
+      if (!isNegated(clause.slice(0, match.index), clause.slice(match.index + match[0].length))) {
+        return 'affirmed';
+      }
+      mention = 'negated';
+    }
+  }
+  return mention;
+}
+
+const normalize = (value: string): string =>
+  value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// First word of a medicine name, e.g. "amoxicillin" for "Amoxicillin 500mg"
+const activeIngredient = (name: string): string => normalize(name).split(' ')[0];
+
+function allergyMatches(allergy: KnownAllergy, medicine: PrescribedMedicine): boolean {
+  if (allergy.medicine_id !== null) {
+    return allergy.medicine_id === medicine.id
+      || (allergy.medicine_name !== null && activeIngredient(allergy.medicine_name) === activeIngredient(medicine.name));
+  }
+  if (allergy.medicine_category !== null) {
+    return allergy.medicine_category === medicine.category;
+  }
+  if (allergy.substance !== null) {
+    const substance = normalize(allergy.substance);
+    return substance.length > 0 && ` ${normalize(medicine.name)} `.includes(` ${substance} `);
+  }
+  return false;
+}
+
+// Confirmed allergies that are severe, or of unknown severity, stop the
+// prescription; mild or moderate ones and unconfirmed candidates only warn
+function allergySeverity(allergy: KnownAllergy): SafetyWarningSeverity {
+  if (!allergy.confirmed || allergy.severity === 'mild' || allergy.severity === 'moderate') {
+    return 'warning';
+  }
+  return 'hard_stop';
+}
+
+function allergyMessage(allergy: KnownAllergy, medicine: PrescribedMedicine): string {
+  const allergen = allergy.medicine_id !== null
+    ? allergy.medicine_name ?? medicine.name
+    : allergy.medicine_category !== null
+      ? allergy.medicine_category.replace(/_/g, ' ')
+      : allergy.substance ?? 'unknown allergen';
+  const details = [allergy.reaction, allergy.severity?.replace(/_/g, ' ')].filter(Boolean).join(', ');
+
+  return `${allergy.confirmed ? 'Patient is allergic' : 'Possible allergy'} to ${allergen}${details ? ` (${details})` : ''}`
+    + `${allergy.confirmed ? '' : ', not yet confirmed'}`;
+}
+
+// Whether a recorded allergy already covers an allergen parsed from text
+function sameAllergen(recorded: KnownAllergy, parsed: KnownAllergy): boolean {
+  return (parsed.medicine_id !== null && recorded.medicine_id === parsed.medicine_id)
+    || (parsed.medicine_category !== null && recorded.medicine_category === parsed.medicine_category)
+    || (parsed.substance !== null && recorded.substance !== null && normalize(recorded.substance) === normalize(parsed.substance));
+}
+
+// Recorded allergies plus those in the legacy free-text field that are not
+// recorded yet, so a partially migrated patient keeps every allergy
+async function getKnownAllergies(patientId: number, allergiesText: string | null, medicines: PrescribedMedicine[]): Promise<KnownAllergy[]> {
+  const rows = await db.select({
+    allergy: patientAllergiesTable,
+    medicine_name: medicinesTable.name
+  })
+    .from(patientAllergiesTable)
+    .leftJoin(medicinesTable, eq(patientAllergiesTable.medicine_id, medicinesTable.id))
+    .where(eq(patientAllergiesTable.patient_id, patientId))
+    .execute();
+
+  const recorded = rows.map(({ allergy, medicine_name }): KnownAllergy => ({
+    id: allergy.id,
+    medicine_id: allergy.medicine_id,
+    medicine_name,
+    medicine_category: allergy.medicine_category,
+    substance: decryptField(allergy.substance),
+    reaction: decryptField(allergy.reaction),
+    severity: allergy.severity,
+    confirmed: allergy.status === 'active'
+  }));
+
+  const fromText = parseAllergyText(allergiesText ?? '', medicines).map((parsed): KnownAllergy => ({
+    id: null,
+    medicine_id: parsed.medicine_id,
+    medicine_name: medicines.find(medicine => medicine.id === parsed.medicine_id)?.name ?? null,
+    medicine_category: parsed.medicine_category,
+    substance: parsed.substance,
+    reaction: parsed.reaction,
+    severity: parsed.severity,
+    confirmed: false
+  }));
+
+  return [...recorded, ...fromText.filter(parsed => !recorded.some(allergy => sameAllergen(allergy, parsed)))];
+}
+
+// Check each item's daily dose (dose_mg × doses_per_day) against the
+// medicine's absolute limit and its per-kg limit at the patient's latest weight
+async function checkDosing(
+  patientId: number,
+  items: CheckPrescriptionSafetyInput['items'],
+  medicines: (PrescribedMedicine & { max_daily_dose_mg_per_kg: string | null; max_daily_dose_mg: string | null })[]
+): Promise<SafetyWarning[]> {
+  const warnings: SafetyWarning[] = [];
+  const needsWeight = medicines.some(medicine => medicine.max_daily_dose_mg_per_kg !== null);
+  const weight = needsWeight
+    ? await getLatestWeight(patientId, new Date(Date.now() - WEIGHT_MAX_AGE_DAYS * 24 * 60 * 60 * 1000))
+    : null;
+
+  for (const item of items) {
+    const medicine = medicines.find(m => m.id === item.medicine_id);
+    if (!medicine || (medicine.max_daily_dose_mg_per_kg === null && medicine.max_daily_dose_mg === null)) {
+      continue;
+    }
+
+    const warn = (severity: SafetyWarningSeverity, message: string) => warnings.push({
+      type: 'dosing',
+      severity,
+      medicine_id: medicine.id,
+      medicine_name: medicine.name,
+      allergy_id: null,
+      message
+    });
+
+    if (!item.dose_mg || !item.doses_per_day) {
+      warn('warning', `No structured dose given for ${medicine.name}; its daily dose limit was not checked`);
+      continue;
+    }
+
+    const dailyDose = item.dose_mg * item.doses_per_day;
+    const limits: { dose: number; basis: string }[] = [];
+
+    if (medicine.max_daily_dose_mg !== null) {
+      limits.push({ dose: parseFloat(medicine.max_daily_dose_mg), basis: 'absolute maximum' });
+    }
+    if (medicine.max_daily_dose_mg_per_kg !== null) {
+      const perKg = parseFloat(medicine.max_daily_dose_mg_per_kg);
+      if (weight) {
+        limits.push({ dose: Math.round(perKg * weight.value * 100) / 100, basis: `${perKg} mg/kg/day at ${weight.value} kg` });
+      } else {
+        warn('warning', `No weight recorded in the last ${WEIGHT_MAX_AGE_DAYS} days; weight-based dose of ${medicine.name} not checked`);
+      }
+    }
+
+    const exceeded = limits.filter(limit => dailyDose > limit.dose).sort((a, b) => a.dose - b.dose)[0];
+    if (exceeded) {
+      warn('hard_stop', `Daily dose of ${dailyDose} mg of ${medicine.name} exceeds the maximum of ${exceeded.dose} mg (${exceeded.basis})`);
+    }
+  }
+
+  return warnings;
+}
+
+// Check prescribed medicines against the patient's allergies, chronic
+// conditions and dosing limits
+export async function checkPrescriptionSafety(input: CheckPrescriptionSafetyInput): Promise<SafetyWarning[]> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with id ${input.patient_id} does not exist`);
+    }
+
+    const medicineIds = [...new Set(input.items.map(item => item.medicine_id))];
+    if (medicineIds.length === 0) {
+      return [];
+    }
+
+    const medicines = await db.select({
+      id: medicinesTable.id,
+      name: medicinesTable.name,
+      category: medicinesTable.category,
+      max_daily_dose_mg_per_kg: medicinesTable.max_daily_dose_mg_per_kg,
+      max_daily_dose_mg: medicinesTable.max_daily_dose_mg
+    })
+      .from(medicinesTable)
+      .where(inArray(medicinesTable.id, medicineIds))
+      .execute();
+
+    const [patient] = await db.select({ allergies: patientsTable.allergies, chronic_conditions: patientsTable.chronic_conditions })
+      .from(patientsTable)
+      .where(eq(patientsTable.id, patientId))
+      .execute();
+
+    const allergies = await getKnownAllergies(patientId, decryptField(patient.allergies), medicines);
+    // Free-text chronic conditions plus the descriptions of coded ones
+    const conditions = [decryptField(patient.chronic_conditions) ?? '', ...await getActiveConditionDescriptions(patientId)].join('\n');
+
+    const warnings: SafetyWarning[] = [];
+    for (const medicineId of medicineIds) {
+      const medicine = medicines.find(m => m.id === medicineId);
+      if (!medicine) {
+        continue;
+      }
+
+      for (const allergy of allergies.filter(allergy => allergyMatches(allergy, medicine))) {
+        warnings.push({
+          type: 'allergy',
+          severity: allergySeverity(allergy),
+          medicine_id: medicine.id,
+          medicine_name: medicine.name,
+          allergy_id: allergy.id,
+          message: allergyMessage(allergy, medicine)
+        });
+      }
+
+      for (const rule of CONTRAINDICATIONS) {
+        const mention = rule.category === medicine.category ? conditionMention(conditions, rule.condition) : null;
+        if (mention === null) {
+          continue;
+        }
+
+        // A condition the notes seem to deny is still raised, as a warning,
+        // in case the negation was misread
+        const message = `${medicine.name} (${medicine.category.replace(/_/g, ' ')}) is contraindicated with ${rule.label}`;
+        warnings.push({
+          type: 'contraindication',
+          severity: mention === 'affirmed' ? rule.severity : 'warning',
+          medicine_id: medicine.id,
+          medicine_name: medicine.name,
+          allergy_id: null,
+          message: mention === 'affirmed' ? message : `${message}; the notes appear to rule it out, please confirm`
+        });
+      }
+    }
+
+    warnings.push(...await checkDosing(patientId, input.items, medicines));
+
+    // Hard stops first
+    return warnings.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'hard_stop' ? -1 : 1));
+  } catch (error) {
+    console.error('Prescription safety check failed:', error);
+    throw error;
+  }
+}
@@ -1,21 +1,55 @@
 import { db } from '../db';
-import { prescriptionsTable, prescriptionItemsTable, medicinesTable, patientsTable, usersTable } from '../db/schema';
-import { type CreatePrescriptionInput, type UpdatePrescriptionStatusInput, type Prescription, type PrescriptionItem } from '../schema';
+import { prescriptionsTable, prescriptionItemsTable, prescriptionFillsTable, medicinesTable, usersTable } from '../db/schema';
+import { type CreatePrescriptionInput, type UpdatePrescriptionStatusInput, type Prescription, type PrescriptionItem, type SafetyWarning, type InteractionWarning, type User } from '../schema';
+import { resolvePatientId } from './patients';
+import { checkPrescriptionSafety } from './prescriptionSafety';
+import { checkInteractions } from './drugInteractions';
+import { assertEncounterForPatient } from './encounters';
+import { assertIcd10Codes } from './icd10';
+import { roleHasPermission } from './permissions';
 import { eq, sql, and, SQL } from 'drizzle-orm';
 
-// Create a new prescription with items
-export async function createPrescription(input: CreatePrescriptionInput): Promise<Prescription> {
+const toPrescriptionItem = (row: typeof prescriptionItemsTable.$inferSelect): PrescriptionItem => ({
+  ...row,
+  dose_mg: row.dose_mg === null ? null : parseFloat(row.dose_mg)
+});
+
+// Prescription fields that reveal a patient's clinical picture; roles without
+// patients.clinical, such as cashiers, get prescriptions without them
+export const CLINICAL_PRESCRIPTION_FIELDS = ['diagnosis_codes', 'override_reason'] as const;
+
+type ClinicalPrescriptionField = typeof CLINICAL_PRESCRIPTION_FIELDS[number];
+
+// Returns a function that shapes a prescription for the given user
+export async function prescriptionViewForUser(user: Pick<User, 'role'>) {
+  const canViewClinical = await roleHasPermission(user.role, 'patients.clinical');
+
+  return <T extends Prescription>(prescription: T): T | Omit<T, ClinicalPrescriptionField> => {
+    if (canViewClinical) {
+      return prescription;
+    }
+
+    const { diagnosis_codes, override_reason, ...rest } = prescription;
+    return rest;
+  };
+}
+
+// Create a new prescription with items, returning any safety and interaction warnings
+export async function createPrescription(input: CreatePrescriptionInput): Promise<Prescription & { safety_warnings: SafetyWarning[]; interaction_warnings: InteractionWarning[] }> {
   try {
-    // Verify patient exists
-    const patientExists = await db.select({ id: patientsTable.id })
-      .from(patientsTable)
-      .where(eq(patientsTable.id, input.patient_id))
-      .execute();
+    // Verify patient exists, filing under the surviving record if it was merged
+    const patientId = await resolvePatientId(input.patient_id);
     
-    if (patientExists.length === 0) {
+    if (patientId === null) {
       throw new Error(`Patient with id ${input.patient_id} does not exist`);
     }
 
+    if (input.encounter_id) {
+      await assertEncounterForPatient(input.encounter_id, patientId);
+    }
+
+    const diagnosisCodes = await assertIcd10Codes(input.diagnosis_codes ?? []);
+
     // Verify doctor exists
     const doctorExists = await db.select({ id: usersTable.id })
       .from(usersTable)
@@ -42,13 +76,33 @@ export async function createPrescription(input: CreatePrescriptionInput): Promis
       }
     }
 
+    // Check allergies, contraindications and drug interactions; hard stops
+    // need an override reason
+    const safetyWarnings = await checkPrescriptionSafety(input);
+    const interactionWarnings = await checkInteractions(input);
+    const hardStops = [
+      ...safetyWarnings
+        .filter(warning => warning.severity === 'hard_stop')
+        .map(warning => warning.message),
+      ...interactionWarnings
+        .filter(warning => warning.severity === 'contraindicated')
+        .map(warning => `${warning.medicine_name} is contraindicated with ${warning.interacting_medicine_name}: ${warning.description}`)
+    ];
+
+    if (hardStops.length > 0 && !input.override_reason) {
+      throw new Error(`Prescription blocked by safety check: ${hardStops.join('; ')}. Provide an override reason to proceed`);
+    }
+
     // Create prescription
     const prescriptionResult = await db.insert(prescriptionsTable)
       .values({
-        patient_id: input.patient_id,
+        patient_id: patientId,
         doctor_id: input.doctor_id,
         notes: input.notes || null,
-        status: 'pending'
+        status: 'pending',
+        override_reason: hardStops.length > 0 ? input.override_reason : null,
+        encounter_id: input.encounter_id || null,
+        diagnosis_codes: diagnosisCodes
       })
       .returning()
       .execute();
@@ -63,7 +117,9 @@ export async function createPrescription(input: CreatePrescriptionInput): Promis
           medicine_id: item.medicine_id,
           quantity_prescribed: item.quantity_prescribed,
           quantity_filled: 0,
-          dosage_instructions: item.dosage_instructions || null
+          dosage_instructions: item.dosage_instructions || null,
+          dose_mg: item.dose_mg?.toString() ?? null,
+          doses_per_day: item.doses_per_day ?? null
         })
         .execute();
 
@@ -77,13 +133,34 @@ export async function createPrescription(input: CreatePrescriptionInput): Promis
         .execute();
     }
 
-    return prescription;
+    return { ...prescription, safety_warnings: safetyWarnings, interaction_warnings: interactionWarnings };
   } catch (error) {
     console.error('Prescription creation failed:', error);
     throw error;
   }
 }
 
+// The patient a prescription belongs to, for access checks
+export async function getPrescriptionPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: prescriptionsTable.patient_id })
+    .from(prescriptionsTable)
+    .where(eq(prescriptionsTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
+// The patient a prescription item belongs to, for access checks
+export async function getPrescriptionItemPatientId(id: number): Promise<number | null> {
+  const rows = await db.select({ patient_id: prescriptionsTable.patient_id })
+    .from(prescriptionItemsTable)
+    .innerJoin(prescriptionsTable, eq(prescriptionItemsTable.prescription_id, prescriptionsTable.id))
+    .where(eq(prescriptionItemsTable.id, id))
+    .execute();
+
+  return rows.length > 0 ? rows[0].patient_id : null;
+}
+
 // Get all prescriptions
 export async function getPrescriptions(): Promise<Prescription[]> {
   try {
@@ -119,7 +196,7 @@ export async function getPrescriptionById(id: number): Promise<(Prescription & {
 
     return {
       ...prescription,
-      items: items
+      items: items.map(toPrescriptionItem)
     };
   } catch (error) {
     console.error('Get prescription by ID failed:', error);
@@ -132,7 +209,7 @@ export async function getPrescriptionsByPatientId(patientId: number): Promise<Pr
   try {
     const prescriptions = await db.select()
       .from(prescriptionsTable)
-      .where(eq(prescriptionsTable.patient_id, patientId))
+      .where(eq(prescriptionsTable.patient_id, await resolvePatientId(patientId) ?? patientId))
       .execute();
 
     return prescriptions;
@@ -180,8 +257,8 @@ export async function updatePrescriptionStatus(input: UpdatePrescriptionStatusIn
   }
 }
 
-// Fill prescription item (update quantity filled)
-export async function fillPrescriptionItem(prescriptionItemId: number, quantityFilled: number): Promise<PrescriptionItem> {
+// Fill prescription item (update quantity filled and record the fill)
+export async function fillPrescriptionItem(prescriptionItemId: number, quantityFilled: number, filledBy: number | null = null): Promise<PrescriptionItem> {
   try {
     // Get the current prescription item
     const items = await db.select()
@@ -209,6 +286,14 @@ export async function fillPrescriptionItem(prescriptionItemId: number, quantityF
       .returning()
       .execute();
 
+    await db.insert(prescriptionFillsTable)
+      .values({
+        prescription_item_id: prescriptionItemId,
+        quantity: quantityFilled,
+        filled_by: filledBy
+      })
+      .execute();
+
     // Check if prescription should be updated to filled or partially filled
     const allItems = await db.select()
       .from(prescriptionItemsTable)
@@ -245,7 +330,7 @@ export async function fillPrescriptionItem(prescriptionItemId: number, quantityF
       .where(eq(prescriptionsTable.id, item.prescription_id))
       .execute();
 
-    return updatedItems[0];
+    return toPrescriptionItem(updatedItems[0]);
   } catch (error) {
     console.error('Fill prescription item failed:', error);
     throw error;
@@ -5,10 +5,12 @@ import {
   prescriptionItemsTable, 
   medicinesTable, 
   usersTable,
-  patientsTable
+  patientsTable,
+  patientConditionsTable,
+  icd10CodesTable
 } from '../db/schema';
-import { type SalesReportInput, type MedicineUsageReportInput } from '../schema';
-import { eq, gte, lte, and, sum, count, sql, desc, asc } from 'drizzle-orm';
+import { type SalesReportInput, type MedicineUsageReportInput, type DiagnosisReportInput } from '../schema';
+import { eq, gte, lte, gt, and, or, isNull, like, inArray, sum, count, countDistinct, sql, desc, asc } from 'drizzle-orm';
 
 // Sales report data structure
 export interface SalesReportData {
@@ -41,6 +43,21 @@ export interface MedicineUsageData {
     }>;
 }
 
+// Dispensing by diagnosis report data structure
+export interface DiagnosisReportData {
+    basis: DiagnosisReportInput['basis'];
+    groupBy: DiagnosisReportInput['group_by'];
+    totalPrescriptions: number;
+    undiagnosedPrescriptions: number;
+    usageByDiagnosis: Array<{
+        code: string;
+        description: string | null;
+        prescriptionCount: number;
+        patientCount: number;
+        quantityDispensed: number;
+    }>;
+}
+
 // Low stock alert data structure
 export interface LowStockAlert {
     medicineId: number;
@@ -241,6 +258,107 @@ export async function generateMedicineUsageReport(input: MedicineUsageReportInpu
     }
 }
 
+// Generate dispensing by diagnosis report. Only prescriptions with something
+// dispensed count; a prescription counts once per diagnosis group.
+export async function generateDiagnosisReport(input: DiagnosisReportInput): Promise<DiagnosisReportData> {
+    try {
+        const dateConditions = and(
+            gte(prescriptionsTable.created_at, input.start_date),
+            lte(prescriptionsTable.created_at, input.end_date)
+        );
+
+        // Quantity dispensed per prescription
+        const quantities = db.select({
+            prescription_id: prescriptionItemsTable.prescription_id,
+            quantity: sql<string>`SUM(${prescriptionItemsTable.quantity_filled})`.as('quantity')
+        }).from(prescriptionItemsTable)
+          .groupBy(prescriptionItemsTable.prescription_id)
+          .having(gt(sum(prescriptionItemsTable.quantity_filled), 0))
+          .as('quantities');
+
+        // One row per prescription and diagnosis code, from the prescription
+        // itself or from the conditions the patient had when it was written
+        const diagnosisCodes = input.basis === 'prescription'
+            ? db.select({
+                prescription_id: prescriptionsTable.id,
+                patient_id: prescriptionsTable.patient_id,
+                code: sql<string>`UNNEST(${prescriptionsTable.diagnosis_codes})`.as('code')
+            }).from(prescriptionsTable)
+              .where(dateConditions)
+              .as('diagnosis_codes')
+            : db.select({
+                prescription_id: prescriptionsTable.id,
+                patient_id: prescriptionsTable.patient_id,
+                code: sql<string>`${patientConditionsTable.icd10_code}`.as('code')
+            }).from(prescriptionsTable)
+              .innerJoin(patientConditionsTable, and(
+                  eq(patientConditionsTable.patient_id, prescriptionsTable.patient_id),
+                  or(isNull(patientConditionsTable.onset_date), lte(patientConditionsTable.onset_date, sql`${prescriptionsTable.created_at}::date`)),
+                  or(isNull(patientConditionsTable.resolved_date), gte(patientConditionsTable.resolved_date, sql`${prescriptionsTable.created_at}::date`))
+              ))
+              .where(dateConditions)
+              .as('diagnosis_codes');
+
+        const diagnoses = db.selectDistinct({
+            prescription_id: diagnosisCodes.prescription_id,
+            patient_id: diagnosisCodes.patient_id,
+            diagnosis: (input.group_by === 'category'
+                ? sql<string>`LEFT(${diagnosisCodes.code}, 3)`
+                : sql<string>`${diagnosisCodes.code}`).as('diagnosis')
+        }).from(diagnosisCodes)
+          .where(input.code_prefix ? like(diagnosisCodes.code, `${input.code_prefix.toUpperCase()}%`) : undefined)
+          .as('diagnoses');
+
+        const usageByDiagnosis = await db.select({
+            code: diagnoses.diagnosis,
+            prescriptionCount: count(diagnoses.prescription_id),
+            patientCount: countDistinct(diagnoses.patient_id),
+            quantityDispensed: sum(quantities.quantity)
+        }).from(diagnoses)
+          .innerJoin(quantities, eq(diagnoses.prescription_id, quantities.prescription_id))
+          .groupBy(diagnoses.diagnosis)
+          .orderBy(desc(sum(quantities.quantity)), asc(diagnoses.diagnosis))
+          .execute();
+
+        const totalResult = await db.select({
+            count: count(prescriptionsTable.id)
+        }).from(prescriptionsTable)
+          .innerJoin(quantities, eq(prescriptionsTable.id, quantities.prescription_id))
+          .where(dateConditions)
+          .execute();
+
+        const diagnosedResult = await db.select({
+            count: countDistinct(diagnosisCodes.prescription_id)
+        }).from(diagnosisCodes)
+          .innerJoin(quantities, eq(diagnosisCodes.prescription_id, quantities.prescription_id))
+          .execute();
+
+        const codes = usageByDiagnosis.map(row => row.code);
+        const descriptions = codes.length > 0
+            ? await db.select().from(icd10CodesTable).where(inArray(icd10CodesTable.code, codes)).execute()
+            : [];
+
+        const totalPrescriptions = totalResult[0]?.count || 0;
+
+        return {
+            basis: input.basis,
+            groupBy: input.group_by,
+            totalPrescriptions,
+            undiagnosedPrescriptions: totalPrescriptions - (diagnosedResult[0]?.count || 0),
+            usageByDiagnosis: usageByDiagnosis.map(row => ({
+                code: row.code,
+                description: descriptions.find(code => code.code === row.code)?.description ?? null,
+                prescriptionCount: row.prescriptionCount,
+                patientCount: row.patientCount,
+                quantityDispensed: parseInt(row.quantityDispensed || '0')
+            }))
+        };
+    } catch (error) {
+        console.error('Diagnosis report generation failed:', error);
+        throw error;
+    }
+}
+
 // Get low stock alerts
 export async function getLowStockAlerts(threshold: number = 10): Promise<LowStockAlert[]> {
     try {
@@ -0,0 +1,198 @@
+import { db } from '../db';
+import { sessionsTable } from '../db/schema';
+import { type Session } from '../schema';
+import { and, desc, eq, gt, isNull, ne } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Refresh tokens are `<sessionId>.<secret>`; only a hash of the secret is stored
+const REFRESH_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
+
+type SessionRow = typeof sessionsTable.$inferSelect;
+
+const toSession = ({ refresh_token_hash, ...session }: SessionRow): Session => session;
+
+function hashRefreshSecret(secret: string): string {
+  return crypto.createHash('sha256').update(secret).digest('hex');
+}
+
+function newRefreshSecret(): string {
+  return crypto.randomBytes(32).toString('base64url');
+}
+
+function parseRefreshToken(refreshToken: string): { sessionId: number; secret: string } | null {
+  const separator = refreshToken.indexOf('.');
+  if (separator <= 0) {
+    return null;
+  }
+
+  const sessionId = parseInt(refreshToken.slice(0, separator), 10);
+  const secret = refreshToken.slice(separator + 1);
+  if (isNaN(sessionId) || secret.length === 0) {
+    return null;
+  }
+
+  return { sessionId, secret };
+}
+
+// Start a new session for a user and return its first refresh token
+export async function createSession(userId: number): Promise<{ session: Session; refreshToken: string }> {
+  try {
+    const secret = newRefreshSecret();
+
+    const result = await db.insert(sessionsTable)
+      .values({
+        user_id: userId,
+        refresh_token_hash: hashRefreshSecret(secret),
+        expires_at: new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000)
+      })
+      .returning()
+      .execute();
+
+    const session = result[0];
+    return {
+      session: toSession(session),
+      refreshToken: `${session.id}.${secret}`
+    };
+  } catch (error) {
+    console.error('Session creation failed:', error);
+    throw error;
+  }
+}
+
+// Exchange a refresh token for a new one. Each refresh token works once;
+// presenting an already-rotated token means it leaked, so the whole session
+// is revoked.
+export async function rotateSession(refreshToken: string): Promise<{ session: Session; refreshToken: string }> {
+  try {
+    const parsed = parseRefreshToken(refreshToken);
+    if (!parsed) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(eq(sessionsTable.id, parsed.sessionId))
+      .execute();
+
+    if (sessions.length === 0) {
+      throw new Error('Invalid refresh token');
+    }
+
+    const session = sessions[0];
+
+    if (session.revoked_at || session.expires_at <= new Date()) {
+      throw new Error('Session has expired or been revoked');
+    }
+
+    const presented = Buffer.from(hashRefreshSecret(parsed.secret));
+    const stored = Buffer.from(session.refresh_token_hash);
+    if (!crypto.timingSafeEqual(presented, stored)) {
+      await revokeSession(session.id);
+      throw new Error('Refresh token reuse detected, session revoked');
+    }
+
+    const secret = newRefreshSecret();
+    const result = await db.update(sessionsTable)
+      .set({
+        refresh_token_hash: hashRefreshSecret(secret),
+        last_used_at: new Date()
+      })
+      .where(eq(sessionsTable.id, session.id))
+      .returning()
+      .execute();
+
+    return {
+      session: toSession(result[0]),
+      refreshToken: `${session.id}.${secret}`
+    };
+  } catch (error) {
+    console.error('Session rotation failed:', error);
+    throw error;
+  }
+}
+
+// Get a session if it belongs to the user and is still usable
+export async function getActiveSession(sessionId: number, userId: number): Promise<Session | null> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .execute();
+
+    if (sessions.length === 0) {
+      return null;
+    }
+
+    return toSession(sessions[0]);
+  } catch (error) {
+    console.error('Failed to fetch active session:', error);
+    throw error;
+  }
+}
+
+// List a user's sessions that can still be used
+export async function getActiveSessionsByUserId(userId: number): Promise<Session[]> {
+  try {
+    const sessions = await db.select()
+      .from(sessionsTable)
+      .where(and(
+        eq(sessionsTable.user_id, userId),
+        isNull(sessionsTable.revoked_at),
+        gt(sessionsTable.expires_at, new Date())
+      ))
+      .orderBy(desc(sessionsTable.last_used_at))
+      .execute();
+
+    return sessions.map(toSession);
+  } catch (error) {
+    console.error('Failed to fetch user sessions:', error);
+    throw error;
+  }
+}
+
+// Revoke a single session
+export async function revokeSession(sessionId: number): Promise<void> {
+  try {
+    await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(
+        eq(sessionsTable.id, sessionId),
+        isNull(sessionsTable.revoked_at)
+      ))
+      .execute();
+  } catch (error) {
+    console.error('Session revocation failed:', error);
+    throw error;
+  }
+}
+
+// Revoke every open session of a user, optionally keeping the caller's own
+// session, and return how many were revoked
+export async function revokeUserSessions(userId: number, exceptSessionId?: number): Promise<{ revoked: number }> {
+  try {
+    const conditions = [
+      eq(sessionsTable.user_id, userId),
+      isNull(sessionsTable.revoked_at)
+    ];
+
+    if (exceptSessionId !== undefined) {
+      conditions.push(ne(sessionsTable.id, exceptSessionId));
+    }
+
+    const result = await db.update(sessionsTable)
+      .set({ revoked_at: new Date() })
+      .where(and(...conditions))
+      .returning({ id: sessionsTable.id })
+      .execute();
+
+    return { revoked: result.length };
+  } catch (error) {
+    console.error('User session revocation failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,271 @@
+import { db } from '../db';
+import {
+  auditLogTable,
+  patientsTable,
+  paymentsTable,
+  prescriptionFillsTable,
+  prescriptionItemsTable,
+  prescriptionsTable
+} from '../db/schema';
+import {
+  timelineEventTypeSchema,
+  type PatientTimeline,
+  type PatientTimelineInput,
+  type PrescriptionItem,
+  type TimelineEvent,
+  type TimelineEventType,
+  type User
+} from '../schema';
+import { resolvePatientId } from './patients';
+import { roleHasPermission } from './permissions';
+import { and, asc, desc, eq, gte, inArray, lte, sql, type SQL } from 'drizzle-orm';
+import { type PgColumn } from 'drizzle-orm/pg-core';
+
+const EVENT_TYPES = timelineEventTypeSchema.options;
+
+// Position of the last event on a page. Events are ordered by time, then
+// type, then row id, so the position is unique.
+interface TimelineCursor {
+  at: Date;
+  type: TimelineEventType;
+  id: number;
+}
+
+interface SourceQuery {
+  patientId: number;
+  input: PatientTimelineInput;
+  cursor: TimelineCursor | null;
+  limit: number;
+}
+
+function encodeCursor(event: TimelineEvent): string {
+  const position = { at: event.occurred_at.toISOString(), type: event.type, id: event.id };
+  return Buffer.from(JSON.stringify(position)).toString('base64url');
+}
+
+function decodeCursor(cursor: string): TimelineCursor {
+  try {
+    const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    const at = new Date(position.at);
+    if (isNaN(at.getTime()) || !Number.isInteger(position.id)) {
+      throw new Error('Malformed cursor');
+    }
+    return { at, type: timelineEventTypeSchema.parse(position.type), id: position.id };
+  } catch {
+    throw new Error('Invalid timeline cursor');
+  }
+}
+
+// Timestamps are compared at millisecond precision, the precision the cursor
+// carries; Postgres keeps microseconds
+const toMilliseconds = (column: PgColumn): SQL => sql`date_trunc('milliseconds', ${column})`;
+
+// The date range, and on later pages the events past the cursor
+function windowConditions(type: TimelineEventType, timeColumn: PgColumn, idColumn: PgColumn, query: SourceQuery): SQL[] {
+  const { input, cursor } = query;
+  const conditions: SQL[] = [];
+
+  if (input.from !== undefined) {
+    conditions.push(gte(timeColumn, input.from));
+  }
+  if (input.to !== undefined) {
+    conditions.push(lte(timeColumn, input.to));
+  }
+
+  if (cursor) {
+    const at = toMilliseconds(timeColumn);
+    const cursorAt = sql`${cursor.at.toISOString()}::timestamp`;
+    const operator = input.order === 'desc' ? '<' : '>';
+    const typeOffset = EVENT_TYPES.indexOf(type) - EVENT_TYPES.indexOf(cursor.type);
+
+    if (typeOffset === 0) {
+      conditions.push(sql`(${at}, ${idColumn}) ${sql.raw(operator)} (${cursorAt}, ${cursor.id})`);
+    } else {
+      // Events of a type sorting after the cursor's may share its instant
+      const sharesInstant = input.order === 'desc' ? typeOffset < 0 : typeOffset > 0;
+      conditions.push(sql`${at} ${sql.raw(sharesInstant ? `${operator}=` : operator)} ${cursorAt}`);
+    }
+  }
+
+  return conditions;
+}
+
+function sourceOrder(timeColumn: PgColumn, idColumn: PgColumn, query: SourceQuery): SQL[] {
+  const direction = query.input.order === 'desc' ? desc : asc;
+  return [direction(toMilliseconds(timeColumn)), direction(idColumn)];
+}
+
+function compareEvents(a: TimelineEvent, b: TimelineEvent): number {
+  return a.occurred_at.getTime() - b.occurred_at.getTime()
+    || EVENT_TYPES.indexOf(a.type) - EVENT_TYPES.indexOf(b.type)
+    || a.id - b.id;
+}
+
+// Each source returns up to `limit` of its events past the cursor, in page order
+const SOURCES: Record<TimelineEventType, (query: SourceQuery) => Promise<TimelineEvent[]>> = {
+  registration: async (query) => {
+    const rows = await db.select({ id: patientsTable.id, created_at: patientsTable.created_at })
+      .from(patientsTable)
+      .where(and(
+        eq(patientsTable.id, query.patientId),
+        ...windowConditions('registration', patientsTable.created_at, patientsTable.id, query)
+      ))
+      .execute();
+
+    return rows.map((row): TimelineEvent => ({ type: 'registration', id: row.id, occurred_at: row.created_at }));
+  },
+
+  // Edits recorded by the audited patient routes
+  profile_update: async (query) => {
+    const rows = await db.select()
+      .from(auditLogTable)
+      .where(and(
+        eq(auditLogTable.entity_type, 'patient'),
+        eq(auditLogTable.entity_id, query.patientId),
+        eq(auditLogTable.action, 'update'),
+        ...windowConditions('profile_update', auditLogTable.created_at, auditLogTable.id, query)
+      ))
+      .orderBy(...sourceOrder(auditLogTable.created_at, auditLogTable.id, query))
+      .limit(query.limit)
+      .execute();
+
+    return rows.map((row): TimelineEvent => ({
+      type: 'profile_update',
+      id: row.id,
+      occurred_at: row.created_at,
+      actor_id: row.actor_id,
+      procedure: row.procedure,
+      changes: row.changes
+    }));
+  },
+
+  prescription: async (query) => {
+    const prescriptions = await db.select()
+      .from(prescriptionsTable)
+      .where(and(
+        eq(prescriptionsTable.patient_id, query.patientId),
+        ...windowConditions('prescription', prescriptionsTable.created_at, prescriptionsTable.id, query)
+      ))
+      .orderBy(...sourceOrder(prescriptionsTable.created_at, prescriptionsTable.id, query))
+      .limit(query.limit)
+      .execute();
+
+    if (prescriptions.length === 0) {
+      return [];
+    }
+
+    const items = await db.select()
+      .from(prescriptionItemsTable)
+      .where(inArray(prescriptionItemsTable.prescription_id, prescriptions.map(prescription => prescription.id)))
+      .orderBy(asc(prescriptionItemsTable.id))
+      .execute();
+
+    const itemsByPrescription = new Map<number, PrescriptionItem[]>();
+    for (const item of items) {
+      const list = itemsByPrescription.get(item.prescription_id) ?? [];
+      list.push({ ...item, dose_mg: item.dose_mg === null ? null : parseFloat(item.dose_mg) });
+      itemsByPrescription.set(item.prescription_id, list);
+    }
+
+    return prescriptions.map((prescription): TimelineEvent => ({
+      type: 'prescription',
+      id: prescription.id,
+      occurred_at: prescription.created_at,
+      prescription: { ...prescription, items: itemsByPrescription.get(prescription.id) ?? [] }
+    }));
+  },
+
+  fill: async (query) => {
+    const rows = await db.select({
+      fill: prescriptionFillsTable,
+      prescription_id: prescriptionItemsTable.prescription_id,
+      medicine_id: prescriptionItemsTable.medicine_id
+    })
+      .from(prescriptionFillsTable)
+      .innerJoin(prescriptionItemsTable, eq(prescriptionFillsTable.prescription_item_id, prescriptionItemsTable.id))
+      .innerJoin(prescriptionsTable, eq(prescriptionItemsTable.prescription_id, prescriptionsTable.id))
+      .where(and(
+        eq(prescriptionsTable.patient_id, query.patientId),
+        ...windowConditions('fill', prescriptionFillsTable.filled_at, prescriptionFillsTable.id, query)
+      ))
+      .orderBy(...sourceOrder(prescriptionFillsTable.filled_at, prescriptionFillsTable.id, query))
+      .limit(query.limit)
+      .execute();
+
+    return rows.map((row): TimelineEvent => ({
+      type: 'fill',
+      id: row.fill.id,
+      occurred_at: row.fill.filled_at,
+      fill: { ...row.fill, prescription_id: row.prescription_id, medicine_id: row.medicine_id }
+    }));
+  },
+
+  payment: async (query) => {
+    const rows = await db.select()
+      .from(paymentsTable)
+      .where(and(
+        eq(paymentsTable.patient_id, query.patientId),
+        ...windowConditions('payment', paymentsTable.payment_date, paymentsTable.id, query)
+      ))
+      .orderBy(...sourceOrder(paymentsTable.payment_date, paymentsTable.id, query))
+      .limit(query.limit)
+      .execute();
+
+    return rows.map((row): TimelineEvent => ({
+      type: 'payment',
+      id: row.id,
+      occurred_at: row.payment_date,
+      payment: { ...row, amount: parseFloat(row.amount) }
+    }));
+  }
+};
+
+// Event types a user may see: prescriptions and fills need prescriptions.read,
+// payments need payments.read
+export async function timelineTypesForUser(user: Pick<User, 'role'>): Promise<TimelineEventType[]> {
+  const canReadPrescriptions = await roleHasPermission(user.role, 'prescriptions.read');
+  const canReadPayments = await roleHasPermission(user.role, 'payments.read');
+
+  return EVENT_TYPES.filter(type => {
+    if (type === 'prescription' || type === 'fill') {
+      return canReadPrescriptions;
+    }
+    if (type === 'payment') {
+      return canReadPayments;
+    }
+    return true;
+  });
+}
+
+// A patient's registration, profile edits, prescriptions, fills and payments
+// as one feed, a page at a time. Requested types the caller may not see are
+// left out.
+export async function getPatientTimeline(input: PatientTimelineInput, allowedTypes: readonly TimelineEventType[] = EVENT_TYPES): Promise<PatientTimeline> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    const query: SourceQuery = {
+      patientId,
+      input,
+      cursor: input.cursor ? decodeCursor(input.cursor) : null,
+      // One extra event tells whether there is another page
+      limit: input.limit + 1
+    };
+    const types = (input.types ?? EVENT_TYPES).filter(type => allowedTypes.includes(type));
+
+    const batches = await Promise.all(types.map(type => SOURCES[type](query)));
+    const sorted = batches.flat().sort(input.order === 'desc' ? (a, b) => compareEvents(b, a) : compareEvents);
+    const events = sorted.slice(0, input.limit);
+
+    return {
+      events,
+      next_cursor: sorted.length > input.limit ? encodeCursor(events[events.length - 1]) : null
+    };
+  } catch (error) {
+    console.error('Failed to fetch patient timeline:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,479 @@
+import { db } from '../db';
+import { usersTable, userTwoFactorTable, twoFactorRecoveryCodesTable, twoFactorPoliciesTable } from '../db/schema';
+import {
+  userRoleSchema,
+  type TwoFactorCodeInput,
+  type DisableTwoFactorInput,
+  type SetTwoFactorPolicyInput,
+  type UserIdInput,
+  type TwoFactorPolicy,
+  type User,
+  type UserRole
+} from '../schema';
+import { decryptField, encryptField, needsReencryption } from './fieldEncryption';
+import { verifyPassword } from './passwords';
+import { and, eq, isNull, lt, or, count } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Time-based one-time passwords (RFC 6238) on top of HOTP (RFC 4226), using
+// the parameters every authenticator app understands: HMAC-SHA1, 6 digits,
+// 30 second steps. Verification accepts one step of clock drift either way
+// and never accepts the same step twice for a user.
+const TOTP_DIGITS = 6;
+const TOTP_PERIOD_SECONDS = 30;
+const TOTP_DRIFT_STEPS = 1;
+const SECRET_BYTES = 20;
+const RECOVERY_CODE_COUNT = 10;
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+export function base32Encode(data: Uint8Array): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+export function base32Decode(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/[\s=-]/g, '');
+  const bytes: number[] = [];
+  let bits = 0;
+  let value = 0;
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+// HOTP value for a key and counter (RFC 4226 section 5.3)
+export function generateHotp(key: Buffer, counter: number, digits: number = TOTP_DIGITS): string {
+  const message = Buffer.alloc(8);
+  message.writeUInt32BE(Math.floor(counter / 0x100000000), 0);
+  message.writeUInt32BE(counter >>> 0, 4);
+
+  const digest = crypto.createHmac('sha1', key).update(message).digest();
+  const offset = digest[digest.length - 1] & 0x0f;
+  const binary = ((digest[offset] & 0x7f) << 24) |
+    (digest[offset + 1] << 16) |
+    (digest[offset + 2] << 8) |
+    digest[offset + 3];
+
+  return (binary % Math.pow(10, digits)).toString().padStart(digits, '0');
+}
+
+// Time step containing the given instant
+export function getTotpStep(atMs: number): number {
+  return Math.floor(atMs / 1000 / TOTP_PERIOD_SECONDS);
+}
+
+// TOTP value for a base32 secret at the given instant
+export function generateTotp(secret: string, atMs: number = Date.now(), digits: number = TOTP_DIGITS): string {
+  return generateHotp(base32Decode(secret), getTotpStep(atMs), digits);
+}
+
+// Find the time step a code belongs to, allowing for clock drift. Returns null
+// when the code matches none of the accepted steps.
+export function findTotpStep(secret: string, code: string, atMs: number = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, '');
+  if (!/^\d+$/.test(normalized) || normalized.length !== TOTP_DIGITS) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpStep(atMs);
+
+  for (let drift = -TOTP_DRIFT_STEPS; drift <= TOTP_DRIFT_STEPS; drift++) {
+    const step = currentStep + drift;
+    const expected = Buffer.from(generateHotp(key, step));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) {
+      return step;
+    }
+  }
+
+  return null;
+}
+
+// otpauth:// URI that authenticator apps read from a QR code
+export function buildProvisioningUri(secret: string, accountName: string): string {
+  const issuer = process.env['TOTP_ISSUER'] || 'Clinic Pharmacy';
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: 'SHA1',
+    digits: TOTP_DIGITS.toString(),
+    period: TOTP_PERIOD_SECONDS.toString()
+  });
+
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Recovery codes are random, so a plain SHA-256 is enough to store them
+const normalizeRecoveryCode = (code: string): string => code.toLowerCase().replace(/[\s-]/g, '');
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash('sha256').update(normalizeRecoveryCode(code)).digest('hex');
+}
+
+function newRecoveryCode(): string {
+  const raw = base32Encode(crypto.randomBytes(5)).toLowerCase();
+  return `${raw.slice(0, 4)}-${raw.slice(4)}`;
+}
+
+// Replace a user's recovery codes with a fresh set and return the plaintext codes
+async function issueRecoveryCodes(userId: number): Promise<string[]> {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, newRecoveryCode);
+
+  await db.delete(twoFactorRecoveryCodesTable)
+    .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.insert(twoFactorRecoveryCodesTable)
+    .values(codes.map(code => ({ user_id: userId, code_hash: hashRecoveryCode(code) })))
+    .execute();
+
+  return codes;
+}
+
+// The user's enrollment with its secret decrypted
+async function getEnrollment(userId: number) {
+  const rows = await db.select()
+    .from(userTwoFactorTable)
+    .where(eq(userTwoFactorTable.user_id, userId))
+    .execute();
+
+  return rows.length > 0 ? { ...rows[0], secret: decryptField(rows[0].secret) } : null;
+}
+
+async function findUser(userId: number) {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, userId))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with ID ${userId} not found`);
+  }
+
+  return users[0];
+}
+
+// Check a second-factor code for a user with two-factor enabled. Accepts a
+// current TOTP code (each time step only once) or an unused recovery code,
+// which is used up.
+export async function verifyTwoFactorCode(userId: number, code: string, atMs: number = Date.now()): Promise<boolean> {
+  try {
+    const enrollment = await getEnrollment(userId);
+    if (!enrollment || !enrollment.enabled_at) {
+      return false;
+    }
+
+    const step = findTotpStep(enrollment.secret, code, atMs);
+    if (step !== null) {
+      // Claim the step atomically so a code cannot be replayed
+      const claimed = await db.update(userTwoFactorTable)
+        .set({ last_used_step: step })
+        .where(and(
+          eq(userTwoFactorTable.id, enrollment.id),
+          or(isNull(userTwoFactorTable.last_used_step), lt(userTwoFactorTable.last_used_step, step))
+        ))
+        .returning()
+        .execute();
+
+      return claimed.length > 0;
+    }
+
+    const usedCodes = await db.update(twoFactorRecoveryCodesTable)
+      .set({ used_at: new Date() })
+      .where(and(
+        eq(twoFactorRecoveryCodesTable.user_id, userId),
+        eq(twoFactorRecoveryCodesTable.code_hash, hashRecoveryCode(code)),
+        isNull(twoFactorRecoveryCodesTable.used_at)
+      ))
+      .returning()
+      .execute();
+
+    return usedCodes.length > 0;
+  } catch (error) {
+    console.error('Two-factor code verification failed:', error);
+    throw error;
+  }
+}
+
+// Whether the user has confirmed a two-factor enrollment
+export async function isTwoFactorEnabled(userId: number): Promise<boolean> {
+  const enrollment = await getEnrollment(userId);
+  return enrollment !== null && enrollment.enabled_at !== null;
+}
+
+// Whether the policy makes two-factor mandatory for a role
+export async function isTwoFactorRequiredForRole(role: UserRole): Promise<boolean> {
+  const policies = await db.select()
+    .from(twoFactorPoliciesTable)
+    .where(eq(twoFactorPoliciesTable.role, role))
+    .execute();
+
+  return policies.length > 0 && policies[0].required;
+}
+
+// True when the user's role requires two-factor but they have not enrolled
+// yet. Such users may only reach the enrollment routes.
+export async function isTwoFactorEnrollmentRequired(user: Pick<User, 'id' | 'role'>): Promise<boolean> {
+  if (!(await isTwoFactorRequiredForRole(user.role))) {
+    return false;
+  }
+  return !(await isTwoFactorEnabled(user.id));
+}
+
+// Two-factor state of a user for the account settings page
+export async function getTwoFactorStatus(userId: number): Promise<{
+  enabled: boolean;
+  pending: boolean;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}> {
+  try {
+    const user = await findUser(userId);
+    const enrollment = await getEnrollment(userId);
+
+    const [remaining] = await db.select({ count: count() })
+      .from(twoFactorRecoveryCodesTable)
+      .where(and(
+        eq(twoFactorRecoveryCodesTable.user_id, userId),
+        isNull(twoFactorRecoveryCodesTable.used_at)
+      ))
+      .execute();
+
+    return {
+      enabled: enrollment !== null && enrollment.enabled_at !== null,
+      pending: enrollment !== null && enrollment.enabled_at === null,
+      required: await isTwoFactorRequiredForRole(user.role),
+      recoveryCodesRemaining: remaining.count
+    };
+  } catch (error) {
+    console.error('Failed to fetch two-factor status:', error);
+    throw error;
+  }
+}
+
+// Encrypt authenticator secrets that are still under an older key, alongside
+// the patient data re-encryption after PATIENT_DATA_KEYS is rotated
+export async function reencryptTwoFactorSecrets(): Promise<number> {
+  try {
+    const rows = await db.select({ id: userTwoFactorTable.id, secret: userTwoFactorTable.secret })
+      .from(userTwoFactorTable)
+      .execute();
+
+    let updated = 0;
+    for (const row of rows) {
+      if (!needsReencryption(row.secret)) {
+        continue;
+      }
+
+      await db.update(userTwoFactorTable)
+        .set({ secret: encryptField(decryptField(row.secret)) })
+        .where(eq(userTwoFactorTable.id, row.id))
+        .execute();
+      updated++;
+    }
+
+    return updated;
+  } catch (error) {
+    console.error('Two-factor secret re-encryption failed:', error);
+    throw error;
+  }
+}
+
+// Start enrollment: generate a new secret for the user to add to their
+// authenticator app. Two-factor stays off until confirmed with a code.
+export async function beginTwoFactorEnrollment(userId: number): Promise<{ secret: string; provisioningUri: string }> {
+  try {
+    const user = await findUser(userId);
+
+    if (await isTwoFactorEnabled(userId)) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const secret = base32Encode(crypto.randomBytes(SECRET_BYTES));
+    // Stored encrypted like other sensitive fields; it is shown to the user only here
+    const storedSecret = encryptField(secret);
+
+    await db.insert(userTwoFactorTable)
+      .values({ user_id: userId, secret: storedSecret })
+      .onConflictDoUpdate({
+        target: userTwoFactorTable.user_id,
+        set: { secret: storedSecret, enabled_at: null, last_used_step: null, created_at: new Date() }
+      })
+      .execute();
+
+    return {
+      secret,
+      provisioningUri: buildProvisioningUri(secret, user.email)
+    };
+  } catch (error) {
+    console.error('Two-factor enrollment failed:', error);
+    throw error;
+  }
+}
+
+// Finish enrollment with a code from the authenticator app and hand out the
+// recovery codes. This is the only time the recovery codes are shown.
+export async function confirmTwoFactorEnrollment(input: TwoFactorCodeInput, userId: number, atMs: number = Date.now()): Promise<{ recoveryCodes: string[] }> {
+  try {
+    const enrollment = await getEnrollment(userId);
+    if (!enrollment) {
+      throw new Error('Two-factor enrollment has not been started');
+    }
+    if (enrollment.enabled_at) {
+      throw new Error('Two-factor authentication is already enabled');
+    }
+
+    const step = findTotpStep(enrollment.secret, input.code, atMs);
+    if (step === null) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await db.update(userTwoFactorTable)
+      .set({ enabled_at: new Date(), last_used_step: step })
+      .where(eq(userTwoFactorTable.id, enrollment.id))
+      .execute();
+
+    return { recoveryCodes: await issueRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Two-factor confirmation failed:', error);
+    throw error;
+  }
+}
+
+// Replace the recovery codes, e.g. after most of them have been used
+export async function regenerateRecoveryCodes(input: TwoFactorCodeInput, userId: number, atMs: number = Date.now()): Promise<{ recoveryCodes: string[] }> {
+  try {
+    if (!(await verifyTwoFactorCode(userId, input.code, atMs))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    return { recoveryCodes: await issueRecoveryCodes(userId) };
+  } catch (error) {
+    console.error('Recovery code regeneration failed:', error);
+    throw error;
+  }
+}
+
+async function removeTwoFactor(userId: number): Promise<void> {
+  await db.delete(twoFactorRecoveryCodesTable)
+    .where(eq(twoFactorRecoveryCodesTable.user_id, userId))
+    .execute();
+
+  await db.delete(userTwoFactorTable)
+    .where(eq(userTwoFactorTable.user_id, userId))
+    .execute();
+}
+
+// Turn two-factor off. Needs the password and a current code, and is refused
+// when the user's role requires two-factor.
+export async function disableTwoFactor(input: DisableTwoFactorInput, userId: number, atMs: number = Date.now()): Promise<{ success: boolean }> {
+  try {
+    const user = await findUser(userId);
+
+    if (await isTwoFactorRequiredForRole(user.role)) {
+      throw new Error('Two-factor authentication is required for your role');
+    }
+
+    if (!(await verifyPassword(input.password, user.password_hash))) {
+      throw new Error('Password is incorrect');
+    }
+
+    if (!(await verifyTwoFactorCode(userId, input.code, atMs))) {
+      throw new Error('Invalid two-factor code');
+    }
+
+    await removeTwoFactor(userId);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Disabling two-factor failed:', error);
+    throw error;
+  }
+}
+
+// Admin reset for a user who lost their authenticator and recovery codes.
+// They have to enroll again on their next login if their role requires it.
+export async function resetUserTwoFactor(input: UserIdInput): Promise<{ success: boolean }> {
+  try {
+    await findUser(input.id);
+    await removeTwoFactor(input.id);
+
+    return { success: true };
+  } catch (error) {
+    console.error('Two-factor reset failed:', error);
+    throw error;
+  }
+}
+
+// The two-factor policy for every role; roles without a row are not required
+export async function getTwoFactorPolicies(): Promise<TwoFactorPolicy[]> {
+  try {
+    const rows = await db.select()
+      .from(twoFactorPoliciesTable)
+      .execute();
+
+    return userRoleSchema.options.map(role => {
+      const row = rows.find(candidate => candidate.role === role);
+      return row ?? { role, required: false, updated_by: null, updated_at: new Date(0) };
+    });
+  } catch (error) {
+    console.error('Failed to fetch two-factor policies:', error);
+    throw error;
+  }
+}
+
+// Require (or stop requiring) two-factor for a role
+export async function setTwoFactorPolicy(input: SetTwoFactorPolicyInput, adminId: number): Promise<TwoFactorPolicy> {
+  try {
+    const values = {
+      role: input.role,
+      required: input.required,
+      updated_by: adminId,
+      updated_at: new Date()
+    };
+
+    const result = await db.insert(twoFactorPoliciesTable)
+      .values(values)
+      .onConflictDoUpdate({
+        target: twoFactorPoliciesTable.role,
+        set: { required: values.required, updated_by: values.updated_by, updated_at: values.updated_at }
+      })
+      .returning()
+      .execute();
+
+    return result[0];
+  } catch (error) {
+    console.error('Two-factor policy update failed:', error);
+    throw error;
+  }
+}
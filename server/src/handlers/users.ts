@@ -0,0 +1,184 @@
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import {
+  type ListUsersInput,
+  type UpdateUserRoleInput,
+  type SetUserActiveInput,
+  type ResetUserPasswordInput,
+  type PublicUser,
+  type Prescription,
+  type User
+} from '../schema';
+import { setUserPassword } from './passwords';
+import { getPrescriptionsByDoctorId } from './prescriptions';
+import { revokeUserSessions } from './sessions';
+import { and, asc, count, eq, ilike, ne, or, type SQL } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Strip credentials before handing a user row to the client
+export const toPublicUser = ({ password_hash, ...user }: User): PublicUser => user;
+
+// Refuse changes that would leave the clinic without an active admin
+async function assertOtherActiveAdminExists(userId: number): Promise<void> {
+  const [otherAdmins] = await db.select({ count: count() })
+    .from(usersTable)
+    .where(and(
+      eq(usersTable.role, 'admin'),
+      eq(usersTable.is_active, true),
+      ne(usersTable.id, userId)
+    ))
+    .execute();
+
+  if (otherAdmins.count === 0) {
+    throw new Error('Cannot remove the last active admin');
+  }
+}
+
+async function findUser(id: number): Promise<User> {
+  const users = await db.select()
+    .from(usersTable)
+    .where(eq(usersTable.id, id))
+    .execute();
+
+  if (users.length === 0) {
+    throw new Error(`User with ID ${id} not found`);
+  }
+
+  return users[0];
+}
+
+// List staff accounts, newest last, with optional filters
+export async function listUsers(input: ListUsersInput): Promise<{ users: PublicUser[]; total: number; page: number; page_size: number }> {
+  try {
+    const conditions: SQL<unknown>[] = [];
+
+    if (input.role !== undefined) {
+      conditions.push(eq(usersTable.role, input.role));
+    }
+
+    if (input.is_active !== undefined) {
+      conditions.push(eq(usersTable.is_active, input.is_active));
+    }
+
+    if (input.search) {
+      const searchPattern = `%${input.search}%`;
+      conditions.push(or(
+        ilike(usersTable.email, searchPattern),
+        ilike(usersTable.first_name, searchPattern),
+        ilike(usersTable.last_name, searchPattern)
+      )!);
+    }
+
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [total] = await db.select({ count: count() })
+      .from(usersTable)
+      .where(where)
+      .execute();
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(where)
+      .orderBy(asc(usersTable.id))
+      .limit(input.page_size)
+      .offset((input.page - 1) * input.page_size)
+      .execute();
+
+    return {
+      users: users.map(toPublicUser),
+      total: total.count,
+      page: input.page,
+      page_size: input.page_size
+    };
+  } catch (error) {
+    console.error('Failed to list users:', error);
+    throw error;
+  }
+}
+
+// Change a user's role
+export async function updateUserRole(input: UpdateUserRoleInput): Promise<PublicUser> {
+  try {
+    const user = await findUser(input.id);
+
+    if (user.role === 'admin' && input.role !== 'admin' && user.is_active) {
+      await assertOtherActiveAdminExists(user.id);
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        role: input.role,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.id))
+      .returning()
+      .execute();
+
+    return toPublicUser(result[0]);
+  } catch (error) {
+    console.error('User role update failed:', error);
+    throw error;
+  }
+}
+
+// Activate or deactivate a user. Deactivating a doctor reports the
+// prescriptions they still have open so someone can take them over.
+export async function setUserActive(input: SetUserActiveInput): Promise<{ user: PublicUser; openPrescriptions: Prescription[] }> {
+  try {
+    const user = await findUser(input.id);
+
+    if (!input.is_active && user.role === 'admin' && user.is_active) {
+      await assertOtherActiveAdminExists(user.id);
+    }
+
+    const result = await db.update(usersTable)
+      .set({
+        is_active: input.is_active,
+        updated_at: new Date()
+      })
+      .where(eq(usersTable.id, input.id))
+      .returning()
+      .execute();
+
+    // Cut off a deactivated user right away rather than at token expiry
+    if (!input.is_active) {
+      await revokeUserSessions(user.id);
+    }
+
+    let openPrescriptions: Prescription[] = [];
+    if (!input.is_active && user.role === 'doctor') {
+      const prescriptions = await getPrescriptionsByDoctorId(user.id);
+      openPrescriptions = prescriptions.filter(prescription => prescription.status !== 'filled');
+    }
+
+    return {
+      user: toPublicUser(result[0]),
+      openPrescriptions
+    };
+  } catch (error) {
+    console.error('User activation update failed:', error);
+    throw error;
+  }
+}
+
+// Replace a user's password with a generated temporary one and sign them out
+// everywhere. The plaintext is returned once so the admin can hand it over;
+// it is never stored.
+export async function resetUserPassword(input: ResetUserPasswordInput): Promise<{ user: PublicUser; temporaryPassword: string }> {
+  try {
+    await findUser(input.id);
+
+    const temporaryPassword = crypto.randomBytes(24).toString('base64url');
+    const user = await setUserPassword(input.id, temporaryPassword);
+
+    await revokeUserSessions(input.id);
+
+    return {
+      user: toPublicUser(user),
+      temporaryPassword
+    };
+  } catch (error) {
+    console.error('User password reset failed:', error);
+    throw error;
+  }
+}
@@ -0,0 +1,236 @@
+import { db } from '../db';
+import { vitalsTable } from '../db/schema';
+import {
+  VITAL_UNITS,
+  vitalMetricSchema,
+  type RecordVitalsInput,
+  type VitalMetric,
+  type VitalPoint,
+  type Vitals,
+  type VitalsHistory,
+  type VitalsHistoryInput
+} from '../schema';
+import { assertEncounterForPatient } from './encounters';
+import { decryptField, encryptField } from './fieldEncryption';
+import { resolvePatientId } from './patients';
+import { and, asc, desc, eq, gte, isNotNull, lte, type SQL } from 'drizzle-orm';
+
+// Readings outside `min`–`max` are rejected as implausible (usually a typo or
+// the wrong unit). Readings below `low` or at/above `high` are flagged as
+// abnormal, using adult reference ranges.
+const VITAL_RANGES: Record<Exclude<VitalMetric, 'bmi'>, { min: number; max: number; low?: number; high?: number }> = {
+  systolic_bp: { min: 50, max: 300, low: 90, high: 140 },
+  diastolic_bp: { min: 20, max: 200, low: 60, high: 90 },
+  pulse: { min: 20, max: 250, low: 60, high: 101 },
+  temperature_c: { min: 25, max: 45, low: 35, high: 38 },
+  spo2: { min: 50, max: 100, low: 94 },
+  weight_kg: { min: 0.3, max: 500 },
+  height_cm: { min: 20, max: 260 }
+};
+
+const BMI_RANGE = { low: 18.5, high: 30 };
+
+const NUMERIC_METRICS = ['temperature_c', 'weight_kg', 'height_cm', 'bmi'] as const;
+
+type VitalsRow = typeof vitalsTable.$inferSelect;
+
+const toNumber = (value: string | null): number | null => value === null ? null : parseFloat(value);
+
+const toVitals = (row: VitalsRow): Vitals => ({
+  ...row,
+  temperature_c: toNumber(row.temperature_c),
+  weight_kg: toNumber(row.weight_kg),
+  height_cm: toNumber(row.height_cm),
+  bmi: toNumber(row.bmi),
+  notes: decryptField(row.notes)
+});
+
+const round = (value: number, decimals: number): number =>
+  Math.round(value * 10 ** decimals) / 10 ** decimals;
+
+function abnormalLevel(metric: VitalMetric, value: number): 'low' | 'high' | null {
+  const range = metric === 'bmi' ? BMI_RANGE : VITAL_RANGES[metric];
+  if (range.low !== undefined && value < range.low) {
+    return 'low';
+  }
+  if (range.high !== undefined && value >= range.high) {
+    return 'high';
+  }
+  return null;
+}
+
+// Latest recorded value of a metric for the patient, optionally no older than `since`
+async function getLatestReading(patientId: number, column: typeof vitalsTable.weight_kg | typeof vitalsTable.height_cm, since?: Date): Promise<{ value: number; recorded_at: Date } | null> {
+  const conditions: SQL<unknown>[] = [eq(vitalsTable.patient_id, patientId), isNotNull(column)];
+  if (since) {
+    conditions.push(gte(vitalsTable.recorded_at, since));
+  }
+
+  const rows = await db.select({ value: column, recorded_at: vitalsTable.recorded_at })
+    .from(vitalsTable)
+    .where(and(...conditions))
+    .orderBy(desc(vitalsTable.recorded_at), desc(vitalsTable.id))
+    .limit(1)
+    .execute();
+
+  return rows.length > 0 && rows[0].value !== null
+    ? { value: parseFloat(rows[0].value), recorded_at: rows[0].recorded_at }
+    : null;
+}
+
+// The patient's most recent weight in kg, for weight-based dosing
+export async function getLatestWeight(patientId: number, since?: Date): Promise<{ value: number; recorded_at: Date } | null> {
+  return getLatestReading(patientId, vitalsTable.weight_kg, since);
+}
+
+// Record a set of vital signs. BMI is computed from the weight and this
+// reading's height, or the latest height on file.
+export async function recordVitals(input: RecordVitalsInput, userId: number): Promise<Vitals> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id);
+    if (patientId === null) {
+      throw new Error(`Patient with ID ${input.patient_id} not found`);
+    }
+
+    if (input.encounter_id) {
+      await assertEncounterForPatient(input.encounter_id, patientId);
+    }
+
+    if (input.recorded_at && input.recorded_at.getTime() > Date.now() + 60 * 1000) {
+      throw new Error('Vitals cannot be recorded in the future');
+    }
+
+    const temperature = input.temperature ?? null;
+    const weight = input.weight ?? null;
+    const height = input.height ?? null;
+
+    const readings: Record<Exclude<VitalMetric, 'bmi'>, number | null> = {
+      systolic_bp: input.systolic_bp ?? null,
+      diastolic_bp: input.diastolic_bp ?? null,
+      pulse: input.pulse ?? null,
+      temperature_c: temperature === null ? null : round(input.temperature_unit === 'F' ? (temperature - 32) * 5 / 9 : temperature, 1),
+      spo2: input.spo2 ?? null,
+      weight_kg: weight === null ? null : round(input.weight_unit === 'lb' ? weight * 0.45359237 : weight, 2),
+      height_cm: height === null ? null : round(input.height_unit === 'in' ? height * 2.54 : height, 1)
+    };
+
+    const metrics = Object.keys(VITAL_RANGES) as Exclude<VitalMetric, 'bmi'>[];
+    if (metrics.every(metric => readings[metric] === null)) {
+      throw new Error('At least one vital sign is required');
+    }
+
+    for (const metric of metrics) {
+      const value = readings[metric];
+      const { min, max } = VITAL_RANGES[metric];
+      if (value !== null && (value < min || value > max)) {
+        throw new Error(`${metric} of ${value} ${VITAL_UNITS[metric]} is outside the plausible range ${min}-${max}`);
+      }
+    }
+
+    if (readings.systolic_bp !== null && readings.diastolic_bp !== null && readings.diastolic_bp >= readings.systolic_bp) {
+      throw new Error('Diastolic blood pressure must be lower than systolic');
+    }
+
+    const heightForBmi = readings.height_cm ?? (readings.weight_kg !== null ? (await getLatestReading(patientId, vitalsTable.height_cm))?.value ?? null : null);
+    const bmi = readings.weight_kg !== null && heightForBmi !== null
+      ? round(readings.weight_kg / (heightForBmi / 100) ** 2, 1)
+      : null;
+
+    const abnormalFlags: string[] = [];
+    for (const metric of [...metrics, 'bmi' as const]) {
+      const value = metric === 'bmi' ? bmi : readings[metric];
+      const level = value === null ? null : abnormalLevel(metric, value);
+      if (level) {
+        abnormalFlags.push(`${metric}_${level}`);
+      }
+    }
+
+    const result = await db.insert(vitalsTable)
+      .values({
+        patient_id: patientId,
+        encounter_id: input.encounter_id ?? null,
+        systolic_bp: readings.systolic_bp,
+        diastolic_bp: readings.diastolic_bp,
+        pulse: readings.pulse,
+        temperature_c: readings.temperature_c?.toString() ?? null,
+        spo2: readings.spo2,
+        weight_kg: readings.weight_kg?.toString() ?? null,
+        height_cm: readings.height_cm?.toString() ?? null,
+        bmi: bmi?.toString() ?? null,
+        abnormal_flags: abnormalFlags,
+        notes: encryptField(input.notes || null),
+        recorded_by: userId,
+        recorded_at: input.recorded_at ?? new Date()
+      })
+      .returning()
+      .execute();
+
+    return toVitals(result[0]);
+  } catch (error) {
+    console.error('Vitals recording failed:', error);
+    throw error;
+  }
+}
+
+// Get a set of vitals by ID
+export async function getVitalsById(id: number): Promise<Vitals | null> {
+  try {
+    const rows = await db.select()
+      .from(vitalsTable)
+      .where(eq(vitalsTable.id, id))
+      .execute();
+
+    return rows.length > 0 ? toVitals(rows[0]) : null;
+  } catch (error) {
+    console.error('Failed to fetch vitals by ID:', error);
+    throw error;
+  }
+}
+
+// Time series of the patient's vitals for trend charts, one series per metric
+export async function getVitalsHistory(input: VitalsHistoryInput): Promise<VitalsHistory> {
+  try {
+    const patientId = await resolvePatientId(input.patient_id) ?? input.patient_id;
+
+    const conditions: SQL<unknown>[] = [eq(vitalsTable.patient_id, patientId)];
+    if (input.from) {
+      conditions.push(gte(vitalsTable.recorded_at, input.from));
+    }
+    if (input.to) {
+      conditions.push(lte(vitalsTable.recorded_at, input.to));
+    }
+
+    const rows = await db.select()
+      .from(vitalsTable)
+      .where(and(...conditions))
+      .orderBy(asc(vitalsTable.recorded_at), asc(vitalsTable.id))
+      .execute();
+
+    const metrics = input.metrics ?? vitalMetricSchema.options;
+    const units: VitalsHistory['units'] = {};
+    const series: VitalsHistory['series'] = {};
+
+    for (const metric of metrics) {
+      units[metric] = VITAL_UNITS[metric];
+      series[metric] = rows.flatMap((row): VitalPoint[] => {
+        const raw = row[metric];
+        if (raw === null) {
+          return [];
+        }
+
+        const value = (NUMERIC_METRICS as readonly string[]).includes(metric) ? parseFloat(raw as string) : raw as number;
+        return [{
+          vitals_id: row.id,
+          recorded_at: row.recorded_at,
+          value,
+          abnormal: row.abnormal_flags.includes(`${metric}_low`) ? 'low' : row.abnormal_flags.includes(`${metric}_high`) ? 'high' : null
+        }];
+      });
+    }
+
+    return { patient_id: patientId, units, series };
+  } catch (error) {
+    console.error('Failed to fetch vitals history:', error);
+    throw error;
+  }
+}
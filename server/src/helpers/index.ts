@@ -10,6 +10,8 @@ export const resetDB = async () => {
 };
 
 export const createDB = async () => {
+  // Dropping the public schema also drops extensions installed in it
+  await db.execute(sql`create extension if not exists pg_trgm`);
   const migrationStatements = await generateMigration(
     generateDrizzleJson({}),
     generateDrizzleJson({ ...schema })
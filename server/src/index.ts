@@ -1,34 +1,170 @@
-import { initTRPC } from '@trpc/server';
+import { TRPCError } from '@trpc/server';
 import { createHTTPServer } from '@trpc/server/adapters/standalone';
 import 'dotenv/config';
 import cors from 'cors';
-import superjson from 'superjson';
 import { z } from 'zod';
+import {
+  createContext,
+  router,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  adminProcedure,
+  permissionProcedure,
+  scopedProcedure,
+  fieldPermission,
+  restrictedPatientAccess,
+  audited
+} from './trpc';
 
 // Import schemas
 import {
-  createUserInputSchema,
+  bootstrapAdminInputSchema,
   loginInputSchema,
+  listUsersInputSchema,
+  updateUserRoleInputSchema,
+  setUserActiveInputSchema,
+  resetUserPasswordInputSchema,
+  userIdInputSchema,
+  getLockoutsInputSchema,
+  unlockLockoutInputSchema,
+  failedLoginSummaryInputSchema,
+  queryAuditLogInputSchema,
+  setPermissionRolesInputSchema,
+  permissionInputSchema,
+  createApiKeyInputSchema,
+  revokeApiKeyInputSchema,
+  refreshTokenInputSchema,
+  changePasswordInputSchema,
+  requestPasswordResetInputSchema,
+  resetPasswordInputSchema,
+  createInvitationInputSchema,
+  listInvitationsInputSchema,
+  revokeInvitationInputSchema,
+  invitationTokenInputSchema,
+  acceptInvitationInputSchema,
+  twoFactorCodeInputSchema,
+  disableTwoFactorInputSchema,
+  verifyTwoFactorLoginInputSchema,
+  setTwoFactorPolicyInputSchema,
   createPatientInputSchema,
   updatePatientInputSchema,
+  setPatientRestrictedInputSchema,
+  findDuplicatePatientsInputSchema,
+  mergePatientsInputSchema,
+  createPatientAllergyInputSchema,
+  updatePatientAllergyInputSchema,
+  listPatientAllergiesInputSchema,
+  patientAllergyIdInputSchema,
+  migrateAllergyTextInputSchema,
+  breakGlassInputSchema,
+  listBreakGlassReviewsInputSchema,
+  reviewBreakGlassInputSchema,
   createMedicineInputSchema,
   updateMedicineInputSchema,
   createPrescriptionInputSchema,
+  checkPrescriptionSafetyInputSchema,
+  checkInteractionsInputSchema,
+  importDrugInteractionsInputSchema,
+  importIcd10CodesInputSchema,
+  searchIcd10CodesInputSchema,
+  createPatientConditionInputSchema,
+  updatePatientConditionInputSchema,
+  listPatientConditionsInputSchema,
+  patientConditionIdInputSchema,
+  createInsurerInputSchema,
+  updateInsurerInputSchema,
+  createInsurancePolicyInputSchema,
+  updateInsurancePolicyInputSchema,
+  listInsurancePoliciesInputSchema,
+  insurancePolicyIdInputSchema,
+  checkInsuranceEligibilityInputSchema,
+  uploadPatientDocumentInputSchema,
+  listPatientDocumentsInputSchema,
+  patientDocumentIdInputSchema,
+  patientTimelineInputSchema,
+  searchPatientsInputSchema,
+  openEncounterInputSchema,
+  recordVitalsInputSchema,
+  vitalsHistoryInputSchema,
+  updateEncounterInputSchema,
+  closeEncounterInputSchema,
+  listEncountersInputSchema,
   updatePrescriptionStatusInputSchema,
   createPaymentInputSchema,
   salesReportInputSchema,
-  medicineUsageReportInputSchema
+  medicineUsageReportInputSchema,
+  diagnosisReportInputSchema
 } from './schema';
 
 // Import handlers
-import { registerUser, loginUser, getCurrentUser } from './handlers/auth';
+import { isBootstrapRequired, bootstrapAdmin, loginUser, verifyTwoFactorLogin, refreshAccessToken } from './handlers/auth';
+import { 
+  createInvitation, 
+  listInvitations, 
+  revokeInvitation, 
+  getInvitationByToken, 
+  acceptInvitation 
+} from './handlers/invitations';
+import { 
+  getTwoFactorStatus, 
+  beginTwoFactorEnrollment, 
+  confirmTwoFactorEnrollment, 
+  regenerateRecoveryCodes, 
+  disableTwoFactor, 
+  resetUserTwoFactor, 
+  getTwoFactorPolicies, 
+  setTwoFactorPolicy 
+} from './handlers/twoFactor';
+import { 
+  changePassword, 
+  requestPasswordReset, 
+  resetPassword 
+} from './handlers/passwords';
+import { 
+  getLockouts, 
+  unlockLockout, 
+  getFailedLoginSummary 
+} from './handlers/lockouts';
+import { queryAuditLog } from './handlers/audit';
+import { createApiKey, listApiKeys, revokeApiKey } from './handlers/apiKeys';
+import { 
+  revokeSession, 
+  revokeUserSessions, 
+  getActiveSessionsByUserId 
+} from './handlers/sessions';
+import { 
+  listUsers, 
+  updateUserRole, 
+  setUserActive, 
+  resetUserPassword, 
+  toPublicUser 
+} from './handlers/users';
 import { 
   createPatient, 
   getPatients, 
   getPatientById, 
   updatePatient, 
-  searchPatients 
+  searchPatients,
+  setPatientRestricted,
+  findDuplicatePatients,
+  mergePatients,
+  getPatientMergeSnapshot,
+  patientViewForUser,
+  reencryptPatientData,
+  CLINICAL_PATIENT_FIELDS
 } from './handlers/patients';
+import { breakGlass, filterAccessibleRows, listBreakGlassReviews, reviewBreakGlass } from './handlers/breakGlass';
+import {
+  createPatientAllergy,
+  listPatientAllergies,
+  getPatientAllergyById,
+  getAllergyPatientId,
+  updatePatientAllergy,
+  confirmPatientAllergy,
+  deletePatientAllergy,
+  migrateAllergyText
+} from './handlers/allergies';
 import { 
   createMedicine, 
   getMedicines, 
@@ -42,16 +178,62 @@ import {
   createPrescription, 
   getPrescriptions, 
   getPrescriptionById, 
+  getPrescriptionPatientId, 
+  getPrescriptionItemPatientId, 
   getPrescriptionsByPatientId, 
   getPrescriptionsByDoctorId, 
   updatePrescriptionStatus, 
   fillPrescriptionItem, 
-  getPendingPrescriptions 
+  getPendingPrescriptions, 
+  prescriptionViewForUser 
 } from './handlers/prescriptions';
+import { checkPrescriptionSafety } from './handlers/prescriptionSafety';
+import { checkInteractions, getDrugInteractions, importDrugInteractions } from './handlers/drugInteractions';
+import { recordVitals, getVitalsHistory } from './handlers/vitals';
+import { importIcd10Codes, searchIcd10Codes } from './handlers/icd10';
+import {
+  createPatientCondition,
+  listPatientConditions,
+  getPatientConditionById,
+  getConditionPatientId,
+  updatePatientCondition,
+  deletePatientCondition
+} from './handlers/conditions';
+import {
+  createInsurer,
+  getInsurers,
+  getInsurerById,
+  updateInsurer,
+  createInsurancePolicy,
+  listInsurancePolicies,
+  getInsurancePolicyById,
+  getPolicyPatientId,
+  updateInsurancePolicy,
+  cancelInsurancePolicy,
+  checkInsuranceEligibility
+} from './handlers/insurance';
+import {
+  listPatientDocuments,
+  uploadPatientDocument,
+  downloadPatientDocument,
+  deletePatientDocument,
+  getDocumentPatientId
+} from './handlers/documents';
+import { getPatientTimeline, timelineTypesForUser } from './handlers/timeline';
+import {
+  openEncounter,
+  getEncounterById,
+  getEncounterPatientId,
+  listEncounters,
+  updateEncounter,
+  closeEncounter,
+  encounterViewForUser
+} from './handlers/encounters';
 import { 
   createPayment, 
   getPayments, 
   getPaymentById, 
+  getPaymentPatientId, 
   getPaymentsByPatientId, 
   getPaymentsByDateRange, 
   getPaymentsByPrescriptionId, 
@@ -61,22 +243,25 @@ import {
   generateSalesReport, 
   generateMedicineUsageReport, 
   getLowStockAlerts, 
-  generateMonthlySummary 
+  generateMonthlySummary,
+  generateDiagnosisReport
 } from './handlers/reports';
 import { 
   getAdminDashboard, 
   getDoctorDashboard, 
-  getCashierDashboard 
+  getPharmacistDashboard, 
+  getCashierDashboard, 
+  getReceptionDashboard 
 } from './handlers/dashboard';
+import { 
+  getPermissionMatrix, 
+  getPermissionsForRole, 
+  roleHasPermission, 
+  setPermissionRoles, 
+  resetPermissionRoles 
+} from './handlers/permissions';
 
-const t = initTRPC.create({
-  transformer: superjson,
-});
-
-const publicProcedure = t.procedure;
-const router = t.router;
-
-const appRouter = router({
+export const appRouter = router({
   // Health check
   healthcheck: publicProcedure.query(() => {
     return { status: 'ok', timestamp: new Date().toISOString() };
@@ -84,164 +269,669 @@ const appRouter = router({
 
   // Authentication routes
   auth: router({
-    register: publicProcedure
-      .input(createUserInputSchema)
-      .mutation(({ input }) => registerUser(input)),
+    // First-run setup; refused once any user exists
+    needsBootstrap: publicProcedure
+      .query(() => isBootstrapRequired()),
+    
+    bootstrapAdmin: publicProcedure
+      .input(bootstrapAdminInputSchema)
+      .mutation(({ input }) => bootstrapAdmin(input)),
+    
+    getInvitation: publicProcedure
+      .input(invitationTokenInputSchema)
+      .query(({ input }) => getInvitationByToken(input)),
+    
+    acceptInvitation: publicProcedure
+      .input(acceptInvitationInputSchema)
+      .mutation(({ input }) => acceptInvitation(input)),
     
     login: publicProcedure
       .input(loginInputSchema)
-      .mutation(({ input }) => loginUser(input)),
+      .mutation(({ input, ctx }) => loginUser(input, ctx.ip)),
+    
+    verifyTwoFactor: publicProcedure
+      .input(verifyTwoFactorLoginInputSchema)
+      .mutation(({ input, ctx }) => verifyTwoFactorLogin(input, ctx.ip)),
+    
+    getCurrentUser: authenticatedProcedure
+      .query(({ ctx }) => toPublicUser(ctx.user)),
+    
+    refresh: publicProcedure
+      .input(refreshTokenInputSchema)
+      .mutation(({ input }) => refreshAccessToken(input)),
+    
+    logout: authenticatedProcedure
+      .mutation(({ ctx }) => revokeSession(ctx.sessionId)),
+    
+    logoutAllSessions: protectedProcedure
+      .mutation(({ ctx }) => revokeUserSessions(ctx.user.id)),
+    
+    changePassword: protectedProcedure
+      .input(changePasswordInputSchema)
+      .mutation(({ input, ctx }) => changePassword(input, ctx.user.id, ctx.sessionId)),
+    
+    requestPasswordReset: publicProcedure
+      .input(requestPasswordResetInputSchema)
+      .mutation(({ input }) => requestPasswordReset(input)),
+    
+    resetPassword: publicProcedure
+      .input(resetPasswordInputSchema)
+      .mutation(({ input }) => resetPassword(input)),
+  }),
+
+  // Staff account management routes
+  users: router({
+    list: adminProcedure
+      .input(listUsersInputSchema)
+      .query(({ input }) => listUsers(input)),
     
-    getCurrentUser: publicProcedure
-      .input(z.object({ token: z.string() }))
-      .query(({ input }) => getCurrentUser(input.token)),
+    updateRole: adminProcedure
+      .input(updateUserRoleInputSchema)
+      .mutation(({ input }) => updateUserRole(input)),
+    
+    setActive: adminProcedure
+      .input(setUserActiveInputSchema)
+      .mutation(({ input }) => setUserActive(input)),
+    
+    resetPassword: adminProcedure
+      .input(resetUserPasswordInputSchema)
+      .mutation(({ input }) => resetUserPassword(input)),
+    
+    getSessions: adminProcedure
+      .input(userIdInputSchema)
+      .query(({ input }) => getActiveSessionsByUserId(input.id)),
+    
+    revokeSessions: adminProcedure
+      .input(userIdInputSchema)
+      .mutation(({ input }) => revokeUserSessions(input.id)),
+  }),
+
+  // Two-factor authentication routes. Enrollment stays reachable for users
+  // whose role requires two-factor but who have not set it up yet.
+  twoFactor: router({
+    status: authenticatedProcedure
+      .query(({ ctx }) => getTwoFactorStatus(ctx.user.id)),
+    
+    beginEnrollment: authenticatedProcedure
+      .mutation(({ ctx }) => beginTwoFactorEnrollment(ctx.user.id)),
+    
+    confirmEnrollment: authenticatedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => confirmTwoFactorEnrollment(input, ctx.user.id)),
+    
+    regenerateRecoveryCodes: protectedProcedure
+      .input(twoFactorCodeInputSchema)
+      .mutation(({ input, ctx }) => regenerateRecoveryCodes(input, ctx.user.id)),
+    
+    disable: protectedProcedure
+      .input(disableTwoFactorInputSchema)
+      .mutation(({ input, ctx }) => disableTwoFactor(input, ctx.user.id)),
+    
+    getPolicies: adminProcedure
+      .query(() => getTwoFactorPolicies()),
+    
+    setPolicy: adminProcedure
+      .input(setTwoFactorPolicyInputSchema)
+      .mutation(({ input, ctx }) => setTwoFactorPolicy(input, ctx.user.id)),
+    
+    resetForUser: adminProcedure
+      .input(userIdInputSchema)
+      .mutation(({ input }) => resetUserTwoFactor(input)),
+  }),
+
+  // Staff invitation routes
+  invitations: router({
+    create: adminProcedure
+      .input(createInvitationInputSchema)
+      .mutation(({ input, ctx }) => createInvitation(input, ctx.user.id)),
+    
+    list: adminProcedure
+      .input(listInvitationsInputSchema)
+      .query(({ input }) => listInvitations(input)),
+    
+    revoke: adminProcedure
+      .input(revokeInvitationInputSchema)
+      .mutation(({ input }) => revokeInvitation(input)),
+  }),
+
+  // Login security routes
+  security: router({
+    getLockouts: adminProcedure
+      .input(getLockoutsInputSchema)
+      .query(({ input }) => getLockouts(input)),
+    
+    unlock: adminProcedure
+      .input(unlockLockoutInputSchema)
+      .mutation(({ input, ctx }) => unlockLockout(input, ctx.user.id)),
+    
+    failedLoginSummary: adminProcedure
+      .input(failedLoginSummaryInputSchema)
+      .query(({ input }) => getFailedLoginSummary(input)),
+  }),
+
+  // Permission matrix: which roles may do what
+  permissions: router({
+    mine: protectedProcedure
+      .query(({ ctx }) => getPermissionsForRole(ctx.user.role)),
+    
+    matrix: adminProcedure
+      .query(() => getPermissionMatrix()),
+    
+    setRoles: adminProcedure
+      .input(setPermissionRolesInputSchema)
+      .mutation(({ input, ctx }) => setPermissionRoles(input, ctx.user.id)),
+    
+    reset: adminProcedure
+      .input(permissionInputSchema)
+      .mutation(({ input }) => resetPermissionRoles(input)),
+  }),
+
+  // Integration API key management
+  apiKeys: router({
+    create: adminProcedure
+      .input(createApiKeyInputSchema)
+      .mutation(({ input, ctx }) => createApiKey(input, ctx.user.id)),
+    
+    list: adminProcedure
+      .query(() => listApiKeys()),
+    
+    revoke: adminProcedure
+      .input(revokeApiKeyInputSchema)
+      .mutation(({ input }) => revokeApiKey(input)),
+  }),
+
+  // Audit trail of patient, prescription, payment and medicine access
+  audit: router({
+    query: adminProcedure
+      .input(queryAuditLogInputSchema)
+      .query(({ input }) => queryAuditLog(input)),
   }),
 
   // Patient management routes
   patients: router({
-    create: publicProcedure
+    create: permissionProcedure('patients.write')
       .input(createPatientInputSchema)
-      .mutation(({ input }) => createPatient(input)),
+      .use(fieldPermission('patients.clinical', CLINICAL_PATIENT_FIELDS))
+      .use(audited({ action: 'create', entityType: 'patient', idFrom: 'result' }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await patientViewForUser(ctx.user);
+        return view(await createPatient(input));
+      }),
     
-    getAll: publicProcedure
-      .query(() => getPatients()),
+    getAll: permissionProcedure('patients.read')
+      .query(async ({ ctx }) => {
+        const view = await patientViewForUser(ctx.user);
+        return (await getPatients()).map(view);
+      }),
     
-    getById: publicProcedure
+    getById: permissionProcedure('patients.read')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getPatientById(input.id)),
+      .use(restrictedPatientAccess('id'))
+      .use(audited({ action: 'read', entityType: 'patient', idFrom: { input: 'id' } }))
+      .query(async ({ input, ctx }) => {
+        const view = await patientViewForUser(ctx.user);
+        const patient = await getPatientById(input.id);
+        return patient ? view(patient) : null;
+      }),
+
+    // Prescription, fill and payment events are only included for roles
+    // that may read prescriptions or payments
+    timeline: permissionProcedure('patients.read')
+      .input(patientTimelineInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'read', entityType: 'patient', idFrom: { input: 'patient_id' } }))
+      .query(async ({ input, ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        const timeline = await getPatientTimeline(input, await timelineTypesForUser(ctx.user));
+        return {
+          ...timeline,
+          events: timeline.events.map(event => event.type === 'prescription' ? { ...event, prescription: view(event.prescription) } : event)
+        };
+      }),
     
-    update: publicProcedure
+    update: permissionProcedure('patients.write')
       .input(updatePatientInputSchema)
-      .mutation(({ input }) => updatePatient(input)),
+      .use(restrictedPatientAccess('id'))
+      .use(fieldPermission('patients.clinical', CLINICAL_PATIENT_FIELDS))
+      .use(audited({ action: 'update', entityType: 'patient', idFrom: { input: 'id' }, snapshot: getPatientById, redact: CLINICAL_PATIENT_FIELDS }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await patientViewForUser(ctx.user);
+        return view(await updatePatient(input));
+      }),
     
-    search: publicProcedure
-      .input(z.object({ query: z.string() }))
-      .query(({ input }) => searchPatients(input.query)),
+    search: permissionProcedure('patients.read')
+      .input(searchPatientsInputSchema)
+      .query(async ({ input, ctx }) => {
+        const view = await patientViewForUser(ctx.user);
+        const found = await searchPatients(input);
+        return { ...found, results: found.results.map(result => ({ ...result, patient: view(result.patient) })) };
+      }),
+
+    findDuplicates: permissionProcedure('patients.read')
+      .input(findDuplicatePatientsInputSchema)
+      .query(async ({ input, ctx }) => filterAccessibleRows(ctx.user, await findDuplicatePatients(input), candidate => candidate.patient.id)),
+
+    merge: adminProcedure
+      .input(mergePatientsInputSchema)
+      .use(audited({ action: 'update', entityType: 'patient', idFrom: { input: 'survivor_id' }, snapshot: getPatientMergeSnapshot, redact: CLINICAL_PATIENT_FIELDS }))
+      .mutation(({ input, ctx }) => mergePatients(input, ctx.user.id)),
+
+    reencrypt: adminProcedure
+      .mutation(() => reencryptPatientData()),
+
+    listAllergies: permissionProcedure('patients.clinical')
+      .input(listPatientAllergiesInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => listPatientAllergies(input)),
+
+    addAllergy: permissionProcedure('patients.clinical')
+      .input(createPatientAllergyInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'patient_allergy', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => createPatientAllergy(input, ctx.user.id)),
+
+    updateAllergy: permissionProcedure('patients.clinical')
+      .input(updatePatientAllergyInputSchema)
+      .use(restrictedPatientAccess('id', getAllergyPatientId))
+      .use(audited({ action: 'update', entityType: 'patient_allergy', idFrom: { input: 'id' }, snapshot: getPatientAllergyById, redact: ['substance', 'reaction', 'source_text'] }))
+      .mutation(({ input, ctx }) => updatePatientAllergy(input, ctx.user.id)),
+
+    confirmAllergy: permissionProcedure('patients.clinical')
+      .input(patientAllergyIdInputSchema)
+      .use(restrictedPatientAccess('id', getAllergyPatientId))
+      .use(audited({ action: 'update', entityType: 'patient_allergy', idFrom: { input: 'id' }, snapshot: getPatientAllergyById, redact: ['substance', 'reaction', 'source_text'] }))
+      .mutation(({ input, ctx }) => confirmPatientAllergy(input, ctx.user.id)),
+
+    deleteAllergy: permissionProcedure('patients.clinical')
+      .input(patientAllergyIdInputSchema)
+      .use(restrictedPatientAccess('id', getAllergyPatientId))
+      .use(audited({ action: 'delete', entityType: 'patient_allergy', idFrom: { input: 'id' } }))
+      .mutation(({ input }) => deletePatientAllergy(input)),
+
+    migrateAllergyText: adminProcedure
+      .input(migrateAllergyTextInputSchema)
+      .mutation(({ input, ctx }) => migrateAllergyText(input, ctx.user.id)),
+
+    recordVitals: permissionProcedure('patients.clinical')
+      .input(recordVitalsInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'vitals', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => recordVitals(input, ctx.user.id)),
+
+    vitalsHistory: permissionProcedure('patients.clinical')
+      .input(vitalsHistoryInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => getVitalsHistory(input)),
+
+    listConditions: permissionProcedure('patients.clinical')
+      .input(listPatientConditionsInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => listPatientConditions(input)),
+
+    addCondition: permissionProcedure('patients.clinical')
+      .input(createPatientConditionInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'patient_condition', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => createPatientCondition(input, ctx.user.id)),
+
+    updateCondition: permissionProcedure('patients.clinical')
+      .input(updatePatientConditionInputSchema)
+      .use(restrictedPatientAccess('id', getConditionPatientId))
+      .use(audited({ action: 'update', entityType: 'patient_condition', idFrom: { input: 'id' }, snapshot: getPatientConditionById, redact: ['notes'] }))
+      .mutation(({ input }) => updatePatientCondition(input)),
+
+    deleteCondition: permissionProcedure('patients.clinical')
+      .input(patientConditionIdInputSchema)
+      .use(restrictedPatientAccess('id', getConditionPatientId))
+      .use(audited({ action: 'delete', entityType: 'patient_condition', idFrom: { input: 'id' } }))
+      .mutation(({ input }) => deletePatientCondition(input)),
+
+    setRestricted: permissionProcedure('patients.restricted')
+      .input(setPatientRestrictedInputSchema)
+      .use(audited({ action: 'update', entityType: 'patient', idFrom: { input: 'id' }, snapshot: getPatientById, redact: CLINICAL_PATIENT_FIELDS }))
+      .mutation(({ input }) => setPatientRestricted(input)),
+
+    breakGlass: permissionProcedure('patients.read')
+      .input(breakGlassInputSchema)
+      .use(audited({ action: 'create', entityType: 'break_glass_access', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => breakGlass(input, ctx.user)),
+
+    breakGlassReviews: adminProcedure
+      .input(listBreakGlassReviewsInputSchema)
+      .query(({ input }) => listBreakGlassReviews(input)),
+
+    reviewBreakGlass: adminProcedure
+      .input(reviewBreakGlassInputSchema)
+      .mutation(({ input, ctx }) => reviewBreakGlass(input, ctx.user.id)),
   }),
 
   // Medicine management routes
   medicines: router({
-    create: publicProcedure
+    create: permissionProcedure('medicines.write')
       .input(createMedicineInputSchema)
+      .use(audited({ action: 'create', entityType: 'medicine', idFrom: 'result' }))
       .mutation(({ input }) => createMedicine(input)),
     
-    getAll: publicProcedure
+    getAll: scopedProcedure('medicines:read', 'medicines.read')
       .query(() => getMedicines()),
     
-    getById: publicProcedure
+    getById: scopedProcedure('medicines:read', 'medicines.read')
       .input(z.object({ id: z.number() }))
       .query(({ input }) => getMedicineById(input.id)),
     
-    update: publicProcedure
+    update: permissionProcedure('medicines.write')
       .input(updateMedicineInputSchema)
+      .use(audited({ action: 'update', entityType: 'medicine', idFrom: { input: 'id' }, snapshot: getMedicineById }))
       .mutation(({ input }) => updateMedicine(input)),
     
-    getLowStock: publicProcedure
+    getLowStock: scopedProcedure('medicines:read', 'medicines.read')
       .input(z.object({ threshold: z.number().optional() }))
       .query(({ input }) => getLowStockMedicines(input.threshold)),
     
-    search: publicProcedure
+    search: scopedProcedure('medicines:read', 'medicines.read')
       .input(z.object({ query: z.string() }))
       .query(({ input }) => searchMedicines(input.query)),
     
-    updateStock: publicProcedure
+    updateStock: permissionProcedure('medicines.write')
       .input(z.object({ id: z.number(), quantity: z.number() }))
+      .use(audited({ action: 'update', entityType: 'medicine', idFrom: { input: 'id' }, snapshot: getMedicineById }))
       .mutation(({ input }) => updateMedicineStock(input.id, input.quantity)),
   }),
 
   // Prescription management routes
   prescriptions: router({
-    create: publicProcedure
+    create: permissionProcedure('prescriptions.create')
       .input(createPrescriptionInputSchema)
-      .mutation(({ input }) => createPrescription(input)),
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'prescription', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => createPrescription({ ...input, doctor_id: ctx.user.id })),
+
+    checkSafety: permissionProcedure('prescriptions.create')
+      .input(checkPrescriptionSafetyInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => checkPrescriptionSafety(input)),
+
+    checkInteractions: permissionProcedure('prescriptions.create')
+      .input(checkInteractionsInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => checkInteractions(input)),
     
-    getAll: publicProcedure
-      .query(() => getPrescriptions()),
+    getAll: permissionProcedure('prescriptions.read')
+      .query(async ({ ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        return (await filterAccessibleRows(ctx.user, await getPrescriptions(), prescription => prescription.patient_id)).map(view);
+      }),
     
-    getById: publicProcedure
+    getById: permissionProcedure('prescriptions.read')
       .input(z.object({ id: z.number() }))
-      .query(({ input }) => getPrescriptionById(input.id)),
+      .use(restrictedPatientAccess('id', getPrescriptionPatientId))
+      .use(audited({ action: 'read', entityType: 'prescription', idFrom: { input: 'id' } }))
+      .query(async ({ input, ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        const prescription = await getPrescriptionById(input.id);
+        return prescription ? view(prescription) : null;
+      }),
     
-    getByPatientId: publicProcedure
+    getByPatientId: permissionProcedure('prescriptions.read')
       .input(z.object({ patientId: z.number() }))
-      .query(({ input }) => getPrescriptionsByPatientId(input.patientId)),
+      .use(restrictedPatientAccess('patientId'))
+      .query(async ({ input, ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        return (await getPrescriptionsByPatientId(input.patientId)).map(view);
+      }),
     
-    getByDoctorId: publicProcedure
+    getByDoctorId: permissionProcedure('prescriptions.read')
       .input(z.object({ doctorId: z.number() }))
-      .query(({ input }) => getPrescriptionsByDoctorId(input.doctorId)),
+      .query(async ({ input, ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        return (await filterAccessibleRows(ctx.user, await getPrescriptionsByDoctorId(input.doctorId), prescription => prescription.patient_id)).map(view);
+      }),
     
-    updateStatus: publicProcedure
+    updateStatus: permissionProcedure('prescriptions.updateStatus')
       .input(updatePrescriptionStatusInputSchema)
+      .use(restrictedPatientAccess('id', getPrescriptionPatientId))
+      .use(audited({ action: 'update', entityType: 'prescription', idFrom: { input: 'id' }, snapshot: getPrescriptionById }))
       .mutation(({ input }) => updatePrescriptionStatus(input)),
     
-    fillItem: publicProcedure
+    fillItem: permissionProcedure('prescriptions.fill')
       .input(z.object({ prescriptionItemId: z.number(), quantityFilled: z.number() }))
-      .mutation(({ input }) => fillPrescriptionItem(input.prescriptionItemId, input.quantityFilled)),
+      .use(restrictedPatientAccess('prescriptionItemId', getPrescriptionItemPatientId))
+      .use(audited({ action: 'update', entityType: 'prescription_item', idFrom: { input: 'prescriptionItemId' } }))
+      .mutation(({ input, ctx }) => fillPrescriptionItem(input.prescriptionItemId, input.quantityFilled, ctx.user.id)),
     
-    getPending: publicProcedure
-      .query(() => getPendingPrescriptions()),
+    getPending: permissionProcedure('prescriptions.read')
+      .query(async ({ ctx }) => {
+        const view = await prescriptionViewForUser(ctx.user);
+        return (await filterAccessibleRows(ctx.user, await getPendingPrescriptions(), prescription => prescription.patient_id)).map(view);
+      }),
+  }),
+
+  // Drug-drug interaction reference data
+  drugInteractions: router({
+    getAll: permissionProcedure('prescriptions.read')
+      .query(() => getDrugInteractions()),
+
+    import: adminProcedure
+      .input(importDrugInteractionsInputSchema)
+      .mutation(({ input }) => importDrugInteractions(input)),
+  }),
+
+  // ICD-10 diagnosis code reference data
+  icd10: router({
+    search: permissionProcedure('prescriptions.read')
+      .input(searchIcd10CodesInputSchema)
+      .query(({ input }) => searchIcd10Codes(input)),
+
+    import: adminProcedure
+      .input(importIcd10CodesInputSchema)
+      .mutation(({ input }) => importIcd10Codes(input)),
+  }),
+
+  // Encounter (visit) routes. Diagnosis notes are clinical: only roles with
+  // patients.clinical see or set them.
+  encounters: router({
+    open: permissionProcedure('encounters.write')
+      .input(openEncounterInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'encounter', idFrom: 'result' }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await encounterViewForUser(ctx.user);
+        return view(await openEncounter(input, ctx.user.id));
+      }),
+
+    getById: permissionProcedure('encounters.read')
+      .input(z.object({ id: z.number() }))
+      .use(restrictedPatientAccess('id', getEncounterPatientId))
+      .use(audited({ action: 'read', entityType: 'encounter', idFrom: { input: 'id' } }))
+      .query(async ({ input, ctx }) => {
+        const view = await encounterViewForUser(ctx.user);
+        const encounter = await getEncounterById(input.id);
+        return encounter ? view(encounter) : null;
+      }),
+
+    list: permissionProcedure('encounters.read')
+      .input(listEncountersInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(async ({ input, ctx }) => {
+        const view = await encounterViewForUser(ctx.user);
+        const encounters = await filterAccessibleRows(ctx.user, await listEncounters(input), encounter => encounter.patient_id);
+        return encounters.map(encounter => view(encounter, encounter.patient_is_restricted));
+      }),
+
+    update: permissionProcedure('encounters.write')
+      .input(updateEncounterInputSchema)
+      .use(fieldPermission('patients.clinical', ['diagnosis_notes']))
+      .use(restrictedPatientAccess('id', getEncounterPatientId))
+      .use(audited({ action: 'update', entityType: 'encounter', idFrom: { input: 'id' }, snapshot: getEncounterById, redact: ['diagnosis_notes'] }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await encounterViewForUser(ctx.user);
+        return view(await updateEncounter(input));
+      }),
+
+    close: permissionProcedure('encounters.write')
+      .input(closeEncounterInputSchema)
+      .use(fieldPermission('patients.clinical', ['diagnosis_notes']))
+      .use(restrictedPatientAccess('id', getEncounterPatientId))
+      .use(audited({ action: 'update', entityType: 'encounter', idFrom: { input: 'id' }, snapshot: getEncounterById, redact: ['diagnosis_notes'] }))
+      .mutation(async ({ input, ctx }) => {
+        const view = await encounterViewForUser(ctx.user);
+        return view(await closeEncounter(input));
+      }),
+  }),
+
+  // Insurers and patient insurance policies
+  insurance: router({
+    insurers: permissionProcedure('insurance.read')
+      .query(() => getInsurers()),
+
+    createInsurer: adminProcedure
+      .input(createInsurerInputSchema)
+      .use(audited({ action: 'create', entityType: 'insurer', idFrom: 'result' }))
+      .mutation(({ input }) => createInsurer(input)),
+
+    updateInsurer: adminProcedure
+      .input(updateInsurerInputSchema)
+      .use(audited({ action: 'update', entityType: 'insurer', idFrom: { input: 'id' }, snapshot: getInsurerById }))
+      .mutation(({ input }) => updateInsurer(input)),
+
+    listPolicies: permissionProcedure('insurance.read')
+      .input(listInsurancePoliciesInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => listInsurancePolicies(input)),
+
+    addPolicy: permissionProcedure('insurance.write')
+      .input(createInsurancePolicyInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'insurance_policy', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => createInsurancePolicy(input, ctx.user.id)),
+
+    updatePolicy: permissionProcedure('insurance.write')
+      .input(updateInsurancePolicyInputSchema)
+      .use(restrictedPatientAccess('id', getPolicyPatientId))
+      .use(audited({ action: 'update', entityType: 'insurance_policy', idFrom: { input: 'id' }, snapshot: getInsurancePolicyById }))
+      .mutation(({ input }) => updateInsurancePolicy(input)),
+
+    cancelPolicy: permissionProcedure('insurance.write')
+      .input(insurancePolicyIdInputSchema)
+      .use(restrictedPatientAccess('id', getPolicyPatientId))
+      .use(audited({ action: 'update', entityType: 'insurance_policy', idFrom: { input: 'id' }, snapshot: getInsurancePolicyById }))
+      .mutation(({ input }) => cancelInsurancePolicy(input)),
+
+    checkEligibility: permissionProcedure('insurance.read')
+      .input(checkInsuranceEligibilityInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => checkInsuranceEligibility(input)),
+  }),
+
+  // Scanned referrals, ID cards, lab results and other patient files. Every
+  // download is audited.
+  documents: router({
+    list: permissionProcedure('documents.read')
+      .input(listPatientDocumentsInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .query(({ input }) => listPatientDocuments(input)),
+
+    upload: permissionProcedure('documents.write')
+      .input(uploadPatientDocumentInputSchema)
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'patient_document', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => uploadPatientDocument(input, ctx.user.id)),
+
+    download: permissionProcedure('documents.read')
+      .input(patientDocumentIdInputSchema)
+      .use(restrictedPatientAccess('id', getDocumentPatientId))
+      .use(audited({ action: 'read', entityType: 'patient_document', idFrom: { input: 'id' } }))
+      .query(({ input }) => downloadPatientDocument(input)),
+
+    delete: permissionProcedure('documents.write')
+      .input(patientDocumentIdInputSchema)
+      .use(restrictedPatientAccess('id', getDocumentPatientId))
+      .use(audited({ action: 'delete', entityType: 'patient_document', idFrom: { input: 'id' } }))
+      .mutation(({ input, ctx }) => deletePatientDocument(input, ctx.user.id)),
   }),
 
   // Payment management routes
   payments: router({
-    create: publicProcedure
+    create: permissionProcedure('payments.create')
       .input(createPaymentInputSchema)
-      .mutation(({ input }) => createPayment(input)),
+      .use(restrictedPatientAccess('patient_id'))
+      .use(audited({ action: 'create', entityType: 'payment', idFrom: 'result' }))
+      .mutation(({ input, ctx }) => createPayment({ ...input, created_by: ctx.user.id })),
     
-    getAll: publicProcedure
-      .query(() => getPayments()),
+    getAll: scopedProcedure('payments:read', 'payments.read')
+      .query(async ({ ctx }) => filterAccessibleRows(ctx.user, await getPayments(), payment => payment.patient_id)),
     
-    getById: publicProcedure
+    getById: scopedProcedure('payments:read', 'payments.read')
       .input(z.object({ id: z.number() }))
+      .use(restrictedPatientAccess('id', getPaymentPatientId))
+      .use(audited({ action: 'read', entityType: 'payment', idFrom: { input: 'id' } }))
       .query(({ input }) => getPaymentById(input.id)),
     
-    getByPatientId: publicProcedure
+    getByPatientId: scopedProcedure('payments:read', 'payments.read')
       .input(z.object({ patientId: z.number() }))
+      .use(restrictedPatientAccess('patientId'))
       .query(({ input }) => getPaymentsByPatientId(input.patientId)),
     
-    getByDateRange: publicProcedure
+    getByDateRange: scopedProcedure('payments:read', 'payments.read')
       .input(z.object({ startDate: z.coerce.date(), endDate: z.coerce.date() }))
-      .query(({ input }) => getPaymentsByDateRange(input.startDate, input.endDate)),
+      .query(async ({ input, ctx }) => filterAccessibleRows(ctx.user, await getPaymentsByDateRange(input.startDate, input.endDate), payment => payment.patient_id)),
     
-    getByPrescriptionId: publicProcedure
+    getByPrescriptionId: scopedProcedure('payments:read', 'payments.read')
       .input(z.object({ prescriptionId: z.number() }))
+      .use(restrictedPatientAccess('prescriptionId', getPrescriptionPatientId))
       .query(({ input }) => getPaymentsByPrescriptionId(input.prescriptionId)),
     
-    getDailySummary: publicProcedure
+    getDailySummary: scopedProcedure('payments:read', 'payments.read')
       .input(z.object({ date: z.coerce.date() }))
       .query(({ input }) => getDailyPaymentSummary(input.date)),
   }),
 
   // Reports routes
   reports: router({
-    sales: publicProcedure
+    sales: scopedProcedure('reports:read', 'reports.read')
       .input(salesReportInputSchema)
       .query(({ input }) => generateSalesReport(input)),
     
-    medicineUsage: publicProcedure
+    medicineUsage: scopedProcedure('reports:read', 'reports.read')
       .input(medicineUsageReportInputSchema)
       .query(({ input }) => generateMedicineUsageReport(input)),
     
-    lowStockAlerts: publicProcedure
+    lowStockAlerts: scopedProcedure('reports:read', 'reports.read')
       .input(z.object({ threshold: z.number().optional() }))
       .query(({ input }) => getLowStockAlerts(input.threshold)),
     
-    monthlySummary: publicProcedure
+    monthlySummary: scopedProcedure('reports:read', 'reports.read')
       .input(z.object({ year: z.number(), month: z.number() }))
       .query(({ input }) => generateMonthlySummary(input.year, input.month)),
+
+    diagnoses: scopedProcedure('reports:read', 'reports.read')
+      .input(diagnosisReportInputSchema)
+      .query(({ input }) => generateDiagnosisReport(input)),
   }),
 
   // Dashboard routes
   dashboard: router({
-    admin: publicProcedure
+    admin: permissionProcedure('dashboard.admin')
       .query(() => getAdminDashboard()),
     
-    doctor: publicProcedure
+    doctor: permissionProcedure('dashboard.doctor')
       .input(z.object({ doctorId: z.number() }))
-      .query(({ input }) => getDoctorDashboard(input.doctorId)),
+      .query(async ({ input, ctx }) => {
+        // Only staff with the admin dashboard may look at another doctor's
+        if (ctx.user.id !== input.doctorId && !(await roleHasPermission(ctx.user.role, 'dashboard.admin'))) {
+          throw new TRPCError({ code: 'FORBIDDEN', message: 'Cannot view another doctor\'s dashboard' });
+        }
+        return getDoctorDashboard(input.doctorId);
+      }),
     
-    cashier: publicProcedure
+    pharmacist: permissionProcedure('dashboard.pharmacist')
+      .query(() => getPharmacistDashboard()),
+    
+    cashier: permissionProcedure('dashboard.cashier')
       .query(() => getCashierDashboard()),
+    
+    reception: permissionProcedure('dashboard.reception')
+      .query(() => getReceptionDashboard()),
   }),
 });
 
@@ -254,12 +944,13 @@ async function start() {
       cors()(req, res, next);
     },
     router: appRouter,
-    createContext() {
-      return {};
-    },
+    createContext,
   });
   server.listen(port);
   console.log(`TRPC server listening at port: ${port}`);
 }
 
-start();
\ No newline at end of file
+// Tests import the router without starting a server
+if (import.meta.main) {
+  start();
+}
\ No newline at end of file
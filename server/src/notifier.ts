@@ -0,0 +1,58 @@
+import { appendFile, mkdir } from 'fs/promises';
+import * as path from 'path';
+
+// Outgoing message to a staff member (password reset links, invitations, ...)
+export interface NotificationMessage {
+  to: string;
+  subject: string;
+  body: string;
+}
+
+// Delivery backend. Production deployments plug in a real email/SMS sender
+// with setNotifier(); development uses the console or file stand-ins below.
+export interface Notifier {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+export class ConsoleNotifier implements Notifier {
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[notification] to=${message.to} subject="${message.subject}"\n${message.body}`);
+  }
+}
+
+// Appends each message as a JSON line to outbox.jsonl in the given directory
+export class FileNotifier implements Notifier {
+  constructor(private readonly directory: string) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const line = JSON.stringify({ ...message, sent_at: new Date().toISOString() });
+    await appendFile(path.join(this.directory, 'outbox.jsonl'), `${line}\n`);
+  }
+}
+
+let notifier: Notifier | null = null;
+
+// NOTIFIER=file writes to NOTIFIER_OUTBOX_DIR (default ./outbox); anything else logs to the console
+function createDefaultNotifier(): Notifier {
+  if (process.env['NOTIFIER'] === 'file') {
+    return new FileNotifier(process.env['NOTIFIER_OUTBOX_DIR'] || 'outbox');
+  }
+  return new ConsoleNotifier();
+}
+
+export function getNotifier(): Notifier {
+  if (!notifier) {
+    notifier = createDefaultNotifier();
+  }
+  return notifier;
+}
+
+export function setNotifier(replacement: Notifier | null): void {
+  notifier = replacement;
+}
+
+// Base URL of the web client, used to build links in messages
+export function getAppBaseUrl(): string {
+  return (process.env['APP_BASE_URL'] || 'http://localhost').replace(/\/+$/, '');
+}
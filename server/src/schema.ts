@@ -1,7 +1,7 @@
 import { z } from 'zod';
 
 // User Roles
-export const userRoleSchema = z.enum(['admin', 'doctor', 'cashier']);
+export const userRoleSchema = z.enum(['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist']);
 export type UserRole = z.infer<typeof userRoleSchema>;
 
 // Gender enum
@@ -16,6 +16,48 @@ export type PaymentMethod = z.infer<typeof paymentMethodSchema>;
 export const prescriptionStatusSchema = z.enum(['pending', 'filled', 'partially_filled']);
 export type PrescriptionStatus = z.infer<typeof prescriptionStatusSchema>;
 
+// Login lockout scopes
+export const lockoutScopeSchema = z.enum(['email', 'ip']);
+export type LockoutScope = z.infer<typeof lockoutScopeSchema>;
+
+// Audit log actions
+export const auditActionSchema = z.enum(['create', 'read', 'update', 'delete']);
+export type AuditAction = z.infer<typeof auditActionSchema>;
+
+// Permissions checked by procedures; which roles hold each one is stored in
+// the permission matrix
+export const permissionSchema = z.enum([
+  'patients.read',
+  'patients.write',
+  'patients.clinical',
+  'patients.restricted',
+  'medicines.read',
+  'medicines.write',
+  'prescriptions.read',
+  'prescriptions.create',
+  'prescriptions.updateStatus',
+  'prescriptions.fill',
+  'encounters.read',
+  'encounters.write',
+  'insurance.read',
+  'insurance.write',
+  'documents.read',
+  'documents.write',
+  'payments.read',
+  'payments.create',
+  'reports.read',
+  'dashboard.admin',
+  'dashboard.doctor',
+  'dashboard.pharmacist',
+  'dashboard.cashier',
+  'dashboard.reception'
+]);
+export type Permission = z.infer<typeof permissionSchema>;
+
+// API key scopes, one per group of read-only integration routes
+export const apiKeyScopeSchema = z.enum(['medicines:read', 'payments:read', 'reports:read']);
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
 // Medicine categories
 export const medicineCategorySchema = z.enum([
   'pain_relievers', 'antibiotics', 'antiviral', 'antifungal', 'cardiovascular',
@@ -23,6 +65,67 @@ export const medicineCategorySchema = z.enum([
 ]);
 export type MedicineCategory = z.infer<typeof medicineCategorySchema>;
 
+// Allergy enums
+export const allergenTypeSchema = z.enum(['medicine', 'category', 'substance']);
+export type AllergenType = z.infer<typeof allergenTypeSchema>;
+
+export const allergySeveritySchema = z.enum(['mild', 'moderate', 'severe', 'life_threatening']);
+export type AllergySeverity = z.infer<typeof allergySeveritySchema>;
+
+export const allergyStatusSchema = z.enum(['candidate', 'active']);
+export type AllergyStatus = z.infer<typeof allergyStatusSchema>;
+
+// Encounter status
+export const encounterStatusSchema = z.enum(['open', 'closed', 'cancelled']);
+export type EncounterStatus = z.infer<typeof encounterStatusSchema>;
+
+// Status of a coded condition on the patient's problem list
+export const conditionStatusSchema = z.enum(['active', 'resolved']);
+export type ConditionStatus = z.infer<typeof conditionStatusSchema>;
+
+// Order in which a patient's insurance policies are billed
+export const policyPrioritySchema = z.enum(['primary', 'secondary']);
+export type PolicyPriority = z.infer<typeof policyPrioritySchema>;
+
+// What a patient document is, e.g. a scanned referral letter
+export const documentCategorySchema = z.enum(['referral', 'id_card', 'lab_result', 'other']);
+export type DocumentCategory = z.infer<typeof documentCategorySchema>;
+
+// Vital sign measurements, stored in the units of VITAL_UNITS
+export const vitalMetricSchema = z.enum(['systolic_bp', 'diastolic_bp', 'pulse', 'temperature_c', 'spo2', 'weight_kg', 'height_cm', 'bmi']);
+export type VitalMetric = z.infer<typeof vitalMetricSchema>;
+
+export const VITAL_UNITS: Record<VitalMetric, string> = {
+  systolic_bp: 'mmHg',
+  diastolic_bp: 'mmHg',
+  pulse: 'bpm',
+  temperature_c: '°C',
+  spo2: '%',
+  weight_kg: 'kg',
+  height_cm: 'cm',
+  bmi: 'kg/m²'
+};
+
+export const temperatureUnitSchema = z.enum(['C', 'F']);
+export const weightUnitSchema = z.enum(['kg', 'lb']);
+export const heightUnitSchema = z.enum(['cm', 'in']);
+
+// Prescription safety checks
+export const safetyWarningTypeSchema = z.enum(['allergy', 'contraindication', 'dosing']);
+export type SafetyWarningType = z.infer<typeof safetyWarningTypeSchema>;
+
+// Hard stops block the prescription unless the doctor gives an override reason
+export const safetyWarningSeveritySchema = z.enum(['warning', 'hard_stop']);
+export type SafetyWarningSeverity = z.infer<typeof safetyWarningSeveritySchema>;
+
+// Drug-drug interaction severity; contraindicated pairs are hard stops
+export const interactionSeveritySchema = z.enum(['minor', 'moderate', 'major', 'contraindicated']);
+export type InteractionSeverity = z.infer<typeof interactionSeveritySchema>;
+
+// Where the other medicine of an interaction comes from
+export const interactionSourceSchema = z.enum(['same_prescription', 'active_prescription']);
+export type InteractionSource = z.infer<typeof interactionSourceSchema>;
+
 // User schema
 export const userSchema = z.object({
   id: z.number(),
@@ -38,6 +141,105 @@ export const userSchema = z.object({
 });
 export type User = z.infer<typeof userSchema>;
 
+// User without credentials, for listings returned to admins
+export const publicUserSchema = userSchema.omit({ password_hash: true });
+export type PublicUser = z.infer<typeof publicUserSchema>;
+
+// Session schema (refresh token hash is never exposed)
+export const sessionSchema = z.object({
+  id: z.number(),
+  user_id: z.number(),
+  expires_at: z.coerce.date(),
+  last_used_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+export type Session = z.infer<typeof sessionSchema>;
+
+// Login lockout schema
+export const loginLockoutSchema = z.object({
+  id: z.number(),
+  scope: lockoutScopeSchema,
+  identifier: z.string(),
+  failed_attempts: z.number().int(),
+  locked_until: z.coerce.date(),
+  unlocked_at: z.coerce.date().nullable(),
+  unlocked_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+export type LoginLockout = z.infer<typeof loginLockoutSchema>;
+
+// Permission matrix entry; `is_default` means no admin has changed it
+export const permissionRolesSchema = z.object({
+  permission: permissionSchema,
+  roles: z.array(userRoleSchema),
+  is_default: z.boolean(),
+  updated_by: z.number().nullable(),
+  updated_at: z.coerce.date().nullable()
+});
+export type PermissionRoles = z.infer<typeof permissionRolesSchema>;
+
+// API key schema (key hash is never exposed)
+export const apiKeySchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  prefix: z.string(),
+  scopes: z.array(apiKeyScopeSchema),
+  expires_at: z.coerce.date().nullable(),
+  last_used_at: z.coerce.date().nullable(),
+  last_used_ip: z.string().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+// Audit log entry schema; `changes` maps each changed field to its old and new value
+export const auditLogEntrySchema = z.object({
+  id: z.number(),
+  actor_id: z.number().nullable(),
+  actor_role: userRoleSchema.nullable(),
+  api_key_id: z.number().nullable(),
+  action: auditActionSchema,
+  procedure: z.string(),
+  entity_type: z.string(),
+  entity_id: z.number().nullable(),
+  changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+export type AuditLogEntry = z.infer<typeof auditLogEntrySchema>;
+
+// Invitation schema (token hash is never exposed)
+export const invitationStatusSchema = z.enum(['pending', 'accepted', 'revoked', 'expired']);
+export type InvitationStatus = z.infer<typeof invitationStatusSchema>;
+
+export const invitationSchema = z.object({
+  id: z.number(),
+  email: z.string().email(),
+  role: userRoleSchema,
+  first_name: z.string(),
+  last_name: z.string(),
+  phone: z.string().nullable(),
+  expires_at: z.coerce.date(),
+  invited_by: z.number().nullable(),
+  accepted_at: z.coerce.date().nullable(),
+  accepted_user_id: z.number().nullable(),
+  revoked_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  status: invitationStatusSchema
+});
+export type Invitation = z.infer<typeof invitationSchema>;
+
+// Two-factor policy schema
+export const twoFactorPolicySchema = z.object({
+  role: userRoleSchema,
+  required: z.boolean(),
+  updated_by: z.number().nullable(),
+  updated_at: z.coerce.date()
+});
+export type TwoFactorPolicy = z.infer<typeof twoFactorPolicySchema>;
+
 // Patient schema
 export const patientSchema = z.object({
   id: z.number(),
@@ -51,11 +253,123 @@ export const patientSchema = z.object({
   allergies: z.string().nullable(),
   chronic_conditions: z.string().nullable(),
   medical_history: z.string().nullable(),
+  is_restricted: z.boolean(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
 export type Patient = z.infer<typeof patientSchema>;
 
+// What roles without the patients.clinical permission see of a patient
+export const patientDemographicsSchema = patientSchema.omit({
+  allergies: true,
+  chronic_conditions: true,
+  medical_history: true
+});
+export type PatientDemographics = z.infer<typeof patientDemographicsSchema>;
+
+// Patient allergy schema
+export const patientAllergySchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  allergen_type: allergenTypeSchema,
+  medicine_id: z.number().nullable(),
+  medicine_category: medicineCategorySchema.nullable(),
+  substance: z.string().nullable(),
+  reaction: z.string().nullable(),
+  severity: allergySeveritySchema.nullable(),
+  status: allergyStatusSchema,
+  // Fragment of the legacy free-text field a candidate was parsed from
+  source_text: z.string().nullable(),
+  verified_by: z.number().nullable(),
+  verified_at: z.coerce.date().nullable(),
+  created_by: z.number().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type PatientAllergy = z.infer<typeof patientAllergySchema>;
+
+// Duplicate detection and merge schemas
+export const duplicateMatchFieldSchema = z.enum(['name', 'birthdate', 'phone', 'email']);
+export type DuplicateMatchField = z.infer<typeof duplicateMatchFieldSchema>;
+
+export const duplicateCandidateSchema = z.object({
+  patient: patientDemographicsSchema,
+  score: z.number(),
+  matched_on: z.array(duplicateMatchFieldSchema)
+});
+export type DuplicateCandidate = z.infer<typeof duplicateCandidateSchema>;
+
+// Patient search schemas
+export const patientSearchFieldSchema = z.enum(['name', 'email', 'phone', 'birthdate']);
+export type PatientSearchField = z.infer<typeof patientSearchFieldSchema>;
+
+// Where the search matched a field: [start, end) character offsets into
+// `value`, for the client to mark up
+export const patientSearchHighlightSchema = z.object({
+  field: patientSearchFieldSchema,
+  value: z.string(),
+  ranges: z.array(z.object({ start: z.number().int(), end: z.number().int() }))
+});
+export type PatientSearchHighlight = z.infer<typeof patientSearchHighlightSchema>;
+
+export const patientSearchResultSchema = z.object({
+  patient: patientSchema,
+  // 0 to 1, higher is a closer match
+  score: z.number(),
+  matched_on: z.array(patientSearchFieldSchema),
+  highlights: z.array(patientSearchHighlightSchema)
+});
+export type PatientSearchResult = z.infer<typeof patientSearchResultSchema>;
+
+export const patientSearchResultsSchema = z.object({
+  results: z.array(patientSearchResultSchema),
+  total: z.number(),
+  page: z.number(),
+  page_size: z.number()
+});
+export type PatientSearchResults = z.infer<typeof patientSearchResultsSchema>;
+
+export const patientMergeSchema = z.object({
+  id: z.number(),
+  survivor_id: z.number(),
+  duplicate_id: z.number(),
+  prescriptions_moved: z.number().int(),
+  payments_moved: z.number().int(),
+  merged_by: z.number(),
+  merged_at: z.coerce.date()
+});
+export type PatientMerge = z.infer<typeof patientMergeSchema>;
+
+// Break-glass access schemas
+export const breakGlassAccessSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  user_id: z.number(),
+  reason: z.string(),
+  granted_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  reviewed_at: z.coerce.date().nullable(),
+  reviewed_by: z.number().nullable(),
+  review_notes: z.string().nullable()
+});
+export type BreakGlassAccess = z.infer<typeof breakGlassAccessSchema>;
+
+export const breakGlassReviewStatusSchema = z.enum(['pending', 'reviewed']);
+export type BreakGlassReviewStatus = z.infer<typeof breakGlassReviewStatusSchema>;
+
+// A review queue entry: who opened which record, why, and for how long
+export const breakGlassReviewEntrySchema = breakGlassAccessSchema.extend({
+  patient_name: z.string(),
+  user_name: z.string(),
+  user_email: z.string(),
+  user_role: userRoleSchema,
+  duration_minutes: z.number(),
+  is_active: z.boolean(),
+  // Patient record reads by the user while the grant was open
+  reads_during_access: z.number()
+});
+export type BreakGlassReviewEntry = z.infer<typeof breakGlassReviewEntrySchema>;
+
 // Medicine schema
 export const medicineSchema = z.object({
   id: z.number(),
@@ -67,6 +381,9 @@ export const medicineSchema = z.object({
   batch_number: z.string().nullable(),
   expiry_date: z.coerce.date().nullable(),
   storage_conditions: z.string().nullable(),
+  // Dosing limits for the weight-based dosing check
+  max_daily_dose_mg_per_kg: z.number().nullable(),
+  max_daily_dose_mg: z.number().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -79,6 +396,11 @@ export const prescriptionSchema = z.object({
   doctor_id: z.number(),
   status: prescriptionStatusSchema,
   notes: z.string().nullable(),
+  // Why the doctor went ahead despite hard-stop safety warnings
+  override_reason: z.string().nullable(),
+  encounter_id: z.number().nullable(),
+  // ICD-10 codes the prescription treats
+  diagnosis_codes: z.array(z.string()),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -92,15 +414,224 @@ export const prescriptionItemSchema = z.object({
   quantity_prescribed: z.number().int(),
   quantity_filled: z.number().int(),
   dosage_instructions: z.string().nullable(),
+  dose_mg: z.number().nullable(),
+  doses_per_day: z.number().int().nullable(),
   created_at: z.coerce.date()
 });
 export type PrescriptionItem = z.infer<typeof prescriptionItemSchema>;
 
+// A clinical safety finding for one prescribed medicine
+export const safetyWarningSchema = z.object({
+  type: safetyWarningTypeSchema,
+  severity: safetyWarningSeveritySchema,
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  // The matching allergy record, when one exists
+  allergy_id: z.number().nullable(),
+  message: z.string()
+});
+export type SafetyWarning = z.infer<typeof safetyWarningSchema>;
+
+// Drug interaction schema
+export const drugInteractionSchema = z.object({
+  id: z.number(),
+  ingredient_a: z.string(),
+  ingredient_b: z.string(),
+  severity: interactionSeveritySchema,
+  description: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type DrugInteraction = z.infer<typeof drugInteractionSchema>;
+
+// A prescribed medicine interacting with another on the same prescription or
+// on one of the patient's active prescriptions
+export const interactionWarningSchema = z.object({
+  interaction_id: z.number(),
+  severity: interactionSeveritySchema,
+  description: z.string(),
+  medicine_id: z.number(),
+  medicine_name: z.string(),
+  interacting_medicine_id: z.number(),
+  interacting_medicine_name: z.string(),
+  source: interactionSourceSchema,
+  // The active prescription holding the interacting medicine
+  prescription_id: z.number().nullable()
+});
+export type InteractionWarning = z.infer<typeof interactionWarningSchema>;
+
+// Outcome of a CSV import; rows with errors are skipped
+export const csvImportResultSchema = z.object({
+  inserted: z.number().int(),
+  updated: z.number().int(),
+  errors: z.array(z.object({
+    line: z.number().int(),
+    message: z.string()
+  }))
+});
+export type CsvImportResult = z.infer<typeof csvImportResultSchema>;
+
+// ICD-10 code schema
+export const icd10CodeSchema = z.object({
+  code: z.string(),
+  description: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type Icd10Code = z.infer<typeof icd10CodeSchema>;
+
+// Patient condition schema: a coded diagnosis on the problem list
+export const patientConditionSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  icd10_code: z.string(),
+  icd10_description: z.string(),
+  status: conditionStatusSchema,
+  onset_date: z.coerce.date().nullable(),
+  resolved_date: z.coerce.date().nullable(),
+  notes: z.string().nullable(),
+  noted_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type PatientCondition = z.infer<typeof patientConditionSchema>;
+
+// Encounter schema: one patient visit
+export const encounterSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  doctor_id: z.number().nullable(),
+  status: encounterStatusSchema,
+  reason: z.string().nullable(),
+  diagnosis_notes: z.string().nullable(),
+  check_in_at: z.coerce.date(),
+  check_out_at: z.coerce.date().nullable(),
+  created_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type Encounter = z.infer<typeof encounterSchema>;
+
+// Vital signs schema: one set of readings. Abnormal flags name the metric and
+// direction, e.g. 'pulse_high' or 'spo2_low'.
+export const vitalsSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  encounter_id: z.number().nullable(),
+  systolic_bp: z.number().int().nullable(),
+  diastolic_bp: z.number().int().nullable(),
+  pulse: z.number().int().nullable(),
+  temperature_c: z.number().nullable(),
+  spo2: z.number().int().nullable(),
+  weight_kg: z.number().nullable(),
+  height_cm: z.number().nullable(),
+  bmi: z.number().nullable(),
+  abnormal_flags: z.array(z.string()),
+  notes: z.string().nullable(),
+  recorded_by: z.number(),
+  recorded_at: z.coerce.date(),
+  created_at: z.coerce.date()
+});
+export type Vitals = z.infer<typeof vitalsSchema>;
+
+// One point of a vitals trend
+export const vitalPointSchema = z.object({
+  vitals_id: z.number(),
+  recorded_at: z.coerce.date(),
+  value: z.number(),
+  abnormal: z.enum(['low', 'high']).nullable()
+});
+export type VitalPoint = z.infer<typeof vitalPointSchema>;
+
+export const vitalsHistorySchema = z.object({
+  patient_id: z.number(),
+  units: z.record(vitalMetricSchema, z.string()),
+  // Oldest reading first, per metric
+  series: z.record(vitalMetricSchema, z.array(vitalPointSchema))
+});
+export type VitalsHistory = z.infer<typeof vitalsHistorySchema>;
+
+// Insurer schema
+export const insurerSchema = z.object({
+  id: z.number(),
+  name: z.string(),
+  payer_code: z.string().nullable(),
+  phone: z.string().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type Insurer = z.infer<typeof insurerSchema>;
+
+// Patient insurance policy schema. The patient pays the copay per claim and
+// the insurer covers coverage_percent of the rest.
+export const patientInsurancePolicySchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  insurer_id: z.number(),
+  insurer_name: z.string(),
+  member_id: z.string(),
+  group_number: z.string().nullable(),
+  priority: policyPrioritySchema,
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date().nullable(),
+  coverage_percent: z.number(),
+  copay_amount: z.number(),
+  cancelled_at: z.coerce.date().nullable(),
+  created_by: z.number(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+export type PatientInsurancePolicy = z.infer<typeof patientInsurancePolicySchema>;
+
+// The patient's valid policies on a date, in billing order, and how a charge
+// would be split between them
+export const insuranceEligibilitySchema = z.object({
+  patient_id: z.number(),
+  date: z.coerce.date(),
+  policies: z.array(patientInsurancePolicySchema),
+  estimate: z.object({
+    amount: z.number(),
+    copay: z.number(),
+    primary_covered: z.number(),
+    secondary_covered: z.number(),
+    patient_responsibility: z.number()
+  }).nullable()
+});
+export type InsuranceEligibility = z.infer<typeof insuranceEligibilitySchema>;
+
+// Metadata of a file attached to a patient; the content is fetched separately
+export const patientDocumentSchema = z.object({
+  id: z.number(),
+  patient_id: z.number(),
+  prescription_id: z.number().nullable(),
+  encounter_id: z.number().nullable(),
+  category: documentCategorySchema,
+  filename: z.string(),
+  content_type: z.string(),
+  size_bytes: z.number(),
+  checksum: z.string(),
+  description: z.string().nullable(),
+  uploaded_by: z.number(),
+  deleted_at: z.coerce.date().nullable(),
+  deleted_by: z.number().nullable(),
+  created_at: z.coerce.date()
+});
+export type PatientDocument = z.infer<typeof patientDocumentSchema>;
+
+export const patientDocumentContentSchema = z.object({
+  document: patientDocumentSchema,
+  content_base64: z.string()
+});
+export type PatientDocumentContent = z.infer<typeof patientDocumentContentSchema>;
+
 // Payment schema
 export const paymentSchema = z.object({
   id: z.number(),
   patient_id: z.number(),
   prescription_id: z.number().nullable(),
+  encounter_id: z.number().nullable(),
+  insurance_policy_id: z.number().nullable(),
   amount: z.number(),
   payment_method: paymentMethodSchema,
   payment_date: z.coerce.date(),
@@ -110,6 +641,57 @@ export const paymentSchema = z.object({
 });
 export type Payment = z.infer<typeof paymentSchema>;
 
+// One dispensing of a prescription item
+export const prescriptionFillSchema = z.object({
+  id: z.number(),
+  prescription_item_id: z.number(),
+  prescription_id: z.number(),
+  medicine_id: z.number(),
+  quantity: z.number().int(),
+  filled_by: z.number().nullable(),
+  filled_at: z.coerce.date()
+});
+export type PrescriptionFill = z.infer<typeof prescriptionFillSchema>;
+
+// Kinds of event in a patient's timeline, in the order used to break ties
+// between events at the same instant
+export const timelineEventTypeSchema = z.enum(['registration', 'profile_update', 'prescription', 'fill', 'payment']);
+export type TimelineEventType = z.infer<typeof timelineEventTypeSchema>;
+
+// An entry in a patient's timeline. `id` is the id of the underlying row:
+// the patient, audit log entry, prescription, fill or payment.
+const timelineEventBase = {
+  id: z.number(),
+  occurred_at: z.coerce.date()
+};
+
+export const timelineEventSchema = z.discriminatedUnion('type', [
+  z.object({ ...timelineEventBase, type: z.literal('registration') }),
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('profile_update'),
+    actor_id: z.number().nullable(),
+    procedure: z.string(),
+    // Clinical fields are redacted, as in the audit log
+    changes: z.record(z.object({ before: z.unknown(), after: z.unknown() })).nullable()
+  }),
+  z.object({
+    ...timelineEventBase,
+    type: z.literal('prescription'),
+    prescription: prescriptionSchema.extend({ items: z.array(prescriptionItemSchema) })
+  }),
+  z.object({ ...timelineEventBase, type: z.literal('fill'), fill: prescriptionFillSchema }),
+  z.object({ ...timelineEventBase, type: z.literal('payment'), payment: paymentSchema })
+]);
+export type TimelineEvent = z.infer<typeof timelineEventSchema>;
+
+export const patientTimelineSchema = z.object({
+  events: z.array(timelineEventSchema),
+  // Pass back as `cursor` for the next page; null on the last page
+  next_cursor: z.string().nullable()
+});
+export type PatientTimeline = z.infer<typeof patientTimelineSchema>;
+
 // Input schemas for creating records
 export const createUserInputSchema = z.object({
   email: z.string().email(),
@@ -121,6 +703,10 @@ export const createUserInputSchema = z.object({
 });
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 
+// The first admin is created without an invitation, so the role is fixed
+export const bootstrapAdminInputSchema = createUserInputSchema.omit({ role: true });
+export type BootstrapAdminInput = z.infer<typeof bootstrapAdminInputSchema>;
+
 export const createPatientInputSchema = z.object({
   first_name: z.string(),
   last_name: z.string(),
@@ -131,10 +717,103 @@ export const createPatientInputSchema = z.object({
   birthdate: z.coerce.date(),
   allergies: z.string().nullable().optional(),
   chronic_conditions: z.string().nullable().optional(),
-  medical_history: z.string().nullable().optional()
+  medical_history: z.string().nullable().optional(),
+  // Create the patient even if likely duplicates exist
+  ignore_duplicates: z.boolean().optional()
 });
 export type CreatePatientInput = z.infer<typeof createPatientInputSchema>;
 
+export const findDuplicatePatientsInputSchema = createPatientInputSchema.pick({
+  first_name: true,
+  last_name: true,
+  birthdate: true,
+  phone: true,
+  email: true
+}).extend({
+  // Leave out this patient, e.g. when checking an existing record
+  exclude_id: z.number().optional()
+});
+export type FindDuplicatePatientsInput = z.infer<typeof findDuplicatePatientsInputSchema>;
+
+// Free text such as "john smith", "555 0100", "jane@example.com" or
+// "smith 1985-06-15"
+export const searchPatientsInputSchema = z.object({
+  query: z.string().trim().min(1).max(200),
+  page: z.number().int().positive().default(1),
+  page_size: z.number().int().positive().max(100).default(20)
+});
+export type SearchPatientsInput = z.infer<typeof searchPatientsInputSchema>;
+
+// Patient allergy schemas. The allergen field that must be set depends on
+// allergen_type.
+const allergenFields = {
+  allergen_type: allergenTypeSchema,
+  medicine_id: z.number().nullable().optional(),
+  medicine_category: medicineCategorySchema.nullable().optional(),
+  substance: z.string().trim().min(1).nullable().optional()
+};
+
+const allergenFieldFor = { medicine: 'medicine_id', category: 'medicine_category', substance: 'substance' } as const;
+
+function refineAllergen(value: { allergen_type?: AllergenType; medicine_id?: number | null; medicine_category?: MedicineCategory | null; substance?: string | null }, ctx: z.RefinementCtx) {
+  if (value.allergen_type === undefined) {
+    return;
+  }
+
+  for (const [type, field] of Object.entries(allergenFieldFor)) {
+    const isSet = value[field] !== undefined && value[field] !== null;
+    if (type === value.allergen_type && !isSet) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is required for allergen_type ${type}` });
+    }
+    if (type !== value.allergen_type && isSet) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: [field], message: `${field} is only allowed for allergen_type ${type}` });
+    }
+  }
+}
+
+export const createPatientAllergyInputSchema = z.object({
+  patient_id: z.number(),
+  ...allergenFields,
+  reaction: z.string().nullable().optional(),
+  severity: allergySeveritySchema.nullable().optional(),
+  // Record the current user as having verified the allergy
+  verified: z.boolean().optional()
+}).superRefine(refineAllergen);
+export type CreatePatientAllergyInput = z.infer<typeof createPatientAllergyInputSchema>;
+
+export const updatePatientAllergyInputSchema = z.object({
+  id: z.number(),
+  ...allergenFields,
+  allergen_type: allergenTypeSchema.optional(),
+  reaction: z.string().nullable().optional(),
+  severity: allergySeveritySchema.nullable().optional(),
+  verified: z.boolean().optional()
+}).superRefine(refineAllergen);
+export type UpdatePatientAllergyInput = z.infer<typeof updatePatientAllergyInputSchema>;
+
+export const listPatientAllergiesInputSchema = z.object({
+  patient_id: z.number(),
+  status: allergyStatusSchema.optional()
+});
+export type ListPatientAllergiesInput = z.infer<typeof listPatientAllergiesInputSchema>;
+
+export const patientAllergyIdInputSchema = z.object({
+  id: z.number()
+});
+export type PatientAllergyIdInput = z.infer<typeof patientAllergyIdInputSchema>;
+
+export const migrateAllergyTextInputSchema = z.object({
+  // Only this patient; all patients when omitted
+  patient_id: z.number().optional()
+});
+export type MigrateAllergyTextInput = z.infer<typeof migrateAllergyTextInputSchema>;
+
+export const mergePatientsInputSchema = z.object({
+  survivor_id: z.number(),
+  duplicate_id: z.number()
+});
+export type MergePatientsInput = z.infer<typeof mergePatientsInputSchema>;
+
 export const createMedicineInputSchema = z.object({
   name: z.string(),
   category: medicineCategorySchema,
@@ -143,7 +822,9 @@ export const createMedicineInputSchema = z.object({
   supplier_info: z.string().nullable().optional(),
   batch_number: z.string().nullable().optional(),
   expiry_date: z.coerce.date().nullable().optional(),
-  storage_conditions: z.string().nullable().optional()
+  storage_conditions: z.string().nullable().optional(),
+  max_daily_dose_mg_per_kg: z.number().positive().nullable().optional(),
+  max_daily_dose_mg: z.number().positive().nullable().optional()
 });
 export type CreateMedicineInput = z.infer<typeof createMedicineInputSchema>;
 
@@ -154,14 +835,81 @@ export const createPrescriptionInputSchema = z.object({
   items: z.array(z.object({
     medicine_id: z.number(),
     quantity_prescribed: z.number().int().positive(),
-    dosage_instructions: z.string().nullable().optional()
-  }))
+    dosage_instructions: z.string().nullable().optional(),
+    // Structured dose, checked against the medicine's dosing limits
+    dose_mg: z.number().positive().nullable().optional(),
+    doses_per_day: z.number().int().positive().nullable().optional()
+  })),
+  // Required when the safety check reports hard stops
+  override_reason: z.string().trim().min(10).nullable().optional(),
+  encounter_id: z.number().nullable().optional(),
+  // ICD-10 codes, with or without the dot
+  diagnosis_codes: z.array(z.string().trim().min(1)).max(10).optional()
 });
 export type CreatePrescriptionInput = z.infer<typeof createPrescriptionInputSchema>;
 
+export const checkPrescriptionSafetyInputSchema = createPrescriptionInputSchema.pick({ patient_id: true, items: true });
+export type CheckPrescriptionSafetyInput = z.infer<typeof checkPrescriptionSafetyInputSchema>;
+
+export const checkInteractionsInputSchema = createPrescriptionInputSchema.pick({ patient_id: true, items: true });
+export type CheckInteractionsInput = z.infer<typeof checkInteractionsInputSchema>;
+
+// CSV with the columns ingredient_a, ingredient_b, severity and description
+export const importDrugInteractionsInputSchema = z.object({
+  csv: z.string().min(1).max(5 * 1024 * 1024)
+});
+export type ImportDrugInteractionsInput = z.infer<typeof importDrugInteractionsInputSchema>;
+
+// ICD-10 schemas. The CSV has the columns code and description.
+export const importIcd10CodesInputSchema = z.object({
+  csv: z.string().min(1).max(20 * 1024 * 1024)
+});
+export type ImportIcd10CodesInput = z.infer<typeof importIcd10CodesInputSchema>;
+
+// Matches codes starting with the query, or descriptions containing every word
+export const searchIcd10CodesInputSchema = z.object({
+  query: z.string().trim().min(1).max(100),
+  limit: z.number().int().positive().max(100).default(20)
+});
+export type SearchIcd10CodesInput = z.infer<typeof searchIcd10CodesInputSchema>;
+
+// Patient condition schemas
+export const createPatientConditionInputSchema = z.object({
+  patient_id: z.number(),
+  icd10_code: z.string().trim().min(1),
+  onset_date: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+export type CreatePatientConditionInput = z.infer<typeof createPatientConditionInputSchema>;
+
+export const updatePatientConditionInputSchema = z.object({
+  id: z.number(),
+  icd10_code: z.string().trim().min(1).optional(),
+  status: conditionStatusSchema.optional(),
+  onset_date: z.coerce.date().nullable().optional(),
+  // Defaults to today when the condition is resolved
+  resolved_date: z.coerce.date().nullable().optional(),
+  notes: z.string().nullable().optional()
+});
+export type UpdatePatientConditionInput = z.infer<typeof updatePatientConditionInputSchema>;
+
+export const listPatientConditionsInputSchema = z.object({
+  patient_id: z.number(),
+  status: conditionStatusSchema.optional()
+});
+export type ListPatientConditionsInput = z.infer<typeof listPatientConditionsInputSchema>;
+
+export const patientConditionIdInputSchema = z.object({
+  id: z.number()
+});
+export type PatientConditionIdInput = z.infer<typeof patientConditionIdInputSchema>;
+
 export const createPaymentInputSchema = z.object({
   patient_id: z.number(),
   prescription_id: z.number().nullable().optional(),
+  encounter_id: z.number().nullable().optional(),
+  // Required for insurance payments
+  insurance_policy_id: z.number().nullable().optional(),
   amount: z.number().positive(),
   payment_method: paymentMethodSchema,
   notes: z.string().nullable().optional(),
@@ -169,6 +917,119 @@ export const createPaymentInputSchema = z.object({
 });
 export type CreatePaymentInput = z.infer<typeof createPaymentInputSchema>;
 
+// Insurance schemas
+export const createInsurerInputSchema = z.object({
+  name: z.string().trim().min(1),
+  payer_code: z.string().trim().min(1).nullable().optional(),
+  phone: z.string().nullable().optional()
+});
+export type CreateInsurerInput = z.infer<typeof createInsurerInputSchema>;
+
+export const updateInsurerInputSchema = z.object({
+  id: z.number(),
+  name: z.string().trim().min(1).optional(),
+  payer_code: z.string().trim().min(1).nullable().optional(),
+  phone: z.string().nullable().optional(),
+  is_active: z.boolean().optional()
+});
+export type UpdateInsurerInput = z.infer<typeof updateInsurerInputSchema>;
+
+const refineValidity = (value: { valid_from?: Date; valid_to?: Date | null }, ctx: z.RefinementCtx) => {
+  if (value.valid_from && value.valid_to && value.valid_to < value.valid_from) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['valid_to'], message: 'valid_to must not be before valid_from' });
+  }
+};
+
+export const createInsurancePolicyInputSchema = z.object({
+  patient_id: z.number(),
+  insurer_id: z.number(),
+  member_id: z.string().trim().min(1),
+  group_number: z.string().trim().min(1).nullable().optional(),
+  priority: policyPrioritySchema.default('primary'),
+  valid_from: z.coerce.date(),
+  valid_to: z.coerce.date().nullable().optional(),
+  coverage_percent: z.number().min(0).max(100),
+  copay_amount: z.number().nonnegative().default(0)
+}).superRefine(refineValidity);
+export type CreateInsurancePolicyInput = z.infer<typeof createInsurancePolicyInputSchema>;
+
+export const updateInsurancePolicyInputSchema = z.object({
+  id: z.number(),
+  member_id: z.string().trim().min(1).optional(),
+  group_number: z.string().trim().min(1).nullable().optional(),
+  priority: policyPrioritySchema.optional(),
+  valid_from: z.coerce.date().optional(),
+  valid_to: z.coerce.date().nullable().optional(),
+  coverage_percent: z.number().min(0).max(100).optional(),
+  copay_amount: z.number().nonnegative().optional()
+}).superRefine(refineValidity);
+export type UpdateInsurancePolicyInput = z.infer<typeof updateInsurancePolicyInputSchema>;
+
+export const listInsurancePoliciesInputSchema = z.object({
+  patient_id: z.number(),
+  // Also list cancelled and expired policies
+  include_inactive: z.boolean().default(false)
+});
+export type ListInsurancePoliciesInput = z.infer<typeof listInsurancePoliciesInputSchema>;
+
+export const insurancePolicyIdInputSchema = z.object({
+  id: z.number()
+});
+export type InsurancePolicyIdInput = z.infer<typeof insurancePolicyIdInputSchema>;
+
+export const checkInsuranceEligibilityInputSchema = z.object({
+  patient_id: z.number(),
+  // Defaults to today
+  date: z.coerce.date().optional(),
+  // Charge to split between the policies and the patient
+  amount: z.number().positive().optional()
+});
+export type CheckInsuranceEligibilityInput = z.infer<typeof checkInsuranceEligibilityInputSchema>;
+
+// Patient document schemas. The file travels base64-encoded; the length cap
+// here only bounds the request, the configured size limit is checked on the
+// decoded content.
+export const uploadPatientDocumentInputSchema = z.object({
+  patient_id: z.number(),
+  prescription_id: z.number().nullable().optional(),
+  encounter_id: z.number().nullable().optional(),
+  category: documentCategorySchema,
+  filename: z.string().trim().min(1).max(255),
+  content_type: z.string().trim().toLowerCase(),
+  content_base64: z.string().min(1).max(30 * 1024 * 1024),
+  description: z.string().nullable().optional()
+});
+export type UploadPatientDocumentInput = z.infer<typeof uploadPatientDocumentInputSchema>;
+
+export const listPatientDocumentsInputSchema = z.object({
+  patient_id: z.number(),
+  prescription_id: z.number().optional(),
+  encounter_id: z.number().optional(),
+  category: documentCategorySchema.optional(),
+  // Also list deleted documents
+  include_deleted: z.boolean().default(false)
+});
+export type ListPatientDocumentsInput = z.infer<typeof listPatientDocumentsInputSchema>;
+
+export const patientDocumentIdInputSchema = z.object({
+  id: z.number()
+});
+export type PatientDocumentIdInput = z.infer<typeof patientDocumentIdInputSchema>;
+
+// Patient timeline query. Both ends of the date range are inclusive.
+export const patientTimelineInputSchema = z.object({
+  patient_id: z.number(),
+  // Defaults to every type the caller may see
+  types: z.array(timelineEventTypeSchema).min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  // Newest first by default
+  order: z.enum(['desc', 'asc']).default('desc'),
+  limit: z.number().int().positive().max(100).default(25),
+  cursor: z.string().optional()
+});
+export type PatientTimelineInput = z.infer<typeof patientTimelineInputSchema>;
+
 // Update schemas
 export const updatePatientInputSchema = z.object({
   id: z.number(),
@@ -185,6 +1046,30 @@ export const updatePatientInputSchema = z.object({
 });
 export type UpdatePatientInput = z.infer<typeof updatePatientInputSchema>;
 
+export const setPatientRestrictedInputSchema = z.object({
+  id: z.number(),
+  is_restricted: z.boolean()
+});
+export type SetPatientRestrictedInput = z.infer<typeof setPatientRestrictedInputSchema>;
+
+export const breakGlassInputSchema = z.object({
+  patient_id: z.number(),
+  reason: z.string().trim().min(10, 'Describe the emergency in at least 10 characters'),
+  duration_minutes: z.number().int().positive().max(240).default(60)
+});
+export type BreakGlassInput = z.infer<typeof breakGlassInputSchema>;
+
+export const listBreakGlassReviewsInputSchema = z.object({
+  status: breakGlassReviewStatusSchema.optional()
+});
+export type ListBreakGlassReviewsInput = z.infer<typeof listBreakGlassReviewsInputSchema>;
+
+export const reviewBreakGlassInputSchema = z.object({
+  id: z.number(),
+  notes: z.string().nullable().optional()
+});
+export type ReviewBreakGlassInput = z.infer<typeof reviewBreakGlassInputSchema>;
+
 export const updateMedicineInputSchema = z.object({
   id: z.number(),
   name: z.string().optional(),
@@ -194,7 +1079,9 @@ export const updateMedicineInputSchema = z.object({
   supplier_info: z.string().nullable().optional(),
   batch_number: z.string().nullable().optional(),
   expiry_date: z.coerce.date().nullable().optional(),
-  storage_conditions: z.string().nullable().optional()
+  storage_conditions: z.string().nullable().optional(),
+  max_daily_dose_mg_per_kg: z.number().positive().nullable().optional(),
+  max_daily_dose_mg: z.number().positive().nullable().optional()
 });
 export type UpdateMedicineInput = z.infer<typeof updateMedicineInputSchema>;
 
@@ -204,6 +1091,67 @@ export const updatePrescriptionStatusInputSchema = z.object({
 });
 export type UpdatePrescriptionStatusInput = z.infer<typeof updatePrescriptionStatusInputSchema>;
 
+// Vitals schemas. Temperature, weight and height may be given in either unit
+// and are stored in °C, kg and cm.
+export const recordVitalsInputSchema = z.object({
+  patient_id: z.number(),
+  encounter_id: z.number().nullable().optional(),
+  systolic_bp: z.number().int().nullable().optional(),
+  diastolic_bp: z.number().int().nullable().optional(),
+  pulse: z.number().int().nullable().optional(),
+  temperature: z.number().nullable().optional(),
+  temperature_unit: temperatureUnitSchema.default('C'),
+  spo2: z.number().int().nullable().optional(),
+  weight: z.number().nullable().optional(),
+  weight_unit: weightUnitSchema.default('kg'),
+  height: z.number().nullable().optional(),
+  height_unit: heightUnitSchema.default('cm'),
+  notes: z.string().nullable().optional(),
+  // Defaults to now; readings taken earlier can be back-dated
+  recorded_at: z.coerce.date().optional()
+});
+export type RecordVitalsInput = z.infer<typeof recordVitalsInputSchema>;
+
+export const vitalsHistoryInputSchema = z.object({
+  patient_id: z.number(),
+  metrics: z.array(vitalMetricSchema).min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+export type VitalsHistoryInput = z.infer<typeof vitalsHistoryInputSchema>;
+
+// Encounter schemas
+export const openEncounterInputSchema = z.object({
+  patient_id: z.number(),
+  doctor_id: z.number().nullable().optional(),
+  reason: z.string().nullable().optional()
+});
+export type OpenEncounterInput = z.infer<typeof openEncounterInputSchema>;
+
+export const updateEncounterInputSchema = z.object({
+  id: z.number(),
+  doctor_id: z.number().nullable().optional(),
+  reason: z.string().nullable().optional(),
+  diagnosis_notes: z.string().nullable().optional()
+});
+export type UpdateEncounterInput = z.infer<typeof updateEncounterInputSchema>;
+
+export const closeEncounterInputSchema = z.object({
+  id: z.number(),
+  // A cancelled visit is one the patient left before being seen
+  status: z.enum(['closed', 'cancelled']).default('closed'),
+  diagnosis_notes: z.string().nullable().optional()
+});
+export type CloseEncounterInput = z.infer<typeof closeEncounterInputSchema>;
+
+export const listEncountersInputSchema = z.object({
+  patient_id: z.number().optional(),
+  doctor_id: z.number().optional(),
+  status: encounterStatusSchema.optional(),
+  limit: z.number().int().positive().max(200).default(50)
+});
+export type ListEncountersInput = z.infer<typeof listEncountersInputSchema>;
+
 // Authentication schemas
 export const loginInputSchema = z.object({
   email: z.string().email(),
@@ -211,6 +1159,174 @@ export const loginInputSchema = z.object({
 });
 export type LoginInput = z.infer<typeof loginInputSchema>;
 
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string()
+});
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
+
+// Permission matrix schemas
+export const setPermissionRolesInputSchema = z.object({
+  permission: permissionSchema,
+  roles: z.array(userRoleSchema)
+});
+export type SetPermissionRolesInput = z.infer<typeof setPermissionRolesInputSchema>;
+
+export const permissionInputSchema = z.object({
+  permission: permissionSchema
+});
+export type PermissionInput = z.infer<typeof permissionInputSchema>;
+
+// API key schemas
+export const createApiKeyInputSchema = z.object({
+  name: z.string().min(1),
+  scopes: z.array(apiKeyScopeSchema).min(1),
+  expires_at: z.coerce.date().nullable().optional()
+});
+export type CreateApiKeyInput = z.infer<typeof createApiKeyInputSchema>;
+
+export const revokeApiKeyInputSchema = z.object({
+  id: z.number()
+});
+export type RevokeApiKeyInput = z.infer<typeof revokeApiKeyInputSchema>;
+
+// Audit log query schema
+export const queryAuditLogInputSchema = z.object({
+  page: z.number().int().positive().default(1),
+  page_size: z.number().int().positive().max(200).default(50),
+  actor_id: z.number().optional(),
+  api_key_id: z.number().optional(),
+  action: auditActionSchema.optional(),
+  entity_type: z.string().optional(),
+  entity_id: z.number().optional(),
+  procedure: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
+export type QueryAuditLogInput = z.infer<typeof queryAuditLogInputSchema>;
+
+// Invitation schemas
+export const createInvitationInputSchema = z.object({
+  email: z.string().email(),
+  role: userRoleSchema,
+  first_name: z.string(),
+  last_name: z.string(),
+  phone: z.string().nullable().optional(),
+  expires_in_hours: z.number().int().positive().max(30 * 24).default(72)
+});
+export type CreateInvitationInput = z.infer<typeof createInvitationInputSchema>;
+
+export const listInvitationsInputSchema = z.object({
+  status: invitationStatusSchema.optional()
+});
+export type ListInvitationsInput = z.infer<typeof listInvitationsInputSchema>;
+
+export const revokeInvitationInputSchema = z.object({
+  id: z.number()
+});
+export type RevokeInvitationInput = z.infer<typeof revokeInvitationInputSchema>;
+
+export const invitationTokenInputSchema = z.object({
+  token: z.string()
+});
+export type InvitationTokenInput = z.infer<typeof invitationTokenInputSchema>;
+
+export const acceptInvitationInputSchema = z.object({
+  token: z.string(),
+  password: z.string()
+});
+export type AcceptInvitationInput = z.infer<typeof acceptInvitationInputSchema>;
+
+// Two-factor authentication schemas
+export const twoFactorCodeInputSchema = z.object({
+  code: z.string()
+});
+export type TwoFactorCodeInput = z.infer<typeof twoFactorCodeInputSchema>;
+
+export const disableTwoFactorInputSchema = z.object({
+  password: z.string(),
+  code: z.string()
+});
+export type DisableTwoFactorInput = z.infer<typeof disableTwoFactorInputSchema>;
+
+export const verifyTwoFactorLoginInputSchema = z.object({
+  challenge_token: z.string(),
+  code: z.string()
+});
+export type VerifyTwoFactorLoginInput = z.infer<typeof verifyTwoFactorLoginInputSchema>;
+
+export const setTwoFactorPolicyInputSchema = z.object({
+  role: userRoleSchema,
+  required: z.boolean()
+});
+export type SetTwoFactorPolicyInput = z.infer<typeof setTwoFactorPolicyInputSchema>;
+
+// Password management schemas
+export const changePasswordInputSchema = z.object({
+  current_password: z.string(),
+  new_password: z.string()
+});
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+
+export const requestPasswordResetInputSchema = z.object({
+  email: z.string().email()
+});
+export type RequestPasswordResetInput = z.infer<typeof requestPasswordResetInputSchema>;
+
+export const resetPasswordInputSchema = z.object({
+  token: z.string(),
+  new_password: z.string()
+});
+export type ResetPasswordInput = z.infer<typeof resetPasswordInputSchema>;
+
+// User management schemas
+export const listUsersInputSchema = z.object({
+  page: z.number().int().positive().default(1),
+  page_size: z.number().int().positive().max(100).default(20),
+  role: userRoleSchema.optional(),
+  is_active: z.boolean().optional(),
+  search: z.string().optional()
+});
+export type ListUsersInput = z.infer<typeof listUsersInputSchema>;
+
+export const updateUserRoleInputSchema = z.object({
+  id: z.number(),
+  role: userRoleSchema
+});
+export type UpdateUserRoleInput = z.infer<typeof updateUserRoleInputSchema>;
+
+export const setUserActiveInputSchema = z.object({
+  id: z.number(),
+  is_active: z.boolean()
+});
+export type SetUserActiveInput = z.infer<typeof setUserActiveInputSchema>;
+
+export const resetUserPasswordInputSchema = z.object({
+  id: z.number()
+});
+export type ResetUserPasswordInput = z.infer<typeof resetUserPasswordInputSchema>;
+
+export const userIdInputSchema = z.object({
+  id: z.number()
+});
+export type UserIdInput = z.infer<typeof userIdInputSchema>;
+
+// Login lockout schemas
+export const getLockoutsInputSchema = z.object({
+  active_only: z.boolean().default(false),
+  limit: z.number().int().positive().max(500).default(100)
+});
+export type GetLockoutsInput = z.infer<typeof getLockoutsInputSchema>;
+
+export const unlockLockoutInputSchema = z.object({
+  id: z.number()
+});
+export type UnlockLockoutInput = z.infer<typeof unlockLockoutInputSchema>;
+
+export const failedLoginSummaryInputSchema = z.object({
+  since: z.coerce.date()
+});
+export type FailedLoginSummaryInput = z.infer<typeof failedLoginSummaryInputSchema>;
+
 // Report input schemas
 export const salesReportInputSchema = z.object({
   start_date: z.coerce.date(),
@@ -225,4 +1341,17 @@ export const medicineUsageReportInputSchema = z.object({
   end_date: z.coerce.date(),
   medicine_id: z.number().optional()
 });
-export type MedicineUsageReportInput = z.infer<typeof medicineUsageReportInputSchema>;
\ No newline at end of file
+export type MedicineUsageReportInput = z.infer<typeof medicineUsageReportInputSchema>;
+
+// Dispensing grouped by diagnosis: either the codes on the prescriptions, or
+// the patients' coded conditions at the time of prescribing. `category` groups
+// codes by their first three characters, e.g. E11 for type 2 diabetes.
+export const diagnosisReportInputSchema = z.object({
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  basis: z.enum(['prescription', 'condition']).default('prescription'),
+  group_by: z.enum(['code', 'category']).default('category'),
+  // Only codes starting with this, e.g. E11
+  code_prefix: z.string().trim().min(1).optional()
+});
+export type DiagnosisReportInput = z.infer<typeof diagnosisReportInputSchema>;
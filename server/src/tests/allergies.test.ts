@@ -0,0 +1,172 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, medicinesTable, patientAllergiesTable } from '../db/schema';
+import { createPatientAllergyInputSchema, type Patient, type User } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import {
+  confirmPatientAllergy,
+  createPatientAllergy,
+  deletePatientAllergy,
+  listPatientAllergies,
+  migrateAllergyText,
+  parseAllergyText,
+  updatePatientAllergy
+} from '../handlers/allergies';
+import { eq } from 'drizzle-orm';
+
+const medicines = [
+  { id: 1, name: 'Amoxicillin 500mg' },
+  { id: 2, name: 'Ibuprofen' }
+];
+
+describe('parseAllergyText', () => {
+  it('should match medicines, categories and substances', () => {
+    const parsed = parseAllergyText('Amoxicillin, NSAIDs, peanuts', medicines);
+
+    expect(parsed.map(allergy => allergy.allergen_type)).toEqual(['medicine', 'category', 'substance']);
+    expect(parsed[0].medicine_id).toEqual(1);
+    expect(parsed[1].medicine_category).toEqual('pain_relievers');
+    expect(parsed[2].substance).toEqual('peanuts');
+  });
+
+  it('should pick up reactions and severity', () => {
+    const parsed = parseAllergyText('Ibuprofen (rash, hives); severe latex allergy - anaphylaxis', medicines);
+
+    expect(parsed).toHaveLength(2);
+    expect(parsed[0]).toMatchObject({ medicine_id: 2, reaction: 'rash, hives', severity: null, source_text: 'Ibuprofen (rash, hives)' });
+    expect(parsed[1]).toMatchObject({ substance: 'latex', reaction: 'anaphylaxis', severity: 'life_threatening' });
+  });
+
+  it('should skip "no known allergies" entries', () => {
+    expect(parseAllergyText('NKDA', medicines)).toEqual([]);
+    expect(parseAllergyText('None', medicines)).toEqual([]);
+  });
+});
+
+describe('patient allergies', () => {
+  let doctor: User;
+  let patient: Patient;
+  let medicineId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    [doctor] = await db.insert(usersTable)
+      .values({
+        email: 'doctor@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'doctor',
+        first_name: 'Dana',
+        last_name: 'Doctor',
+        phone: null
+      })
+      .returning()
+      .execute();
+    [{ id: medicineId }] = await db.insert(medicinesTable)
+      .values({ name: 'Amoxicillin 500mg', category: 'antibiotics', stock_quantity: 10, price_per_unit: '1.50' })
+      .returning()
+      .execute();
+    patient = await createPatient({
+      first_name: 'Jane',
+      last_name: 'Doe',
+      gender: 'female',
+      birthdate: new Date('1985-06-15'),
+      allergies: 'Amoxicillin (hives), shellfish - severe'
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should require the field matching the allergen type', () => {
+    const result = createPatientAllergyInputSchema.safeParse({ patient_id: 1, allergen_type: 'medicine', substance: 'latex' });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should record, update and delete allergies', async () => {
+    const allergy = await createPatientAllergy({
+      patient_id: patient.id,
+      allergen_type: 'substance',
+      substance: 'Latex',
+      reaction: 'Contact dermatitis',
+      severity: 'moderate',
+      verified: true
+    }, doctor.id);
+
+    expect(allergy.status).toEqual('active');
+    expect(allergy.verified_by).toEqual(doctor.id);
+    expect(allergy.substance).toEqual('Latex');
+
+    const updated = await updatePatientAllergy({ id: allergy.id, allergen_type: 'medicine', medicine_id: medicineId }, doctor.id);
+    expect(updated.medicine_id).toEqual(medicineId);
+    expect(updated.substance).toBeNull();
+    expect(updated.reaction).toEqual('Contact dermatitis');
+
+    await expect(updatePatientAllergy({ id: allergy.id, substance: 'Latex' }, doctor.id))
+      .rejects.toThrow(/does not match/i);
+
+    await deletePatientAllergy({ id: allergy.id });
+    expect(await listPatientAllergies({ patient_id: patient.id })).toHaveLength(0);
+  });
+
+  it('should reject unknown patients and medicines', async () => {
+    await expect(createPatientAllergy({ patient_id: 999, allergen_type: 'substance', substance: 'Latex' }, doctor.id))
+      .rejects.toThrow(/patient with ID 999 not found/i);
+    await expect(createPatientAllergy({ patient_id: patient.id, allergen_type: 'medicine', medicine_id: 999 }, doctor.id))
+      .rejects.toThrow(/medicine with ID 999 not found/i);
+  });
+
+  it('should encrypt allergy text at rest', async () => {
+    const allergy = await createPatientAllergy({ patient_id: patient.id, allergen_type: 'substance', substance: 'Latex', reaction: 'Hives' }, doctor.id);
+
+    const [row] = await db.select()
+      .from(patientAllergiesTable)
+      .where(eq(patientAllergiesTable.id, allergy.id))
+      .execute();
+
+    expect(row.substance?.startsWith('enc:')).toBe(true);
+    expect(row.reaction?.startsWith('enc:')).toBe(true);
+  });
+
+  it('should migrate free text into candidates for review', async () => {
+    const result = await migrateAllergyText({}, doctor.id);
+
+    expect(result).toEqual({ patients_processed: 1, candidates_created: 2 });
+
+    const candidates = await listPatientAllergies({ patient_id: patient.id, status: 'candidate' });
+    expect(candidates[0]).toMatchObject({ allergen_type: 'medicine', medicine_id: medicineId, reaction: 'hives' });
+    expect(candidates[1]).toMatchObject({ allergen_type: 'substance', substance: 'shellfish', severity: 'severe' });
+
+    const confirmed = await confirmPatientAllergy({ id: candidates[0].id }, doctor.id);
+    expect(confirmed.status).toEqual('active');
+    expect(confirmed.verified_by).toEqual(doctor.id);
+    await expect(confirmPatientAllergy({ id: candidates[0].id }, doctor.id)).rejects.toThrow(/not found/i);
+
+    const allergies = await listPatientAllergies({ patient_id: patient.id });
+    expect(allergies.map(allergy => allergy.status)).toEqual(['active', 'candidate']);
+  });
+
+  it('should not migrate the same patient twice', async () => {
+    await migrateAllergyText({ patient_id: patient.id }, doctor.id);
+
+    expect(await migrateAllergyText({}, doctor.id)).toEqual({ patients_processed: 0, candidates_created: 0 });
+    expect(await listPatientAllergies({ patient_id: patient.id })).toHaveLength(2);
+  });
+
+  it('should move allergies to the surviving patient on merge', async () => {
+    const duplicate = await createPatient({
+      first_name: 'Jane',
+      last_name: 'Doe',
+      gender: 'female',
+      birthdate: new Date('1985-06-15'),
+      ignore_duplicates: true
+    });
+    await createPatientAllergy({ patient_id: duplicate.id, allergen_type: 'category', medicine_category: 'antibiotics' }, doctor.id);
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, doctor.id);
+
+    const allergies = await listPatientAllergies({ patient_id: duplicate.id });
+    expect(allergies).toHaveLength(1);
+    expect(allergies[0].patient_id).toEqual(patient.id);
+  });
+});
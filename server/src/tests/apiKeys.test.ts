@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, apiKeysTable } from '../db/schema';
+import {
+  createApiKey,
+  listApiKeys,
+  revokeApiKey,
+  authenticateApiKey,
+  isApiKey
+} from '../handlers/apiKeys';
+import {
+  createContext,
+  createCallerFactory,
+  router,
+  protectedProcedure,
+  scopedProcedure,
+  type Context
+} from '../trpc';
+import { eq } from 'drizzle-orm';
+
+// One procedure per kind of access an integration might attempt
+const testRouter = router({
+  medicines: scopedProcedure('medicines:read', 'medicines.read').query(() => 'medicines'),
+  payments: scopedProcedure('payments:read', 'payments.read').query(() => 'payments'),
+  staffOnly: protectedProcedure.query(() => 'staff'),
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+const expectCode = async (promise: Promise<unknown>, code: TRPCError['code']) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toEqual(code);
+    return;
+  }
+  throw new Error(`Expected ${code} error`);
+};
+
+const contextForKey = (key: string): Promise<Context> =>
+  createContext({ req: { headers: { authorization: `Bearer ${key}` }, socket: { remoteAddress: '10.0.0.5' } } });
+
+describe('API keys', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(resetDB);
+
+  it('should return the key once and store only its hash', async () => {
+    const { apiKey, key } = await createApiKey({ name: 'Lab system', scopes: ['medicines:read'] }, adminId);
+
+    expect(isApiKey(key)).toBe(true);
+    expect(key).toContain(apiKey.prefix);
+    expect(apiKey.scopes).toEqual(['medicines:read']);
+    expect(apiKey.created_by).toEqual(adminId);
+    expect((apiKey as Record<string, unknown>)['key_hash']).toBeUndefined();
+
+    const [row] = await db.select().from(apiKeysTable).where(eq(apiKeysTable.id, apiKey.id)).execute();
+    expect(row.key_hash).not.toEqual(key);
+  });
+
+  it('should reject an expiry in the past', async () => {
+    await expect(createApiKey({ name: 'Old', scopes: ['payments:read'], expires_at: new Date(Date.now() - 1000) }, adminId))
+      .rejects.toThrow(/future/i);
+  });
+
+  it('should authenticate a key and record its last use', async () => {
+    const { apiKey, key } = await createApiKey({ name: 'Accounting', scopes: ['payments:read', 'reports:read'] }, adminId);
+
+    const principal = await authenticateApiKey(key, '10.0.0.5');
+
+    expect(principal).toEqual({ id: apiKey.id, name: 'Accounting', scopes: ['payments:read', 'reports:read'] });
+    const [listed] = await listApiKeys();
+    expect(listed.last_used_at).toBeInstanceOf(Date);
+    expect(listed.last_used_ip).toEqual('10.0.0.5');
+  });
+
+  it('should reject unknown, revoked and expired keys', async () => {
+    const revoked = await createApiKey({ name: 'Revoked', scopes: ['medicines:read'] }, adminId);
+    const expired = await createApiKey({ name: 'Expired', scopes: ['medicines:read'], expires_at: new Date(Date.now() + 60 * 1000) }, adminId);
+    await revokeApiKey({ id: revoked.apiKey.id });
+    await db.update(apiKeysTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(apiKeysTable.id, expired.apiKey.id))
+      .execute();
+
+    expect(await authenticateApiKey('cpk_unknown_key', null)).toBeNull();
+    expect(await authenticateApiKey(revoked.key, null)).toBeNull();
+    expect(await authenticateApiKey(expired.key, null)).toBeNull();
+  });
+
+  it('should not revoke a key twice', async () => {
+    const { apiKey } = await createApiKey({ name: 'Lab system', scopes: ['medicines:read'] }, adminId);
+    await revokeApiKey({ id: apiKey.id });
+
+    await expect(revokeApiKey({ id: apiKey.id })).rejects.toThrow(/not found/i);
+  });
+
+  it('should resolve a bearer API key into the request context', async () => {
+    const { apiKey, key } = await createApiKey({ name: 'Lab system', scopes: ['medicines:read'] }, adminId);
+
+    const ctx = await contextForKey(key);
+
+    expect(ctx.user).toBeNull();
+    expect(ctx.apiKey!.id).toEqual(apiKey.id);
+  });
+
+  it('should enforce scopes on each procedure', async () => {
+    const { key } = await createApiKey({ name: 'Lab system', scopes: ['medicines:read'] }, adminId);
+    const caller = createCaller(await contextForKey(key));
+
+    expect(await caller.medicines()).toEqual('medicines');
+    await expectCode(caller.payments(), 'FORBIDDEN');
+    await expectCode(caller.staffOnly(), 'FORBIDDEN');
+  });
+
+  it('should treat a rejected key as unauthenticated', async () => {
+    const { apiKey, key } = await createApiKey({ name: 'Lab system', scopes: ['medicines:read'] }, adminId);
+    await revokeApiKey({ id: apiKey.id });
+
+    const caller = createCaller(await contextForKey(key));
+
+    await expectCode(caller.medicines(), 'UNAUTHORIZED');
+  });
+
+  it('should still apply permission checks to staff on scoped procedures', async () => {
+    const [admin] = await db.select().from(usersTable).execute();
+    const staffContext = (role: 'admin' | 'doctor'): Context => ({
+      user: { ...admin, role },
+      sessionId: 1,
+      twoFactorEnrollmentRequired: false,
+      apiKey: null,
+      ip: null
+    });
+
+    expect(await createCaller(staffContext('admin')).payments()).toEqual('payments');
+    await expectCode(createCaller(staffContext('doctor')).payments(), 'FORBIDDEN');
+    expect(await createCaller(staffContext('doctor')).medicines()).toEqual('medicines');
+  });
+});
@@ -0,0 +1,239 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, auditLogTable } from '../db/schema';
+import {
+  createPatientInputSchema,
+  mergePatientsInputSchema,
+  updateInsurerInputSchema,
+  updatePatientInputSchema,
+  type CreatePatientInput,
+  type User
+} from '../schema';
+import {
+  createPatient,
+  getPatientById,
+  getPatientMergeSnapshot,
+  mergePatients,
+  updatePatient,
+  CLINICAL_PATIENT_FIELDS
+} from '../handlers/patients';
+import { createInsurer, getInsurerById, updateInsurer } from '../handlers/insurance';
+import { diffSnapshots, recordAuditEvent, queryAuditLog } from '../handlers/audit';
+import { createCallerFactory, router, protectedProcedure, audited } from '../trpc';
+
+const testPatientInput: CreatePatientInput = {
+  first_name: 'John',
+  last_name: 'Doe',
+  email: 'john.doe@example.com',
+  phone: '+1234567890',
+  address: '123 Main St',
+  gender: 'male',
+  birthdate: new Date('1985-05-15'),
+  allergies: 'Penicillin',
+  chronic_conditions: null,
+  medical_history: null
+};
+
+// Same wiring as the patients routes and insurance.updateInsurer in index.ts
+const testRouter = router({
+  create: protectedProcedure
+    .input(createPatientInputSchema)
+    .use(audited({ action: 'create', entityType: 'patient', idFrom: 'result' }))
+    .mutation(({ input }) => createPatient(input)),
+  getById: protectedProcedure
+    .input(z.object({ id: z.number() }))
+    .use(audited({ action: 'read', entityType: 'patient', idFrom: { input: 'id' } }))
+    .query(({ input }) => getPatientById(input.id)),
+  update: protectedProcedure
+    .input(updatePatientInputSchema)
+    .use(audited({ action: 'update', entityType: 'patient', idFrom: { input: 'id' }, snapshot: getPatientById, redact: CLINICAL_PATIENT_FIELDS }))
+    .mutation(({ input }) => updatePatient(input)),
+  merge: protectedProcedure
+    .input(mergePatientsInputSchema)
+    .use(audited({ action: 'update', entityType: 'patient', idFrom: { input: 'survivor_id' }, snapshot: getPatientMergeSnapshot, redact: CLINICAL_PATIENT_FIELDS }))
+    .mutation(({ input, ctx }) => mergePatients(input, ctx.user.id)),
+  updateInsurer: protectedProcedure
+    .input(updateInsurerInputSchema)
+    .use(audited({ action: 'update', entityType: 'insurer', idFrom: { input: 'id' }, snapshot: getInsurerById }))
+    .mutation(({ input }) => updateInsurer(input)),
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+describe('diffSnapshots', () => {
+  it('should list only the fields that changed', () => {
+    const before = { id: 1, first_name: 'John', phone: null, birthdate: new Date('1985-05-15'), updated_at: new Date(1) };
+    const after = { id: 1, first_name: 'Johnny', phone: '555', birthdate: new Date('1985-05-15'), updated_at: new Date(2) };
+
+    expect(diffSnapshots(before, after)).toEqual({
+      first_name: { before: 'John', after: 'Johnny' },
+      phone: { before: null, after: '555' }
+    });
+  });
+
+  it('should mask the values of redacted fields', () => {
+    const before = { id: 1, allergies: 'Penicillin', phone: null };
+    const after = { id: 1, allergies: 'Latex', phone: null };
+
+    expect(diffSnapshots(before, after, ['allergies'])).toEqual({
+      allergies: { before: '[redacted]', after: '[redacted]' }
+    });
+  });
+
+  it('should return null when nothing changed', () => {
+    expect(diffSnapshots({ id: 1, items: [{ qty: 1 }] }, { id: 1, items: [{ qty: 1 }] })).toBeNull();
+  });
+});
+
+describe('audit middleware', () => {
+  let user: User;
+  let caller: ReturnType<typeof createCaller>;
+
+  beforeEach(async () => {
+    await createDB();
+    [user] = await db.insert(usersTable)
+      .values({
+        email: 'doctor@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'doctor',
+        first_name: 'Dana',
+        last_name: 'Doctor',
+        phone: null
+      })
+      .returning()
+      .execute();
+    caller = createCaller({ user, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: '10.0.0.7' });
+  });
+
+  afterEach(resetDB);
+
+  it('should record creates with the new id', async () => {
+    const patient = await caller.create(testPatientInput);
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(1);
+    expect(entries[0].action).toEqual('create');
+    expect(entries[0].procedure).toEqual('create');
+    expect(entries[0].entity_type).toEqual('patient');
+    expect(entries[0].entity_id).toEqual(patient.id);
+    expect(entries[0].actor_id).toEqual(user.id);
+    expect(entries[0].actor_role).toEqual('doctor');
+    expect(entries[0].ip_address).toEqual('10.0.0.7');
+  });
+
+  it('should record reads as access events', async () => {
+    const patient = await createPatient(testPatientInput);
+
+    await caller.getById({ id: patient.id });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.action).toEqual('read');
+    expect(entry.entity_id).toEqual(patient.id);
+    expect(entry.changes).toBeNull();
+  });
+
+  it('should record a before/after diff for updates', async () => {
+    const patient = await createPatient(testPatientInput);
+
+    await caller.update({ id: patient.id, phone: '+1999', allergies: null });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.action).toEqual('update');
+    expect(entry.changes).toEqual({
+      phone: { before: '+1234567890', after: '+1999' },
+      allergies: { before: '[redacted]', after: '[redacted]' }
+    });
+  });
+
+  it('should record what a merge changed on the survivor', async () => {
+    const survivor = await createPatient({ ...testPatientInput, phone: null, allergies: null });
+    const duplicate = await createPatient({ ...testPatientInput, first_name: 'Jon', ignore_duplicates: true });
+
+    await caller.merge({ survivor_id: survivor.id, duplicate_id: duplicate.id });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.entity_id).toEqual(survivor.id);
+    expect(entry.changes).toEqual({
+      phone: { before: null, after: '+1234567890' },
+      allergies: { before: '[redacted]', after: '[redacted]' },
+      merged_patient_ids: { before: [], after: [duplicate.id] }
+    });
+  });
+
+  it('should record insurer changes', async () => {
+    const insurer = await createInsurer({ name: 'Acme Health', payer_code: 'ACME' });
+
+    await caller.updateInsurer({ id: insurer.id, name: 'Acme Health Plus', is_active: false });
+
+    const [entry] = await db.select().from(auditLogTable).execute();
+    expect(entry.entity_type).toEqual('insurer');
+    expect(entry.changes).toEqual({
+      name: { before: 'Acme Health', after: 'Acme Health Plus' },
+      is_active: { before: true, after: false }
+    });
+  });
+
+  it('should not record calls that fail', async () => {
+    await expect(caller.update({ id: 999, phone: '+1999' })).rejects.toThrow(/not found/i);
+
+    const entries = await db.select().from(auditLogTable).execute();
+    expect(entries).toHaveLength(0);
+  });
+});
+
+describe('queryAuditLog', () => {
+  let actorId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const [user] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+    actorId = user.id;
+
+    const base = { actorId, actorRole: 'admin' as const, ipAddress: null };
+    await recordAuditEvent({ ...base, action: 'read', procedure: 'patients.getById', entityType: 'patient', entityId: 1 });
+    await recordAuditEvent({ ...base, action: 'update', procedure: 'patients.update', entityType: 'patient', entityId: 1, changes: { phone: { before: '1', after: '2' } } });
+    await recordAuditEvent({ ...base, action: 'read', procedure: 'payments.getById', entityType: 'payment', entityId: 5 });
+    await recordAuditEvent({ ...base, actorId: null, actorRole: null, action: 'create', procedure: 'patients.create', entityType: 'patient', entityId: 2 });
+  });
+
+  afterEach(resetDB);
+
+  it('should return everything newest first', async () => {
+    const result = await queryAuditLog({ page: 1, page_size: 50 });
+
+    expect(result.total).toEqual(4);
+    expect(result.entries[0].procedure).toEqual('patients.create');
+  });
+
+  it('should filter by entity, action and actor', async () => {
+    const patientOne = await queryAuditLog({ page: 1, page_size: 50, entity_type: 'patient', entity_id: 1 });
+    expect(patientOne.total).toEqual(2);
+
+    const reads = await queryAuditLog({ page: 1, page_size: 50, action: 'read' });
+    expect(reads.entries.map(entry => entry.entity_type).sort()).toEqual(['patient', 'payment']);
+
+    const byActor = await queryAuditLog({ page: 1, page_size: 50, actor_id: actorId });
+    expect(byActor.total).toEqual(3);
+  });
+
+  it('should filter by time range and paginate', async () => {
+    const future = await queryAuditLog({ page: 1, page_size: 50, from: new Date(Date.now() + 60 * 1000) });
+    expect(future.total).toEqual(0);
+
+    const secondPage = await queryAuditLog({ page: 2, page_size: 3 });
+    expect(secondPage.total).toEqual(4);
+    expect(secondPage.entries).toHaveLength(1);
+  });
+});
@@ -1,9 +1,23 @@
-import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
 import { usersTable } from '../db/schema';
 import { type CreateUserInput, type LoginInput } from '../schema';
-import { registerUser, loginUser, getCurrentUser } from '../handlers/auth';
+import {
+  registerUser,
+  isBootstrapRequired,
+  bootstrapAdmin,
+  loginUser,
+  getCurrentUser,
+  generateToken,
+  verifyToken,
+  hashPassword,
+  verifyPassword,
+  needsRehash,
+  refreshAccessToken
+} from '../handlers/auth';
+import { revokeSession } from '../handlers/sessions';
+import * as crypto from 'crypto';
 import { eq } from 'drizzle-orm';
 
 // Test inputs
@@ -21,6 +35,15 @@ const testLoginInput: LoginInput = {
   password: 'password123'
 };
 
+// Log in a user without two-factor and return the session tokens
+const loginWithoutTwoFactor = async (input: LoginInput) => {
+  const result = await loginUser(input);
+  if (result.twoFactorRequired) {
+    throw new Error('Unexpected two-factor challenge');
+  }
+  return result;
+};
+
 const testDoctorInput: CreateUserInput = {
   email: 'doctor@clinic.com',
   password: 'securepass',
@@ -90,19 +113,16 @@ describe('registerUser', () => {
   });
 
   it('should create different password hashes for same password', async () => {
-    // This test ensures we're not using a static hash
     const user1 = await registerUser(testUserInput);
     
     await db.delete(usersTable).where(eq(usersTable.email, testUserInput.email)).execute();
     
     const user2 = await registerUser(testUserInput);
 
-    // With proper salt, these would be different. With our simple hash, they'll be the same
-    // but at least we're testing that passwords are hashed
-    expect(user1.password_hash).toBeDefined();
-    expect(user2.password_hash).toBeDefined();
-    expect(user1.password_hash).not.toEqual('password123');
-    expect(user2.password_hash).not.toEqual('password123');
+    // Each hash is salted, so the same password never produces the same hash
+    expect(user1.password_hash).not.toEqual(user2.password_hash);
+    expect(user1.password_hash).toMatch(/^scrypt\$/);
+    expect(user2.password_hash).toMatch(/^scrypt\$/);
   });
 
   it('should prevent duplicate email registration', async () => {
@@ -126,6 +146,40 @@ describe('registerUser', () => {
   });
 });
 
+describe('bootstrapAdmin', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  const { role, ...bootstrapInput } = testUserInput;
+
+  it('should create the first admin on an empty install', async () => {
+    expect(await isBootstrapRequired()).toBe(true);
+
+    const admin = await bootstrapAdmin(bootstrapInput);
+
+    expect(admin.role).toEqual('admin');
+    expect((admin as Record<string, unknown>)['password_hash']).toBeUndefined();
+    expect(await isBootstrapRequired()).toBe(false);
+  });
+
+  it('should be disabled once any user exists', async () => {
+    await registerUser(testDoctorInput);
+
+    await expect(bootstrapAdmin(bootstrapInput)).rejects.toThrow(/already been completed/i);
+  });
+
+  it('should only let one of two concurrent setups through', async () => {
+    const results = await Promise.allSettled([
+      bootstrapAdmin(bootstrapInput),
+      bootstrapAdmin({ ...bootstrapInput, email: 'other@example.com' })
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const users = await db.select().from(usersTable).execute();
+    expect(users).toHaveLength(1);
+  });
+});
+
 describe('loginUser', () => {
   beforeEach(createDB);
   afterEach(resetDB);
@@ -135,15 +189,26 @@ describe('loginUser', () => {
     const registeredUser = await registerUser(testUserInput);
 
     // Login
-    const result = await loginUser(testLoginInput);
+    const result = await loginWithoutTwoFactor(testLoginInput);
 
     expect(result.user).toBeDefined();
     expect(result.token).toBeDefined();
     expect(result.user.id).toEqual(registeredUser.id);
     expect(result.user.email).toEqual('test@example.com');
     expect(result.user.role).toEqual('admin');
+    expect(result.user).not.toHaveProperty('password_hash');
     expect(typeof result.token).toBe('string');
-    expect(result.token).toMatch(/^jwt\./); // JWT format check
+    expect(result.token.split('.')).toHaveLength(3); // JWT format check
+    expect(typeof result.refreshToken).toBe('string');
+  });
+
+  it('should start a separate session for each login', async () => {
+    await registerUser(testUserInput);
+
+    const first = await loginWithoutTwoFactor(testLoginInput);
+    const second = await loginWithoutTwoFactor(testLoginInput);
+
+    expect(verifyToken(first.token)!.sid).not.toEqual(verifyToken(second.token)!.sid);
   });
 
   it('should reject login with wrong password', async () => {
@@ -178,8 +243,62 @@ describe('loginUser', () => {
       .where(eq(usersTable.id, registeredUser.id))
       .execute();
 
-    // Try to login
-    expect(loginUser(testLoginInput)).rejects.toThrow(/account is inactive/i);
+    // Same answer as a wrong password, so the account's state is not revealed
+    await expect(loginUser(testLoginInput)).rejects.toThrow(/invalid email or password/i);
+  });
+
+  it('should upgrade a legacy SHA-256 hash on successful login', async () => {
+    const legacyHash = crypto.createHash('sha256').update('password123').digest('hex');
+    const [legacyUser] = await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: legacyHash,
+        role: 'admin',
+        first_name: 'John',
+        last_name: 'Doe',
+        phone: null
+      })
+      .returning()
+      .execute();
+
+    const result = await loginWithoutTwoFactor(testLoginInput);
+
+    expect(result.user.id).toEqual(legacyUser.id);
+
+    // Stored hash was replaced and still accepts the same password
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.id, legacyUser.id))
+      .execute();
+
+    expect(users[0].password_hash).not.toEqual(legacyHash);
+    expect(users[0].password_hash).toMatch(/^scrypt\$/);
+
+    const secondLogin = await loginWithoutTwoFactor(testLoginInput);
+    expect(secondLogin.user.id).toEqual(legacyUser.id);
+  });
+
+  it('should keep a legacy hash after a failed login', async () => {
+    const legacyHash = crypto.createHash('sha256').update('password123').digest('hex');
+    await db.insert(usersTable)
+      .values({
+        email: 'test@example.com',
+        password_hash: legacyHash,
+        role: 'admin',
+        first_name: 'John',
+        last_name: 'Doe',
+        phone: null
+      })
+      .execute();
+
+    await expect(loginUser({ ...testLoginInput, password: 'wrongpassword' })).rejects.toThrow(/invalid email or password/i);
+
+    const users = await db.select()
+      .from(usersTable)
+      .where(eq(usersTable.email, 'test@example.com'))
+      .execute();
+
+    expect(users[0].password_hash).toEqual(legacyHash);
   });
 
   it('should generate valid token format', async () => {
@@ -187,14 +306,22 @@ describe('loginUser', () => {
     await registerUser(testUserInput);
 
     // Login
-    const result = await loginUser(testLoginInput);
+    const result = await loginWithoutTwoFactor(testLoginInput);
 
-    // Check token format (simple JWT-like structure)
+    // Check token format (header.payload.signature)
     const tokenParts = result.token.split('.');
     expect(tokenParts).toHaveLength(3);
-    expect(tokenParts[0]).toEqual('jwt');
-    expect(tokenParts[1]).toBeDefined(); // Payload
-    expect(tokenParts[2]).toEqual('signature'); // Signature placeholder
+
+    const header = JSON.parse(Buffer.from(tokenParts[0], 'base64url').toString());
+    expect(header.alg).toEqual('HS256');
+    expect(header.kid).toBeDefined();
+
+    const payload = JSON.parse(Buffer.from(tokenParts[1], 'base64url').toString());
+    expect(payload.sub).toEqual(result.user.id.toString());
+    expect(payload.role).toEqual('admin');
+    expect(typeof payload.iat).toBe('number');
+    expect(payload.exp).toBeGreaterThan(payload.iat);
+    expect(typeof payload.jti).toBe('string');
   });
 });
 
@@ -205,7 +332,7 @@ describe('getCurrentUser', () => {
   it('should return user for valid token', async () => {
     // Register and login user
     const registeredUser = await registerUser(testUserInput);
-    const loginResult = await loginUser(testLoginInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
 
     // Get current user
     const currentUser = await getCurrentUser(loginResult.token);
@@ -215,6 +342,18 @@ describe('getCurrentUser', () => {
     expect(currentUser!.email).toEqual('test@example.com');
     expect(currentUser!.role).toEqual('admin');
     expect(currentUser!.is_active).toBe(true);
+    expect(currentUser).not.toHaveProperty('password_hash');
+  });
+
+  it('should return null once the session is revoked', async () => {
+    await registerUser(testUserInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
+
+    await revokeSession(verifyToken(loginResult.token)!.sid);
+
+    const result = await getCurrentUser(loginResult.token);
+
+    expect(result).toBeNull();
   });
 
   it('should return null for invalid token', async () => {
@@ -269,7 +408,7 @@ describe('getCurrentUser', () => {
   it('should return null for inactive user', async () => {
     // Register and login user
     const registeredUser = await registerUser(testUserInput);
-    const loginResult = await loginUser(testLoginInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
 
     // Deactivate user after login
     await db.update(usersTable)
@@ -305,4 +444,181 @@ describe('getCurrentUser', () => {
       expect(result).toBeNull();
     }
   });
-});
\ No newline at end of file
+});
+
+describe('refreshAccessToken', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should issue a new access token and rotate the refresh token', async () => {
+    const registeredUser = await registerUser(testUserInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
+
+    const result = await refreshAccessToken({ refresh_token: loginResult.refreshToken });
+
+    expect(result.refreshToken).not.toEqual(loginResult.refreshToken);
+    const currentUser = await getCurrentUser(result.token);
+    expect(currentUser!.id).toEqual(registeredUser.id);
+
+    // The old refresh token can no longer be used
+    await expect(refreshAccessToken({ refresh_token: loginResult.refreshToken })).rejects.toThrow(/reuse detected/i);
+  });
+
+  it('should refuse to refresh for an inactive user', async () => {
+    const registeredUser = await registerUser(testUserInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, registeredUser.id))
+      .execute();
+
+    await expect(refreshAccessToken({ refresh_token: loginResult.refreshToken })).rejects.toThrow(/invalid refresh token/i);
+  });
+
+  it('should refuse to refresh a revoked session', async () => {
+    await registerUser(testUserInput);
+    const loginResult = await loginWithoutTwoFactor(testLoginInput);
+
+    await revokeSession(verifyToken(loginResult.token)!.sid);
+
+    await expect(refreshAccessToken({ refresh_token: loginResult.refreshToken })).rejects.toThrow(/revoked/i);
+  });
+});
+
+describe('password hashing', () => {
+  it('should store scrypt parameters in the hash', async () => {
+    const hash = await hashPassword('password123');
+    const parts = hash.split('$');
+
+    expect(parts).toHaveLength(6);
+    expect(parts[0]).toEqual('scrypt');
+    expect(parseInt(parts[1], 10)).toBeGreaterThanOrEqual(16384);
+    expect(needsRehash(hash)).toBe(false);
+  });
+
+  it('should verify the right password and reject the wrong one', async () => {
+    const hash = await hashPassword('password123');
+
+    expect(await verifyPassword('password123', hash)).toBe(true);
+    expect(await verifyPassword('password124', hash)).toBe(false);
+  });
+
+  it('should verify legacy SHA-256 hashes and flag them for rehash', async () => {
+    const legacyHash = crypto.createHash('sha256').update('password123').digest('hex');
+
+    expect(await verifyPassword('password123', legacyHash)).toBe(true);
+    expect(await verifyPassword('password124', legacyHash)).toBe(false);
+    expect(needsRehash(legacyHash)).toBe(true);
+  });
+
+  it('should flag hashes made with weaker parameters for rehash', () => {
+    expect(needsRehash('scrypt$1024$8$1$c2FsdA==$aGFzaA==')).toBe(true);
+  });
+
+  it('should reject malformed hashes', async () => {
+    expect(await verifyPassword('password123', 'hashedpassword')).toBe(false);
+    expect(await verifyPassword('password123', 'scrypt$x$8$1$c2FsdA==$aGFzaA==')).toBe(false);
+    expect(await verifyPassword('password123', '')).toBe(false);
+  });
+});
+
+describe('token signing', () => {
+  const originalKeys = process.env['JWT_SIGNING_KEYS'];
+
+  beforeAll(() => {
+    process.env['JWT_SIGNING_KEYS'] = 'current:current-test-secret';
+  });
+
+  afterAll(() => {
+    if (originalKeys === undefined) {
+      delete process.env['JWT_SIGNING_KEYS'];
+    } else {
+      process.env['JWT_SIGNING_KEYS'] = originalKeys;
+    }
+  });
+
+  const user = { id: 42, role: 'cashier' as const };
+
+  it('should verify a freshly signed token', () => {
+    const payload = verifyToken(generateToken(user, 7));
+
+    expect(payload).not.toBeNull();
+    expect(payload!.sub).toEqual('42');
+    expect(payload!.role).toEqual('cashier');
+    expect(payload!.sid).toEqual(7);
+  });
+
+  it('should issue unique token ids', () => {
+    const first = verifyToken(generateToken(user, 7));
+    const second = verifyToken(generateToken(user, 7));
+
+    expect(first!.jti).not.toEqual(second!.jti);
+  });
+
+  it('should reject a token with a tampered payload', () => {
+    const [header, payload, signature] = generateToken(user, 7).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forgedPayload = Buffer.from(JSON.stringify({ ...claims, role: 'admin' })).toString('base64url');
+
+    expect(verifyToken(`${header}.${forgedPayload}.${signature}`)).toBeNull();
+  });
+
+  it('should reject a token with a tampered signature', () => {
+    const [header, payload, signature] = generateToken(user, 7).split('.');
+    const flipped = (signature[0] === 'A' ? 'B' : 'A') + signature.slice(1);
+
+    expect(verifyToken(`${header}.${payload}.${flipped}`)).toBeNull();
+  });
+
+  it('should reject an unsigned token', () => {
+    const [, payload] = generateToken(user, 7).split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT', kid: 'current' })).toString('base64url');
+
+    expect(verifyToken(`${header}.${payload}.`)).toBeNull();
+  });
+
+  it('should reject an expired token', () => {
+    const token = generateToken(user, 7, -1);
+
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it('should reject a token signed with an unknown key', () => {
+    process.env['JWT_SIGNING_KEYS'] = 'rogue:some-other-secret';
+    const token = generateToken(user, 7);
+    process.env['JWT_SIGNING_KEYS'] = 'current:current-test-secret';
+
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it('should reject a token whose key id points to a different secret', () => {
+    process.env['JWT_SIGNING_KEYS'] = 'current:wrong-secret';
+    const token = generateToken(user, 7);
+    process.env['JWT_SIGNING_KEYS'] = 'current:current-test-secret';
+
+    expect(verifyToken(token)).toBeNull();
+  });
+
+  it('should accept tokens signed with a rotated-out key', () => {
+    const token = generateToken(user, 7);
+    process.env['JWT_SIGNING_KEYS'] = 'next:next-test-secret,current:current-test-secret';
+
+    expect(verifyToken(token)).not.toBeNull();
+
+    // New tokens are signed with the first key
+    const header = JSON.parse(Buffer.from(generateToken(user, 7).split('.')[0], 'base64url').toString());
+    expect(header.kid).toEqual('next');
+
+    process.env['JWT_SIGNING_KEYS'] = 'current:current-test-secret';
+  });
+
+  it('should reject tokens once their key is retired', () => {
+    const token = generateToken(user, 7);
+    process.env['JWT_SIGNING_KEYS'] = 'next:next-test-secret';
+
+    expect(verifyToken(token)).toBeNull();
+
+    process.env['JWT_SIGNING_KEYS'] = 'current:current-test-secret';
+  });
+});
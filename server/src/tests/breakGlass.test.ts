@@ -0,0 +1,222 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, breakGlassAccessTable, medicinesTable } from '../db/schema';
+import { type Patient, type Prescription, type User } from '../schema';
+import { createPatient, mergePatients, setPatientRestricted } from '../handlers/patients';
+import { createPrescription } from '../handlers/prescriptions';
+import { openEncounter } from '../handlers/encounters';
+import { createPayment } from '../handlers/payments';
+import { createApiKey } from '../handlers/apiKeys';
+import { breakGlass, canAccessPatient, listBreakGlassReviews, reviewBreakGlass } from '../handlers/breakGlass';
+import { createCallerFactory } from '../trpc';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+const REASON = 'Unconscious in the emergency room, need allergy history';
+
+describe('break-glass access', () => {
+  let admin: User;
+  let doctor: User;
+  let vip: Patient;
+
+  const callerFor = (user: User) =>
+    createCaller({ user, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+  const prescribeFor = async (patientId: number): Promise<Prescription> => {
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name: `Amoxicillin ${patientId}`, category: 'antibiotics', stock_quantity: 100, price_per_unit: '1.25' })
+      .returning()
+      .execute();
+    return createPrescription({
+      patient_id: patientId,
+      doctor_id: doctor.id,
+      items: [{ medicine_id: medicine.id, quantity_prescribed: 10, dosage_instructions: 'Twice daily' }]
+    });
+  };
+
+  const insertUser = async (email: string, role: User['role']): Promise<User> => {
+    const [user] = await db.insert(usersTable)
+      .values({
+        email,
+        password_hash: 'hashedpassword',
+        role,
+        first_name: role === 'admin' ? 'Alice' : 'Dana',
+        last_name: role === 'admin' ? 'Admin' : 'Doctor',
+        phone: null
+      })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    admin = await insertUser('admin@clinic.com', 'admin');
+    doctor = await insertUser('doctor@clinic.com', 'doctor');
+    const created = await createPatient({
+      first_name: 'Famous',
+      last_name: 'Person',
+      gender: 'female',
+      birthdate: new Date('1980-01-01'),
+      allergies: 'Penicillin'
+    });
+    vip = await setPatientRestricted({ id: created.id, is_restricted: true });
+  });
+
+  afterEach(resetDB);
+
+  it('should block restricted records without a grant', async () => {
+    expect(vip.is_restricted).toBe(true);
+    expect(await canAccessPatient(admin, vip.id)).toBe(true);
+    expect(await canAccessPatient(doctor, vip.id)).toBe(false);
+
+    try {
+      await callerFor(doctor).patients.getById({ id: vip.id });
+      throw new Error('Expected FORBIDDEN error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toEqual('FORBIDDEN');
+    }
+  });
+
+  it('should block a restricted patient\'s prescriptions and payments without a grant', async () => {
+    const prescription = await prescribeFor(vip.id);
+    const payment = await createPayment({ patient_id: vip.id, amount: 20, payment_method: 'cash', created_by: admin.id });
+    const cashier = await insertUser('cashier@clinic.com', 'cashier');
+
+    await expect(callerFor(doctor).prescriptions.getById({ id: prescription.id })).rejects.toThrow(/break-glass access required/);
+    await expect(callerFor(cashier).payments.getById({ id: payment.id })).rejects.toThrow(/break-glass access required/);
+    await expect(callerFor(cashier).payments.getByPatientId({ patientId: vip.id })).rejects.toThrow(/break-glass access required/);
+    expect(await callerFor(admin).payments.getByPatientId({ patientId: vip.id })).toHaveLength(1);
+
+    await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 30 }, doctor);
+
+    expect((await callerFor(doctor).prescriptions.getById({ id: prescription.id }))?.id).toEqual(prescription.id);
+  });
+
+  it('should block changes to a restricted patient\'s prescriptions without a grant', async () => {
+    const prescription = await prescribeFor(vip.id);
+    const pharmacist = await insertUser('pharmacist@clinic.com', 'pharmacist');
+    const details = await callerFor(admin).prescriptions.getById({ id: prescription.id });
+
+    await expect(callerFor(pharmacist).prescriptions.updateStatus({ id: prescription.id, status: 'filled' }))
+      .rejects.toThrow(/break-glass access required/);
+    await expect(callerFor(pharmacist).prescriptions.fillItem({ prescriptionItemId: details!.items[0].id, quantityFilled: 5 }))
+      .rejects.toThrow(/break-glass access required/);
+  });
+
+  it('should leave other restricted patients out of listings', async () => {
+    const open = await createPatient({ first_name: 'Open', last_name: 'Record', gender: 'male', birthdate: new Date('1990-01-01') });
+    await prescribeFor(vip.id);
+    const visible = await prescribeFor(open.id);
+    await createPayment({ patient_id: vip.id, amount: 20, payment_method: 'cash', created_by: admin.id });
+    await createPayment({ patient_id: open.id, amount: 15, payment_method: 'cash', created_by: admin.id });
+    const cashier = await insertUser('cashier@clinic.com', 'cashier');
+
+    expect((await callerFor(doctor).prescriptions.getAll()).map(prescription => prescription.id)).toEqual([visible.id]);
+    expect((await callerFor(doctor).prescriptions.getPending()).map(prescription => prescription.id)).toEqual([visible.id]);
+    expect((await callerFor(doctor).prescriptions.getByDoctorId({ doctorId: doctor.id })).map(prescription => prescription.id)).toEqual([visible.id]);
+    expect((await callerFor(cashier).payments.getAll()).map(payment => payment.patient_id)).toEqual([open.id]);
+    expect(await callerFor(admin).payments.getAll()).toHaveLength(2);
+
+    await openEncounter({ patient_id: vip.id }, admin.id);
+    const encounter = await openEncounter({ patient_id: open.id }, admin.id);
+    expect((await callerFor(doctor).encounters.list({})).map(entry => entry.id)).toEqual([encounter.id]);
+
+    const lookalike = { first_name: 'Famous', last_name: 'Person', birthdate: new Date('1980-01-01') };
+    expect(await callerFor(doctor).patients.findDuplicates(lookalike)).toHaveLength(0);
+    expect(await callerFor(admin).patients.findDuplicates(lookalike)).toHaveLength(1);
+
+    await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 30 }, doctor);
+
+    expect(await callerFor(doctor).prescriptions.getAll()).toHaveLength(2);
+  });
+
+  it('should keep restricted patients from API keys', async () => {
+    await createPayment({ patient_id: vip.id, amount: 20, payment_method: 'cash', created_by: admin.id });
+    const { apiKey } = await createApiKey({ name: 'Accounting', scopes: ['payments:read'] }, admin.id);
+    const caller = createCaller({ user: null, sessionId: null, twoFactorEnrollmentRequired: false, apiKey: { id: apiKey.id, name: apiKey.name, scopes: apiKey.scopes }, ip: null });
+
+    await expect(caller.payments.getByPatientId({ patientId: vip.id })).rejects.toThrow(/break-glass access required/);
+    expect(await caller.payments.getAll()).toHaveLength(0);
+  });
+
+  it('should list restricted patients with demographics only', async () => {
+    const [listed] = await callerFor(doctor).patients.getAll();
+
+    expect(listed.first_name).toEqual('Famous');
+    expect(listed.is_restricted).toBe(true);
+    expect(listed).not.toHaveProperty('allergies');
+  });
+
+  it('should open the full record for the grant period', async () => {
+    const grant = await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 30 }, doctor);
+
+    expect(grant.expires_at.getTime() - grant.granted_at.getTime()).toEqual(30 * 60 * 1000);
+
+    const patient = await callerFor(doctor).patients.getById({ id: vip.id });
+    expect(patient).toMatchObject({ allergies: 'Penicillin' });
+
+    await db.update(breakGlassAccessTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(breakGlassAccessTable.id, grant.id))
+      .execute();
+
+    expect(await canAccessPatient(doctor, vip.id)).toBe(false);
+  });
+
+  it('should carry grants over when the patient is merged', async () => {
+    const survivor = await createPatient({ first_name: 'Famous', last_name: 'Person', gender: 'female', birthdate: new Date('1980-01-01'), ignore_duplicates: true });
+    await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 30 }, doctor);
+
+    await mergePatients({ survivor_id: survivor.id, duplicate_id: vip.id }, admin.id);
+
+    expect(await canAccessPatient(doctor, survivor.id)).toBe(true);
+    expect((await callerFor(doctor).patients.getById({ id: survivor.id }))).toMatchObject({ allergies: 'Penicillin' });
+  });
+
+  it('should only grant access to restricted patients, and only when needed', async () => {
+    const open = await createPatient({ first_name: 'Open', last_name: 'Record', gender: 'male', birthdate: new Date('1990-01-01') });
+
+    await expect(breakGlass({ patient_id: open.id, reason: REASON, duration_minutes: 60 }, doctor))
+      .rejects.toThrow(/not restricted/i);
+    await expect(breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 60 }, admin))
+      .rejects.toThrow(/already has access/i);
+    await expect(breakGlass({ patient_id: 999, reason: REASON, duration_minutes: 60 }, doctor))
+      .rejects.toThrow(/not found/i);
+  });
+
+  it('should queue grants for review with who, why and for how long', async () => {
+    const grant = await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 45 }, doctor);
+    await callerFor(doctor).patients.getById({ id: vip.id });
+    await callerFor(doctor).patients.getById({ id: vip.id });
+
+    const [entry] = await listBreakGlassReviews({ status: 'pending' });
+
+    expect(entry.id).toEqual(grant.id);
+    expect(entry.patient_name).toEqual('Famous Person');
+    expect(entry.user_name).toEqual('Dana Doctor');
+    expect(entry.user_email).toEqual('doctor@clinic.com');
+    expect(entry.user_role).toEqual('doctor');
+    expect(entry.reason).toEqual(REASON);
+    expect(entry.duration_minutes).toEqual(45);
+    expect(entry.is_active).toBe(true);
+    expect(entry.reads_during_access).toEqual(2);
+  });
+
+  it('should move reviewed grants out of the pending queue', async () => {
+    const grant = await breakGlass({ patient_id: vip.id, reason: REASON, duration_minutes: 60 }, doctor);
+
+    const reviewed = await reviewBreakGlass({ id: grant.id, notes: 'Confirmed with ER' }, admin.id);
+
+    expect(reviewed.reviewed_by).toEqual(admin.id);
+    expect(reviewed.review_notes).toEqual('Confirmed with ER');
+    expect(await listBreakGlassReviews({ status: 'pending' })).toHaveLength(0);
+    expect(await listBreakGlassReviews({ status: 'reviewed' })).toHaveLength(1);
+    await expect(reviewBreakGlass({ id: grant.id }, admin.id)).rejects.toThrow(/not found/i);
+  });
+});
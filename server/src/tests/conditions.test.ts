@@ -0,0 +1,119 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { medicinesTable, patientConditionsTable, usersTable } from '../db/schema';
+import { type Patient } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import { importIcd10Codes } from '../handlers/icd10';
+import {
+  createPatientCondition,
+  deletePatientCondition,
+  listPatientConditions,
+  updatePatientCondition
+} from '../handlers/conditions';
+import { checkPrescriptionSafety } from '../handlers/prescriptionSafety';
+import { eq } from 'drizzle-orm';
+
+describe('patient conditions', () => {
+  let doctorId: number;
+  let patient: Patient;
+
+  beforeEach(async () => {
+    await createDB();
+    const [doctor] = await db.insert(usersTable)
+      .values({ email: 'doctor@clinic.com', password_hash: 'hashedpassword', role: 'doctor', first_name: 'Dana', last_name: 'Doctor' })
+      .returning()
+      .execute();
+    doctorId = doctor.id;
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1965-04-04') });
+    await importIcd10Codes({
+      csv: 'code,description\nE11.9,Type 2 diabetes mellitus without complications\nN18.3,"Chronic kidney disease, stage 3"\nJ20.9,"Acute bronchitis, unspecified"'
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should record a coded condition with encrypted notes', async () => {
+    const condition = await createPatientCondition({
+      patient_id: patient.id,
+      icd10_code: 'e119',
+      onset_date: new Date('2019-03-01'),
+      notes: 'Diet controlled'
+    }, doctorId);
+
+    expect(condition).toMatchObject({
+      patient_id: patient.id,
+      icd10_code: 'E11.9',
+      icd10_description: 'Type 2 diabetes mellitus without complications',
+      status: 'active',
+      onset_date: new Date('2019-03-01'),
+      resolved_date: null,
+      notes: 'Diet controlled',
+      noted_by: doctorId
+    });
+
+    const [row] = await db.select()
+      .from(patientConditionsTable)
+      .where(eq(patientConditionsTable.id, condition.id))
+      .execute();
+    expect(row.notes?.startsWith('enc:')).toBe(true);
+
+    await expect(createPatientCondition({ patient_id: patient.id, icd10_code: 'E11.9' }, doctorId))
+      .rejects.toThrow(/already has an active condition/);
+    await expect(createPatientCondition({ patient_id: patient.id, icd10_code: 'E11.8' }, doctorId))
+      .rejects.toThrow(/Unknown ICD-10 code/);
+  });
+
+  it('should resolve and reactivate conditions', async () => {
+    const condition = await createPatientCondition({ patient_id: patient.id, icd10_code: 'J20.9', onset_date: new Date('2026-01-10') }, doctorId);
+
+    const resolved = await updatePatientCondition({ id: condition.id, status: 'resolved', resolved_date: new Date('2026-01-24') });
+    expect(resolved.status).toEqual('resolved');
+    expect(resolved.resolved_date).toEqual(new Date('2026-01-24'));
+
+    await expect(updatePatientCondition({ id: condition.id, resolved_date: new Date('2025-12-01') }))
+      .rejects.toThrow(/resolved before its onset/);
+
+    const reactivated = await updatePatientCondition({ id: condition.id, status: 'active' });
+    expect(reactivated.resolved_date).toBeNull();
+
+    const resolvedToday = await updatePatientCondition({ id: condition.id, status: 'resolved' });
+    expect(resolvedToday.resolved_date).toEqual(new Date(new Date().toISOString().split('T')[0]));
+  });
+
+  it('should list active conditions first and follow merges', async () => {
+    const bronchitis = await createPatientCondition({ patient_id: patient.id, icd10_code: 'J20.9' }, doctorId);
+    await updatePatientCondition({ id: bronchitis.id, status: 'resolved' });
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1965-04-04'), ignore_duplicates: true });
+    const diabetes = await createPatientCondition({ patient_id: duplicate.id, icd10_code: 'E11.9' }, doctorId);
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, doctorId);
+
+    const conditions = await listPatientConditions({ patient_id: duplicate.id });
+    expect(conditions.map(condition => condition.id)).toEqual([diabetes.id, bronchitis.id]);
+
+    const active = await listPatientConditions({ patient_id: patient.id, status: 'active' });
+    expect(active.map(condition => condition.icd10_code)).toEqual(['E11.9']);
+
+    await deletePatientCondition({ id: diabetes.id });
+    expect(await listPatientConditions({ patient_id: patient.id, status: 'active' })).toEqual([]);
+  });
+
+  it('should check prescriptions against active coded conditions', async () => {
+    const [ibuprofen] = await db.insert(medicinesTable)
+      .values({ name: 'Ibuprofen', category: 'pain_relievers', stock_quantity: 100, price_per_unit: '2.50' })
+      .returning()
+      .execute();
+    const items = [{ medicine_id: ibuprofen.id, quantity_prescribed: 10 }];
+
+    expect(await checkPrescriptionSafety({ patient_id: patient.id, items })).toEqual([]);
+
+    const kidney = await createPatientCondition({ patient_id: patient.id, icd10_code: 'N18.3' }, doctorId);
+    const [warning] = await checkPrescriptionSafety({ patient_id: patient.id, items });
+    expect(warning).toMatchObject({ type: 'contraindication', severity: 'hard_stop' });
+    expect(warning.message).toMatch(/kidney disease/);
+
+    await updatePatientCondition({ id: kidney.id, status: 'resolved' });
+    expect(await checkPrescriptionSafety({ patient_id: patient.id, items })).toEqual([]);
+  });
+});
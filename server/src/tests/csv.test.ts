@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'bun:test';
+import { parseCsv, readCsvRecords } from '../handlers/csv';
+
+describe('csv', () => {
+  it('should handle quotes, escaped quotes and embedded new lines', () => {
+    const rows = parseCsv('a,b\r\n"x, y","say ""hi"""\n"multi\nline",z\n');
+
+    expect(rows).toEqual([
+      { line: 1, fields: ['a', 'b'] },
+      { line: 2, fields: ['x, y', 'say "hi"'] },
+      { line: 3, fields: ['multi\nline', 'z'] }
+    ]);
+  });
+
+  it('should skip blank lines and keep line numbers', () => {
+    const records = readCsvRecords('\uFEFFName,Code\n\nAspirin, A1 \nIbuprofen', ['name', 'code']);
+
+    expect(records).toEqual([
+      { line: 3, values: { name: 'Aspirin', code: 'A1' } },
+      { line: 4, values: { name: 'Ibuprofen', code: '' } }
+    ]);
+  });
+
+  it('should reject missing columns and unterminated quotes', () => {
+    expect(() => readCsvRecords('name\nAspirin', ['name', 'code'])).toThrow(/missing columns: code/);
+    expect(() => parseCsv('a,"b\nc')).toThrow(/unterminated/i);
+  });
+});
@@ -7,9 +7,16 @@ import {
     medicinesTable, 
     prescriptionsTable, 
     prescriptionItemsTable, 
-    paymentsTable 
+    paymentsTable,
+    encountersTable
 } from '../db/schema';
-import { getAdminDashboard, getDoctorDashboard, getCashierDashboard } from '../handlers/dashboard';
+import {
+    getAdminDashboard,
+    getDoctorDashboard,
+    getPharmacistDashboard,
+    getReceptionDashboard,
+    getCashierDashboard
+} from '../handlers/dashboard';
 
 describe('Dashboard handlers', () => {
     beforeEach(createDB);
@@ -25,6 +32,7 @@ describe('Dashboard handlers', () => {
             expect(result.totalPrescriptions).toEqual(0);
             expect(result.todaySales).toEqual(0);
             expect(result.todayPatients).toEqual(0);
+            expect(result.todayVisits).toEqual(0);
             expect(result.lowStockCount).toEqual(0);
             expect(result.pendingPrescriptions).toEqual(0);
             expect(result.recentActivities).toEqual([]);
@@ -121,6 +129,7 @@ describe('Dashboard handlers', () => {
 
             expect(result.myPrescriptionsToday).toEqual(0);
             expect(result.myPatientsToday).toEqual(0);
+            expect(result.myOpenEncounters).toEqual(0);
             expect(result.myTotalPrescriptions).toEqual(0);
             expect(result.pendingPrescriptions).toEqual(0);
             expect(result.recentPatients).toEqual([]);
@@ -191,14 +200,24 @@ describe('Dashboard handlers', () => {
                 quantity_filled: 20
             }).execute();
 
+            // Visits today: patient one twice, patient two once but cancelled,
+            // and patient two last week
+            await db.insert(encountersTable).values([
+                { patient_id: patient1.id, doctor_id: doctor.id, status: 'closed', created_by: doctor.id },
+                { patient_id: patient1.id, doctor_id: doctor.id, status: 'open', created_by: doctor.id },
+                { patient_id: patient2.id, doctor_id: doctor.id, status: 'cancelled', created_by: doctor.id },
+                { patient_id: patient2.id, doctor_id: doctor.id, status: 'closed', created_by: doctor.id, check_in_at: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000) }
+            ]).execute();
+
             const result = await getDoctorDashboard(doctor.id);
 
             expect(result.myPrescriptionsToday).toEqual(2);
-            expect(result.myPatientsToday).toEqual(2);
+            expect(result.myPatientsToday).toEqual(1);
+            expect(result.myOpenEncounters).toEqual(1);
             expect(result.myTotalPrescriptions).toEqual(2);
             expect(result.pendingPrescriptions).toEqual(1);
             expect(result.recentPatients.length).toEqual(2);
-            expect(result.recentPatients[0].name).toContain('Patient');
+            expect(result.recentPatients[0].name).toEqual('Patient One');
             expect(result.prescriptionStats.thisWeek).toEqual(2);
             expect(result.prescriptionStats.thisMonth).toEqual(2);
             expect(result.prescriptionStats.mostPrescribedMedicine).toEqual('Aspirin');
@@ -389,6 +408,122 @@ describe('Dashboard handlers', () => {
         });
     });
 
+    describe('getPharmacistDashboard', () => {
+        it('should return zero counts for empty database', async () => {
+            const result = await getPharmacistDashboard();
+
+            expect(result.pendingPrescriptions).toEqual(0);
+            expect(result.partiallyFilledPrescriptions).toEqual(0);
+            expect(result.filledToday).toEqual(0);
+            expect(result.lowStockCount).toEqual(0);
+            expect(result.outOfStockCount).toEqual(0);
+            expect(result.dispensingQueue).toEqual([]);
+        });
+
+        it('should list unfilled prescriptions oldest first', async () => {
+            const [doctor] = await db.insert(usersTable).values({
+                email: 'doctor@test.com',
+                password_hash: 'hash123',
+                role: 'doctor',
+                first_name: 'Dr. John',
+                last_name: 'Doe'
+            }).returning().execute();
+
+            const [patient] = await db.insert(patientsTable).values({
+                first_name: 'Patient',
+                last_name: 'One',
+                gender: 'male',
+                birthdate: '1990-01-01'
+            }).returning().execute();
+
+            await db.insert(medicinesTable).values([
+                { name: 'Empty Medicine', category: 'antibiotics', stock_quantity: 0, price_per_unit: '10.00' },
+                { name: 'Low Medicine', category: 'antibiotics', stock_quantity: 3, price_per_unit: '10.00' },
+                { name: 'Stocked Medicine', category: 'antibiotics', stock_quantity: 100, price_per_unit: '10.00' }
+            ]).execute();
+
+            const [older] = await db.insert(prescriptionsTable).values({
+                patient_id: patient.id,
+                doctor_id: doctor.id,
+                status: 'partially_filled',
+                created_at: new Date(Date.now() - 60 * 60 * 1000)
+            }).returning().execute();
+
+            const [newer] = await db.insert(prescriptionsTable).values({
+                patient_id: patient.id,
+                doctor_id: doctor.id,
+                status: 'pending'
+            }).returning().execute();
+
+            await db.insert(prescriptionsTable).values({
+                patient_id: patient.id,
+                doctor_id: doctor.id,
+                status: 'filled'
+            }).execute();
+
+            const result = await getPharmacistDashboard();
+
+            expect(result.pendingPrescriptions).toEqual(1);
+            expect(result.partiallyFilledPrescriptions).toEqual(1);
+            expect(result.filledToday).toEqual(1);
+            expect(result.lowStockCount).toEqual(2);
+            expect(result.outOfStockCount).toEqual(1);
+            expect(result.dispensingQueue.map(entry => entry.id)).toEqual([older.id, newer.id]);
+            expect(result.dispensingQueue[0].patientName).toEqual('Patient One');
+        });
+    });
+
+    describe('getReceptionDashboard', () => {
+        it('should return zero counts for empty database', async () => {
+            const result = await getReceptionDashboard();
+
+            expect(result.totalPatients).toEqual(0);
+            expect(result.todayPatients).toEqual(0);
+            expect(result.todayVisits).toEqual(0);
+            expect(result.openEncounters).toEqual(0);
+            expect(result.recentPatients).toEqual([]);
+        });
+
+        it('should count registrations and list the latest patients', async () => {
+            await db.insert(patientsTable).values({
+                first_name: 'Old',
+                last_name: 'Patient',
+                gender: 'female',
+                birthdate: '1970-01-01',
+                created_at: new Date('2020-01-01')
+            }).execute();
+
+            const [newPatient] = await db.insert(patientsTable).values({
+                first_name: 'New',
+                last_name: 'Patient',
+                gender: 'male',
+                birthdate: '1990-01-01'
+            }).returning().execute();
+
+            const [receptionist] = await db.insert(usersTable).values({
+                email: 'reception@test.com',
+                password_hash: 'hash123',
+                role: 'receptionist',
+                first_name: 'Rita',
+                last_name: 'Reception'
+            }).returning().execute();
+
+            await db.insert(encountersTable).values([
+                { patient_id: newPatient.id, status: 'open', created_by: receptionist.id },
+                { patient_id: newPatient.id, status: 'cancelled', created_by: receptionist.id }
+            ]).execute();
+
+            const result = await getReceptionDashboard();
+
+            expect(result.totalPatients).toEqual(2);
+            expect(result.todayPatients).toEqual(1);
+            expect(result.todayVisits).toEqual(1);
+            expect(result.openEncounters).toEqual(1);
+            expect(result.recentPatients[0].id).toEqual(newPatient.id);
+            expect(result.recentPatients[0].name).toEqual('New Patient');
+        });
+    });
+
     describe('Error handling', () => {
         it('should handle non-existent doctor ID gracefully', async () => {
             // Non-existent doctor should return zero stats, not throw
@@ -0,0 +1,191 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { patientDocumentsTable, usersTable } from '../db/schema';
+import { type Patient, type UploadPatientDocumentInput, type User } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import { openEncounter } from '../handlers/encounters';
+import {
+  deletePatientDocument,
+  downloadPatientDocument,
+  getMaxDocumentBytes,
+  listPatientDocuments,
+  uploadPatientDocument
+} from '../handlers/documents';
+import { LocalDocumentStorage, setDocumentStorage, setVirusScanner } from '../documentStorage';
+import { createCallerFactory } from '../trpc';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+import * as crypto from 'crypto';
+import { mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+const createCaller = createCallerFactory(appRouter);
+
+const PDF = Buffer.from('%PDF-1.4\n1 0 obj << /Type /Catalog >> endobj\n%%EOF\n');
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.from('image data')]);
+
+describe('patient documents', () => {
+  let directory: string;
+  let nurse: User;
+  let patient: Patient;
+
+  const upload = (input: Partial<UploadPatientDocumentInput> = {}) =>
+    uploadPatientDocument({
+      patient_id: patient.id,
+      category: 'referral',
+      filename: 'referral.pdf',
+      content_type: 'application/pdf',
+      content_base64: PDF.toString('base64'),
+      ...input
+    }, nurse.id);
+
+  const insertUser = async (email: string, role: User['role']): Promise<User> => {
+    const [user] = await db.insert(usersTable)
+      .values({ email, password_hash: 'hashedpassword', role, first_name: 'Staff', last_name: role })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    directory = await mkdtemp(path.join(tmpdir(), 'documents-'));
+    setDocumentStorage(new LocalDocumentStorage(directory));
+    nurse = await insertUser('nurse@clinic.com', 'nurse');
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15') });
+  });
+
+  afterEach(async () => {
+    setDocumentStorage(null);
+    setVirusScanner(null);
+    delete process.env['DOCUMENT_MAX_BYTES'];
+    await rm(directory, { recursive: true, force: true });
+    await resetDB();
+  });
+
+  it('should store an upload with its checksum and return it on download', async () => {
+    const document = await upload({ filename: 'C:\\Scans\\referral.pdf', description: 'Cardiology referral' });
+
+    expect(document).toMatchObject({
+      patient_id: patient.id,
+      prescription_id: null,
+      encounter_id: null,
+      category: 'referral',
+      filename: 'referral.pdf',
+      content_type: 'application/pdf',
+      size_bytes: PDF.length,
+      checksum: crypto.createHash('sha256').update(PDF).digest('hex'),
+      description: 'Cardiology referral',
+      uploaded_by: nurse.id,
+      deleted_at: null
+    });
+    expect(document).not.toHaveProperty('storage_key');
+
+    const [row] = await db.select().from(patientDocumentsTable).where(eq(patientDocumentsTable.id, document.id)).execute();
+    expect(row.description?.startsWith('enc:')).toBe(true);
+    expect(await readFile(path.join(directory, row.storage_key))).toEqual(PDF);
+
+    const downloaded = await downloadPatientDocument({ id: document.id });
+    expect(downloaded.document.id).toEqual(document.id);
+    expect(Buffer.from(downloaded.content_base64, 'base64')).toEqual(PDF);
+
+    await expect(upload()).rejects.toThrow(/already attached to the patient/);
+  });
+
+  it('should reject unsupported, mislabelled, oversized and infected files', async () => {
+    await expect(upload({ content_type: 'application/x-msdownload' })).rejects.toThrow(/Unsupported document type/);
+    await expect(upload({ content_type: 'image/png' })).rejects.toThrow(/does not match its type image\/png/);
+    await expect(upload({ content_base64: 'not base64!' })).rejects.toThrow(/not valid base64/);
+
+    process.env['DOCUMENT_MAX_BYTES'] = '16';
+    await expect(upload()).rejects.toThrow(/larger than the 16 byte limit/);
+    process.env['DOCUMENT_MAX_BYTES'] = String(PDF.length - 1);
+    await expect(upload()).rejects.toThrow(`larger than the ${PDF.length - 1} byte limit`);
+    delete process.env['DOCUMENT_MAX_BYTES'];
+
+    setVirusScanner({
+      scan: async (content) => content.includes('EICAR') ? { clean: false, threat: 'EICAR-Test-File' } : { clean: true }
+    });
+    const infected = Buffer.concat([PDF, Buffer.from('EICAR')]);
+    await expect(upload({ content_base64: infected.toString('base64') })).rejects.toThrow(/virus scan: EICAR-Test-File/);
+
+    expect(await listPatientDocuments({ patient_id: patient.id, include_deleted: true })).toEqual([]);
+    await upload({ category: 'id_card', filename: 'id.png', content_type: 'image/png', content_base64: PNG.toString('base64') });
+  });
+
+  it('should accept a file of exactly the size limit', async () => {
+    process.env['DOCUMENT_MAX_BYTES'] = String(PDF.length);
+
+    expect((await upload()).size_bytes).toEqual(PDF.length);
+  });
+
+  it('should let the proxy pass the base64 upload of a file at the default limit', async () => {
+    const caddyfile = await readFile(path.join(import.meta.dir, '../../../client/Caddyfile'), 'utf8');
+    const [, megabytes] = caddyfile.match(/max_size (\d+)M\b/)!;
+    const encodedBytes = Math.ceil(getMaxDocumentBytes() / 3) * 4;
+
+    expect(parseInt(megabytes, 10) * 1000 * 1000).toBeGreaterThan(encodedBytes + 64 * 1024);
+  });
+
+  it('should link documents to the patient\'s encounters and follow merges', async () => {
+    const other = await createPatient({ first_name: 'John', last_name: 'Roe', gender: 'male', birthdate: new Date('1970-02-02') });
+    const encounter = await openEncounter({ patient_id: patient.id }, nurse.id);
+    const otherEncounter = await openEncounter({ patient_id: other.id }, nurse.id);
+
+    await expect(upload({ encounter_id: otherEncounter.id })).rejects.toThrow(/belongs to another patient/);
+    await expect(upload({ prescription_id: 999 })).rejects.toThrow(/Prescription with ID 999 not found/);
+
+    const labResult = await upload({ category: 'lab_result', filename: 'cbc.png', content_type: 'image/png', content_base64: PNG.toString('base64'), encounter_id: encounter.id });
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    const referral = await upload({ patient_id: duplicate.id });
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, nurse.id);
+
+    expect((await listPatientDocuments({ patient_id: duplicate.id, include_deleted: false })).map(document => document.id))
+      .toEqual([referral.id, labResult.id]);
+    expect((await listPatientDocuments({ patient_id: patient.id, encounter_id: encounter.id, include_deleted: false })).map(document => document.id))
+      .toEqual([labResult.id]);
+    expect((await listPatientDocuments({ patient_id: patient.id, category: 'referral', include_deleted: false })).map(document => document.id))
+      .toEqual([referral.id]);
+  });
+
+  it('should soft delete documents and keep the stored file', async () => {
+    const document = await upload();
+
+    const deleted = await deletePatientDocument({ id: document.id }, nurse.id);
+    expect(deleted.deleted_by).toEqual(nurse.id);
+    expect(deleted.deleted_at).toBeInstanceOf(Date);
+
+    expect(await listPatientDocuments({ patient_id: patient.id, include_deleted: false })).toEqual([]);
+    expect(await listPatientDocuments({ patient_id: patient.id, include_deleted: true })).toHaveLength(1);
+    await expect(downloadPatientDocument({ id: document.id })).rejects.toThrow(/not found/);
+    await expect(deletePatientDocument({ id: document.id }, nurse.id)).rejects.toThrow(/not found/);
+
+    const [row] = await db.select().from(patientDocumentsTable).where(eq(patientDocumentsTable.id, document.id)).execute();
+    expect(await readFile(path.join(directory, row.storage_key))).toEqual(PDF);
+
+    // The same file can be attached again once the earlier copy is deleted
+    await upload();
+  });
+
+  it('should refuse content that no longer matches its checksum', async () => {
+    const document = await upload();
+    const [row] = await db.select().from(patientDocumentsTable).where(eq(patientDocumentsTable.id, document.id)).execute();
+
+    await writeFile(path.join(directory, row.storage_key), Buffer.concat([PDF, Buffer.from('tampered')]));
+
+    await expect(downloadPatientDocument({ id: document.id })).rejects.toThrow(/failed its integrity check/);
+  });
+
+  it('should only let roles holding documents.read download', async () => {
+    const document = await upload();
+    const cashier = await insertUser('cashier@clinic.com', 'cashier');
+    const callerFor = (user: User) =>
+      createCaller({ user, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    await expect(callerFor(cashier).documents.download({ id: document.id })).rejects.toThrow(/Missing permission: documents.read/);
+    expect((await callerFor(nurse).documents.download({ id: document.id })).document.id).toEqual(document.id);
+  });
+});
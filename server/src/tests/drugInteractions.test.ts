@@ -0,0 +1,126 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, medicinesTable, prescriptionsTable } from '../db/schema';
+import { type Patient } from '../schema';
+import { createPatient } from '../handlers/patients';
+import { createPrescription } from '../handlers/prescriptions';
+import { checkInteractions, getDrugInteractions, importDrugInteractions } from '../handlers/drugInteractions';
+import { eq } from 'drizzle-orm';
+
+const INTERACTIONS_CSV = [
+  'ingredient_a,ingredient_b,severity,description',
+  'Warfarin,Aspirin,major,"Increased bleeding risk"',
+  'simvastatin,clarithromycin,contraindicated,Risk of rhabdomyolysis',
+  'ibuprofen,,minor,Missing partner',
+  'aspirin,ibuprofen,sometimes,Bad severity'
+].join('\n');
+
+describe('drug interactions', () => {
+  let doctorId: number;
+  let patient: Patient;
+  let warfarinId: number;
+  let aspirinId: number;
+  let simvastatinId: number;
+  let clarithromycinId: number;
+
+  const insertMedicine = async (name: string): Promise<number> => {
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name, category: 'other', stock_quantity: 100, price_per_unit: '3.00' })
+      .returning()
+      .execute();
+    return medicine.id;
+  };
+
+  const itemsFor = (...medicineIds: number[]) =>
+    medicineIds.map(medicine_id => ({ medicine_id, quantity_prescribed: 5 }));
+
+  beforeEach(async () => {
+    await createDB();
+    const [doctor] = await db.insert(usersTable)
+      .values({
+        email: 'doctor@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'doctor',
+        first_name: 'Dana',
+        last_name: 'Doctor',
+        phone: null
+      })
+      .returning()
+      .execute();
+    doctorId = doctor.id;
+
+    warfarinId = await insertMedicine('Warfarin 5mg');
+    aspirinId = await insertMedicine('Aspirin 100mg');
+    simvastatinId = await insertMedicine('Simvastatin 20mg');
+    clarithromycinId = await insertMedicine('Clarithromycin 500mg');
+
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1960-03-03') });
+    await importDrugInteractions({ csv: INTERACTIONS_CSV });
+  });
+
+  afterEach(resetDB);
+
+  it('should import valid rows and report invalid ones', async () => {
+    const interactions = await getDrugInteractions();
+
+    expect(interactions.map(interaction => [interaction.ingredient_a, interaction.ingredient_b])).toEqual([
+      ['aspirin', 'warfarin'],
+      ['clarithromycin', 'simvastatin']
+    ]);
+
+    const result = await importDrugInteractions({
+      csv: 'ingredient_a,ingredient_b,severity,description\nwarfarin,aspirin,Moderate,Revised\nibuprofen,,minor,x'
+    });
+
+    expect(result).toEqual({ inserted: 0, updated: 1, errors: [{ line: 3, message: 'Both ingredients are required' }] });
+    expect((await getDrugInteractions())[0]).toMatchObject({ severity: 'moderate', description: 'Revised' });
+  });
+
+  it('should reject a CSV without the expected columns', async () => {
+    await expect(importDrugInteractions({ csv: 'drug,other\nwarfarin,aspirin' })).rejects.toThrow(/missing columns/i);
+  });
+
+  it('should find interactions within the proposed items', async () => {
+    const [warning] = await checkInteractions({ patient_id: patient.id, items: itemsFor(aspirinId, warfarinId) });
+
+    expect(warning).toMatchObject({
+      severity: 'major',
+      description: 'Increased bleeding risk',
+      medicine_id: warfarinId,
+      interacting_medicine_id: aspirinId,
+      source: 'same_prescription',
+      prescription_id: null
+    });
+  });
+
+  it('should find interactions with active prescriptions only', async () => {
+    const active = await createPrescription({ patient_id: patient.id, doctor_id: doctorId, items: itemsFor(warfarinId) });
+
+    const [warning] = await checkInteractions({ patient_id: patient.id, items: itemsFor(aspirinId) });
+    expect(warning).toMatchObject({ source: 'active_prescription', prescription_id: active.id, interacting_medicine_name: 'Warfarin 5mg' });
+
+    await db.update(prescriptionsTable)
+      .set({ status: 'filled', created_at: new Date('2020-01-01') })
+      .where(eq(prescriptionsTable.id, active.id))
+      .execute();
+
+    expect(await checkInteractions({ patient_id: patient.id, items: itemsFor(aspirinId) })).toEqual([]);
+  });
+
+  it('should warn on create and stop contraindicated combinations', async () => {
+    const prescription = await createPrescription({ patient_id: patient.id, doctor_id: doctorId, items: itemsFor(warfarinId, aspirinId) });
+    expect(prescription.interaction_warnings).toHaveLength(1);
+
+    await expect(createPrescription({ patient_id: patient.id, doctor_id: doctorId, items: itemsFor(simvastatinId, clarithromycinId) }))
+      .rejects.toThrow(/Simvastatin 20mg is contraindicated with Clarithromycin 500mg/);
+
+    const overridden = await createPrescription({
+      patient_id: patient.id,
+      doctor_id: doctorId,
+      items: itemsFor(simvastatinId, clarithromycinId),
+      override_reason: 'Statin paused for the antibiotic course'
+    });
+    expect(overridden.override_reason).toEqual('Statin paused for the antibiotic course');
+  });
+});
@@ -0,0 +1,153 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, encountersTable, medicinesTable } from '../db/schema';
+import { type Patient, type User } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import { createPrescription } from '../handlers/prescriptions';
+import { createPayment } from '../handlers/payments';
+import {
+  closeEncounter,
+  listEncounters,
+  openEncounter,
+  updateEncounter
+} from '../handlers/encounters';
+import { createCallerFactory } from '../trpc';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+describe('encounters', () => {
+  let doctor: User;
+  let receptionist: User;
+  let patient: Patient;
+
+  const callerFor = (user: User) =>
+    createCaller({ user, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+  const insertUser = async (email: string, role: User['role']): Promise<User> => {
+    const [user] = await db.insert(usersTable)
+      .values({ email, password_hash: 'hashedpassword', role, first_name: 'Staff', last_name: role, phone: null })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    doctor = await insertUser('doctor@clinic.com', 'doctor');
+    receptionist = await insertUser('reception@clinic.com', 'receptionist');
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15') });
+  });
+
+  afterEach(resetDB);
+
+  it('should open, update and close an encounter', async () => {
+    const encounter = await openEncounter({ patient_id: patient.id, reason: 'Persistent cough' }, receptionist.id);
+
+    expect(encounter.status).toEqual('open');
+    expect(encounter.doctor_id).toBeNull();
+    expect(encounter.created_by).toEqual(receptionist.id);
+
+    const updated = await updateEncounter({ id: encounter.id, doctor_id: doctor.id, diagnosis_notes: 'Acute bronchitis' });
+    expect(updated.doctor_id).toEqual(doctor.id);
+    expect(updated.diagnosis_notes).toEqual('Acute bronchitis');
+
+    const closed = await closeEncounter({ id: encounter.id, status: 'closed' });
+    expect(closed.status).toEqual('closed');
+    expect(closed.check_out_at).toBeInstanceOf(Date);
+
+    await expect(updateEncounter({ id: encounter.id, reason: 'Changed' })).rejects.toThrow(/already closed/i);
+    await expect(closeEncounter({ id: encounter.id, status: 'cancelled' })).rejects.toThrow(/already closed/i);
+  });
+
+  it('should allow one open encounter per patient', async () => {
+    await openEncounter({ patient_id: patient.id }, receptionist.id);
+
+    await expect(openEncounter({ patient_id: patient.id }, receptionist.id)).rejects.toThrow(/already has an open encounter/i);
+    await expect(openEncounter({ patient_id: 999 }, receptionist.id)).rejects.toThrow(/not found/i);
+    await expect(openEncounter({ patient_id: patient.id, doctor_id: receptionist.id }, receptionist.id))
+      .rejects.toThrow(/doctor with id/i);
+  });
+
+  it('should encrypt diagnosis notes at rest', async () => {
+    const encounter = await openEncounter({ patient_id: patient.id }, receptionist.id);
+    await updateEncounter({ id: encounter.id, diagnosis_notes: 'Acute bronchitis' });
+
+    const [row] = await db.select()
+      .from(encountersTable)
+      .where(eq(encountersTable.id, encounter.id))
+      .execute();
+
+    expect(row.diagnosis_notes?.startsWith('enc:')).toBe(true);
+  });
+
+  it('should hide diagnosis notes from non-clinical roles', async () => {
+    const encounter = await openEncounter({ patient_id: patient.id }, receptionist.id);
+    await updateEncounter({ id: encounter.id, diagnosis_notes: 'Acute bronchitis' });
+
+    expect(await callerFor(doctor).encounters.getById({ id: encounter.id })).toMatchObject({ diagnosis_notes: 'Acute bronchitis' });
+    expect(await callerFor(receptionist).encounters.getById({ id: encounter.id })).not.toHaveProperty('diagnosis_notes');
+
+    const [listed] = await callerFor(receptionist).encounters.list({ patient_id: patient.id, limit: 50 });
+    expect(listed.patient_name).toEqual('Jane Doe');
+    expect(listed).not.toHaveProperty('diagnosis_notes');
+
+    try {
+      await callerFor(receptionist).encounters.update({ id: encounter.id, diagnosis_notes: 'Guess' });
+      throw new Error('Expected FORBIDDEN error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toEqual('FORBIDDEN');
+    }
+  });
+
+  it('should link prescriptions and payments to the patient\'s encounter', async () => {
+    const encounter = await openEncounter({ patient_id: patient.id, doctor_id: doctor.id }, receptionist.id);
+    const other = await createPatient({ first_name: 'John', last_name: 'Roe', gender: 'male', birthdate: new Date('1970-02-02') });
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name: 'Vitamin C', category: 'vitamins', stock_quantity: 100, price_per_unit: '1.00' })
+      .returning()
+      .execute();
+    const items = [{ medicine_id: medicine.id, quantity_prescribed: 10 }];
+
+    const prescription = await createPrescription({ patient_id: patient.id, doctor_id: doctor.id, items, encounter_id: encounter.id });
+    const payment = await createPayment({ patient_id: patient.id, encounter_id: encounter.id, amount: 10, payment_method: 'cash', created_by: receptionist.id });
+
+    expect(prescription.encounter_id).toEqual(encounter.id);
+    expect(payment.encounter_id).toEqual(encounter.id);
+    await expect(createPrescription({ patient_id: other.id, doctor_id: doctor.id, items, encounter_id: encounter.id }))
+      .rejects.toThrow(/belongs to another patient/i);
+
+    await closeEncounter({ id: encounter.id, status: 'cancelled' });
+    await expect(createPayment({ patient_id: patient.id, encounter_id: encounter.id, amount: 5, payment_method: 'cash', created_by: receptionist.id }))
+      .rejects.toThrow(/was cancelled/i);
+  });
+
+  it('should list encounters by status and follow merges', async () => {
+    const first = await openEncounter({ patient_id: patient.id }, receptionist.id);
+    await closeEncounter({ id: first.id, status: 'closed' });
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    const second = await openEncounter({ patient_id: duplicate.id }, receptionist.id);
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, doctor.id);
+
+    const all = await listEncounters({ patient_id: duplicate.id, limit: 50 });
+    expect(all.map(encounter => encounter.id)).toEqual([second.id, first.id]);
+
+    const open = await listEncounters({ status: 'open', limit: 50 });
+    expect(open.map(encounter => encounter.id)).toEqual([second.id]);
+  });
+
+  it('should refuse to merge patients who both have an open encounter', async () => {
+    const first = await openEncounter({ patient_id: patient.id }, receptionist.id);
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    const second = await openEncounter({ patient_id: duplicate.id }, receptionist.id);
+
+    await expect(mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, doctor.id))
+      .rejects.toThrow(`Both patients have an open encounter (IDs ${first.id}, ${second.id}); close one before merging`);
+    expect((await listEncounters({ patient_id: duplicate.id, limit: 50 })).map(encounter => encounter.id)).toEqual([second.id]);
+  });
+});
@@ -0,0 +1,70 @@
+import { afterAll, beforeAll, describe, expect, it } from 'bun:test';
+import * as crypto from 'crypto';
+import { decryptField, encryptField, isEncrypted, needsReencryption } from '../handlers/fieldEncryption';
+
+const currentKey = crypto.randomBytes(32).toString('base64');
+const oldKey = crypto.randomBytes(32).toString('base64');
+
+describe('field encryption', () => {
+  const originalKeys = process.env['PATIENT_DATA_KEYS'];
+
+  beforeAll(() => {
+    process.env['PATIENT_DATA_KEYS'] = `current:${currentKey}`;
+  });
+
+  afterAll(() => {
+    if (originalKeys === undefined) {
+      delete process.env['PATIENT_DATA_KEYS'];
+    } else {
+      process.env['PATIENT_DATA_KEYS'] = originalKeys;
+    }
+  });
+
+  it('should round-trip a value without storing it in clear', () => {
+    const stored = encryptField('Penicillin');
+
+    expect(isEncrypted(stored!)).toBe(true);
+    expect(stored).not.toContain('Penicillin');
+    expect(decryptField(stored)).toEqual('Penicillin');
+  });
+
+  it('should use a fresh IV for every value', () => {
+    expect(encryptField('Penicillin')).not.toEqual(encryptField('Penicillin'));
+  });
+
+  it('should leave nulls and legacy plain text alone', () => {
+    expect(encryptField(null)).toBeNull();
+    expect(decryptField(null)).toBeNull();
+    expect(decryptField('Penicillin')).toEqual('Penicillin');
+  });
+
+  it('should reject tampered values', () => {
+    const [marker, kid, iv, tag, ciphertext] = encryptField('Penicillin')!.split(':');
+    const flipped = (ciphertext[0] === 'A' ? 'B' : 'A') + ciphertext.slice(1);
+
+    expect(() => decryptField([marker, kid, iv, tag, flipped].join(':'))).toThrow();
+  });
+
+  it('should decrypt with older keys and flag their values for re-encryption', () => {
+    process.env['PATIENT_DATA_KEYS'] = `old:${oldKey}`;
+    const stored = encryptField('Asthma');
+    process.env['PATIENT_DATA_KEYS'] = `current:${currentKey},old:${oldKey}`;
+
+    expect(decryptField(stored)).toEqual('Asthma');
+    expect(needsReencryption(stored)).toBe(true);
+    expect(needsReencryption(encryptField('Asthma'))).toBe(false);
+    expect(needsReencryption('Asthma')).toBe(true);
+    expect(needsReencryption(null)).toBe(false);
+
+    process.env['PATIENT_DATA_KEYS'] = `current:${currentKey}`;
+    expect(() => decryptField(stored)).toThrow(/unknown key/i);
+  });
+
+  it('should reject keys of the wrong length', () => {
+    process.env['PATIENT_DATA_KEYS'] = `short:${crypto.randomBytes(16).toString('base64')}`;
+
+    expect(() => encryptField('Asthma')).toThrow(/32 bytes/);
+
+    process.env['PATIENT_DATA_KEYS'] = `current:${currentKey}`;
+  });
+});
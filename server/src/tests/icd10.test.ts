@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { icd10CodesTable, medicinesTable, usersTable } from '../db/schema';
+import { searchIcd10CodesInputSchema } from '../schema';
+import { createPatient } from '../handlers/patients';
+import { createPrescription } from '../handlers/prescriptions';
+import { importIcd10Codes, normalizeIcd10Code, searchIcd10Codes } from '../handlers/icd10';
+import { asc } from 'drizzle-orm';
+
+const ICD10_CSV = [
+  'code,description',
+  'E11,Type 2 diabetes mellitus',
+  'E11.9,Type 2 diabetes mellitus without complications',
+  'E1165,"Type 2 diabetes mellitus with hyperglycemia"',
+  'E10.9,Type 1 diabetes mellitus without complications',
+  'I10,Essential (primary) hypertension',
+  'N18.3,"Chronic kidney disease, stage 3"',
+  '11X,Bad code',
+  'J45.909,'
+].join('\n');
+
+describe('ICD-10 codes', () => {
+  const search = (query: string) => searchIcd10Codes(searchIcd10CodesInputSchema.parse({ query }));
+
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should normalize codes with or without the dot', () => {
+    expect(normalizeIcd10Code('e119')).toEqual('E11.9');
+    expect(normalizeIcd10Code(' E11.65 ')).toEqual('E11.65');
+    expect(normalizeIcd10Code('I10')).toEqual('I10');
+    expect(normalizeIcd10Code('E1')).toBeNull();
+    expect(normalizeIcd10Code('11X')).toBeNull();
+  });
+
+  it('should import valid rows, report invalid ones and update on re-import', async () => {
+    const result = await importIcd10Codes({ csv: ICD10_CSV });
+
+    expect(result).toEqual({
+      inserted: 6,
+      updated: 0,
+      errors: [
+        { line: 8, message: 'Invalid ICD-10 code: 11X' },
+        { line: 9, message: 'Description is required' }
+      ]
+    });
+
+    const codes = await db.select().from(icd10CodesTable).orderBy(asc(icd10CodesTable.code)).execute();
+    expect(codes.map(code => code.code)).toEqual(['E10.9', 'E11', 'E11.65', 'E11.9', 'I10', 'N18.3']);
+
+    const again = await importIcd10Codes({ csv: 'code,description\nI10,Hypertension\nI11.9,Hypertensive heart disease' });
+    expect(again).toEqual({ inserted: 1, updated: 1, errors: [] });
+    expect((await search('I10'))[0].description).toEqual('Hypertension');
+  });
+
+  it('should search by code prefix and by keyword', async () => {
+    await importIcd10Codes({ csv: ICD10_CSV });
+
+    expect((await search('E11')).map(code => code.code)).toEqual(['E11', 'E11.65', 'E11.9']);
+    expect((await search('e11.6')).map(code => code.code)).toEqual(['E11.65']);
+    expect((await search('diabetes type 1')).map(code => code.code)).toEqual(['E10.9']);
+    expect((await search('kidney')).map(code => code.code)).toEqual(['N18.3']);
+    expect(await search('asthma')).toEqual([]);
+
+    const limited = await searchIcd10Codes({ query: 'diabetes', limit: 2 });
+    expect(limited).toHaveLength(2);
+  });
+
+  it('should store normalized diagnosis codes on prescriptions', async () => {
+    await importIcd10Codes({ csv: ICD10_CSV });
+    const [doctor] = await db.insert(usersTable)
+      .values({ email: 'doctor@clinic.com', password_hash: 'hashedpassword', role: 'doctor', first_name: 'Dana', last_name: 'Doctor' })
+      .returning()
+      .execute();
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name: 'Metformin 500mg', category: 'diabetes', stock_quantity: 100, price_per_unit: '0.50' })
+      .returning()
+      .execute();
+    const patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1965-04-04') });
+    const items = [{ medicine_id: medicine.id, quantity_prescribed: 30 }];
+
+    const prescription = await createPrescription({ patient_id: patient.id, doctor_id: doctor.id, items, diagnosis_codes: ['e119', 'I10', 'E11.9'] });
+    expect(prescription.diagnosis_codes).toEqual(['E11.9', 'I10']);
+
+    const undiagnosed = await createPrescription({ patient_id: patient.id, doctor_id: doctor.id, items });
+    expect(undiagnosed.diagnosis_codes).toEqual([]);
+
+    await expect(createPrescription({ patient_id: patient.id, doctor_id: doctor.id, items, diagnosis_codes: ['Z99.89'] }))
+      .rejects.toThrow(/Unknown ICD-10 code: Z99.89/);
+    await expect(createPrescription({ patient_id: patient.id, doctor_id: doctor.id, items, diagnosis_codes: ['diabetes'] }))
+      .rejects.toThrow(/Invalid ICD-10 code/);
+  });
+});
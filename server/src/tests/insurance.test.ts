@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { createInsurancePolicyInputSchema, type Insurer, type Patient, type User } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import { createPayment } from '../handlers/payments';
+import {
+  cancelInsurancePolicy,
+  checkInsuranceEligibility,
+  createInsurancePolicy,
+  createInsurer,
+  getInsurers,
+  listInsurancePolicies,
+  updateInsurancePolicy,
+  updateInsurer
+} from '../handlers/insurance';
+
+describe('insurance', () => {
+  let cashier: User;
+  let patient: Patient;
+  let insurer: Insurer;
+
+  // Apply schema defaults (priority, copay) the way the router would
+  const addPolicy = (input: Partial<z.input<typeof createInsurancePolicyInputSchema>> = {}) =>
+    createInsurancePolicy(createInsurancePolicyInputSchema.parse({
+      patient_id: patient.id,
+      insurer_id: insurer.id,
+      member_id: 'MEM-001',
+      valid_from: new Date('2026-01-01'),
+      coverage_percent: 80,
+      ...input
+    }), cashier.id);
+
+  const pay = (input: { insurance_policy_id?: number | null; payment_method?: 'cash' | 'card' | 'insurance'; patient_id?: number }) =>
+    createPayment({ patient_id: patient.id, amount: 40, payment_method: 'insurance', created_by: cashier.id, ...input });
+
+  beforeEach(async () => {
+    await createDB();
+    [cashier] = await db.insert(usersTable)
+      .values({ email: 'cashier@clinic.com', password_hash: 'hashedpassword', role: 'cashier', first_name: 'Casey', last_name: 'Cashier' })
+      .returning()
+      .execute();
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15') });
+    insurer = await createInsurer({ name: 'Acme Health', payer_code: 'ACME' });
+  });
+
+  afterEach(resetDB);
+
+  it('should manage insurers', async () => {
+    await createInsurer({ name: 'Blue Shield' });
+    await expect(createInsurer({ name: 'Acme Health' })).rejects.toThrow();
+
+    const updated = await updateInsurer({ id: insurer.id, phone: '555-0100', is_active: false });
+    expect(updated).toMatchObject({ phone: '555-0100', is_active: false });
+
+    expect((await getInsurers()).map(row => row.name)).toEqual(['Acme Health', 'Blue Shield']);
+    await expect(addPolicy()).rejects.toThrow(/is not active/);
+  });
+
+  it('should add policies and reject overlapping ones of the same priority', async () => {
+    const primary = await addPolicy({ group_number: 'GRP-9', copay_amount: 10, valid_to: new Date('2026-12-31') });
+
+    expect(primary).toMatchObject({
+      patient_id: patient.id,
+      insurer_name: 'Acme Health',
+      member_id: 'MEM-001',
+      group_number: 'GRP-9',
+      priority: 'primary',
+      valid_from: new Date('2026-01-01'),
+      valid_to: new Date('2026-12-31'),
+      coverage_percent: 80,
+      copay_amount: 10,
+      cancelled_at: null
+    });
+
+    await expect(addPolicy({ member_id: 'MEM-002', valid_from: new Date('2026-06-01') })).rejects.toThrow(/already has a primary policy/);
+    await addPolicy({ member_id: 'MEM-002', valid_from: new Date('2027-01-01') });
+    await addPolicy({ member_id: 'SEC-1', priority: 'secondary', coverage_percent: 50 });
+
+    await expect(updateInsurancePolicy({ id: primary.id, valid_to: null })).rejects.toThrow(/already has a primary policy/);
+    await expect(updateInsurancePolicy({ id: primary.id, valid_to: new Date('2025-12-01') })).rejects.toThrow(/must not be before/);
+    expect((await updateInsurancePolicy({ id: primary.id, coverage_percent: 90 })).coverage_percent).toEqual(90);
+  });
+
+  it('should list valid policies primary first and follow merges', async () => {
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    const secondary = await addPolicy({ priority: 'secondary', coverage_percent: 50 });
+    const primary = await addPolicy({ patient_id: duplicate.id });
+    const expired = await addPolicy({ member_id: 'OLD', valid_from: new Date('2020-01-01'), valid_to: new Date('2020-12-31') });
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, cashier.id);
+
+    expect((await listInsurancePolicies({ patient_id: duplicate.id, include_inactive: false })).map(policy => policy.id))
+      .toEqual([primary.id, secondary.id]);
+    expect((await listInsurancePolicies({ patient_id: patient.id, include_inactive: true })).map(policy => policy.id))
+      .toEqual([expired.id, primary.id, secondary.id]);
+
+    await cancelInsurancePolicy({ id: secondary.id });
+    expect(await listInsurancePolicies({ patient_id: patient.id, include_inactive: false })).toHaveLength(1);
+    await expect(cancelInsurancePolicy({ id: secondary.id })).rejects.toThrow(/not found/);
+  });
+
+  it('should refuse a merge that leaves two policies of one priority on the same day', async () => {
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    const kept = await addPolicy({ valid_to: new Date('2026-06-30') });
+    const moving = await addPolicy({ patient_id: duplicate.id, member_id: 'MEM-002', valid_from: new Date('2026-06-01') });
+
+    await expect(mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, cashier.id))
+      .rejects.toThrow(`Both patients have a primary policy for the same dates (IDs ${kept.id}, ${moving.id})`);
+    expect(await listInsurancePolicies({ patient_id: duplicate.id, include_inactive: true })).toHaveLength(1);
+
+    await cancelInsurancePolicy({ id: moving.id });
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, cashier.id);
+    expect((await listInsurancePolicies({ patient_id: patient.id, include_inactive: true })).map(policy => policy.id))
+      .toEqual([kept.id, moving.id]);
+  });
+
+  it('should estimate how a charge splits between policies', async () => {
+    await addPolicy({ copay_amount: 20, coverage_percent: 80 });
+    await addPolicy({ member_id: 'SEC-1', priority: 'secondary', coverage_percent: 50 });
+
+    const eligibility = await checkInsuranceEligibility({ patient_id: patient.id, amount: 120 });
+
+    expect(eligibility.policies.map(policy => policy.priority)).toEqual(['primary', 'secondary']);
+    expect(eligibility.estimate).toEqual({
+      amount: 120,
+      copay: 20,
+      primary_covered: 80,
+      secondary_covered: 20,
+      patient_responsibility: 20
+    });
+
+    const before = await checkInsuranceEligibility({ patient_id: patient.id, date: new Date('2025-06-01') });
+    expect(before.policies).toEqual([]);
+    expect(before.estimate).toBeNull();
+  });
+
+  it('should require a valid policy for insurance payments', async () => {
+    const other = await createPatient({ first_name: 'John', last_name: 'Roe', gender: 'male', birthdate: new Date('1970-02-02') });
+    const policy = await addPolicy();
+    const expired = await addPolicy({ member_id: 'OLD', valid_from: new Date('2020-01-01'), valid_to: new Date('2020-12-31') });
+
+    const payment = await pay({ insurance_policy_id: policy.id });
+    expect(payment.insurance_policy_id).toEqual(policy.id);
+
+    await expect(pay({})).rejects.toThrow(/require an insurance policy/);
+    await expect(pay({ insurance_policy_id: expired.id })).rejects.toThrow(/is not valid on/);
+    await expect(pay({ insurance_policy_id: policy.id, patient_id: other.id })).rejects.toThrow(/belongs to another patient/);
+    await expect(pay({ insurance_policy_id: policy.id, payment_method: 'cash' })).rejects.toThrow(/Only insurance payments/);
+
+    await updateInsurer({ id: insurer.id, is_active: false });
+    await expect(pay({ insurance_policy_id: policy.id })).rejects.toThrow(/Insurer with ID \d+ is not active/);
+
+    await updateInsurer({ id: insurer.id, is_active: true });
+    await cancelInsurancePolicy({ id: policy.id });
+    await expect(pay({ insurance_policy_id: policy.id })).rejects.toThrow(/was cancelled/);
+  });
+});
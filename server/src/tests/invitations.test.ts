@@ -0,0 +1,168 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, invitationsTable } from '../db/schema';
+import { type CreateInvitationInput } from '../schema';
+import {
+  createInvitation,
+  listInvitations,
+  revokeInvitation,
+  getInvitationByToken,
+  acceptInvitation
+} from '../handlers/invitations';
+import { loginUser } from '../handlers/auth';
+import { setNotifier, type Notifier, type NotificationMessage } from '../notifier';
+import { eq } from 'drizzle-orm';
+
+// Keeps sent messages in memory so tests can read the invitation link
+class OutboxNotifier implements Notifier {
+  messages: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.messages.push(message);
+  }
+}
+
+const extractToken = (message: NotificationMessage): string => {
+  const match = message.body.match(/token=([A-Za-z0-9_-]+)/);
+  if (!match) {
+    throw new Error('No invitation token in message');
+  }
+  return match[1];
+};
+
+const testInvitationInput: CreateInvitationInput = {
+  email: 'new.doctor@clinic.com',
+  role: 'doctor',
+  first_name: 'Dana',
+  last_name: 'Doctor',
+  phone: '555-0100',
+  expires_in_hours: 72
+};
+
+describe('invitations', () => {
+  let outbox: OutboxNotifier;
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    outbox = new OutboxNotifier();
+    setNotifier(outbox);
+
+    const [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(async () => {
+    setNotifier(null);
+    await resetDB();
+  });
+
+  it('should create a pending invitation and send the link', async () => {
+    const invitation = await createInvitation(testInvitationInput, adminId);
+
+    expect(invitation.status).toEqual('pending');
+    expect(invitation.role).toEqual('doctor');
+    expect(invitation.invited_by).toEqual(adminId);
+    expect(invitation.expires_at.getTime()).toBeGreaterThan(Date.now() + 71 * 60 * 60 * 1000);
+    expect((invitation as Record<string, unknown>)['token_hash']).toBeUndefined();
+
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0].to).toEqual('new.doctor@clinic.com');
+    expect(outbox.messages[0].body).toContain('/accept-invitation?token=');
+  });
+
+  it('should not invite an existing user', async () => {
+    await expect(createInvitation({ ...testInvitationInput, email: 'admin@clinic.com' }, adminId))
+      .rejects.toThrow(/already exists/i);
+  });
+
+  it('should create the account with the invited role', async () => {
+    await createInvitation(testInvitationInput, adminId);
+    const token = extractToken(outbox.messages[0]);
+
+    expect((await getInvitationByToken({ token })).email).toEqual('new.doctor@clinic.com');
+
+    const user = await acceptInvitation({ token, password: 'a-strong-password' });
+
+    expect(user.email).toEqual('new.doctor@clinic.com');
+    expect(user.role).toEqual('doctor');
+    expect(user.phone).toEqual('555-0100');
+    expect((user as Record<string, unknown>)['password_hash']).toBeUndefined();
+
+    const result = await loginUser({ email: 'new.doctor@clinic.com', password: 'a-strong-password' });
+    expect(result.twoFactorRequired).toBe(false);
+
+    const [invitation] = await listInvitations({ status: 'accepted' });
+    expect(invitation.accepted_user_id).toEqual(user.id);
+  });
+
+  it('should only accept a link once', async () => {
+    await createInvitation(testInvitationInput, adminId);
+    const token = extractToken(outbox.messages[0]);
+    await acceptInvitation({ token, password: 'a-strong-password' });
+
+    await expect(acceptInvitation({ token, password: 'another-password' })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should keep the link usable when the password fails the policy', async () => {
+    await createInvitation(testInvitationInput, adminId);
+    const token = extractToken(outbox.messages[0]);
+
+    await expect(acceptInvitation({ token, password: 'short' })).rejects.toThrow(/at least/i);
+    await acceptInvitation({ token, password: 'a-strong-password' });
+  });
+
+  it('should reject expired invitations', async () => {
+    const invitation = await createInvitation(testInvitationInput, adminId);
+    await db.update(invitationsTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(invitationsTable.id, invitation.id))
+      .execute();
+
+    await expect(acceptInvitation({ token: extractToken(outbox.messages[0]), password: 'a-strong-password' }))
+      .rejects.toThrow(/invalid or expired/i);
+    expect((await listInvitations({ status: 'expired' })).map(row => row.id)).toEqual([invitation.id]);
+  });
+
+  it('should reject revoked invitations', async () => {
+    const invitation = await createInvitation(testInvitationInput, adminId);
+
+    const revoked = await revokeInvitation({ id: invitation.id });
+
+    expect(revoked.status).toEqual('revoked');
+    await expect(getInvitationByToken({ token: extractToken(outbox.messages[0]) })).rejects.toThrow(/invalid or expired/i);
+    await expect(revokeInvitation({ id: invitation.id })).rejects.toThrow(/not found/i);
+  });
+
+  it('should replace an earlier pending invitation for the same email', async () => {
+    await createInvitation(testInvitationInput, adminId);
+    await createInvitation({ ...testInvitationInput, role: 'cashier' }, adminId);
+
+    await expect(acceptInvitation({ token: extractToken(outbox.messages[0]), password: 'a-strong-password' }))
+      .rejects.toThrow(/invalid or expired/i);
+
+    const user = await acceptInvitation({ token: extractToken(outbox.messages[1]), password: 'a-strong-password' });
+    expect(user.role).toEqual('cashier');
+  });
+
+  it('should filter invitations by status', async () => {
+    const first = await createInvitation(testInvitationInput, adminId);
+    await createInvitation({ ...testInvitationInput, email: 'cashier@clinic.com', role: 'cashier' }, adminId);
+    await revokeInvitation({ id: first.id });
+
+    expect(await listInvitations({})).toHaveLength(2);
+    expect((await listInvitations({ status: 'pending' })).map(row => row.email)).toEqual(['cashier@clinic.com']);
+    expect((await listInvitations({ status: 'revoked' })).map(row => row.email)).toEqual(['new.doctor@clinic.com']);
+  });
+});
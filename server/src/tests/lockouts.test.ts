@@ -0,0 +1,313 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, loginAttemptsTable, loginLockoutsTable } from '../db/schema';
+import {
+  getLoginProtectionConfig,
+  getProgressiveDelayMs,
+  assertLoginAllowed,
+  recordFailedLogin,
+  recordSuccessfulLogin,
+  getLockouts,
+  unlockLockout,
+  getFailedLoginSummary
+} from '../handlers/lockouts';
+import { loginUser, hashPassword } from '../handlers/auth';
+import { eq } from 'drizzle-orm';
+
+const ENV_VARS = [
+  'LOGIN_MAX_FAILURES_PER_EMAIL',
+  'LOGIN_MAX_FAILURES_PER_IP',
+  'LOGIN_FAILURE_WINDOW_MINUTES',
+  'LOGIN_LOCKOUT_MINUTES',
+  'LOGIN_DELAY_AFTER_FAILURES',
+  'LOGIN_BASE_DELAY_MS',
+  'LOGIN_MAX_DELAY_MS'
+];
+
+const savedEnv: Record<string, string | undefined> = {};
+
+// Small limits and no delay unless a test opts in
+const useTestLimits = () => {
+  for (const name of ENV_VARS) {
+    savedEnv[name] = process.env[name];
+  }
+  process.env['LOGIN_MAX_FAILURES_PER_EMAIL'] = '3';
+  process.env['LOGIN_MAX_FAILURES_PER_IP'] = '5';
+  process.env['LOGIN_BASE_DELAY_MS'] = '0';
+};
+
+const restoreEnv = () => {
+  for (const name of ENV_VARS) {
+    if (savedEnv[name] === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = savedEnv[name];
+    }
+  }
+};
+
+describe('getLoginProtectionConfig', () => {
+  beforeEach(useTestLimits);
+  afterEach(restoreEnv);
+
+  it('should read overrides from the environment', () => {
+    const config = getLoginProtectionConfig();
+
+    expect(config.maxFailuresPerEmail).toEqual(3);
+    expect(config.maxFailuresPerIp).toEqual(5);
+    expect(config.baseDelayMs).toEqual(0);
+    expect(config.lockoutMinutes).toEqual(15); // Default
+  });
+
+  it('should reject invalid values', () => {
+    process.env['LOGIN_LOCKOUT_MINUTES'] = 'soon';
+
+    expect(() => getLoginProtectionConfig()).toThrow(/LOGIN_LOCKOUT_MINUTES/);
+  });
+});
+
+describe('getProgressiveDelayMs', () => {
+  const config = {
+    maxFailuresPerEmail: 5,
+    maxFailuresPerIp: 20,
+    failureWindowMinutes: 15,
+    lockoutMinutes: 15,
+    delayAfterFailures: 2,
+    baseDelayMs: 1000,
+    maxDelayMs: 5000
+  };
+
+  it('should not delay before the threshold', () => {
+    expect(getProgressiveDelayMs(0, config)).toEqual(0);
+    expect(getProgressiveDelayMs(1, config)).toEqual(0);
+  });
+
+  it('should double the delay for each further failure up to the cap', () => {
+    expect(getProgressiveDelayMs(2, config)).toEqual(1000);
+    expect(getProgressiveDelayMs(3, config)).toEqual(2000);
+    expect(getProgressiveDelayMs(4, config)).toEqual(4000);
+    expect(getProgressiveDelayMs(5, config)).toEqual(5000);
+    expect(getProgressiveDelayMs(10, config)).toEqual(5000);
+  });
+});
+
+describe('login throttling', () => {
+  beforeEach(async () => {
+    useTestLimits();
+    await createDB();
+  });
+
+  afterEach(async () => {
+    restoreEnv();
+    await resetDB();
+  });
+
+  it('should record failed attempts', async () => {
+    await recordFailedLogin('Nurse@Clinic.com', '10.0.0.1');
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].email).toEqual('nurse@clinic.com');
+    expect(attempts[0].ip_address).toEqual('10.0.0.1');
+    expect(attempts[0].succeeded).toBe(false);
+  });
+
+  it('should lock an email after too many failures', async () => {
+    await recordFailedLogin('nurse@clinic.com', '10.0.0.1');
+    await recordFailedLogin('nurse@clinic.com', '10.0.0.2');
+    await assertLoginAllowed('nurse@clinic.com', '10.0.0.3');
+
+    await recordFailedLogin('nurse@clinic.com', '10.0.0.3');
+
+    await expect(assertLoginAllowed('nurse@clinic.com', '10.0.0.4')).rejects.toThrow(/too many failed login attempts/i);
+
+    const lockouts = await db.select().from(loginLockoutsTable).execute();
+    expect(lockouts).toHaveLength(1);
+    expect(lockouts[0].scope).toEqual('email');
+    expect(lockouts[0].identifier).toEqual('nurse@clinic.com');
+    expect(lockouts[0].failed_attempts).toEqual(3);
+    expect(lockouts[0].locked_until.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should lock an IP that tries many accounts', async () => {
+    for (let i = 0; i < 5; i++) {
+      await recordFailedLogin(`user${i}@clinic.com`, '10.0.0.9');
+    }
+
+    await expect(assertLoginAllowed('someone@clinic.com', '10.0.0.9')).rejects.toThrow(/too many failed login attempts/i);
+    await assertLoginAllowed('someone@clinic.com', '10.0.0.10');
+
+    const lockouts = await db.select().from(loginLockoutsTable).where(eq(loginLockoutsTable.scope, 'ip')).execute();
+    expect(lockouts).toHaveLength(1);
+    expect(lockouts[0].identifier).toEqual('10.0.0.9');
+  });
+
+  it('should reset the email count after a successful login', async () => {
+    await recordFailedLogin('nurse@clinic.com', null);
+    await recordFailedLogin('nurse@clinic.com', null);
+    await recordSuccessfulLogin('nurse@clinic.com', null);
+    await recordFailedLogin('nurse@clinic.com', null);
+    await recordFailedLogin('nurse@clinic.com', null);
+
+    await assertLoginAllowed('nurse@clinic.com', null);
+  });
+
+  it('should ignore failures outside the window', async () => {
+    const longAgo = new Date(Date.now() - 60 * 60 * 1000);
+    await db.insert(loginAttemptsTable).values([
+      { email: 'nurse@clinic.com', ip_address: null, succeeded: false, created_at: longAgo },
+      { email: 'nurse@clinic.com', ip_address: null, succeeded: false, created_at: longAgo },
+      { email: 'nurse@clinic.com', ip_address: null, succeeded: false, created_at: longAgo }
+    ]).execute();
+
+    await recordFailedLogin('nurse@clinic.com', null);
+
+    await assertLoginAllowed('nurse@clinic.com', null);
+  });
+
+  it('should make the caller wait after repeated failures', async () => {
+    process.env['LOGIN_DELAY_AFTER_FAILURES'] = '1';
+    process.env['LOGIN_BASE_DELAY_MS'] = '60000';
+    process.env['LOGIN_MAX_DELAY_MS'] = '60000';
+
+    await recordFailedLogin('nurse@clinic.com', null);
+
+    await expect(assertLoginAllowed('nurse@clinic.com', null)).rejects.toThrow(/try again in \d+ seconds/i);
+  });
+
+  it('should block loginUser while locked, even with the right password', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'nurse@clinic.com',
+        password_hash: await hashPassword('password123'),
+        role: 'cashier',
+        first_name: 'Nina',
+        last_name: 'Nurse',
+        phone: null
+      })
+      .execute();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(loginUser({ email: 'nurse@clinic.com', password: 'wrong' }, '10.0.0.1')).rejects.toThrow(/invalid email or password/i);
+    }
+
+    await expect(loginUser({ email: 'nurse@clinic.com', password: 'password123' }, '10.0.0.1')).rejects.toThrow(/too many failed login attempts/i);
+  });
+
+  it('should count logins to a deactivated account as failures', async () => {
+    await db.insert(usersTable)
+      .values({
+        email: 'nurse@clinic.com',
+        password_hash: await hashPassword('password123'),
+        role: 'cashier',
+        first_name: 'Nina',
+        last_name: 'Nurse',
+        phone: null,
+        is_active: false
+      })
+      .execute();
+
+    for (let i = 0; i < 3; i++) {
+      await expect(loginUser({ email: 'nurse@clinic.com', password: 'password123' }, '10.0.0.1')).rejects.toThrow(/invalid email or password/i);
+    }
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(3);
+    await expect(assertLoginAllowed('nurse@clinic.com', '10.0.0.2')).rejects.toThrow(/too many failed login attempts/i);
+  });
+});
+
+describe('lockout administration', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    useTestLimits();
+    await createDB();
+    const [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(async () => {
+    restoreEnv();
+    await resetDB();
+  });
+
+  const lockEmail = async (email: string) => {
+    for (let i = 0; i < 3; i++) {
+      await recordFailedLogin(email, null);
+    }
+  };
+
+  it('should list lockouts and filter active ones', async () => {
+    await lockEmail('nurse@clinic.com');
+    await lockEmail('doctor@clinic.com');
+    const [expired] = await db.select()
+      .from(loginLockoutsTable)
+      .where(eq(loginLockoutsTable.identifier, 'doctor@clinic.com'))
+      .execute();
+    await db.update(loginLockoutsTable)
+      .set({ locked_until: new Date(Date.now() - 1000) })
+      .where(eq(loginLockoutsTable.id, expired.id))
+      .execute();
+
+    const all = await getLockouts({ active_only: false, limit: 100 });
+    expect(all).toHaveLength(2);
+
+    const active = await getLockouts({ active_only: true, limit: 100 });
+    expect(active).toHaveLength(1);
+    expect(active[0].identifier).toEqual('nurse@clinic.com');
+  });
+
+  it('should unlock and record who unlocked', async () => {
+    await lockEmail('nurse@clinic.com');
+    const [lockout] = await getLockouts({ active_only: true, limit: 100 });
+
+    const result = await unlockLockout({ id: lockout.id }, adminId);
+
+    expect(result.unlocked_at).toBeInstanceOf(Date);
+    expect(result.unlocked_by).toEqual(adminId);
+    await assertLoginAllowed('nurse@clinic.com', null);
+  });
+
+  it('should give a fresh set of attempts after unlocking', async () => {
+    await lockEmail('nurse@clinic.com');
+    const [lockout] = await getLockouts({ active_only: true, limit: 100 });
+    await unlockLockout({ id: lockout.id }, adminId);
+
+    await recordFailedLogin('nurse@clinic.com', null);
+
+    await assertLoginAllowed('nurse@clinic.com', null);
+  });
+
+  it('should not unlock twice', async () => {
+    await lockEmail('nurse@clinic.com');
+    const [lockout] = await getLockouts({ active_only: true, limit: 100 });
+    await unlockLockout({ id: lockout.id }, adminId);
+
+    await expect(unlockLockout({ id: lockout.id }, adminId)).rejects.toThrow(/not found/i);
+  });
+
+  it('should summarise failures by email and IP', async () => {
+    await recordFailedLogin('nurse@clinic.com', '10.0.0.1');
+    await recordFailedLogin('nurse@clinic.com', '10.0.0.1');
+    await recordFailedLogin('doctor@clinic.com', '10.0.0.2');
+    await recordSuccessfulLogin('doctor@clinic.com', '10.0.0.2');
+
+    const summary = await getFailedLoginSummary({ since: new Date(Date.now() - 60 * 1000) });
+
+    expect(summary.byEmail[0]).toEqual({ email: 'nurse@clinic.com', failures: 2 });
+    expect(summary.byEmail[1]).toEqual({ email: 'doctor@clinic.com', failures: 1 });
+    expect(summary.byIp[0]).toEqual({ ipAddress: '10.0.0.1', failures: 2 });
+  });
+});
@@ -0,0 +1,272 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, passwordHistoryTable, passwordResetTokensTable } from '../db/schema';
+import {
+  hashPassword,
+  verifyPassword,
+  getPasswordPolicy,
+  assertPasswordMeetsPolicy,
+  setUserPassword,
+  changePassword,
+  requestPasswordReset,
+  resetPassword
+} from '../handlers/passwords';
+import { createSession, getActiveSessionsByUserId } from '../handlers/sessions';
+import { setNotifier, FileNotifier, type Notifier, type NotificationMessage } from '../notifier';
+import { eq } from 'drizzle-orm';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import * as path from 'path';
+
+// Keeps sent messages in memory so tests can read the reset link
+class OutboxNotifier implements Notifier {
+  messages: NotificationMessage[] = [];
+
+  async send(message: NotificationMessage): Promise<void> {
+    this.messages.push(message);
+  }
+}
+
+const extractToken = (message: NotificationMessage): string => {
+  const match = message.body.match(/token=([A-Za-z0-9_-]+)/);
+  if (!match) {
+    throw new Error('No reset token in message');
+  }
+  return match[1];
+};
+
+const createUser = async (password: string) => {
+  const [user] = await db.insert(usersTable)
+    .values({
+      email: 'nurse@clinic.com',
+      password_hash: await hashPassword(password),
+      role: 'cashier',
+      first_name: 'Nina',
+      last_name: 'Nurse',
+      phone: null
+    })
+    .returning()
+    .execute();
+  return user;
+};
+
+describe('password policy', () => {
+  const saved = {
+    minLength: process.env['PASSWORD_MIN_LENGTH'],
+    historySize: process.env['PASSWORD_HISTORY_SIZE']
+  };
+
+  beforeEach(createDB);
+
+  afterEach(async () => {
+    for (const [name, value] of [['PASSWORD_MIN_LENGTH', saved.minLength], ['PASSWORD_HISTORY_SIZE', saved.historySize]] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+    await resetDB();
+  });
+
+  it('should use defaults and environment overrides', () => {
+    delete process.env['PASSWORD_MIN_LENGTH'];
+    delete process.env['PASSWORD_HISTORY_SIZE'];
+    expect(getPasswordPolicy()).toEqual({ minLength: 10, historySize: 5 });
+
+    process.env['PASSWORD_MIN_LENGTH'] = '14';
+    process.env['PASSWORD_HISTORY_SIZE'] = '0';
+    expect(getPasswordPolicy()).toEqual({ minLength: 14, historySize: 0 });
+  });
+
+  it('should reject short passwords', async () => {
+    await expect(assertPasswordMeetsPolicy('short')).rejects.toThrow(/at least 10 characters/i);
+  });
+
+  it('should reject the current and recent passwords', async () => {
+    const user = await createUser('first-password');
+
+    await setUserPassword(user.id, 'second-password');
+    await setUserPassword(user.id, 'third-password');
+
+    await expect(assertPasswordMeetsPolicy('third-password', user.id)).rejects.toThrow(/last 5 passwords/i);
+    await expect(assertPasswordMeetsPolicy('second-password', user.id)).rejects.toThrow(/last 5 passwords/i);
+    await assertPasswordMeetsPolicy('fourth-password', user.id);
+  });
+
+  it('should allow reuse once a password falls out of the history', async () => {
+    process.env['PASSWORD_HISTORY_SIZE'] = '2';
+    const user = await createUser('first-password');
+
+    await setUserPassword(user.id, 'second-password');
+    await setUserPassword(user.id, 'third-password');
+    await setUserPassword(user.id, 'fourth-password');
+
+    await assertPasswordMeetsPolicy('second-password', user.id);
+
+    const history = await db.select()
+      .from(passwordHistoryTable)
+      .where(eq(passwordHistoryTable.user_id, user.id))
+      .execute();
+    expect(history).toHaveLength(2);
+  });
+});
+
+describe('changePassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should change the password when the current one is right', async () => {
+    const user = await createUser('old-password');
+    const { session } = await createSession(user.id);
+
+    const result = await changePassword({ current_password: 'old-password', new_password: 'new-password' }, user.id, session.id);
+
+    expect(result.success).toBe(true);
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(await verifyPassword('new-password', users[0].password_hash)).toBe(true);
+  });
+
+  it('should keep the current session and revoke the others', async () => {
+    const user = await createUser('old-password');
+    const current = await createSession(user.id);
+    await createSession(user.id);
+
+    await changePassword({ current_password: 'old-password', new_password: 'new-password' }, user.id, current.session.id);
+
+    const sessions = await getActiveSessionsByUserId(user.id);
+    expect(sessions).toHaveLength(1);
+    expect(sessions[0].id).toEqual(current.session.id);
+  });
+
+  it('should reject a wrong current password', async () => {
+    const user = await createUser('old-password');
+    const { session } = await createSession(user.id);
+
+    await expect(changePassword({ current_password: 'not-my-password', new_password: 'new-password' }, user.id, session.id))
+      .rejects.toThrow(/current password is incorrect/i);
+  });
+
+  it('should reject reusing the current password', async () => {
+    const user = await createUser('old-password');
+    const { session } = await createSession(user.id);
+
+    await expect(changePassword({ current_password: 'old-password', new_password: 'old-password' }, user.id, session.id))
+      .rejects.toThrow(/last 5 passwords/i);
+  });
+});
+
+describe('password reset', () => {
+  let outbox: OutboxNotifier;
+
+  beforeEach(async () => {
+    await createDB();
+    outbox = new OutboxNotifier();
+    setNotifier(outbox);
+  });
+
+  afterEach(async () => {
+    setNotifier(null);
+    await resetDB();
+  });
+
+  it('should send a reset link and store only its hash', async () => {
+    const user = await createUser('old-password');
+
+    const result = await requestPasswordReset({ email: 'nurse@clinic.com' });
+
+    expect(result.success).toBe(true);
+    expect(outbox.messages).toHaveLength(1);
+    expect(outbox.messages[0].to).toEqual('nurse@clinic.com');
+
+    const token = extractToken(outbox.messages[0]);
+    const rows = await db.select()
+      .from(passwordResetTokensTable)
+      .where(eq(passwordResetTokensTable.user_id, user.id))
+      .execute();
+    expect(rows).toHaveLength(1);
+    expect(rows[0].token_hash).not.toEqual(token);
+    expect(rows[0].expires_at.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should not reveal unknown or inactive accounts', async () => {
+    const user = await createUser('old-password');
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, user.id)).execute();
+
+    expect(await requestPasswordReset({ email: 'nurse@clinic.com' })).toEqual({ success: true });
+    expect(await requestPasswordReset({ email: 'nobody@clinic.com' })).toEqual({ success: true });
+    expect(outbox.messages).toHaveLength(0);
+  });
+
+  it('should reset the password with the token and sign out everywhere', async () => {
+    const user = await createUser('old-password');
+    await createSession(user.id);
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+
+    await resetPassword({ token: extractToken(outbox.messages[0]), new_password: 'brand-new-password' });
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, user.id)).execute();
+    expect(await verifyPassword('brand-new-password', users[0].password_hash)).toBe(true);
+    expect(await getActiveSessionsByUserId(user.id)).toHaveLength(0);
+  });
+
+  it('should only accept a token once', async () => {
+    await createUser('old-password');
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+    const token = extractToken(outbox.messages[0]);
+
+    await resetPassword({ token, new_password: 'brand-new-password' });
+
+    await expect(resetPassword({ token, new_password: 'another-password' })).rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should reject expired tokens', async () => {
+    const user = await createUser('old-password');
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+    await db.update(passwordResetTokensTable)
+      .set({ expires_at: new Date(Date.now() - 1000) })
+      .where(eq(passwordResetTokensTable.user_id, user.id))
+      .execute();
+
+    await expect(resetPassword({ token: extractToken(outbox.messages[0]), new_password: 'brand-new-password' }))
+      .rejects.toThrow(/invalid or expired/i);
+  });
+
+  it('should invalidate older links when a new one is requested', async () => {
+    await createUser('old-password');
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+
+    await expect(resetPassword({ token: extractToken(outbox.messages[0]), new_password: 'brand-new-password' }))
+      .rejects.toThrow(/invalid or expired/i);
+    await resetPassword({ token: extractToken(outbox.messages[1]), new_password: 'brand-new-password' });
+  });
+
+  it('should keep the token usable when the new password fails the policy', async () => {
+    await createUser('old-password');
+    await requestPasswordReset({ email: 'nurse@clinic.com' });
+    const token = extractToken(outbox.messages[0]);
+
+    await expect(resetPassword({ token, new_password: 'short' })).rejects.toThrow(/at least/i);
+    await resetPassword({ token, new_password: 'brand-new-password' });
+  });
+});
+
+describe('FileNotifier', () => {
+  it('should append messages to the outbox file', async () => {
+    const directory = await mkdtemp(path.join(tmpdir(), 'outbox-'));
+    try {
+      const notifier = new FileNotifier(directory);
+
+      await notifier.send({ to: 'a@clinic.com', subject: 'First', body: 'one' });
+      await notifier.send({ to: 'b@clinic.com', subject: 'Second', body: 'two' });
+
+      const lines = (await readFile(path.join(directory, 'outbox.jsonl'), 'utf8')).trim().split('\n');
+      expect(lines).toHaveLength(2);
+      expect(JSON.parse(lines[1]).to).toEqual('b@clinic.com');
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
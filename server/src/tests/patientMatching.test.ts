@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'bun:test';
+import {
+  DUPLICATE_SCORE_THRESHOLD,
+  jaroWinkler,
+  normalizeName,
+  normalizePhone,
+  scoreDuplicate
+} from '../handlers/patientMatching';
+
+const john = {
+  first_name: 'John',
+  last_name: 'Smith',
+  birthdate: new Date('1980-04-12'),
+  phone: '+1 (555) 123-4567',
+  email: 'john.smith@example.com'
+};
+
+describe('patient matching', () => {
+  it('should normalize names and phone numbers', () => {
+    expect(normalizeName(' José-María ')).toEqual('josemaria');
+    expect(normalizePhone('+1 (555) 123-4567')).toEqual(normalizePhone('555.123.4567'));
+    expect(normalizePhone('123')).toBeNull();
+  });
+
+  it('should compute Jaro-Winkler similarity', () => {
+    expect(jaroWinkler('martha', 'martha')).toEqual(1);
+    expect(jaroWinkler('martha', 'marhta')).toBeCloseTo(0.961, 3);
+    expect(jaroWinkler('dwayne', 'duane')).toBeCloseTo(0.84, 2);
+    expect(jaroWinkler('abc', 'xyz')).toEqual(0);
+  });
+
+  it('should flag a misspelled name with the same birthdate', () => {
+    const result = scoreDuplicate(john, { first_name: 'Jon', last_name: 'Smith', birthdate: '1980-04-12' });
+
+    expect(result.score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+    expect(result.matched_on).toEqual(['name', 'birthdate']);
+  });
+
+  it('should flag swapped first and last names', () => {
+    const result = scoreDuplicate(john, { first_name: 'Smith', last_name: 'John', birthdate: '1980-04-12' });
+
+    expect(result.score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it('should flag a birthdate typo when contact details match', () => {
+    const result = scoreDuplicate(john, { ...john, birthdate: '1980-12-04', email: 'John.Smith@Example.com ' });
+
+    expect(result.score).toBeGreaterThanOrEqual(DUPLICATE_SCORE_THRESHOLD);
+    expect(result.matched_on).toEqual(['name', 'phone', 'email']);
+  });
+
+  it('should not flag relatives sharing contact details', () => {
+    const result = scoreDuplicate(john, { ...john, first_name: 'Mary', birthdate: '1982-09-30' });
+
+    expect(result.score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+  });
+
+  it('should not flag namesakes born on different days', () => {
+    const result = scoreDuplicate(john, { first_name: 'John', last_name: 'Smith', birthdate: '1965-01-30' });
+
+    expect(result.score).toBeLessThan(DUPLICATE_SCORE_THRESHOLD);
+  });
+});
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'bun:test';
+import { highlightDigits, highlightWords, parsePatientQuery } from '../handlers/patientSearch';
+
+describe('patient search queries', () => {
+  it('should split a query into words, phone digits and birthdates', () => {
+    expect(parsePatientQuery('  John   SMITH ')).toEqual({ text: 'john smith', phoneDigits: null, birthdates: [] });
+    expect(parsePatientQuery('+1 (555) 010-0100')).toEqual({ text: null, phoneDigits: '15550100100', birthdates: [] });
+    expect(parsePatientQuery('smith 1980-04-12')).toEqual({ text: 'smith', phoneDigits: null, birthdates: ['1980-04-12'] });
+    expect(parsePatientQuery('jane@example.com')).toEqual({ text: 'jane@example.com', phoneDigits: null, birthdates: [] });
+  });
+
+  it('should search short numbers and impossible dates as text', () => {
+    expect(parsePatientQuery('room 12')).toEqual({ text: 'room 12', phoneDigits: null, birthdates: [] });
+    expect(parsePatientQuery('1980-02-30').birthdates).toEqual([]);
+  });
+
+  it('should highlight matching and misspelled words', () => {
+    expect(highlightWords('John Smith', ['smith'])).toEqual([{ start: 5, end: 10 }]);
+    expect(highlightWords('John Smith', ['jhon', 'smi'])).toEqual([{ start: 0, end: 4 }, { start: 5, end: 8 }]);
+    expect(highlightWords('Anna Annabel', ['ann', 'anna'])).toEqual([{ start: 0, end: 4 }]);
+    expect(highlightWords('John Smith', ['xyz'])).toEqual([]);
+  });
+
+  it('should highlight digits within a formatted phone number', () => {
+    expect(highlightDigits('+1 (555) 010-0100', '5550100100')).toEqual([{ start: 4, end: 17 }]);
+    expect(highlightDigits('+1 (555) 010-0100', '0100')).toEqual([{ start: 9, end: 14 }]);
+    expect(highlightDigits('555-0199', '0100')).toEqual([]);
+  });
+});
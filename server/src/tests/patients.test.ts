@@ -1,17 +1,32 @@
 import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
 import { resetDB, createDB } from '../helpers';
 import { db } from '../db';
-import { patientsTable } from '../db/schema';
-import { type CreatePatientInput, type UpdatePatientInput } from '../schema';
+import { TRPCError } from '@trpc/server';
+import { patientsTable, usersTable, medicinesTable, patientMergesTable } from '../db/schema';
+import { searchPatientsInputSchema, type CreatePatientInput, type UpdatePatientInput, type User } from '../schema';
 import { 
   createPatient, 
   getPatients, 
   getPatientById, 
   updatePatient, 
-  searchPatients 
+  searchPatients,
+  reencryptPatientData,
+  findDuplicatePatients,
+  mergePatients,
+  DuplicatePatientError
 } from '../handlers/patients';
+import { createPrescription, getPrescriptionsByPatientId } from '../handlers/prescriptions';
+import { createPayment, getPaymentsByPatientId } from '../handlers/payments';
+import { isEncrypted } from '../handlers/fieldEncryption';
+import { createCallerFactory } from '../trpc';
+import { appRouter } from '../index';
 import { eq } from 'drizzle-orm';
 
+// Patients found by a search, best match first, applying the schema's
+// paging defaults the way the router would
+const findPatients = async (query: string) =>
+  (await searchPatients(searchPatientsInputSchema.parse({ query }))).results.map(result => result.patient);
+
 // Test input data
 const testPatientInput: CreatePatientInput = {
   first_name: 'John',
@@ -269,12 +284,12 @@ describe('Patient Handlers', () => {
     });
 
     it('should return empty array for no matches', async () => {
-      const patients = await searchPatients('xyz');
+      const patients = await findPatients('xyz');
       expect(patients).toEqual([]);
     });
 
     it('should search by first name', async () => {
-      const patients = await searchPatients('John');
+      const patients = await findPatients('John');
 
       expect(patients).toHaveLength(2); // John and Johnson
       const names = patients.map(p => `${p.first_name} ${p.last_name}`).sort();
@@ -282,7 +297,7 @@ describe('Patient Handlers', () => {
     });
 
     it('should search by last name', async () => {
-      const patients = await searchPatients('Smith');
+      const patients = await findPatients('Smith');
 
       expect(patients).toHaveLength(1);
       expect(patients[0].first_name).toEqual('Jane');
@@ -290,7 +305,7 @@ describe('Patient Handlers', () => {
     });
 
     it('should be case insensitive', async () => {
-      const patients = await searchPatients('john');
+      const patients = await findPatients('john');
 
       expect(patients).toHaveLength(2); // John and Johnson
       const names = patients.map(p => `${p.first_name} ${p.last_name}`).sort();
@@ -298,7 +313,7 @@ describe('Patient Handlers', () => {
     });
 
     it('should search partial matches', async () => {
-      const patients = await searchPatients('Jo');
+      const patients = await findPatients('Jo');
 
       expect(patients).toHaveLength(2);
       const names = patients.map(p => `${p.first_name} ${p.last_name}`).sort();
@@ -306,7 +321,7 @@ describe('Patient Handlers', () => {
     });
 
     it('should search both first and last names', async () => {
-      const patients = await searchPatients('o');
+      const patients = await findPatients('o');
 
       expect(patients).toHaveLength(2); // John Doe and Bob Johnson
       const names = patients.map(p => `${p.first_name} ${p.last_name}`).sort();
@@ -314,7 +329,7 @@ describe('Patient Handlers', () => {
     });
 
     it('should return patients with correct field types', async () => {
-      const patients = await searchPatients('John');
+      const patients = await findPatients('John');
 
       expect(patients).toHaveLength(2); // John and Johnson
       const patient = patients[0];
@@ -324,4 +339,395 @@ describe('Patient Handlers', () => {
       expect(patient.updated_at).toBeInstanceOf(Date);
     });
   });
-});
\ No newline at end of file
+});
+
+describe('Patient clinical data encryption', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should store clinical fields encrypted and names in clear', async () => {
+    const created = await createPatient(testPatientInput);
+
+    const [row] = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, created.id))
+      .execute();
+
+    expect(row.first_name).toEqual('John');
+    expect(isEncrypted(row.allergies!)).toBe(true);
+    expect(isEncrypted(row.chronic_conditions!)).toBe(true);
+    expect(isEncrypted(row.medical_history!)).toBe(true);
+    expect(row.allergies).not.toContain('Penicillin');
+    expect(created.allergies).toEqual('Penicillin, Peanuts');
+  });
+
+  it('should encrypt clinical fields on update', async () => {
+    const created = await createPatient(minimalPatientInput);
+
+    await updatePatient({ id: created.id, allergies: 'Latex' });
+
+    const [row] = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, created.id))
+      .execute();
+
+    expect(isEncrypted(row.allergies!)).toBe(true);
+    expect((await getPatientById(created.id))!.allergies).toEqual('Latex');
+  });
+
+  it('should encrypt rows written before encryption was enabled', async () => {
+    const [legacy] = await db.insert(patientsTable)
+      .values({
+        first_name: 'Legacy',
+        last_name: 'Patient',
+        gender: 'female',
+        birthdate: '1970-01-01',
+        allergies: 'Sulfa drugs',
+        medical_history: null
+      })
+      .returning()
+      .execute();
+    await createPatient(testPatientInput);
+
+    expect((await getPatientById(legacy.id))!.allergies).toEqual('Sulfa drugs');
+
+    const result = await reencryptPatientData();
+
+    expect(result.updated).toEqual(1);
+    const [row] = await db.select()
+      .from(patientsTable)
+      .where(eq(patientsTable.id, legacy.id))
+      .execute();
+    expect(isEncrypted(row.allergies!)).toBe(true);
+    expect(row.medical_history).toBeNull();
+    expect((await getPatientById(legacy.id))!.allergies).toEqual('Sulfa drugs');
+  });
+});
+
+describe('Patient field visibility', () => {
+  const createCaller = createCallerFactory(appRouter);
+  let user: User;
+
+  const callerFor = (role: User['role']) =>
+    createCaller({ user: { ...user, role }, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+  beforeEach(async () => {
+    await createDB();
+    [user] = await db.insert(usersTable)
+      .values({
+        email: 'staff@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'doctor',
+        first_name: 'Sam',
+        last_name: 'Staff',
+        phone: null
+      })
+      .returning()
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should show clinical fields to clinical roles', async () => {
+    const created = await createPatient(testPatientInput);
+
+    const patient = await callerFor('nurse').patients.getById({ id: created.id });
+
+    expect(patient).toMatchObject({ allergies: 'Penicillin, Peanuts', medical_history: 'Previous heart surgery in 2020' });
+  });
+
+  it('should show only demographics to cashiers and receptionists', async () => {
+    const created = await createPatient(testPatientInput);
+
+    for (const role of ['cashier', 'receptionist'] as const) {
+      const caller = callerFor(role);
+      const [listed] = await caller.patients.getAll();
+      const { results: [{ patient: found }] } = await caller.patients.search({ query: 'doe' });
+      const byId = await caller.patients.getById({ id: created.id });
+
+      for (const patient of [listed, found, byId!]) {
+        expect(patient.first_name).toEqual('John');
+        expect(patient).not.toHaveProperty('allergies');
+        expect(patient).not.toHaveProperty('chronic_conditions');
+        expect(patient).not.toHaveProperty('medical_history');
+      }
+    }
+  });
+
+  it('should let receptionists register patients without clinical fields', async () => {
+    const patient = await callerFor('receptionist').patients.create(minimalPatientInput);
+
+    expect(patient.first_name).toEqual('Jane');
+    expect(patient).not.toHaveProperty('allergies');
+  });
+
+  it('should stop receptionists from writing clinical fields', async () => {
+    const created = await createPatient(testPatientInput);
+    const caller = callerFor('receptionist');
+
+    for (const attempt of [
+      caller.patients.create(testPatientInput),
+      caller.patients.update({ id: created.id, allergies: null })
+    ]) {
+      try {
+        await attempt;
+        throw new Error('Expected FORBIDDEN error');
+      } catch (error) {
+        expect(error).toBeInstanceOf(TRPCError);
+        expect((error as TRPCError).code).toEqual('FORBIDDEN');
+      }
+    }
+
+    expect((await getPatientById(created.id))!.allergies).toEqual('Penicillin, Peanuts');
+  });
+});
+
+describe('Patient duplicate detection', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should refuse a likely duplicate and report the match', async () => {
+    const existing = await createPatient(testPatientInput);
+
+    await expect(createPatient({ ...testPatientInput, first_name: 'Jon', email: null, phone: null }))
+      .rejects.toThrow(new RegExp(`duplicate of patient with ID ${existing.id}`));
+
+    const [candidate] = await findDuplicatePatients({ first_name: 'Jon', last_name: 'Smyth', birthdate: new Date('1985-05-15') });
+    expect(candidate).toBeUndefined();
+
+    const candidates = await findDuplicatePatients({ first_name: 'Jon', last_name: 'Doe', birthdate: new Date('1985-05-15') });
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].patient.id).toEqual(existing.id);
+    expect(candidates[0].score).toBeGreaterThan(0.7);
+    expect(candidates[0].matched_on).toEqual(['name', 'birthdate']);
+    expect(candidates[0].patient).not.toHaveProperty('allergies');
+  });
+
+  it('should list every candidate in a CONFLICT error for review', async () => {
+    const existing = await createPatient(testPatientInput);
+    const twin = await createPatient({ ...testPatientInput, first_name: 'Johnny', ignore_duplicates: true });
+
+    const error = await createPatient({ ...testPatientInput, first_name: 'Jon' }).catch(error => error);
+
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toEqual('CONFLICT');
+    expect(error.message).toMatch(/review the matches or set ignore_duplicates/);
+    expect(error.cause).toBeInstanceOf(DuplicatePatientError);
+
+    const { candidates } = error.cause as DuplicatePatientError;
+    expect(candidates.map(candidate => candidate.patient.id).sort()).toEqual([existing.id, twin.id].sort());
+    expect(candidates.map(candidate => candidate.patient.last_name)).toEqual(['Doe', 'Doe']);
+    expect(candidates[0].score).toBeGreaterThanOrEqual(candidates[1].score);
+    expect(candidates[0].patient).not.toHaveProperty('allergies');
+  });
+
+  it('should create the patient when duplicates are acknowledged', async () => {
+    await createPatient(testPatientInput);
+
+    const second = await createPatient({ ...testPatientInput, ignore_duplicates: true });
+
+    expect(second.id).toBeDefined();
+    expect(await getPatients()).toHaveLength(2);
+  });
+
+  it('should leave out the excluded patient', async () => {
+    const existing = await createPatient(testPatientInput);
+
+    expect(await findDuplicatePatients({ ...testPatientInput, exclude_id: existing.id })).toEqual([]);
+  });
+});
+
+describe('Patient ranked search', () => {
+  // Apply schema defaults (page, page_size) the way the router would
+  const search = (query: string, paging: { page?: number; page_size?: number } = {}) =>
+    searchPatients(searchPatientsInputSchema.parse({ query, ...paging }));
+
+  beforeEach(async () => {
+    await createDB();
+    await createPatient({
+      first_name: 'John',
+      last_name: 'Smith',
+      email: 'jsmith@example.com',
+      phone: '+1 (555) 010-0100',
+      gender: 'male',
+      birthdate: new Date('1980-04-12')
+    });
+    await createPatient({
+      first_name: 'Johnny',
+      last_name: 'Smithers',
+      email: 'johnny@example.com',
+      phone: '555-0199',
+      gender: 'male',
+      birthdate: new Date('1992-11-02')
+    });
+    await createPatient({
+      first_name: 'Maria',
+      last_name: 'Garcia',
+      email: 'maria.garcia@example.com',
+      phone: '555 010 0177',
+      gender: 'female',
+      birthdate: new Date('1980-04-12')
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should find a patient by full name and highlight it', async () => {
+    const { results, total } = await search('john smith');
+
+    expect(total).toEqual(2);
+    expect(results.map(result => result.patient.first_name)).toEqual(['John', 'Johnny']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+    expect(results[0].matched_on).toEqual(['name']);
+    expect(results[0].highlights).toEqual([
+      { field: 'name', value: 'John Smith', ranges: [{ start: 0, end: 4 }, { start: 5, end: 10 }] }
+    ]);
+  });
+
+  it('should tolerate typos in names', async () => {
+    const { results } = await search('jhon smith');
+
+    expect(results[0].patient.first_name).toEqual('John');
+    expect(results[0].highlights[0].ranges).toEqual([{ start: 0, end: 4 }, { start: 5, end: 10 }]);
+    expect((await search('grcia')).results.map(result => result.patient.last_name)).toEqual(['Garcia']);
+  });
+
+  it('should search phone numbers by their digits whatever the formatting', async () => {
+    const { results } = await search('555-010-0100');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].patient.first_name).toEqual('John');
+    expect(results[0].highlights).toEqual([
+      { field: 'phone', value: '+1 (555) 010-0100', ranges: [{ start: 4, end: 17 }] }
+    ]);
+
+    expect((await search('555 010')).total).toEqual(2);
+  });
+
+  it('should search emails', async () => {
+    const { results } = await search('maria.garcia@example');
+
+    expect(results).toHaveLength(1);
+    expect(results[0].matched_on).toEqual(['name', 'email']);
+    expect(results[0].highlights[1]).toEqual({ field: 'email', value: 'maria.garcia@example.com', ranges: [{ start: 0, end: 20 }] });
+  });
+
+  it('should narrow a name search by birthdate', async () => {
+    expect((await search('1980-04-12')).total).toEqual(2);
+
+    const { results } = await search('smith 1980-04-12');
+    expect(results).toHaveLength(1);
+    expect(results[0].patient.first_name).toEqual('John');
+    expect(results[0].matched_on).toEqual(['name', 'email', 'birthdate']);
+  });
+
+  it('should page through results', async () => {
+    const first = await search('555', { page_size: 2 });
+    const second = await search('555', { page: 2, page_size: 2 });
+
+    expect(first).toMatchObject({ total: 3, page: 1, page_size: 2 });
+    expect(first.results).toHaveLength(2);
+    expect(second.results).toHaveLength(1);
+    expect(new Set([...first.results, ...second.results].map(result => result.patient.id)).size).toEqual(3);
+  });
+});
+
+describe('Patient merge', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+    adminId = admin.id;
+  });
+
+  afterEach(resetDB);
+
+  const createDuplicatePair = async () => {
+    const survivor = await createPatient({ ...testPatientInput, phone: null, allergies: null });
+    const duplicate = await createPatient({ ...testPatientInput, first_name: 'Jon', ignore_duplicates: true });
+    return { survivor, duplicate };
+  };
+
+  it('should move prescriptions and payments and record the merge', async () => {
+    const { survivor, duplicate } = await createDuplicatePair();
+    const [doctor] = await db.insert(usersTable)
+      .values({ email: 'doctor@clinic.com', password_hash: 'hashedpassword', role: 'doctor', first_name: 'Dana', last_name: 'Doctor' })
+      .returning()
+      .execute();
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name: 'Amoxicillin', category: 'antibiotics', stock_quantity: 100, price_per_unit: '2.50' })
+      .returning()
+      .execute();
+    await createPrescription({
+      patient_id: duplicate.id,
+      doctor_id: doctor.id,
+      items: [{ medicine_id: medicine.id, quantity_prescribed: 10, dosage_instructions: 'Twice daily' }]
+    });
+    await createPayment({ patient_id: duplicate.id, amount: 25, payment_method: 'cash', created_by: adminId });
+
+    const { survivor: merged, merge } = await mergePatients({ survivor_id: survivor.id, duplicate_id: duplicate.id }, adminId);
+
+    expect(merge.prescriptions_moved).toEqual(1);
+    expect(merge.payments_moved).toEqual(1);
+    expect(merge.merged_by).toEqual(adminId);
+    expect(await getPrescriptionsByPatientId(survivor.id)).toHaveLength(1);
+    expect(await getPaymentsByPatientId(survivor.id)).toHaveLength(1);
+
+    // Blanks on the survivor are filled from the duplicate
+    expect(merged.first_name).toEqual('John');
+    expect(merged.phone).toEqual('+1234567890');
+    expect(merged.allergies).toEqual('Penicillin, Peanuts');
+
+    const merges = await db.select().from(patientMergesTable).execute();
+    expect(merges).toHaveLength(1);
+  });
+
+  it('should keep the old id resolvable', async () => {
+    const { survivor, duplicate } = await createDuplicatePair();
+
+    await mergePatients({ survivor_id: survivor.id, duplicate_id: duplicate.id }, adminId);
+
+    expect((await getPatientById(duplicate.id))!.id).toEqual(survivor.id);
+    expect((await getPatients()).map(patient => patient.id)).toEqual([survivor.id]);
+    expect((await findPatients('jon')).map(patient => patient.id)).not.toContain(duplicate.id);
+
+    const payment = await createPayment({ patient_id: duplicate.id, amount: 10, payment_method: 'card', created_by: adminId });
+    expect(payment.patient_id).toEqual(survivor.id);
+    expect(await getPaymentsByPatientId(duplicate.id)).toHaveLength(1);
+  });
+
+  it('should resolve earlier merges to the final survivor', async () => {
+    const { survivor, duplicate } = await createDuplicatePair();
+    const third = await createPatient({ ...testPatientInput, first_name: 'Johnny', ignore_duplicates: true });
+
+    await mergePatients({ survivor_id: duplicate.id, duplicate_id: third.id }, adminId);
+    await mergePatients({ survivor_id: survivor.id, duplicate_id: duplicate.id }, adminId);
+
+    expect((await getPatientById(third.id))!.id).toEqual(survivor.id);
+  });
+
+  it('should reject invalid merges', async () => {
+    const { survivor, duplicate } = await createDuplicatePair();
+
+    await expect(mergePatients({ survivor_id: survivor.id, duplicate_id: survivor.id }, adminId))
+      .rejects.toThrow(/into itself/i);
+    await expect(mergePatients({ survivor_id: survivor.id, duplicate_id: 999 }, adminId))
+      .rejects.toThrow(/not found/i);
+
+    await mergePatients({ survivor_id: survivor.id, duplicate_id: duplicate.id }, adminId);
+
+    await expect(mergePatients({ survivor_id: duplicate.id, duplicate_id: survivor.id }, adminId))
+      .rejects.toThrow(/already merged/i);
+  });
+});
@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import {
+  DEFAULT_PERMISSION_ROLES,
+  getPermissionMatrix,
+  getPermissionsForRole,
+  roleHasPermission,
+  setPermissionRoles,
+  resetPermissionRoles
+} from '../handlers/permissions';
+import { createCallerFactory, router, permissionProcedure } from '../trpc';
+
+const testRouter = router({
+  fill: permissionProcedure('prescriptions.fill').mutation(() => 'filled'),
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+const expectCode = async (promise: Promise<unknown>, code: TRPCError['code']) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toEqual(code);
+    return;
+  }
+  throw new Error(`Expected ${code} error`);
+};
+
+describe('permission matrix', () => {
+  let admin: User;
+
+  beforeEach(async () => {
+    await createDB();
+    [admin] = await db.insert(usersTable)
+      .values({
+        email: 'admin@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'admin',
+        first_name: 'Alice',
+        last_name: 'Admin',
+        phone: null
+      })
+      .returning()
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should start from the default roles', async () => {
+    const matrix = await getPermissionMatrix();
+
+    const fill = matrix.find(entry => entry.permission === 'prescriptions.fill')!;
+    expect(fill.roles).toEqual(['admin', 'pharmacist']);
+    expect(fill.is_default).toBe(true);
+    expect(matrix.every(entry => entry.is_default)).toBe(true);
+  });
+
+  it('should split dispensing from prescribing by default', async () => {
+    expect(await roleHasPermission('pharmacist', 'prescriptions.fill')).toBe(true);
+    expect(await roleHasPermission('pharmacist', 'prescriptions.create')).toBe(false);
+    expect(await roleHasPermission('doctor', 'prescriptions.fill')).toBe(false);
+    expect(await roleHasPermission('receptionist', 'prescriptions.read')).toBe(false);
+  });
+
+  it('should apply admin edits and record who made them', async () => {
+    const updated = await setPermissionRoles({ permission: 'prescriptions.fill', roles: ['nurse', 'admin', 'nurse'] }, admin.id);
+
+    expect(updated.roles).toEqual(['admin', 'nurse']);
+    expect(updated.is_default).toBe(false);
+    expect(updated.updated_by).toEqual(admin.id);
+    expect(await roleHasPermission('nurse', 'prescriptions.fill')).toBe(true);
+    expect(await roleHasPermission('pharmacist', 'prescriptions.fill')).toBe(false);
+  });
+
+  it('should fall back to the defaults after a reset', async () => {
+    await setPermissionRoles({ permission: 'prescriptions.fill', roles: ['admin'] }, admin.id);
+
+    const reset = await resetPermissionRoles({ permission: 'prescriptions.fill' });
+
+    expect(reset.is_default).toBe(true);
+    expect(reset.roles).toEqual(DEFAULT_PERMISSION_ROLES['prescriptions.fill']);
+    expect(await roleHasPermission('pharmacist', 'prescriptions.fill')).toBe(true);
+  });
+
+  it('should list the permissions held by a role', async () => {
+    const permissions = await getPermissionsForRole('receptionist');
+
+    expect(permissions).toContain('patients.write');
+    expect(permissions).toContain('dashboard.reception');
+    expect(permissions).not.toContain('prescriptions.read');
+  });
+
+  it('should enforce the current matrix on permission procedures', async () => {
+    const contextFor = (role: User['role']) => ({
+      user: { ...admin, role },
+      sessionId: 1,
+      twoFactorEnrollmentRequired: false,
+      apiKey: null,
+      ip: null
+    });
+
+    expect(await createCaller(contextFor('pharmacist')).fill()).toEqual('filled');
+    await expectCode(createCaller(contextFor('doctor')).fill(), 'FORBIDDEN');
+
+    await setPermissionRoles({ permission: 'prescriptions.fill', roles: ['doctor'] }, admin.id);
+
+    expect(await createCaller(contextFor('doctor')).fill()).toEqual('filled');
+    await expectCode(createCaller(contextFor('pharmacist')).fill(), 'FORBIDDEN');
+  });
+});
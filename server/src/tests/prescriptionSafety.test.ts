@@ -0,0 +1,273 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, medicinesTable } from '../db/schema';
+import { type Patient } from '../schema';
+import { createPatient } from '../handlers/patients';
+import { createPatientAllergy } from '../handlers/allergies';
+import { createPrescription } from '../handlers/prescriptions';
+import { checkPrescriptionSafety } from '../handlers/prescriptionSafety';
+import { recordVitals } from '../handlers/vitals';
+
+describe('prescription safety checks', () => {
+  let doctorId: number;
+  let patient: Patient;
+  let amoxicillinId: number;
+  let amoxicillinSyrupId: number;
+  let ibuprofenId: number;
+  let vitaminId: number;
+
+  const insertMedicine = async (name: string, category: 'antibiotics' | 'pain_relievers' | 'vitamins'): Promise<number> => {
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name, category, stock_quantity: 100, price_per_unit: '2.50' })
+      .returning()
+      .execute();
+    return medicine.id;
+  };
+
+  const itemsFor = (...medicineIds: number[]) =>
+    medicineIds.map(medicine_id => ({ medicine_id, quantity_prescribed: 10 }));
+
+  beforeEach(async () => {
+    await createDB();
+    const [doctor] = await db.insert(usersTable)
+      .values({
+        email: 'doctor@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'doctor',
+        first_name: 'Dana',
+        last_name: 'Doctor',
+        phone: null
+      })
+      .returning()
+      .execute();
+    doctorId = doctor.id;
+
+    amoxicillinId = await insertMedicine('Amoxicillin 500mg', 'antibiotics');
+    amoxicillinSyrupId = await insertMedicine('Amoxicillin syrup', 'antibiotics');
+    ibuprofenId = await insertMedicine('Ibuprofen', 'pain_relievers');
+    vitaminId = await insertMedicine('Vitamin C', 'vitamins');
+
+    patient = await createPatient({
+      first_name: 'Jane',
+      last_name: 'Doe',
+      gender: 'female',
+      birthdate: new Date('1985-06-15'),
+      chronic_conditions: 'Chronic kidney disease stage 3'
+    });
+  });
+
+  afterEach(resetDB);
+
+  it('should return no warnings for a safe prescription', async () => {
+    expect(await checkPrescriptionSafety({ patient_id: patient.id, items: itemsFor(vitaminId) })).toEqual([]);
+  });
+
+  it('should hard stop on a severe allergy to the same active ingredient', async () => {
+    const allergy = await createPatientAllergy({
+      patient_id: patient.id,
+      allergen_type: 'medicine',
+      medicine_id: amoxicillinId,
+      reaction: 'hives',
+      severity: 'severe'
+    }, doctorId);
+
+    const [warning] = await checkPrescriptionSafety({ patient_id: patient.id, items: itemsFor(amoxicillinSyrupId) });
+
+    expect(warning).toEqual({
+      type: 'allergy',
+      severity: 'hard_stop',
+      medicine_id: amoxicillinSyrupId,
+      medicine_name: 'Amoxicillin syrup',
+      allergy_id: allergy.id,
+      message: 'Patient is allergic to Amoxicillin 500mg (hives, severe)'
+    });
+  });
+
+  it('should only warn on mild allergies and unconfirmed free text', async () => {
+    await createPatientAllergy({ patient_id: patient.id, allergen_type: 'category', medicine_category: 'vitamins', severity: 'mild' }, doctorId);
+    const other = await createPatient({
+      first_name: 'John',
+      last_name: 'Roe',
+      gender: 'male',
+      birthdate: new Date('1970-02-02'),
+      allergies: 'Amoxicillin'
+    });
+
+    const [vitaminWarning] = await checkPrescriptionSafety({ patient_id: patient.id, items: itemsFor(vitaminId) });
+    const [textWarning] = await checkPrescriptionSafety({ patient_id: other.id, items: itemsFor(amoxicillinId) });
+
+    expect(vitaminWarning).toMatchObject({ type: 'allergy', severity: 'warning' });
+    expect(textWarning).toMatchObject({ type: 'allergy', severity: 'warning', allergy_id: null });
+    expect(textWarning.message).toMatch(/not yet confirmed/);
+  });
+
+  it('should flag contraindications with chronic conditions', async () => {
+    const [warning] = await checkPrescriptionSafety({ patient_id: patient.id, items: itemsFor(ibuprofenId) });
+
+    expect(warning).toMatchObject({ type: 'contraindication', severity: 'hard_stop', medicine_id: ibuprofenId });
+    expect(warning.message).toMatch(/kidney disease/);
+  });
+
+  it('should only warn about conditions the notes deny', async () => {
+    const negated = await createPatient({
+      first_name: 'John',
+      last_name: 'Roe',
+      gender: 'male',
+      birthdate: new Date('1970-02-02'),
+      chronic_conditions: 'No history of asthma. Not pregnant; peptic ulcer ruled out. Adrenal insufficiency'
+    });
+    const mixed = await createPatient({
+      first_name: 'Mary',
+      last_name: 'Major',
+      gender: 'female',
+      birthdate: new Date('1975-03-03'),
+      chronic_conditions: 'Denies asthma, but has renal impairment'
+    });
+
+    const denied = await checkPrescriptionSafety({ patient_id: negated.id, items: itemsFor(ibuprofenId) });
+    expect(denied.map(warning => [warning.severity, warning.message])).toEqual([
+      ['warning', 'Ibuprofen (pain relievers) is contraindicated with peptic ulcer or GI bleeding; the notes appear to rule it out, please confirm'],
+      ['warning', 'Ibuprofen (pain relievers) is contraindicated with asthma; the notes appear to rule it out, please confirm']
+    ]);
+
+    const warnings = await checkPrescriptionSafety({ patient_id: mixed.id, items: itemsFor(ibuprofenId) });
+    expect(warnings.map(warning => [warning.severity, warning.message])).toEqual([
+      ['hard_stop', 'Ibuprofen (pain relievers) is contraindicated with kidney disease'],
+      ['warning', 'Ibuprofen (pain relievers) is contraindicated with asthma; the notes appear to rule it out, please confirm']
+    ]);
+  });
+
+  it('should not let a negation reach past a linking word', async () => {
+    for (const chronic_conditions of [
+      'Non-insulin dependent diabetes with renal impairment',
+      'Never smoker with chronic kidney disease',
+      'Diabetes without complications and renal failure'
+    ]) {
+      const other = await createPatient({
+        first_name: 'John',
+        last_name: 'Roe',
+        gender: 'male',
+        birthdate: new Date('1970-02-02'),
+        chronic_conditions,
+        ignore_duplicates: true
+      });
+
+      const [warning] = await checkPrescriptionSafety({ patient_id: other.id, items: itemsFor(ibuprofenId) });
+      expect(warning).toMatchObject({ type: 'contraindication', severity: 'hard_stop' });
+      expect(warning.message).toEqual('Ibuprofen (pain relievers) is contraindicated with kidney disease');
+    }
+  });
+
+  it('should check free-text allergies not yet recorded alongside recorded ones', async () => {
+    const other = await createPatient({
+      first_name: 'John',
+      last_name: 'Roe',
+      gender: 'male',
+      birthdate: new Date('1970-02-02'),
+      allergies: 'Amoxicillin, Ibuprofen'
+    });
+    const recorded = await createPatientAllergy({ patient_id: other.id, allergen_type: 'medicine', medicine_id: amoxicillinId, severity: 'severe' }, doctorId);
+
+    const warnings = await checkPrescriptionSafety({ patient_id: other.id, items: itemsFor(amoxicillinId, ibuprofenId) });
+
+    expect(warnings.map(warning => [warning.medicine_id, warning.allergy_id, warning.severity])).toEqual([
+      [amoxicillinId, recorded.id, 'hard_stop'],
+      [ibuprofenId, null, 'warning']
+    ]);
+  });
+
+  it('should block hard stops unless an override reason is given', async () => {
+    await expect(createPrescription({ patient_id: patient.id, doctor_id: doctorId, items: itemsFor(ibuprofenId) }))
+      .rejects.toThrow(/blocked by safety check.*kidney disease/i);
+
+    const prescription = await createPrescription({
+      patient_id: patient.id,
+      doctor_id: doctorId,
+      items: itemsFor(ibuprofenId),
+      override_reason: 'Short course, renal function monitored weekly'
+    });
+
+    expect(prescription.override_reason).toEqual('Short course, renal function monitored weekly');
+    expect(prescription.safety_warnings).toHaveLength(1);
+  });
+
+  it('should not store an override reason when nothing was overridden', async () => {
+    const prescription = await createPrescription({
+      patient_id: patient.id,
+      doctor_id: doctorId,
+      items: itemsFor(vitaminId),
+      override_reason: 'Just in case something comes up'
+    });
+
+    expect(prescription.override_reason).toBeNull();
+    expect(prescription.safety_warnings).toEqual([]);
+  });
+
+  describe('weight-based dosing', () => {
+    let paracetamolId: number;
+
+    const recordWeight = (weight: number) =>
+      recordVitals({ patient_id: patient.id, weight, temperature_unit: 'C', weight_unit: 'kg', height_unit: 'cm' }, doctorId);
+
+    beforeEach(async () => {
+      [{ id: paracetamolId }] = await db.insert(medicinesTable)
+        .values({
+          name: 'Paracetamol syrup',
+          category: 'other',
+          stock_quantity: 100,
+          price_per_unit: '4.00',
+          max_daily_dose_mg_per_kg: '60',
+          max_daily_dose_mg: '4000'
+        })
+        .returning()
+        .execute();
+    });
+
+    it('should hard stop a daily dose above the per-kg limit', async () => {
+      await recordWeight(20);
+
+      const [warning] = await checkPrescriptionSafety({
+        patient_id: patient.id,
+        items: [{ medicine_id: paracetamolId, quantity_prescribed: 1, dose_mg: 500, doses_per_day: 4 }]
+      });
+
+      expect(warning).toMatchObject({ type: 'dosing', severity: 'hard_stop', medicine_id: paracetamolId });
+      expect(warning.message).toEqual('Daily dose of 2000 mg of Paracetamol syrup exceeds the maximum of 1200 mg (60 mg/kg/day at 20 kg)');
+    });
+
+    it('should apply the absolute maximum for heavier patients', async () => {
+      await recordWeight(90);
+
+      const [warning] = await checkPrescriptionSafety({
+        patient_id: patient.id,
+        items: [{ medicine_id: paracetamolId, quantity_prescribed: 1, dose_mg: 1000, doses_per_day: 5 }]
+      });
+
+      expect(warning.message).toMatch(/maximum of 4000 mg \(absolute maximum\)/);
+    });
+
+    it('should accept doses within limits', async () => {
+      await recordWeight(20);
+
+      expect(await checkPrescriptionSafety({
+        patient_id: patient.id,
+        items: [{ medicine_id: paracetamolId, quantity_prescribed: 1, dose_mg: 250, doses_per_day: 4 }]
+      })).toEqual([]);
+    });
+
+    it('should warn when the dose or a recent weight is missing', async () => {
+      const warnings = await checkPrescriptionSafety({
+        patient_id: patient.id,
+        items: [
+          { medicine_id: paracetamolId, quantity_prescribed: 1 },
+          { medicine_id: paracetamolId, quantity_prescribed: 1, dose_mg: 250, doses_per_day: 4 }
+        ]
+      });
+
+      expect(warnings.map(warning => [warning.type, warning.severity])).toEqual([['dosing', 'warning'], ['dosing', 'warning']]);
+      expect(warnings[0].message).toMatch(/no structured dose/i);
+      expect(warnings[1].message).toMatch(/no weight recorded/i);
+    });
+  });
+});
@@ -7,15 +7,19 @@ import {
   medicinesTable, 
   prescriptionsTable, 
   prescriptionItemsTable,
-  paymentsTable 
+  paymentsTable,
+  patientConditionsTable
 } from '../db/schema';
 import { 
   generateSalesReport, 
   generateMedicineUsageReport, 
   getLowStockAlerts,
-  generateMonthlySummary 
+  generateMonthlySummary,
+  generateDiagnosisReport
 } from '../handlers/reports';
+import { importIcd10Codes } from '../handlers/icd10';
 import { type SalesReportInput, type MedicineUsageReportInput } from '../schema';
+import { eq } from 'drizzle-orm';
 
 describe('Reports Handlers', () => {
   beforeEach(createDB);
@@ -468,6 +472,81 @@ describe('Reports Handlers', () => {
     });
   });
 
+  describe('generateDiagnosisReport', () => {
+    const range = () => {
+      const start = new Date();
+      start.setDate(start.getDate() - 2);
+      const end = new Date();
+      end.setDate(end.getDate() + 1);
+      return { start_date: start, end_date: end };
+    };
+
+    const setupDiagnoses = async () => {
+      const testData = await setupTestData();
+      const prescriptions = await createTestPrescriptionsAndPayments(testData);
+      await importIcd10Codes({
+        csv: 'code,description\nE11,Type 2 diabetes mellitus\nE11.9,Type 2 diabetes mellitus without complications\nE11.65,Type 2 diabetes mellitus with hyperglycemia\nI10,Essential (primary) hypertension'
+      });
+
+      await db.update(prescriptionsTable)
+        .set({ diagnosis_codes: ['E11.9', 'E11.65', 'I10'] })
+        .where(eq(prescriptionsTable.id, prescriptions[0].id))
+        .execute();
+
+      // Nothing dispensed yet, so it is left out
+      const [pending] = await db.insert(prescriptionsTable)
+        .values({ patient_id: testData.patients[1].id, doctor_id: testData.doctors[0].id, diagnosis_codes: ['E11.9'] })
+        .returning()
+        .execute();
+      await db.insert(prescriptionItemsTable)
+        .values({ prescription_id: pending.id, medicine_id: testData.medicines[0].id, quantity_prescribed: 10, quantity_filled: 0 })
+        .execute();
+
+      return testData;
+    };
+
+    it('should group dispensing by diagnosis category', async () => {
+      await setupDiagnoses();
+
+      const result = await generateDiagnosisReport({ ...range(), basis: 'prescription', group_by: 'category' });
+
+      expect(result.totalPrescriptions).toEqual(2);
+      expect(result.undiagnosedPrescriptions).toEqual(1);
+      // Two E11 codes on one prescription count it once
+      expect(result.usageByDiagnosis).toEqual([
+        { code: 'E11', description: 'Type 2 diabetes mellitus', prescriptionCount: 1, patientCount: 1, quantityDispensed: 90 },
+        { code: 'I10', description: 'Essential (primary) hypertension', prescriptionCount: 1, patientCount: 1, quantityDispensed: 90 }
+      ]);
+    });
+
+    it('should group by full code and filter by prefix', async () => {
+      await setupDiagnoses();
+
+      const result = await generateDiagnosisReport({ ...range(), basis: 'prescription', group_by: 'code', code_prefix: 'e11' });
+
+      expect(result.usageByDiagnosis.map(row => [row.code, row.quantityDispensed])).toEqual([['E11.65', 90], ['E11.9', 90]]);
+    });
+
+    it('should group by the conditions patients had when prescribed', async () => {
+      const testData = await setupDiagnoses();
+      const tomorrow = new Date();
+      tomorrow.setDate(tomorrow.getDate() + 1);
+
+      await db.insert(patientConditionsTable).values([
+        { patient_id: testData.patients[1].id, icd10_code: 'I10', onset_date: '2015-01-01', noted_by: testData.doctors[1].id },
+        // Diagnosed after the prescription was written
+        { patient_id: testData.patients[0].id, icd10_code: 'E11.9', onset_date: tomorrow.toISOString().split('T')[0], noted_by: testData.doctors[0].id }
+      ]).execute();
+
+      const result = await generateDiagnosisReport({ ...range(), basis: 'condition', group_by: 'code' });
+
+      expect(result.undiagnosedPrescriptions).toEqual(1);
+      expect(result.usageByDiagnosis).toEqual([
+        { code: 'I10', description: 'Essential (primary) hypertension', prescriptionCount: 1, patientCount: 1, quantityDispensed: 20 }
+      ]);
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle database errors gracefully', async () => {
       // Test with invalid date range that might cause issues
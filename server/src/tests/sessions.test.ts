@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, sessionsTable } from '../db/schema';
+import {
+  createSession,
+  rotateSession,
+  getActiveSession,
+  getActiveSessionsByUserId,
+  revokeSession,
+  revokeUserSessions
+} from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+const testCashier = {
+  email: 'cashier@clinic.com',
+  password_hash: 'hashedpassword',
+  role: 'cashier' as const,
+  first_name: 'Carl',
+  last_name: 'Cashier',
+  phone: null
+};
+
+describe('sessions', () => {
+  let userId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    const [user] = await db.insert(usersTable).values(testCashier).returning().execute();
+    userId = user.id;
+  });
+
+  afterEach(resetDB);
+
+  describe('createSession', () => {
+    it('should create a session and return a refresh token', async () => {
+      const result = await createSession(userId);
+
+      expect(result.session.id).toBeDefined();
+      expect(result.session.user_id).toEqual(userId);
+      expect(result.session.revoked_at).toBeNull();
+      expect(result.session.expires_at.getTime()).toBeGreaterThan(Date.now());
+      expect(result.session).not.toHaveProperty('refresh_token_hash');
+      expect(result.refreshToken.startsWith(`${result.session.id}.`)).toBe(true);
+    });
+
+    it('should store only a hash of the refresh token', async () => {
+      const { session, refreshToken } = await createSession(userId);
+
+      const rows = await db.select()
+        .from(sessionsTable)
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      expect(rows[0].refresh_token_hash).not.toContain(refreshToken.split('.')[1]);
+    });
+  });
+
+  describe('rotateSession', () => {
+    it('should issue a new refresh token for the same session', async () => {
+      const first = await createSession(userId);
+
+      const second = await rotateSession(first.refreshToken);
+
+      expect(second.session.id).toEqual(first.session.id);
+      expect(second.refreshToken).not.toEqual(first.refreshToken);
+    });
+
+    it('should revoke the session when a rotated token is reused', async () => {
+      const first = await createSession(userId);
+      await rotateSession(first.refreshToken);
+
+      await expect(rotateSession(first.refreshToken)).rejects.toThrow(/reuse detected/i);
+
+      expect(await getActiveSession(first.session.id, userId)).toBeNull();
+    });
+
+    it('should reject refresh tokens of revoked sessions', async () => {
+      const { session, refreshToken } = await createSession(userId);
+      await revokeSession(session.id);
+
+      await expect(rotateSession(refreshToken)).rejects.toThrow(/expired or been revoked/i);
+    });
+
+    it('should reject refresh tokens of expired sessions', async () => {
+      const { session, refreshToken } = await createSession(userId);
+      await db.update(sessionsTable)
+        .set({ expires_at: new Date(Date.now() - 1000) })
+        .where(eq(sessionsTable.id, session.id))
+        .execute();
+
+      await expect(rotateSession(refreshToken)).rejects.toThrow(/expired or been revoked/i);
+    });
+
+    it('should reject malformed refresh tokens', async () => {
+      await expect(rotateSession('garbage')).rejects.toThrow(/invalid refresh token/i);
+      await expect(rotateSession('999.secret')).rejects.toThrow(/invalid refresh token/i);
+    });
+  });
+
+  describe('getActiveSession', () => {
+    it('should only return sessions belonging to the user', async () => {
+      const { session } = await createSession(userId);
+
+      expect(await getActiveSession(session.id, userId)).not.toBeNull();
+      expect(await getActiveSession(session.id, userId + 1)).toBeNull();
+    });
+  });
+
+  describe('revokeUserSessions', () => {
+    it('should revoke every open session of the user', async () => {
+      await createSession(userId);
+      await createSession(userId);
+      expect(await getActiveSessionsByUserId(userId)).toHaveLength(2);
+
+      const result = await revokeUserSessions(userId);
+
+      expect(result.revoked).toEqual(2);
+      expect(await getActiveSessionsByUserId(userId)).toHaveLength(0);
+    });
+
+    it('should leave other users alone', async () => {
+      const [other] = await db.insert(usersTable)
+        .values({ ...testCashier, email: 'other@clinic.com' })
+        .returning()
+        .execute();
+      await createSession(userId);
+      await createSession(other.id);
+
+      await revokeUserSessions(userId);
+
+      expect(await getActiveSessionsByUserId(other.id)).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import {
+  auditLogTable,
+  medicinesTable,
+  patientsTable,
+  paymentsTable,
+  prescriptionFillsTable,
+  prescriptionItemsTable,
+  prescriptionsTable,
+  usersTable
+} from '../db/schema';
+import { patientTimelineInputSchema, type Patient, type TimelineEvent, type TimelineEventType, type User } from '../schema';
+import { createPatient, mergePatients } from '../handlers/patients';
+import { createPrescription, fillPrescriptionItem } from '../handlers/prescriptions';
+import { createPayment } from '../handlers/payments';
+import { recordAuditEvent } from '../handlers/audit';
+import { getPatientTimeline, timelineTypesForUser } from '../handlers/timeline';
+import { createCallerFactory } from '../trpc';
+import { appRouter } from '../index';
+import { eq } from 'drizzle-orm';
+
+const createCaller = createCallerFactory(appRouter);
+
+describe('patient timeline', () => {
+  let doctor: User;
+  let pharmacist: User;
+  let cashier: User;
+  let patient: Patient;
+  let medicineId: number;
+
+  // Apply schema defaults (order, limit) the way the router would
+  const timeline = (input: Partial<z.input<typeof patientTimelineInputSchema>> = {}, allowedTypes?: TimelineEventType[]) =>
+    getPatientTimeline(patientTimelineInputSchema.parse({ patient_id: patient.id, ...input }), allowedTypes);
+
+  const summarize = (events: TimelineEvent[]) => events.map(event => `${event.type}:${event.id}`);
+
+  const insertUser = async (email: string, role: User['role']): Promise<User> => {
+    const [user] = await db.insert(usersTable)
+      .values({ email, password_hash: 'hashedpassword', role, first_name: 'Staff', last_name: role })
+      .returning()
+      .execute();
+    return user;
+  };
+
+  const prescribe = async (at: string, quantity = 10) => {
+    const prescription = await createPrescription({
+      patient_id: patient.id,
+      doctor_id: doctor.id,
+      items: [{ medicine_id: medicineId, quantity_prescribed: quantity, dosage_instructions: 'Twice daily' }]
+    });
+    await db.update(prescriptionsTable)
+      .set({ created_at: new Date(at) })
+      .where(eq(prescriptionsTable.id, prescription.id))
+      .execute();
+    const [item] = await db.select()
+      .from(prescriptionItemsTable)
+      .where(eq(prescriptionItemsTable.prescription_id, prescription.id))
+      .execute();
+    return { ...prescription, itemId: item.id };
+  };
+
+  const pay = async (at: string, amount = 25) => {
+    const payment = await createPayment({ patient_id: patient.id, amount, payment_method: 'cash', created_by: cashier.id });
+    await db.update(paymentsTable)
+      .set({ payment_date: new Date(at) })
+      .where(eq(paymentsTable.id, payment.id))
+      .execute();
+    return payment;
+  };
+
+  const fill = async (itemId: number, quantity: number, at: string) => {
+    await fillPrescriptionItem(itemId, quantity, pharmacist.id);
+    await db.update(prescriptionFillsTable)
+      .set({ filled_at: new Date(at) })
+      .where(eq(prescriptionFillsTable.prescription_item_id, itemId))
+      .execute();
+  };
+
+  const editProfile = async (at: string) => {
+    const entry = await recordAuditEvent({
+      actorId: doctor.id,
+      actorRole: 'doctor',
+      action: 'update',
+      procedure: 'patients.update',
+      entityType: 'patient',
+      entityId: patient.id,
+      changes: { phone: { before: null, after: '555-0100' } },
+      ipAddress: null
+    });
+    await db.update(auditLogTable)
+      .set({ created_at: new Date(at) })
+      .where(eq(auditLogTable.id, entry.id))
+      .execute();
+    return entry;
+  };
+
+  beforeEach(async () => {
+    await createDB();
+    doctor = await insertUser('doctor@clinic.com', 'doctor');
+    pharmacist = await insertUser('pharmacist@clinic.com', 'pharmacist');
+    cashier = await insertUser('cashier@clinic.com', 'cashier');
+    const [medicine] = await db.insert(medicinesTable)
+      .values({ name: 'Amoxicillin', category: 'antibiotics', stock_quantity: 100, price_per_unit: '1.25' })
+      .returning()
+      .execute();
+    medicineId = medicine.id;
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15') });
+    await db.update(patientsTable)
+      .set({ created_at: new Date('2026-01-01T09:00:00Z') })
+      .where(eq(patientsTable.id, patient.id))
+      .execute();
+  });
+
+  afterEach(resetDB);
+
+  it('should merge every kind of event newest first', async () => {
+    const edit = await editProfile('2026-01-05T10:00:00Z');
+    const prescription = await prescribe('2026-01-10T10:00:00Z');
+    await fill(prescription.itemId, 4, '2026-01-11T10:00:00Z');
+    const payment = await pay('2026-01-12T10:00:00Z', 12.5);
+
+    const { events, next_cursor } = await timeline();
+
+    expect(next_cursor).toBeNull();
+    expect(events.map(event => event.type)).toEqual(['payment', 'fill', 'prescription', 'profile_update', 'registration']);
+    expect(events[0]).toMatchObject({ type: 'payment', id: payment.id, occurred_at: new Date('2026-01-12T10:00:00Z'), payment: { amount: 12.5 } });
+    expect(events[1]).toMatchObject({
+      type: 'fill',
+      fill: { prescription_id: prescription.id, prescription_item_id: prescription.itemId, medicine_id: medicineId, quantity: 4, filled_by: pharmacist.id }
+    });
+    expect(events[2]).toMatchObject({ type: 'prescription', id: prescription.id, prescription: { items: [{ quantity_prescribed: 10, quantity_filled: 4 }] } });
+    expect(events[3]).toMatchObject({ type: 'profile_update', id: edit.id, actor_id: doctor.id, changes: { phone: { before: null, after: '555-0100' } } });
+    expect(events[4]).toMatchObject({ type: 'registration', id: patient.id, occurred_at: new Date('2026-01-01T09:00:00Z') });
+
+    const oldestFirst = await timeline({ order: 'asc' });
+    expect(summarize(oldestFirst.events)).toEqual(summarize(events).reverse());
+  });
+
+  it('should page through the feed with a cursor, including events at the same instant', async () => {
+    for (let day = 2; day <= 4; day++) {
+      const prescription = await prescribe(`2026-02-0${day}T10:00:00Z`);
+      await fill(prescription.itemId, 5, `2026-02-0${day}T10:00:00Z`);
+      await pay(`2026-02-0${day}T10:00:00Z`);
+      await pay(`2026-02-0${day}T10:00:00Z`);
+    }
+
+    for (const order of ['desc', 'asc'] as const) {
+      const all = await timeline({ order, limit: 100 });
+      expect(all.events).toHaveLength(13);
+
+      const paged: TimelineEvent[] = [];
+      let cursor: string | undefined;
+      do {
+        const page = await timeline({ order, limit: 3, cursor });
+        paged.push(...page.events);
+        cursor = page.next_cursor ?? undefined;
+      } while (cursor);
+
+      expect(summarize(paged)).toEqual(summarize(all.events));
+    }
+
+    const [first] = (await timeline({ limit: 4 })).events;
+    expect(first.type).toEqual('payment');
+    await expect(timeline({ cursor: 'not-a-cursor' })).rejects.toThrow(/Invalid timeline cursor/);
+  });
+
+  it('should filter by type and date range and follow merges', async () => {
+    const duplicate = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15'), ignore_duplicates: true });
+    await pay('2026-03-01T10:00:00Z');
+    const march = await pay('2026-03-15T10:00:00Z');
+    await prescribe('2026-03-20T10:00:00Z');
+    const duplicatePayment = await createPayment({ patient_id: duplicate.id, amount: 5, payment_method: 'card', created_by: cashier.id });
+
+    await mergePatients({ survivor_id: patient.id, duplicate_id: duplicate.id }, doctor.id);
+
+    const payments = await timeline({ patient_id: duplicate.id, types: ['payment'] });
+    expect(payments.events).toHaveLength(3);
+    expect(payments.events[0].id).toEqual(duplicatePayment.id);
+
+    const window = await timeline({ from: new Date('2026-03-10'), to: new Date('2026-03-16') });
+    expect(summarize(window.events)).toEqual([`payment:${march.id}`]);
+  });
+
+  it('should leave out events the caller may not see', async () => {
+    await editProfile('2026-01-05T10:00:00Z');
+    await prescribe('2026-01-10T10:00:00Z');
+    await pay('2026-01-12T10:00:00Z');
+    const receptionist = await insertUser('reception@clinic.com', 'receptionist');
+
+    expect(await timelineTypesForUser(receptionist)).toEqual(['registration', 'profile_update']);
+    expect(await timelineTypesForUser(cashier)).toEqual(['registration', 'profile_update', 'prescription', 'fill', 'payment']);
+
+    const { events } = await timeline({ types: ['payment', 'profile_update'] }, await timelineTypesForUser(receptionist));
+    expect(events.map(event => event.type)).toEqual(['profile_update']);
+
+    await expect(timeline({ patient_id: 99999 })).rejects.toThrow(/Patient with ID 99999 not found/);
+  });
+
+  it('should keep diagnoses and override reasons from roles without clinical access', async () => {
+    const prescription = await prescribe('2026-01-10T10:00:00Z');
+    await db.update(prescriptionsTable)
+      .set({ diagnosis_codes: ['J20.9'], override_reason: 'Benefit outweighs the interaction risk' })
+      .where(eq(prescriptionsTable.id, prescription.id))
+      .execute();
+    const callerFor = (user: User) =>
+      createCaller({ user, sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    const [event] = (await callerFor(cashier).patients.timeline({ patient_id: patient.id, types: ['prescription'] })).events;
+    const byId = await callerFor(cashier).prescriptions.getById({ id: prescription.id });
+    const [byPatient] = await callerFor(cashier).prescriptions.getByPatientId({ patientId: patient.id });
+    const [pending] = await callerFor(cashier).prescriptions.getPending();
+
+    for (const shown of [event.type === 'prescription' ? event.prescription : null, byId, byPatient, pending]) {
+      expect(shown?.id).toEqual(prescription.id);
+      expect(shown).not.toHaveProperty('diagnosis_codes');
+      expect(shown).not.toHaveProperty('override_reason');
+    }
+
+    expect(await callerFor(pharmacist).prescriptions.getById({ id: prescription.id })).toMatchObject({
+      diagnosis_codes: ['J20.9'],
+      override_reason: 'Benefit outweighs the interaction risk'
+    });
+  });
+});
@@ -0,0 +1,227 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable } from '../db/schema';
+import { type User } from '../schema';
+import { generateToken } from '../handlers/auth';
+import { createSession, revokeSession } from '../handlers/sessions';
+import {
+  createContext,
+  createCallerFactory,
+  getBearerToken,
+  getClientIp,
+  router,
+  publicProcedure,
+  authenticatedProcedure,
+  protectedProcedure,
+  roleProcedure,
+  adminProcedure
+} from '../trpc';
+import { eq } from 'drizzle-orm';
+
+const testDoctor = {
+  email: 'doctor@test.com',
+  password_hash: 'hashedpassword',
+  role: 'doctor' as const,
+  first_name: 'Gregory',
+  last_name: 'House',
+  phone: null
+};
+
+// Minimal router exercising each procedure builder
+const testRouter = router({
+  open: publicProcedure.query(() => 'open'),
+  whoami: protectedProcedure.query(({ ctx }) => ctx.user.id),
+  enroll: authenticatedProcedure.query(() => 'enroll'),
+  admin: adminProcedure.query(() => 'admin'),
+  doctor: roleProcedure(['doctor']).query(() => 'doctor'),
+  cashier: roleProcedure(['cashier']).query(() => 'cashier'),
+  staff: roleProcedure(['admin', 'cashier']).query(() => 'staff'),
+});
+
+const createCaller = createCallerFactory(testRouter);
+
+const userWithRole = (role: User['role']): User => ({
+  id: 1,
+  email: `${role}@test.com`,
+  password_hash: 'hashedpassword',
+  role,
+  first_name: 'Test',
+  last_name: 'User',
+  phone: null,
+  is_active: true,
+  created_at: new Date(),
+  updated_at: new Date()
+});
+
+const expectCode = async (promise: Promise<unknown>, code: TRPCError['code']) => {
+  try {
+    await promise;
+  } catch (error) {
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toEqual(code);
+    return;
+  }
+  throw new Error(`Expected ${code} error`);
+};
+
+describe('getBearerToken', () => {
+  it('should extract the token from a bearer header', () => {
+    expect(getBearerToken('Bearer abc.def.ghi')).toEqual('abc.def.ghi');
+    expect(getBearerToken('bearer abc.def.ghi')).toEqual('abc.def.ghi');
+  });
+
+  it('should return null for missing or malformed headers', () => {
+    expect(getBearerToken(undefined)).toBeNull();
+    expect(getBearerToken('')).toBeNull();
+    expect(getBearerToken('Basic dXNlcjpwYXNz')).toBeNull();
+    expect(getBearerToken('Bearer')).toBeNull();
+  });
+});
+
+describe('getClientIp', () => {
+  it('should take the forwarded address from the local proxy', () => {
+    expect(getClientIp({ headers: { 'x-forwarded-for': '203.0.113.7' }, socket: { remoteAddress: '127.0.0.1' } })).toEqual('203.0.113.7');
+    expect(getClientIp({ headers: { 'x-forwarded-for': '203.0.113.7' }, socket: { remoteAddress: '::ffff:127.0.0.1' } })).toEqual('203.0.113.7');
+  });
+
+  it('should ignore forwarded addresses from untrusted peers', () => {
+    const req = { headers: { 'x-forwarded-for': '203.0.113.7' }, socket: { remoteAddress: '198.51.100.20' } };
+
+    expect(getClientIp(req)).toEqual('198.51.100.20');
+  });
+
+  it('should skip the hops of trusted proxies', () => {
+    const originalProxies = process.env['TRUSTED_PROXIES'];
+    const req = { headers: { 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.1' }, socket: { remoteAddress: '127.0.0.1' } };
+
+    try {
+      expect(getClientIp(req)).toEqual('10.0.0.1');
+
+      process.env['TRUSTED_PROXIES'] = '127.0.0.1, 10.0.0.1';
+      expect(getClientIp(req)).toEqual('203.0.113.7');
+    } finally {
+      if (originalProxies === undefined) {
+        delete process.env['TRUSTED_PROXIES'];
+      } else {
+        process.env['TRUSTED_PROXIES'] = originalProxies;
+      }
+    }
+  });
+
+  it('should fall back to the socket address', () => {
+    expect(getClientIp({ headers: {}, socket: { remoteAddress: '127.0.0.1' } })).toEqual('127.0.0.1');
+    expect(getClientIp({ headers: {} })).toBeNull();
+  });
+});
+
+describe('createContext', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should resolve a valid bearer token into the user', async () => {
+    const [doctor] = await db.insert(usersTable).values(testDoctor).returning().execute();
+    const { session } = await createSession(doctor.id);
+    const token = generateToken(doctor, session.id);
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${token}` } } });
+
+    expect(ctx.user).not.toBeNull();
+    expect(ctx.user!.id).toEqual(doctor.id);
+    expect(ctx.user!.role).toEqual('doctor');
+    expect(ctx.sessionId).toEqual(session.id);
+  });
+
+  it('should leave the user empty once the session is revoked', async () => {
+    const [doctor] = await db.insert(usersTable).values(testDoctor).returning().execute();
+    const { session } = await createSession(doctor.id);
+    const token = generateToken(doctor, session.id);
+
+    await revokeSession(session.id);
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${token}` } } });
+
+    expect(ctx.user).toBeNull();
+    expect(ctx.sessionId).toBeNull();
+  });
+
+  it('should leave the user empty without a token', async () => {
+    const ctx = await createContext({ req: { headers: {} } });
+
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should leave the user empty for an invalid token', async () => {
+    const ctx = await createContext({ req: { headers: { authorization: 'Bearer not.a.token' } } });
+
+    expect(ctx.user).toBeNull();
+  });
+
+  it('should leave the user empty for a deactivated account', async () => {
+    const [doctor] = await db.insert(usersTable).values(testDoctor).returning().execute();
+    const { session } = await createSession(doctor.id);
+    const token = generateToken(doctor, session.id);
+
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.id, doctor.id))
+      .execute();
+
+    const ctx = await createContext({ req: { headers: { authorization: `Bearer ${token}` } } });
+
+    expect(ctx.user).toBeNull();
+  });
+});
+
+describe('procedures', () => {
+  it('should allow anonymous calls to public procedures', async () => {
+    const caller = createCaller({ user: null, sessionId: null, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    expect(await caller.open()).toEqual('open');
+  });
+
+  it('should reject anonymous calls to protected procedures with UNAUTHORIZED', async () => {
+    const caller = createCaller({ user: null, sessionId: null, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    await expectCode(caller.whoami(), 'UNAUTHORIZED');
+    await expectCode(caller.admin(), 'UNAUTHORIZED');
+    await expectCode(caller.doctor(), 'UNAUTHORIZED');
+    await expectCode(caller.cashier(), 'UNAUTHORIZED');
+  });
+
+  it('should expose the user to protected procedures', async () => {
+    const caller = createCaller({ user: userWithRole('cashier'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    expect(await caller.whoami()).toEqual(1);
+  });
+
+  it('should allow each role into its own procedure', async () => {
+    expect(await createCaller({ user: userWithRole('admin'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null }).admin()).toEqual('admin');
+    expect(await createCaller({ user: userWithRole('doctor'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null }).doctor()).toEqual('doctor');
+    expect(await createCaller({ user: userWithRole('cashier'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null }).cashier()).toEqual('cashier');
+  });
+
+  it('should reject other roles with FORBIDDEN', async () => {
+    const cashier = createCaller({ user: userWithRole('cashier'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+    const doctor = createCaller({ user: userWithRole('doctor'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null });
+
+    await expectCode(cashier.admin(), 'FORBIDDEN');
+    await expectCode(cashier.doctor(), 'FORBIDDEN');
+    await expectCode(doctor.cashier(), 'FORBIDDEN');
+    await expectCode(doctor.staff(), 'FORBIDDEN');
+  });
+
+  it('should allow any listed role into a multi-role procedure', async () => {
+    expect(await createCaller({ user: userWithRole('admin'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null }).staff()).toEqual('staff');
+    expect(await createCaller({ user: userWithRole('cashier'), sessionId: 1, twoFactorEnrollmentRequired: false, apiKey: null, ip: null }).staff()).toEqual('staff');
+  });
+
+  it('should keep users who still have to enroll in two-factor on the enrollment routes', async () => {
+    const caller = createCaller({ user: userWithRole('doctor'), sessionId: 1, twoFactorEnrollmentRequired: true, apiKey: null, ip: null });
+
+    expect(await caller.enroll()).toEqual('enroll');
+    await expectCode(caller.whoami(), 'FORBIDDEN');
+    await expectCode(caller.doctor(), 'FORBIDDEN');
+  });
+});
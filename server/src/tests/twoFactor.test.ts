@@ -0,0 +1,377 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, userTwoFactorTable, twoFactorRecoveryCodesTable, loginAttemptsTable } from '../db/schema';
+import {
+  base32Encode,
+  base32Decode,
+  generateHotp,
+  generateTotp,
+  findTotpStep,
+  buildProvisioningUri,
+  getTwoFactorStatus,
+  beginTwoFactorEnrollment,
+  confirmTwoFactorEnrollment,
+  verifyTwoFactorCode,
+  regenerateRecoveryCodes,
+  disableTwoFactor,
+  resetUserTwoFactor,
+  getTwoFactorPolicies,
+  setTwoFactorPolicy
+} from '../handlers/twoFactor';
+import {
+  hashPassword,
+  loginUser,
+  verifyTwoFactorLogin,
+  authenticateToken,
+  generateChallengeToken,
+  verifyChallengeToken,
+  verifyToken
+} from '../handlers/auth';
+import { isEncrypted } from '../handlers/fieldEncryption';
+import { reencryptPatientData } from '../handlers/patients';
+import { eq } from 'drizzle-orm';
+import * as crypto from 'crypto';
+
+// Fixed clock so codes are reproducible; each 30 second step is a new code
+const NOW = Date.UTC(2024, 0, 15, 12, 0, 0);
+const STEP_MS = 30 * 1000;
+
+// RFC 6238 appendix B uses this ASCII key for its SHA-1 test vectors
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+const createUser = async (role: 'admin' | 'doctor' | 'cashier' = 'doctor') => {
+  const [user] = await db.insert(usersTable)
+    .values({
+      email: `${role}@clinic.com`,
+      password_hash: await hashPassword('password123'),
+      role,
+      first_name: 'Test',
+      last_name: 'User',
+      phone: null
+    })
+    .returning()
+    .execute();
+  return user;
+};
+
+// Enroll a user at NOW and return their secret and recovery codes
+const enroll = async (userId: number) => {
+  const { secret } = await beginTwoFactorEnrollment(userId);
+  const { recoveryCodes } = await confirmTwoFactorEnrollment({ code: generateTotp(secret, NOW) }, userId, NOW);
+  return { secret, recoveryCodes };
+};
+
+describe('TOTP', () => {
+  it('should round-trip base32', () => {
+    const data = Buffer.from('any carnal pleasure');
+
+    expect(base32Decode(base32Encode(data))).toEqual(data);
+    expect(RFC_SECRET).toEqual('GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ');
+  });
+
+  it('should match the RFC 4226 HOTP test values', () => {
+    const key = Buffer.from('12345678901234567890');
+
+    expect(generateHotp(key, 0)).toEqual('755224');
+    expect(generateHotp(key, 1)).toEqual('287082');
+    expect(generateHotp(key, 9)).toEqual('520489');
+  });
+
+  it('should match the RFC 6238 SHA-1 test vectors', () => {
+    expect(generateTotp(RFC_SECRET, 59 * 1000, 8)).toEqual('94287082');
+    expect(generateTotp(RFC_SECRET, 1111111109 * 1000, 8)).toEqual('07081804');
+    expect(generateTotp(RFC_SECRET, 1111111111 * 1000, 8)).toEqual('14050471');
+    expect(generateTotp(RFC_SECRET, 1234567890 * 1000, 8)).toEqual('89005924');
+    expect(generateTotp(RFC_SECRET, 2000000000 * 1000, 8)).toEqual('69279037');
+    expect(generateTotp(RFC_SECRET, 20000000000 * 1000, 8)).toEqual('65353130');
+  });
+
+  it('should accept one step of clock drift and nothing more', () => {
+    const code = generateTotp(RFC_SECRET, NOW);
+
+    expect(findTotpStep(RFC_SECRET, code, NOW)).toEqual(Math.floor(NOW / STEP_MS));
+    expect(findTotpStep(RFC_SECRET, code, NOW + STEP_MS)).not.toBeNull();
+    expect(findTotpStep(RFC_SECRET, code, NOW - STEP_MS)).not.toBeNull();
+    expect(findTotpStep(RFC_SECRET, code, NOW + 2 * STEP_MS)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, 'abcdef', NOW)).toBeNull();
+    expect(findTotpStep(RFC_SECRET, '12345', NOW)).toBeNull();
+  });
+
+  it('should build an otpauth provisioning URI', () => {
+    const uri = buildProvisioningUri(RFC_SECRET, 'doctor@clinic.com');
+
+    expect(uri.startsWith('otpauth://totp/')).toBe(true);
+    expect(uri).toContain(`secret=${RFC_SECRET}`);
+    expect(uri).toContain('digits=6');
+    expect(uri).toContain('period=30');
+    expect(uri).toContain(encodeURIComponent('doctor@clinic.com'));
+  });
+});
+
+describe('two-factor enrollment', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should stay disabled until the first code is confirmed', async () => {
+    const user = await createUser();
+
+    const { secret, provisioningUri } = await beginTwoFactorEnrollment(user.id);
+
+    expect(provisioningUri).toContain(secret);
+    const [stored] = await db.select().from(userTwoFactorTable).where(eq(userTwoFactorTable.user_id, user.id)).execute();
+    expect(isEncrypted(stored.secret)).toBe(true);
+    expect(stored.secret).not.toContain(secret);
+    expect((await getTwoFactorStatus(user.id)).pending).toBe(true);
+    expect((await getTwoFactorStatus(user.id)).enabled).toBe(false);
+
+    const { recoveryCodes } = await confirmTwoFactorEnrollment({ code: generateTotp(secret, NOW) }, user.id, NOW);
+
+    expect(recoveryCodes).toHaveLength(10);
+    const status = await getTwoFactorStatus(user.id);
+    expect(status.enabled).toBe(true);
+    expect(status.recoveryCodesRemaining).toEqual(10);
+  });
+
+  it('should reject a wrong confirmation code', async () => {
+    const user = await createUser();
+    const { secret } = await beginTwoFactorEnrollment(user.id);
+
+    await expect(confirmTwoFactorEnrollment({ code: generateTotp(secret, NOW + 5 * STEP_MS) }, user.id, NOW))
+      .rejects.toThrow(/invalid two-factor code/i);
+  });
+
+  it('should not restart enrollment once enabled', async () => {
+    const user = await createUser();
+    await enroll(user.id);
+
+    await expect(beginTwoFactorEnrollment(user.id)).rejects.toThrow(/already enabled/i);
+  });
+
+  it('should store recovery codes hashed', async () => {
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user.id);
+
+    const rows = await db.select()
+      .from(twoFactorRecoveryCodesTable)
+      .where(eq(twoFactorRecoveryCodesTable.user_id, user.id))
+      .execute();
+    expect(rows.map(row => row.code_hash)).not.toContain(recoveryCodes[0]);
+  });
+
+  it('should re-encrypt secrets with the patient data when keys are rotated', async () => {
+    const originalKeys = process.env['PATIENT_DATA_KEYS'];
+    const oldKey = crypto.randomBytes(32).toString('base64');
+    const newKey = crypto.randomBytes(32).toString('base64');
+
+    try {
+      process.env['PATIENT_DATA_KEYS'] = `old:${oldKey}`;
+      const user = await createUser();
+      const { secret } = await enroll(user.id);
+
+      process.env['PATIENT_DATA_KEYS'] = `new:${newKey},old:${oldKey}`;
+      expect(await reencryptPatientData()).toEqual({ updated: 0, two_factor_secrets_updated: 1 });
+
+      process.env['PATIENT_DATA_KEYS'] = `new:${newKey}`;
+      expect(await verifyTwoFactorCode(user.id, generateTotp(secret, NOW + STEP_MS), NOW + STEP_MS)).toBe(true);
+    } finally {
+      if (originalKeys === undefined) {
+        delete process.env['PATIENT_DATA_KEYS'];
+      } else {
+        process.env['PATIENT_DATA_KEYS'] = originalKeys;
+      }
+    }
+  });
+});
+
+describe('verifyTwoFactorCode', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should not accept the same time step twice', async () => {
+    const user = await createUser();
+    const { secret } = await enroll(user.id);
+    const later = NOW + 2 * STEP_MS;
+
+    // The confirmation already used NOW's step
+    expect(await verifyTwoFactorCode(user.id, generateTotp(secret, NOW), NOW)).toBe(false);
+
+    expect(await verifyTwoFactorCode(user.id, generateTotp(secret, later), later)).toBe(true);
+    expect(await verifyTwoFactorCode(user.id, generateTotp(secret, later), later)).toBe(false);
+  });
+
+  it('should accept each recovery code once', async () => {
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user.id);
+
+    expect(await verifyTwoFactorCode(user.id, recoveryCodes[0].toUpperCase(), NOW)).toBe(true);
+    expect(await verifyTwoFactorCode(user.id, recoveryCodes[0], NOW)).toBe(false);
+    expect((await getTwoFactorStatus(user.id)).recoveryCodesRemaining).toEqual(9);
+  });
+
+  it('should reject codes for users without two-factor', async () => {
+    const user = await createUser();
+
+    expect(await verifyTwoFactorCode(user.id, '123456', NOW)).toBe(false);
+  });
+
+  it('should replace recovery codes on regeneration', async () => {
+    const user = await createUser();
+    const { secret, recoveryCodes } = await enroll(user.id);
+    const later = NOW + 2 * STEP_MS;
+
+    const regenerated = await regenerateRecoveryCodes({ code: generateTotp(secret, later) }, user.id, later);
+
+    expect(regenerated.recoveryCodes).toHaveLength(10);
+    expect(await verifyTwoFactorCode(user.id, recoveryCodes[0], later)).toBe(false);
+    expect(await verifyTwoFactorCode(user.id, regenerated.recoveryCodes[0], later)).toBe(true);
+  });
+});
+
+describe('two-factor login', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should log in directly when two-factor is off', async () => {
+    await createUser();
+
+    const result = await loginUser({ email: 'doctor@clinic.com', password: 'password123' });
+
+    expect(result.twoFactorRequired).toBe(false);
+  });
+
+  it('should require a second step when two-factor is on', async () => {
+    const user = await createUser();
+    const { secret } = await enroll(user.id);
+    const later = NOW + STEP_MS;
+
+    const challenge = await loginUser({ email: 'doctor@clinic.com', password: 'password123' });
+    if (!challenge.twoFactorRequired) {
+      throw new Error('Expected a two-factor challenge');
+    }
+    expect(verifyToken(challenge.challengeToken)).toBeNull();
+
+    const result = await verifyTwoFactorLogin({ challenge_token: challenge.challengeToken, code: generateTotp(secret, later) }, null, later);
+
+    expect(result.user.id).toEqual(user.id);
+    expect(result.user).not.toHaveProperty('password_hash');
+    expect(verifyToken(result.token)!.sub).toEqual(user.id.toString());
+  });
+
+  it('should accept a recovery code as the second step', async () => {
+    const user = await createUser();
+    const { recoveryCodes } = await enroll(user.id);
+
+    const result = await verifyTwoFactorLogin({ challenge_token: generateChallengeToken(user), code: recoveryCodes[3] }, null, NOW);
+
+    expect(result.user.id).toEqual(user.id);
+  });
+
+  it('should count a wrong code as a failed login', async () => {
+    const user = await createUser();
+    await enroll(user.id);
+
+    await expect(verifyTwoFactorLogin({ challenge_token: generateChallengeToken(user), code: '000000' }, '10.0.0.1', NOW + 10 * STEP_MS))
+      .rejects.toThrow(/invalid two-factor code/i);
+
+    const attempts = await db.select().from(loginAttemptsTable).execute();
+    expect(attempts).toHaveLength(1);
+    expect(attempts[0].succeeded).toBe(false);
+    expect(attempts[0].ip_address).toEqual('10.0.0.1');
+  });
+
+  it('should not reveal that an account was deactivated', async () => {
+    const user = await createUser();
+    const { secret } = await enroll(user.id);
+    const challengeToken = generateChallengeToken(user);
+    await db.update(usersTable).set({ is_active: false }).where(eq(usersTable.id, user.id)).execute();
+
+    await expect(verifyTwoFactorLogin({ challenge_token: challengeToken, code: generateTotp(secret, NOW + STEP_MS) }, null, NOW + STEP_MS))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+
+  it('should not accept access tokens as challenges', async () => {
+    await createUser('cashier');
+    const result = await loginUser({ email: 'cashier@clinic.com', password: 'password123' });
+    if (result.twoFactorRequired) {
+      throw new Error('Unexpected two-factor challenge');
+    }
+
+    expect(verifyChallengeToken(result.token)).toBeNull();
+    await expect(verifyTwoFactorLogin({ challenge_token: result.token, code: '000000' }))
+      .rejects.toThrow(/invalid or has expired/i);
+  });
+});
+
+describe('two-factor policy', () => {
+  let adminId: number;
+
+  beforeEach(async () => {
+    await createDB();
+    adminId = (await createUser('admin')).id;
+  });
+
+  afterEach(resetDB);
+
+  it('should list every role, defaulting to not required', async () => {
+    await setTwoFactorPolicy({ role: 'doctor', required: true }, adminId);
+
+    const policies = await getTwoFactorPolicies();
+
+    expect(policies.map(policy => policy.role)).toEqual(['admin', 'doctor', 'cashier', 'pharmacist', 'nurse', 'receptionist']);
+    expect(policies.find(policy => policy.role === 'doctor')!.required).toBe(true);
+    expect(policies.find(policy => policy.role === 'doctor')!.updated_by).toEqual(adminId);
+    expect(policies.find(policy => policy.role === 'cashier')!.required).toBe(false);
+  });
+
+  it('should flag unenrolled users of a required role until they enroll', async () => {
+    const doctor = await createUser('doctor');
+    await setTwoFactorPolicy({ role: 'doctor', required: true }, adminId);
+
+    const result = await loginUser({ email: 'doctor@clinic.com', password: 'password123' });
+    if (result.twoFactorRequired) {
+      throw new Error('Unexpected two-factor challenge');
+    }
+    expect(result.twoFactorEnrollmentRequired).toBe(true);
+    expect((await authenticateToken(result.token))!.twoFactorEnrollmentRequired).toBe(true);
+
+    await enroll(doctor.id);
+
+    expect((await authenticateToken(result.token))!.twoFactorEnrollmentRequired).toBe(false);
+  });
+
+  it('should not let users of a required role disable two-factor', async () => {
+    const doctor = await createUser('doctor');
+    const { secret } = await enroll(doctor.id);
+    await setTwoFactorPolicy({ role: 'doctor', required: true }, adminId);
+    const later = NOW + 2 * STEP_MS;
+
+    await expect(disableTwoFactor({ password: 'password123', code: generateTotp(secret, later) }, doctor.id, later))
+      .rejects.toThrow(/required for your role/i);
+
+    await setTwoFactorPolicy({ role: 'doctor', required: false }, adminId);
+    await disableTwoFactor({ password: 'password123', code: generateTotp(secret, later) }, doctor.id, later);
+
+    expect((await getTwoFactorStatus(doctor.id)).enabled).toBe(false);
+  });
+
+  it('should need the password to disable two-factor', async () => {
+    const doctor = await createUser('doctor');
+    const { secret } = await enroll(doctor.id);
+    const later = NOW + 2 * STEP_MS;
+
+    await expect(disableTwoFactor({ password: 'wrong-password', code: generateTotp(secret, later) }, doctor.id, later))
+      .rejects.toThrow(/password is incorrect/i);
+  });
+
+  it('should let an admin reset a user\'s two-factor', async () => {
+    const doctor = await createUser('doctor');
+    await enroll(doctor.id);
+
+    await resetUserTwoFactor({ id: doctor.id });
+
+    const rows = await db.select().from(userTwoFactorTable).execute();
+    expect(rows).toHaveLength(0);
+    expect((await getTwoFactorStatus(doctor.id)).recoveryCodesRemaining).toEqual(0);
+  });
+});
@@ -0,0 +1,235 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, patientsTable, prescriptionsTable } from '../db/schema';
+import { type ListUsersInput } from '../schema';
+import { listUsers, updateUserRole, setUserActive, resetUserPassword } from '../handlers/users';
+import { verifyPassword } from '../handlers/auth';
+import { createSession, getActiveSessionsByUserId } from '../handlers/sessions';
+import { eq } from 'drizzle-orm';
+
+// Test data
+const testAdmin = {
+  email: 'admin@clinic.com',
+  password_hash: 'hashedpassword',
+  role: 'admin' as const,
+  first_name: 'Alice',
+  last_name: 'Admin',
+  phone: null
+};
+
+const testDoctor = {
+  email: 'doctor@clinic.com',
+  password_hash: 'hashedpassword',
+  role: 'doctor' as const,
+  first_name: 'Dana',
+  last_name: 'Doctor',
+  phone: '555-0100'
+};
+
+const testCashier = {
+  email: 'cashier@clinic.com',
+  password_hash: 'hashedpassword',
+  role: 'cashier' as const,
+  first_name: 'Carl',
+  last_name: 'Cashier',
+  phone: null
+};
+
+const testPatient = {
+  first_name: 'Jane',
+  last_name: 'Doe',
+  email: 'jane@test.com',
+  phone: '555-0124',
+  address: '123 Main St',
+  gender: 'female' as const,
+  birthdate: '1990-01-01',
+  allergies: null,
+  chronic_conditions: null,
+  medical_history: null
+};
+
+const defaultListInput: ListUsersInput = {
+  page: 1,
+  page_size: 20,
+  role: undefined,
+  is_active: undefined,
+  search: undefined
+};
+
+describe('listUsers', () => {
+  beforeEach(async () => {
+    await createDB();
+    await db.insert(usersTable).values([testAdmin, testDoctor, testCashier]).execute();
+  });
+  afterEach(resetDB);
+
+  it('should list all users without password hashes', async () => {
+    const result = await listUsers(defaultListInput);
+
+    expect(result.total).toEqual(3);
+    expect(result.users).toHaveLength(3);
+    expect(result.page).toEqual(1);
+    expect(result.page_size).toEqual(20);
+    result.users.forEach(user => {
+      expect(user).not.toHaveProperty('password_hash');
+    });
+  });
+
+  it('should paginate results', async () => {
+    const firstPage = await listUsers({ ...defaultListInput, page: 1, page_size: 2 });
+    const secondPage = await listUsers({ ...defaultListInput, page: 2, page_size: 2 });
+
+    expect(firstPage.total).toEqual(3);
+    expect(firstPage.users).toHaveLength(2);
+    expect(secondPage.users).toHaveLength(1);
+    expect(secondPage.users[0].email).toEqual('cashier@clinic.com');
+  });
+
+  it('should filter by role and active status', async () => {
+    await db.update(usersTable)
+      .set({ is_active: false })
+      .where(eq(usersTable.email, 'cashier@clinic.com'))
+      .execute();
+
+    const doctors = await listUsers({ ...defaultListInput, role: 'doctor' });
+    expect(doctors.total).toEqual(1);
+    expect(doctors.users[0].email).toEqual('doctor@clinic.com');
+
+    const inactive = await listUsers({ ...defaultListInput, is_active: false });
+    expect(inactive.total).toEqual(1);
+    expect(inactive.users[0].email).toEqual('cashier@clinic.com');
+  });
+
+  it('should search by name or email', async () => {
+    const byName = await listUsers({ ...defaultListInput, search: 'dana' });
+    expect(byName.users).toHaveLength(1);
+    expect(byName.users[0].role).toEqual('doctor');
+
+    const byEmail = await listUsers({ ...defaultListInput, search: 'cashier@' });
+    expect(byEmail.users).toHaveLength(1);
+    expect(byEmail.users[0].role).toEqual('cashier');
+  });
+});
+
+describe('updateUserRole', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should change a user role', async () => {
+    const [cashier] = await db.insert(usersTable).values(testCashier).returning().execute();
+
+    const result = await updateUserRole({ id: cashier.id, role: 'doctor' });
+
+    expect(result.role).toEqual('doctor');
+    expect(result).not.toHaveProperty('password_hash');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, cashier.id)).execute();
+    expect(users[0].role).toEqual('doctor');
+  });
+
+  it('should refuse to demote the last active admin', async () => {
+    const [admin] = await db.insert(usersTable).values(testAdmin).returning().execute();
+
+    await expect(updateUserRole({ id: admin.id, role: 'doctor' })).rejects.toThrow(/last active admin/i);
+  });
+
+  it('should allow demoting an admin when another admin remains', async () => {
+    const [admin] = await db.insert(usersTable).values(testAdmin).returning().execute();
+    await db.insert(usersTable).values({ ...testAdmin, email: 'admin2@clinic.com' }).execute();
+
+    const result = await updateUserRole({ id: admin.id, role: 'doctor' });
+
+    expect(result.role).toEqual('doctor');
+  });
+
+  it('should throw for non-existent user', async () => {
+    await expect(updateUserRole({ id: 999, role: 'doctor' })).rejects.toThrow(/not found/i);
+  });
+});
+
+describe('setUserActive', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should deactivate and reactivate a user', async () => {
+    const [cashier] = await db.insert(usersTable).values(testCashier).returning().execute();
+
+    const deactivated = await setUserActive({ id: cashier.id, is_active: false });
+    expect(deactivated.user.is_active).toBe(false);
+    expect(deactivated.openPrescriptions).toHaveLength(0);
+
+    const reactivated = await setUserActive({ id: cashier.id, is_active: true });
+    expect(reactivated.user.is_active).toBe(true);
+  });
+
+  it('should report open prescriptions when deactivating a doctor', async () => {
+    const [doctor] = await db.insert(usersTable).values(testDoctor).returning().execute();
+    const [patient] = await db.insert(patientsTable).values(testPatient).returning().execute();
+
+    await db.insert(prescriptionsTable).values([
+      { patient_id: patient.id, doctor_id: doctor.id, status: 'pending' },
+      { patient_id: patient.id, doctor_id: doctor.id, status: 'partially_filled' },
+      { patient_id: patient.id, doctor_id: doctor.id, status: 'filled' }
+    ]).execute();
+
+    const result = await setUserActive({ id: doctor.id, is_active: false });
+
+    expect(result.user.is_active).toBe(false);
+    expect(result.openPrescriptions).toHaveLength(2);
+    result.openPrescriptions.forEach(prescription => {
+      expect(prescription.status).not.toEqual('filled');
+    });
+  });
+
+  it('should revoke all sessions when deactivating a user', async () => {
+    const [cashier] = await db.insert(usersTable).values(testCashier).returning().execute();
+    await createSession(cashier.id);
+    await createSession(cashier.id);
+
+    await setUserActive({ id: cashier.id, is_active: false });
+
+    expect(await getActiveSessionsByUserId(cashier.id)).toHaveLength(0);
+  });
+
+  it('should refuse to deactivate the last active admin', async () => {
+    const [admin] = await db.insert(usersTable).values(testAdmin).returning().execute();
+
+    await expect(setUserActive({ id: admin.id, is_active: false })).rejects.toThrow(/last active admin/i);
+  });
+
+  it('should throw for non-existent user', async () => {
+    await expect(setUserActive({ id: 999, is_active: false })).rejects.toThrow(/not found/i);
+  });
+});
+
+describe('resetUserPassword', () => {
+  beforeEach(createDB);
+  afterEach(resetDB);
+
+  it('should set a new temporary password', async () => {
+    const [cashier] = await db.insert(usersTable).values(testCashier).returning().execute();
+
+    const result = await resetUserPassword({ id: cashier.id });
+
+    expect(result.temporaryPassword.length).toBeGreaterThanOrEqual(12);
+    expect(result.user).not.toHaveProperty('password_hash');
+
+    const users = await db.select().from(usersTable).where(eq(usersTable.id, cashier.id)).execute();
+    expect(users[0].password_hash).not.toEqual('hashedpassword');
+    expect(await verifyPassword(result.temporaryPassword, users[0].password_hash)).toBe(true);
+  });
+
+  it('should sign the user out everywhere', async () => {
+    const [cashier] = await db.insert(usersTable).values(testCashier).returning().execute();
+    await createSession(cashier.id);
+
+    await resetUserPassword({ id: cashier.id });
+
+    expect(await getActiveSessionsByUserId(cashier.id)).toHaveLength(0);
+  });
+
+  it('should throw for non-existent user', async () => {
+    await expect(resetUserPassword({ id: 999 })).rejects.toThrow(/not found/i);
+  });
+});
@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it } from 'bun:test';
+import { z } from 'zod';
+import { resetDB, createDB } from '../helpers';
+import { db } from '../db';
+import { usersTable, vitalsTable } from '../db/schema';
+import { recordVitalsInputSchema, type Patient } from '../schema';
+import { createPatient } from '../handlers/patients';
+import { openEncounter } from '../handlers/encounters';
+import { getLatestWeight, getVitalsHistory, recordVitals } from '../handlers/vitals';
+import { eq } from 'drizzle-orm';
+
+describe('vitals', () => {
+  let nurseId: number;
+  let patient: Patient;
+
+  // Apply schema defaults (units) the way the router would
+  const record = (input: z.input<typeof recordVitalsInputSchema>) =>
+    recordVitals(recordVitalsInputSchema.parse(input), nurseId);
+
+  beforeEach(async () => {
+    await createDB();
+    const [nurse] = await db.insert(usersTable)
+      .values({
+        email: 'nurse@clinic.com',
+        password_hash: 'hashedpassword',
+        role: 'nurse',
+        first_name: 'Nina',
+        last_name: 'Nurse',
+        phone: null
+      })
+      .returning()
+      .execute();
+    nurseId = nurse.id;
+    patient = await createPatient({ first_name: 'Jane', last_name: 'Doe', gender: 'female', birthdate: new Date('1985-06-15') });
+  });
+
+  afterEach(resetDB);
+
+  it('should record readings, compute BMI and flag abnormal values', async () => {
+    const vitals = await record({
+      patient_id: patient.id,
+      systolic_bp: 150,
+      diastolic_bp: 85,
+      pulse: 72,
+      temperature: 38.4,
+      spo2: 91,
+      weight: 80,
+      height: 170
+    });
+
+    expect(vitals.recorded_by).toEqual(nurseId);
+    expect(vitals.temperature_c).toEqual(38.4);
+    expect(vitals.bmi).toEqual(27.7);
+    expect(vitals.abnormal_flags).toEqual(['systolic_bp_high', 'temperature_c_high', 'spo2_low']);
+  });
+
+  it('should convert imperial units', async () => {
+    const vitals = await record({
+      patient_id: patient.id,
+      temperature: 98.6,
+      temperature_unit: 'F',
+      weight: 154,
+      weight_unit: 'lb',
+      height: 65,
+      height_unit: 'in'
+    });
+
+    expect(vitals.temperature_c).toEqual(37);
+    expect(vitals.weight_kg).toEqual(69.85);
+    expect(vitals.height_cm).toEqual(165.1);
+    expect(vitals.abnormal_flags).toEqual([]);
+  });
+
+  it('should use the latest height on file for BMI', async () => {
+    await record({ patient_id: patient.id, height: 160 });
+
+    const vitals = await record({ patient_id: patient.id, weight: 81 });
+
+    expect(vitals.height_cm).toBeNull();
+    expect(vitals.bmi).toEqual(31.6);
+    expect(vitals.abnormal_flags).toEqual(['bmi_high']);
+  });
+
+  it('should reject implausible or empty readings', async () => {
+    await expect(record({ patient_id: patient.id, pulse: 400 })).rejects.toThrow(/outside the plausible range/);
+    await expect(record({ patient_id: patient.id, temperature: 98.6 })).rejects.toThrow(/temperature_c of 98.6/);
+    await expect(record({ patient_id: patient.id, systolic_bp: 80, diastolic_bp: 90 })).rejects.toThrow(/lower than systolic/);
+    await expect(record({ patient_id: patient.id, notes: 'Patient refused' })).rejects.toThrow(/at least one vital sign/i);
+    await expect(record({ patient_id: 999, pulse: 70 })).rejects.toThrow(/not found/);
+  });
+
+  it('should link readings to the patient\'s encounter and encrypt notes', async () => {
+    const encounter = await openEncounter({ patient_id: patient.id }, nurseId);
+
+    const vitals = await record({ patient_id: patient.id, encounter_id: encounter.id, pulse: 70, notes: 'Anxious' });
+
+    const [row] = await db.select()
+      .from(vitalsTable)
+      .where(eq(vitalsTable.id, vitals.id))
+      .execute();
+
+    expect(vitals.encounter_id).toEqual(encounter.id);
+    expect(vitals.notes).toEqual('Anxious');
+    expect(row.notes?.startsWith('enc:')).toBe(true);
+  });
+
+  it('should return time series per metric, oldest first', async () => {
+    const first = await record({ patient_id: patient.id, pulse: 110, weight: 70, recorded_at: new Date('2026-01-01T09:00:00Z') });
+    const second = await record({ patient_id: patient.id, pulse: 80, recorded_at: new Date('2026-02-01T09:00:00Z') });
+
+    const history = await getVitalsHistory({ patient_id: patient.id, metrics: ['pulse', 'weight_kg'] });
+
+    expect(history.units).toEqual({ pulse: 'bpm', weight_kg: 'kg' });
+    expect(history.series['pulse']).toEqual([
+      { vitals_id: first.id, recorded_at: first.recorded_at, value: 110, abnormal: 'high' },
+      { vitals_id: second.id, recorded_at: second.recorded_at, value: 80, abnormal: null }
+    ]);
+    expect(history.series['weight_kg']?.map(point => point.value)).toEqual([70]);
+
+    const recent = await getVitalsHistory({ patient_id: patient.id, from: new Date('2026-01-15') });
+    expect(recent.series['pulse']).toHaveLength(1);
+  });
+
+  it('should find the latest weight within a window', async () => {
+    await record({ patient_id: patient.id, weight: 70, recorded_at: new Date('2025-01-01') });
+    await record({ patient_id: patient.id, weight: 72 });
+
+    expect((await getLatestWeight(patient.id))?.value).toEqual(72);
+    expect(await getLatestWeight(patient.id, new Date(Date.now() + 60 * 60 * 1000))).toBeNull();
+  });
+});
@@ -0,0 +1,280 @@
+import { initTRPC, TRPCError } from '@trpc/server';
+import { type IncomingMessage } from 'http';
+import superjson from 'superjson';
+import { authenticateToken } from './handlers/auth';
+import { authenticateApiKey, isApiKey, type ApiKeyPrincipal } from './handlers/apiKeys';
+import { diffSnapshots, recordAuditEvent } from './handlers/audit';
+import { roleHasPermission } from './handlers/permissions';
+import { canAccessPatient } from './handlers/breakGlass';
+import { DuplicatePatientError } from './handlers/patients';
+import { type ApiKeyScope, type AuditAction, type Permission, type User, type UserRole } from './schema';
+
+// A request is made either by a staff member (user + session) or by an
+// integration presenting an API key, never both
+export interface Context {
+  user: User | null;
+  sessionId: number | null;
+  // Set when the user's role requires two-factor and they have not enrolled
+  twoFactorEnrollmentRequired: boolean;
+  apiKey: ApiKeyPrincipal | null;
+  ip: string | null;
+}
+
+// Extract the token from an `Authorization: Bearer <token>` header
+export function getBearerToken(header: string | undefined): string | null {
+  if (!header) {
+    return null;
+  }
+
+  const [scheme, token] = header.split(' ');
+  if (scheme?.toLowerCase() !== 'bearer' || !token) {
+    return null;
+  }
+
+  return token;
+}
+
+// Proxies whose X-Forwarded-For header is believed: TRUSTED_PROXIES holds a
+// comma-separated list of addresses and defaults to the local Caddy proxy.
+// Requests from anywhere else could forge the header.
+const DEFAULT_TRUSTED_PROXIES = '127.0.0.1,::1';
+
+// IPv4 peers of a dual-stack socket show up as ::ffff:a.b.c.d
+const normalizeIp = (address: string): string => address.trim().replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '');
+
+function getTrustedProxies(): Set<string> {
+  const configured = process.env['TRUSTED_PROXIES'] ?? DEFAULT_TRUSTED_PROXIES;
+  return new Set(configured.split(',').map(normalizeIp).filter(address => address.length > 0));
+}
+
+// Client address. X-Forwarded-For is only followed when the socket peer is a
+// trusted proxy, taking the nearest hop that is not itself a trusted proxy.
+export function getClientIp(req: Pick<IncomingMessage, 'headers'> & { socket?: { remoteAddress?: string } }): string | null {
+  const peer = req.socket?.remoteAddress ? normalizeIp(req.socket.remoteAddress) : null;
+  const trusted = getTrustedProxies();
+  if (!peer || !trusted.has(peer)) {
+    return peer;
+  }
+
+  const forwarded = req.headers['x-forwarded-for'];
+  const hops = (Array.isArray(forwarded) ? forwarded.join(',') : forwarded ?? '')
+    .split(',')
+    .map(normalizeIp)
+    .filter(hop => hop.length > 0);
+
+  for (let i = hops.length - 1; i >= 0; i--) {
+    if (!trusted.has(hops[i])) {
+      return hops[i];
+    }
+  }
+
+  return hops[0] ?? peer;
+}
+
+// Resolve the bearer token on each request into the calling user or API key
+export async function createContext({ req }: { req: Pick<IncomingMessage, 'headers'> & { socket?: { remoteAddress?: string } } }): Promise<Context> {
+  const token = getBearerToken(req.headers.authorization);
+  const ip = getClientIp(req);
+
+  if (token && isApiKey(token)) {
+    return {
+      user: null,
+      sessionId: null,
+      twoFactorEnrollmentRequired: false,
+      apiKey: await authenticateApiKey(token, ip),
+      ip
+    };
+  }
+
+  const auth = token ? await authenticateToken(token) : null;
+
+  return {
+    user: auth ? auth.user : null,
+    sessionId: auth ? auth.sessionId : null,
+    twoFactorEnrollmentRequired: auth ? auth.twoFactorEnrollmentRequired : false,
+    apiKey: null,
+    ip
+  };
+}
+
+const t = initTRPC.context<Context>().create({
+  transformer: superjson,
+  // Lets the client show the existing patients a registration may duplicate
+  errorFormatter: ({ shape, error }) => ({
+    ...shape,
+    data: {
+      ...shape.data,
+      duplicates: error.cause instanceof DuplicatePatientError ? error.cause.candidates : null
+    }
+  }),
+});
+
+export const router = t.router;
+export const createCallerFactory = t.createCallerFactory;
+
+export const publicProcedure = t.procedure;
+
+// Requires a valid, active user session; narrows ctx.user to non-null. Only
+// for routes a user must reach before finishing two-factor enrollment.
+export const authenticatedProcedure = t.procedure.use(({ ctx, next }) => {
+  if (ctx.apiKey) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Not available to API keys' });
+  }
+
+  if (!ctx.user || ctx.sessionId === null) {
+    throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+  }
+
+  return next({ ctx: { ...ctx, user: ctx.user, sessionId: ctx.sessionId } });
+});
+
+// Requires a session whose user has met the two-factor policy for their role
+export const protectedProcedure = authenticatedProcedure.use(({ ctx, next }) => {
+  if (ctx.twoFactorEnrollmentRequired) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor enrollment required for your role' });
+  }
+
+  return next();
+});
+
+// Requires the user to hold one of the given roles. Used for system
+// administration; clinical procedures check permissions instead.
+export function roleProcedure(roles: UserRole[]) {
+  return protectedProcedure.use(({ ctx, next }) => {
+    if (!roles.includes(ctx.user.role)) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: `Requires role: ${roles.join(' or ')}` });
+    }
+
+    return next();
+  });
+}
+
+export const adminProcedure = roleProcedure(['admin']);
+
+async function assertPermission(role: UserRole, permission: Permission): Promise<void> {
+  if (!(await roleHasPermission(role, permission))) {
+    throw new TRPCError({ code: 'FORBIDDEN', message: `Missing permission: ${permission}` });
+  }
+}
+
+// Requires the user's role to hold the permission in the permission matrix
+export function permissionProcedure(permission: Permission) {
+  return protectedProcedure.use(async ({ ctx, next }) => {
+    await assertPermission(ctx.user.role, permission);
+    return next();
+  });
+}
+
+// Open to an API key holding the scope, and to staff whose role holds the
+// permission. ctx.user is null for API key calls.
+export function scopedProcedure(scope: ApiKeyScope, permission: Permission) {
+  return t.procedure.use(async ({ ctx, next }) => {
+    if (ctx.apiKey) {
+      if (!ctx.apiKey.scopes.includes(scope)) {
+        throw new TRPCError({ code: 'FORBIDDEN', message: `API key is missing scope: ${scope}` });
+      }
+      return next();
+    }
+
+    if (!ctx.user || ctx.sessionId === null) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+    }
+
+    if (ctx.twoFactorEnrollmentRequired) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Two-factor enrollment required for your role' });
+    }
+
+    await assertPermission(ctx.user.role, permission);
+    return next();
+  });
+}
+
+// Rejects input that sets any of the given fields unless the user's role
+// holds the permission. Attach it after .input().
+export function fieldPermission(permission: Permission, fields: readonly string[]) {
+  return t.middleware(async ({ ctx, input, next }) => {
+    const values = input && typeof input === 'object' ? input as Record<string, unknown> : {};
+    if (!fields.some(field => values[field] !== undefined)) {
+      return next();
+    }
+
+    if (!ctx.user) {
+      throw new TRPCError({ code: 'UNAUTHORIZED', message: 'Authentication required' });
+    }
+
+    await assertPermission(ctx.user.role, permission);
+    return next();
+  });
+}
+
+export interface AuditOptions {
+  action: AuditAction;
+  entityType: string;
+  // Where the entity id comes from: a numeric input field, or the `id` of
+  // the returned row (for creates)
+  idFrom: { input: string } | 'result';
+  // Loads the entity so updates can record a before/after diff
+  snapshot?: (id: number) => Promise<object | null>;
+  // Fields whose values are masked in the diff
+  redact?: readonly string[];
+}
+
+function readId(source: unknown, field: string): number | null {
+  if (source && typeof source === 'object') {
+    const value = (source as Record<string, unknown>)[field];
+    return typeof value === 'number' ? value : null;
+  }
+  return null;
+}
+
+// Rejects calls for a restricted patient, identified by the given numeric
+// input field, unless the user may open it (see handlers/breakGlass); API keys
+// never may. For records belonging to a patient, `toPatientId` maps the
+// field's id to the patient's. Attach it after .input().
+export function restrictedPatientAccess(field: string, toPatientId?: (id: number) => Promise<number | null>) {
+  return t.middleware(async ({ ctx, input, next }) => {
+    const id = readId(input, field);
+    const patientId = id !== null && toPatientId ? await toPatientId(id) : id;
+    if (patientId !== null && !(await canAccessPatient(ctx.user, patientId))) {
+      throw new TRPCError({ code: 'FORBIDDEN', message: 'Patient record is restricted; break-glass access required' });
+    }
+
+    return next();
+  });
+}
+
+// Writes an audit log entry for every successful call of the procedure.
+// Attach it after .input() so the parsed input is available. The entry is
+// written after the procedure has run, outside its transaction: if it cannot
+// be written the call fails and nothing is returned, but a change has already
+// been committed and stays in place without an entry.
+export function audited(options: AuditOptions) {
+  return t.middleware(async ({ ctx, path, input, next }) => {
+    const inputId = options.idFrom === 'result' ? null : readId(input, options.idFrom.input);
+    const before = options.snapshot && inputId !== null ? await options.snapshot(inputId) : null;
+
+    const result = await next();
+    if (!result.ok) {
+      return result;
+    }
+
+    const entityId = options.idFrom === 'result' ? readId(result.data, 'id') : inputId;
+    const after = options.snapshot && entityId !== null && options.action === 'update'
+      ? await options.snapshot(entityId)
+      : null;
+
+    await recordAuditEvent({
+      actorId: ctx.user ? ctx.user.id : null,
+      actorRole: ctx.user ? ctx.user.role : null,
+      apiKeyId: ctx.apiKey ? ctx.apiKey.id : null,
+      action: options.action,
+      procedure: path,
+      entityType: options.entityType,
+      entityId,
+      changes: options.action === 'update' ? diffSnapshots(before, after, options.redact) : null,
+      ipAddress: ctx.ip
+    });
+
+    return result;
+  });
+}